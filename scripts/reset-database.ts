@@ -16,14 +16,26 @@ import { env } from '../src/config/env'
 
 // Import models to ensure they're registered
 import '../src/modules/users/user.model'
+import '../src/modules/users/data-export.model'
 import '../src/modules/diary/diary.model'
+import '../src/modules/meal-templates/meal-template.model'
 import '../src/modules/problematic-foods/problematic-food.model'
 import '../src/modules/news/news.model'
 import '../src/modules/achievements/achievement.model'
 import '../src/modules/achievements/user-achievement.model'
+import '../src/modules/insights/user-discovery.model'
+import '../src/modules/reintroduction/reintroduction-challenge.model'
+import '../src/modules/notifications/notification.model'
+import '../src/modules/notifications/notification-outbox.model'
+import '../src/modules/notifications/push-subscription.model'
 import '../src/modules/foods/food.model'
+import '../src/modules/custom-foods/custom-food.model'
 import '../src/modules/auth/refresh-token.model'
+import '../src/modules/auth/password-reset-token.model'
+import '../src/modules/auth/email-verification-token.model'
 import '../src/modules/auth/login-attempt.model'
+import '../src/modules/jobs/job-lock.model'
+import '../src/modules/jobs/job-run.model'
 
 // =============================================================================
 // Collections to clean
@@ -33,17 +45,38 @@ const COLLECTIONS = {
   // User data
   users: 'users',
   refreshtokens: 'refreshtokens',
+  password_reset_tokens: 'password_reset_tokens',
+  email_verification_tokens: 'email_verification_tokens',
+  data_exports: 'data_exports',
   
   // Diary
   diaryentries: 'diaryentries',
+  meal_templates: 'meal_templates',
+  custom_foods: 'custom_foods',
   problematicfoods: 'problematicfoods',
   
   // Achievements
   achievements: 'achievements',
   userachievements: 'userachievements',
   
+  // Insights
+  user_discoveries: 'user_discoveries',
+  reintroduction_challenges: 'reintroduction_challenges',
+
+  // Notifications
+  notifications: 'notifications',
+  notification_outbox: 'notification_outbox',
+  push_subscriptions: 'push_subscriptions',
+
+  // Scheduler
+  job_locks: 'job_locks',
+  job_runs: 'job_runs',
+  
   // News
   newsarticles: 'newsarticles',
+
+  // ID sequences (re-synced from the highest ID in use on next allocation)
+  id_counters: 'id_counters',
   
   // Foods (base de dados - demora pra seed)
   foods: 'foods',
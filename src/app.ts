@@ -6,6 +6,7 @@
  * - Swagger documentation
  * - Global error handling
  * - Rate limiting
+ * - Maintenance mode
  * - Security headers
  */
 
@@ -15,15 +16,21 @@ import { swagger } from '@elysiajs/swagger'
 import { env } from '@/config'
 import { staticPlugin } from '@elysiajs/static'
 import { errorHandler } from '@/shared/errors'
-import { globalRateLimiter } from '@/shared/middlewares'
+import { globalRateLimiter, maintenanceGuard } from '@/shared/middlewares'
 import { authController } from '@/modules/auth'
 import { usersController } from '@/modules/users'
 import { foodsController } from '@/modules/foods'
+import { customFoodsController } from '@/modules/custom-foods'
 import { diaryController } from '@/modules/diary'
+import { mealTemplatesController } from '@/modules/meal-templates'
 import { problematicFoodsController } from '@/modules/problematic-foods'
 import { insightsController } from '@/modules/insights'
 import { newsController } from '@/modules/news'
 import { achievementsController } from '@/modules/achievements'
+import { reintroductionController } from '@/modules/reintroduction'
+import { notificationsController } from '@/modules/notifications'
+import { eventsController } from '@/modules/events'
+import { reportsController } from '@/modules/reports'
 import { adminController } from '@/modules/admin'
 
 // =============================================================================
@@ -58,8 +65,8 @@ export const app = new Elysia({ name: 'ceboelha-api' })
         "connect-src 'self'",
       ].join('; ')
     } else {
-      // Strict CSP for API routes
-      set.headers['Content-Security-Policy'] = "default-src 'self'"
+      // Strict CSP for API routes (unless the route set its own, e.g. HTML reports)
+      set.headers['Content-Security-Policy'] ??= "default-src 'self'"
     }
 
     // Remove server signature
@@ -132,11 +139,17 @@ export const app = new Elysia({ name: 'ceboelha-api' })
           { name: 'Auth', description: 'Autenticação e gerenciamento de sessão' },
           { name: 'Profile', description: 'Perfil do usuário' },
           { name: 'Foods', description: 'Base de dados de alimentos' },
+          { name: 'Custom Foods', description: 'Alimentos e receitas criados pelo usuário' },
           { name: 'Diary', description: 'Diário alimentar' },
+          { name: 'Meal Templates', description: 'Refeições salvas para registro rápido' },
           { name: 'Problematic Foods', description: 'Alimentos problemáticos' },
           { name: 'Insights', description: 'Insights e estatísticas' },
           { name: 'News', description: 'Artigos, receitas e conteúdo educacional' },
           { name: 'Achievements', description: 'Sistema de conquistas e gamificação' },
+          { name: 'Reintroduction', description: 'Desafios de reintrodução FODMAP' },
+          { name: 'Notifications', description: 'Caixa de notificações e entrega (e-mail, push)' },
+          { name: 'Events', description: 'Eventos em tempo real (Server-Sent Events)' },
+          { name: 'Reports', description: 'Relatórios para profissionais de saúde' },
           { name: 'Admin', description: 'Administração (requer role admin)' },
         ],
         components: {
@@ -169,6 +182,7 @@ export const app = new Elysia({ name: 'ceboelha-api' })
   // ============================================================================
   .use(errorHandler)
   .use(globalRateLimiter)
+  .use(maintenanceGuard)
 
   // ============================================================================
   // Health Check
@@ -195,11 +209,17 @@ export const app = new Elysia({ name: 'ceboelha-api' })
       .use(authController)
       .use(usersController)
       .use(foodsController)
+      .use(customFoodsController)
       .use(diaryController)
+      .use(mealTemplatesController)
       .use(problematicFoodsController)
       .use(insightsController)
       .use(newsController)
       .use(achievementsController)
+      .use(reintroductionController)
+      .use(notificationsController)
+      .use(eventsController)
+      .use(reportsController)
       .use(adminController)
   )
 
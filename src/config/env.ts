@@ -26,6 +26,15 @@ if (process.env.JWT_REFRESH_SECRET!.length < MIN_SECRET_LENGTH) {
   throw new Error(`❌ JWT_REFRESH_SECRET must be at least ${MIN_SECRET_LENGTH} characters`)
 }
 
+// Reset and verification links must not end up in stdout/logs in production
+const PRODUCTION_MAIL_TRANSPORTS = ['smtp', 'file']
+if (
+  process.env.NODE_ENV === 'production' &&
+  !PRODUCTION_MAIL_TRANSPORTS.includes(process.env.MAIL_TRANSPORT || '')
+) {
+  throw new Error('❌ MAIL_TRANSPORT must be set to smtp or file in production')
+}
+
 export const env = {
   // Server
   PORT: Number(process.env.PORT) || 3333,
@@ -61,6 +70,39 @@ export const env = {
 
   // Security - Password
   BCRYPT_SALT_ROUNDS: Number(process.env.BCRYPT_SALT_ROUNDS) || 12,
+  PASSWORD_RESET_EXPIRES: Number(process.env.PASSWORD_RESET_EXPIRES) || 3600000, // 1 hour
+  EMAIL_VERIFICATION_EXPIRES: Number(process.env.EMAIL_VERIFICATION_EXPIRES) || 86400000, // 24 hours
+
+  // Frontend (links sent by e-mail)
+  APP_URL: process.env.APP_URL || 'http://localhost:3000',
+
+  // Mail
+  MAIL_TRANSPORT: (process.env.MAIL_TRANSPORT as 'console' | 'file' | 'smtp') || 'console',
+  MAIL_FROM: process.env.MAIL_FROM || 'Ceboelha <no-reply@ceboelha.app>',
+  MAIL_OUTBOX_DIR: process.env.MAIL_OUTBOX_DIR || 'storage/outbox',
+
+  // Mail - SMTP (MAIL_TRANSPORT=smtp)
+  SMTP_HOST: process.env.SMTP_HOST || '',
+  SMTP_PORT: Number(process.env.SMTP_PORT) || 587,
+  SMTP_SECURE: process.env.SMTP_SECURE === 'true', // true for port 465
+  SMTP_USER: process.env.SMTP_USER || '',
+  SMTP_PASS: process.env.SMTP_PASS || '',
+
+  // Notifications - Comma-separated channels: email, push, outbox
+  NOTIFICATION_CHANNELS: process.env.NOTIFICATION_CHANNELS || 'outbox',
+
+  // Web Push (VAPID) - generate with: bunx web-push generate-vapid-keys
+  VAPID_PUBLIC_KEY: process.env.VAPID_PUBLIC_KEY || '',
+  VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY || '',
+  VAPID_SUBJECT: process.env.VAPID_SUBJECT || 'mailto:support@ceboelha.app',
+
+  // Data export (GET /profile/export)
+  DATA_EXPORT_DIR: process.env.DATA_EXPORT_DIR || 'storage/exports',
+  DATA_EXPORT_EXPIRES: Number(process.env.DATA_EXPORT_EXPIRES) || 86400000, // 24 hours
+
+  // Scheduler (cron jobs run in-process; set to false on worker-less instances)
+  SCHEDULER_ENABLED: process.env.SCHEDULER_ENABLED !== 'false',
+  SCHEDULER_TIMEZONE: process.env.SCHEDULER_TIMEZONE || 'America/Sao_Paulo',
 } as const
 
 export type Env = typeof env
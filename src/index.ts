@@ -6,6 +6,7 @@
 
 import { env, connectDatabase, disconnectDatabase } from '@/config'
 import { app } from './app'
+import { startScheduler, stopScheduler } from '@/modules/jobs/jobs.service'
 
 // =============================================================================
 // Startup
@@ -24,6 +25,11 @@ async function main() {
   console.log(`🚀 Server running at http://localhost:${env.PORT}`)
   console.log(`📚 Swagger docs at http://localhost:${env.PORT}/docs`)
 
+  // Start scheduled jobs
+  if (env.SCHEDULER_ENABLED) {
+    startScheduler()
+  }
+
   // Easter egg 💕
   console.log('💕 Made with love for Julia')
 }
@@ -40,6 +46,9 @@ async function shutdown(signal: string) {
     app.stop()
     console.log('✅ Server stopped accepting new requests')
 
+    // Stop scheduling new job runs
+    stopScheduler()
+
     // Close database connection
     await disconnectDatabase()
     console.log('✅ Database connection closed')
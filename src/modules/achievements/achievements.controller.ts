@@ -9,11 +9,12 @@
  */
 
 import { Elysia, t } from 'elysia'
-import { requireAuth } from '@/shared/middlewares'
+import { requireAuth, requireFeature } from '@/shared/middlewares'
 import * as achievementsService from './achievements.service'
 
 export const achievementsController = new Elysia({ prefix: '/insights/achievements' })
   .use(requireAuth)
+  .use(requireFeature('achievements_enabled'))
 
   // ==========================================================================
   // GET /insights/achievements - List all achievements for authenticated user
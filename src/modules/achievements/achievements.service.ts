@@ -5,6 +5,7 @@
  * - Get all achievements with user progress
  * - Update progress and check for unlocks
  * - Initialize achievements for new users
+ * - Notify the user when an achievement is unlocked (SSE, channels, inbox)
  */
 
 import mongoose from 'mongoose'
@@ -13,6 +14,8 @@ import { UserAchievement, type IUserAchievement } from './user-achievement.model
 import { DiaryEntry } from '@/modules/diary/diary.model'
 import { ProblematicFood } from '@/modules/problematic-foods/problematic-food.model'
 import { User } from '@/modules/users/user.model'
+import * as notificationsService from '@/modules/notifications/notifications.service'
+import { emitEvent } from '@/shared/events'
 
 // =============================================================================
 // Types (Frontend Compatible)
@@ -132,6 +135,34 @@ export async function getAll(userId: string): Promise<AchievementsData> {
   return result
 }
 
+/**
+ * Push the unlock to open SSE streams, send the notification and add it
+ * to the inbox in background (never blocks progress updates)
+ */
+function notifyUnlocked(userId: string, achievement: AchievementDTO): void {
+  emitEvent('achievement_unlocked', userId, {
+    id: achievement.id,
+    name: achievement.name,
+    description: achievement.description,
+    emoji: achievement.emoji,
+    xpReward: achievement.xpReward,
+  })
+
+  const vars = {
+    achievementName: achievement.name,
+    achievementDescription: achievement.description,
+    emoji: achievement.emoji,
+  }
+
+  notificationsService
+    .notify(userId, 'achievement_unlocked', vars)
+    .catch((err) => console.error('[Achievements] Failed to notify unlock:', err))
+
+  notificationsService
+    .publishTemplate(userId, 'achievement_unlocked', vars, { achievementId: achievement.id })
+    .catch((err) => console.error('[Achievements] Failed to publish unlock:', err))
+}
+
 /**
  * Update progress for a specific metric and check for unlocks
  */
@@ -202,7 +233,9 @@ export async function updateProgress(
       userAchievement.unlockedAt = new Date()
       userAchievement.progress = target // Cap at target
 
-      newlyUnlocked.push(toDTO(achievement as IAchievement, userAchievement))
+      const dto = toDTO(achievement as IAchievement, userAchievement)
+      newlyUnlocked.push(dto)
+      notifyUnlocked(userId, dto)
     }
 
     await userAchievement.save()
@@ -422,7 +455,9 @@ export async function unlockCustom(
   userAchievement.unlockedAt = new Date()
   await userAchievement.save()
 
-  return toDTO(achievement as IAchievement, userAchievement)
+  const dto = toDTO(achievement as IAchievement, userAchievement)
+  notifyUnlocked(userId, dto)
+  return dto
 }
 
 /**
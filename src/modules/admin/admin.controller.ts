@@ -16,14 +16,24 @@
  * - POST /admin/foods - Create food
  * - PATCH /admin/foods/:id - Update food
  * - DELETE /admin/foods/:id - Delete food
+ * - POST /admin/foods/import/open-food-facts - Import products from an Open Food Facts dump
+ * - GET /admin/food-submissions - Moderation queue of user-submitted foods
+ * - GET /admin/food-submissions/:id - Submission with diffs against similar foods
+ * - POST /admin/food-submissions/:id/approve - Approve into the catalog
+ * - POST /admin/food-submissions/:id/merge - Merge into an existing food
+ * - POST /admin/food-submissions/:id/reject - Reject with a reason
  * - GET /admin/news - List news (paginated)
  * - GET /admin/news/:id - Get news by ID
  * - POST /admin/news - Create news
  * - PATCH /admin/news/:id - Update news
  * - DELETE /admin/news/:id - Delete news
+ * - POST /admin/announcements - Publish an announcement to every user's inbox
  * - GET /admin/settings - Get system settings
  * - PATCH /admin/settings - Update system settings
  * - GET /admin/analytics - Get analytics data
+ * - GET /admin/jobs - List scheduled jobs with last run
+ * - GET /admin/jobs/:name/runs - Run history of a job
+ * - POST /admin/jobs/:name/run - Run a job now
  */
 
 import { Elysia } from 'elysia'
@@ -38,9 +48,16 @@ import {
   adminFoodsQuerySchema,
   createFoodBodySchema,
   updateFoodBodySchema,
+  importOpenFoodFactsBodySchema,
+  foodSubmissionsQuerySchema,
+  submissionIdParamSchema,
+  approveFoodSubmissionBodySchema,
+  mergeFoodSubmissionBodySchema,
+  rejectFoodSubmissionBodySchema,
   adminNewsQuerySchema,
   createNewsBodySchema,
   updateNewsBodySchema,
+  publishAnnouncementBodySchema,
   activityLogQuerySchema,
   updateSettingsBodySchema,
   analyticsQuerySchema,
@@ -48,6 +65,8 @@ import {
   adminProblematicFoodsQuerySchema,
   adminAchievementsQuerySchema,
   updateAchievementBodySchema,
+  jobNameParamSchema,
+  jobRunsQuerySchema,
 } from './admin.schemas'
 import type { UserRole, UserStatus, FodmapLevel, ActivityType } from '@/shared/types'
 import type { ArticleCategory, ArticleStatus } from '@/modules/news/news.model'
@@ -99,6 +118,7 @@ function formatAdminFood(food: Record<string, unknown>) {
     createdAt: (food.createdAt as Date)?.toISOString(),
     updatedAt: (food.updatedAt as Date)?.toISOString(),
     // Include full data for detail view
+    barcodes: food.barcodes || [],
     fodmap: food.fodmap,
     nutrition: food.nutrition,
     data_sources: food.data_sources,
@@ -501,6 +521,8 @@ export const adminController = new Elysia({ prefix: '/admin' })
         category_level_3: body.category_level_3,
         fodmapLevel: body.fodmapLevel,
         fodmapNote: body.fodmapNote,
+        fodmapSubgroups: body.fodmapSubgroups,
+        barcodes: body.barcodes,
       })
       return {
         success: true,
@@ -564,6 +586,166 @@ export const adminController = new Elysia({ prefix: '/admin' })
     }
   )
 
+  // =========================================================================
+  // Foods - Import from an Open Food Facts dump
+  // =========================================================================
+  .post(
+    '/foods/import/open-food-facts',
+    async ({ body, auth }) => {
+      const data = new Uint8Array(await body.file.arrayBuffer())
+      const result = await adminService.importOpenFoodFacts(data, auth.userId, {
+        dryRun: body.dryRun,
+      })
+      return {
+        success: true,
+        data: result,
+      }
+    },
+    {
+      body: importOpenFoodFactsBodySchema,
+      detail: {
+        tags: ['Admin'],
+        summary: 'Import Open Food Facts dump',
+        description: `
+          Imports packaged products from an offline Open Food Facts dump
+          (multipart \`file\`): JSONL, JSON array or the tab-separated CSV export,
+          optionally gzipped. Up to 50,000 products per file.
+
+          Products need a valid barcode (EAN-8, EAN-13, UPC-A or GTIN-14) and a name;
+          barcodes already in the catalog are skipped, so the same file can be sent again.
+          Nutrition per 100g is mapped to the catalog format and the FODMAP level is
+          estimated from the ingredient list (\`data_sources.fodmap_data: estimated_from_ingredients\`).
+
+          Use \`dryRun=true\` to get the counts and a preview without saving.
+        `,
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  )
+
+  // =========================================================================
+  // Food Submissions - List (moderation queue)
+  // =========================================================================
+  .get(
+    '/food-submissions',
+    async ({ query }) => {
+      const result = await adminService.getFoodSubmissions({
+        status: query.status,
+        page: query.page ? Number.parseInt(query.page, 10) : 1,
+        limit: query.limit ? Number.parseInt(query.limit, 10) : 20,
+      })
+      return {
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      }
+    },
+    {
+      query: foodSubmissionsQuerySchema,
+      detail: {
+        tags: ['Admin'],
+        summary: 'List food submissions',
+        description: 'Returns user-submitted foods (default: pending, oldest first). Pending submissions include the most similar catalog foods and the fields that differ.',
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  )
+
+  // =========================================================================
+  // Food Submissions - Get by ID
+  // =========================================================================
+  .get(
+    '/food-submissions/:id',
+    async ({ params }) => {
+      const submission = await adminService.getFoodSubmissionById(params.id)
+      return {
+        success: true,
+        data: submission,
+      }
+    },
+    {
+      params: submissionIdParamSchema,
+      detail: {
+        tags: ['Admin'],
+        summary: 'Get food submission',
+        description: 'Returns a submission with diffs against similar catalog foods',
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  )
+
+  // =========================================================================
+  // Food Submissions - Approve
+  // =========================================================================
+  .post(
+    '/food-submissions/:id/approve',
+    async ({ params, body, auth }) => {
+      const submission = await adminService.approveFoodSubmission(params.id, auth.userId, body)
+      return {
+        success: true,
+        data: submission,
+      }
+    },
+    {
+      params: submissionIdParamSchema,
+      body: approveFoodSubmissionBodySchema,
+      detail: {
+        tags: ['Admin'],
+        summary: 'Approve food submission',
+        description: 'Adds the food to the catalog with the next numeric ID. Name and categories can be adjusted; a category is required if the user did not set one.',
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  )
+
+  // =========================================================================
+  // Food Submissions - Merge
+  // =========================================================================
+  .post(
+    '/food-submissions/:id/merge',
+    async ({ params, body, auth }) => {
+      const submission = await adminService.mergeFoodSubmission(params.id, auth.userId, body)
+      return {
+        success: true,
+        data: submission,
+      }
+    },
+    {
+      params: submissionIdParamSchema,
+      body: mergeFoodSubmissionBodySchema,
+      detail: {
+        tags: ['Admin'],
+        summary: 'Merge food submission',
+        description: 'Marks the submission as a duplicate of an existing food. Nutrition or FODMAP data missing from that food is filled from the submission.',
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  )
+
+  // =========================================================================
+  // Food Submissions - Reject
+  // =========================================================================
+  .post(
+    '/food-submissions/:id/reject',
+    async ({ params, body, auth }) => {
+      const submission = await adminService.rejectFoodSubmission(params.id, auth.userId, body.reason)
+      return {
+        success: true,
+        data: submission,
+      }
+    },
+    {
+      params: submissionIdParamSchema,
+      body: rejectFoodSubmissionBodySchema,
+      detail: {
+        tags: ['Admin'],
+        summary: 'Reject food submission',
+        description: 'Rejects the submission. The reason is shown to the user, who can fix the food and submit it again.',
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  )
+
   // =========================================================================
   // News - List
   // =========================================================================
@@ -697,6 +879,29 @@ export const adminController = new Elysia({ prefix: '/admin' })
     }
   )
 
+  // =========================================================================
+  // Announcements - Publish
+  // =========================================================================
+  .post(
+    '/announcements',
+    async ({ body, auth }) => {
+      const result = await adminService.publishAnnouncement(body, auth.userId)
+      return {
+        success: true,
+        data: result,
+      }
+    },
+    {
+      body: publishAnnouncementBodySchema,
+      detail: {
+        tags: ['Admin'],
+        summary: 'Publish announcement',
+        description: 'Adds the announcement to the in-app inbox of every active user',
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  )
+
   // =========================================================================
   // Settings - Get
   // =========================================================================
@@ -936,4 +1141,74 @@ export const adminController = new Elysia({ prefix: '/admin' })
       },
     }
   )
+
+  // =========================================================================
+  // Jobs - List
+  // =========================================================================
+  .get(
+    '/jobs',
+    async () => {
+      const jobs = await adminService.getJobs()
+      return {
+        success: true,
+        data: jobs,
+      }
+    },
+    {
+      detail: {
+        tags: ['Admin'],
+        summary: 'List scheduled jobs',
+        description: 'Returns every scheduled job with its cron schedule, next run and last run outcome',
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  )
+
+  // =========================================================================
+  // Jobs - Run history
+  // =========================================================================
+  .get(
+    '/jobs/:name/runs',
+    async ({ params, query }) => {
+      const limit = query.limit ? Number.parseInt(query.limit, 10) : 20
+      const runs = await adminService.getJobRuns(params.name, limit)
+      return {
+        success: true,
+        data: runs,
+      }
+    },
+    {
+      params: jobNameParamSchema,
+      query: jobRunsQuerySchema,
+      detail: {
+        tags: ['Admin'],
+        summary: 'Job run history',
+        description: 'Returns the most recent runs of a job (max 100)',
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  )
+
+  // =========================================================================
+  // Jobs - Run now
+  // =========================================================================
+  .post(
+    '/jobs/:name/run',
+    async ({ params, auth }) => {
+      const run = await adminService.runJob(params.name, auth.userId)
+      return {
+        success: true,
+        data: run,
+      }
+    },
+    {
+      params: jobNameParamSchema,
+      detail: {
+        tags: ['Admin'],
+        summary: 'Run job now',
+        description: 'Runs a job immediately and waits for it to finish. Returns 409 if it is already running.',
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  )
   ) // Close guard
@@ -69,6 +69,20 @@ export const fodmapLevelSchema = t.Union([
   t.Literal('high'),
 ])
 
+const fodmapSubgroupSchema = t.Object({
+  level: fodmapLevelSchema,
+  serving_threshold_g: t.Optional(t.Union([t.Number({ minimum: 0 }), t.Null()])),
+})
+
+export const fodmapSubgroupsSchema = t.Object({
+  fructans: t.Optional(fodmapSubgroupSchema),
+  gos: t.Optional(fodmapSubgroupSchema),
+  lactose: t.Optional(fodmapSubgroupSchema),
+  fructose: t.Optional(fodmapSubgroupSchema),
+  sorbitol: t.Optional(fodmapSubgroupSchema),
+  mannitol: t.Optional(fodmapSubgroupSchema),
+})
+
 export const adminFoodsQuerySchema = t.Object({
   search: t.Optional(t.String()),
   category: t.Optional(t.String()),
@@ -78,6 +92,9 @@ export const adminFoodsQuerySchema = t.Object({
   limit: t.Optional(t.String({ pattern: '^[1-9][0-9]*$' })),
 })
 
+// EAN-8, EAN-13, UPC-A or GTIN-14; validated and normalized by the service
+export const foodBarcodesSchema = t.Array(t.String({ minLength: 1, maxLength: 32 }), { maxItems: 20 })
+
 export const createFoodBodySchema = t.Object({
   name: t.String({ minLength: 1, maxLength: 200 }),
   category_level_1: t.String({ minLength: 1 }),
@@ -86,6 +103,8 @@ export const createFoodBodySchema = t.Object({
   image: t.Optional(t.String({ format: 'uri' })),
   fodmapLevel: t.Optional(fodmapLevelSchema),
   fodmapNote: t.Optional(t.String()),
+  fodmapSubgroups: t.Optional(fodmapSubgroupsSchema),
+  barcodes: t.Optional(foodBarcodesSchema),
 })
 
 export const updateFoodBodySchema = t.Object({
@@ -96,9 +115,53 @@ export const updateFoodBodySchema = t.Object({
   image: t.Optional(t.String({ format: 'uri' })),
   fodmapLevel: t.Optional(fodmapLevelSchema),
   fodmapNote: t.Optional(t.String()),
+  fodmapSubgroups: t.Optional(fodmapSubgroupsSchema),
+  barcodes: t.Optional(foodBarcodesSchema),
   isAiGenerated: t.Optional(t.Boolean()),
 })
 
+export const importOpenFoodFactsBodySchema = t.Object({
+  file: t.File({ maxSize: '50m' }),
+  dryRun: t.Optional(t.BooleanString()),
+})
+
+// =============================================================================
+// Food Submission Schemas
+// =============================================================================
+
+export const foodSubmissionsQuerySchema = t.Object({
+  status: t.Optional(t.Union([
+    t.Literal('pending'),
+    t.Literal('approved'),
+    t.Literal('merged'),
+    t.Literal('rejected'),
+    t.Literal('all'),
+  ])),
+  page: t.Optional(t.String({ pattern: '^[1-9][0-9]*$' })),
+  limit: t.Optional(t.String({ pattern: '^[1-9][0-9]*$' })),
+})
+
+export const submissionIdParamSchema = t.Object({
+  id: t.String({ pattern: '^[a-fA-F0-9]{24}$' }),
+})
+
+export const approveFoodSubmissionBodySchema = t.Object({
+  name: t.Optional(t.String({ minLength: 1, maxLength: 200 })),
+  category_level_1: t.Optional(t.String({ minLength: 1 })),
+  category_level_2: t.Optional(t.String()),
+  category_level_3: t.Optional(t.String()),
+  note: t.Optional(t.String({ maxLength: 500 })),
+})
+
+export const mergeFoodSubmissionBodySchema = t.Object({
+  targetFoodId: t.Number({ minimum: 1 }),
+  note: t.Optional(t.String({ maxLength: 500 })),
+})
+
+export const rejectFoodSubmissionBodySchema = t.Object({
+  reason: t.String({ minLength: 3, maxLength: 500 }),
+})
+
 // =============================================================================
 // News Schemas
 // =============================================================================
@@ -149,6 +212,17 @@ export const updateNewsBodySchema = t.Object({
   status: t.Optional(newsStatusSchema),
 })
 
+// =============================================================================
+// Announcement Schemas
+// =============================================================================
+
+export const publishAnnouncementBodySchema = t.Object({
+  title: t.String({ minLength: 1, maxLength: 200 }),
+  body: t.String({ minLength: 1, maxLength: 1000 }),
+  // In-app path only (e.g. /news/12)
+  url: t.Optional(t.String({ pattern: '^/[^/]', maxLength: 500 })),
+})
+
 // =============================================================================
 // Activity Log Schemas
 // =============================================================================
@@ -213,11 +287,14 @@ export const updateSettingsBodySchema = t.Object({
   })),
   notifications: t.Optional(t.Object({
     daily_reminder_enabled: t.Optional(t.Boolean()),
-    reminder_time: t.Optional(t.String()),
+    reminder_time: t.Optional(t.String({ pattern: '^([01][0-9]|2[0-3]):[0-5][0-9]$' })), // HH:MM
     achievement_notifications: t.Optional(t.Boolean()),
     problematic_food_alerts: t.Optional(t.Boolean()),
     news_notifications: t.Optional(t.Boolean()),
   })),
+  security: t.Optional(t.Object({
+    require_admin_2fa: t.Optional(t.Boolean()),
+  })),
   version: t.Optional(t.Object({
     current: t.Optional(t.String()),
     minimum_required: t.Optional(t.String()),
@@ -283,3 +360,15 @@ export const updateAchievementBodySchema = t.Object({
   isActive: t.Optional(t.Boolean()),
   isHidden: t.Optional(t.Boolean()),
 })
+
+// =============================================================================
+// Admin Jobs Schemas
+// =============================================================================
+
+export const jobNameParamSchema = t.Object({
+  name: t.String({ pattern: '^[a-z_]+$' }),
+})
+
+export const jobRunsQuerySchema = t.Object({
+  limit: t.Optional(t.String({ pattern: '^[1-9][0-9]*$' })),
+})
@@ -6,9 +6,11 @@
  * - Activity log management
  * - User management (list, ban, unban)
  * - Food management (CRUD via admin)
+ * - Moderation of user-submitted foods (approve, merge, reject)
  * - News management (CRUD via admin)
  * - System settings
  * - Analytics
+ * - Scheduled jobs (list, history, manual run)
  */
 
 import mongoose from 'mongoose'
@@ -16,13 +18,51 @@ import { User, type IUser } from '@/modules/users/user.model'
 import { Food, type IFood } from '@/modules/foods/food.model'
 import { NewsArticle, type INewsArticle, type ArticleStatus, type ArticleCategory } from '@/modules/news/news.model'
 import { DiaryEntry } from '@/modules/diary/diary.model'
+import { CustomFood, type ICustomFood } from '@/modules/custom-foods/custom-food.model'
+import { MealTemplate } from '@/modules/meal-templates/meal-template.model'
 import { ProblematicFood } from '@/modules/problematic-foods/problematic-food.model'
 import { Achievement } from '@/modules/achievements/achievement.model'
 import { UserAchievement } from '@/modules/achievements/user-achievement.model'
+import { UserDiscovery } from '@/modules/insights/user-discovery.model'
+import { ReintroductionChallenge } from '@/modules/reintroduction/reintroduction-challenge.model'
+import { NotificationOutbox } from '@/modules/notifications/notification-outbox.model'
+import { Notification } from '@/modules/notifications/notification.model'
+import { PushSubscription } from '@/modules/notifications/push-subscription.model'
+import * as notificationsService from '@/modules/notifications/notifications.service'
+import * as jobsService from '@/modules/jobs/jobs.service'
+import { dataExportService } from '@/modules/users/data-export.service'
+import type { IJobRun } from '@/modules/jobs/job-run.model'
 import { ActivityLog, type IActivityLog } from './activity-log.model'
 import { SystemSettings, type ISystemSettings } from './system-settings.model'
-import { NotFoundError, ValidationError } from '@/shared/errors'
-import type { UserRole, UserStatus, FodmapLevel, ActivityType } from '@/shared/types'
+import { ConflictError, NotFoundError, ValidationError } from '@/shared/errors'
+import { invalidateSettingsCache } from '@/shared/middlewares/system-settings.middleware'
+import { emitEvent } from '@/shared/events'
+import { normalizeGtin } from '@/shared/utils'
+import {
+  calculateNutrition,
+  findSimilarFoods,
+  getNextFoodId,
+  getWorstFodmapLevel,
+} from '@/modules/foods/foods.service'
+import {
+  importOpenFoodFactsDump,
+  type OpenFoodFactsImportOptions,
+  type OpenFoodFactsImportResult,
+} from '@/modules/foods/open-food-facts-import.service'
+import {
+  FODMAP_GROUPS,
+  type CalculatedNutrition,
+  type UserRole,
+  type UserStatus,
+  type FodmapLevel,
+  type FodmapGroup,
+  type FodmapSubgroupInfo,
+  type ActivityType,
+} from '@/shared/types'
+
+type FodmapSubgroupsInput = Partial<
+  Record<FodmapGroup, { level: FodmapLevel; serving_threshold_g?: number | null }>
+>
 
 // =============================================================================
 // Types
@@ -149,6 +189,38 @@ export interface ActivityLogFilters {
   limit?: number
 }
 
+export interface FoodSubmissionsFilters {
+  status?: 'pending' | 'approved' | 'merged' | 'rejected' | 'all'
+  page?: number
+  limit?: number
+}
+
+export interface FoodSubmissionDiff {
+  field: string
+  submitted: string | number | null
+  existing: string | number | null
+}
+
+export interface SimilarFood {
+  foodId: number
+  name: string
+  score: number
+  diffs: FoodSubmissionDiff[]
+}
+
+export interface ApproveFoodSubmissionData {
+  name?: string
+  category_level_1?: string
+  category_level_2?: string
+  category_level_3?: string
+  note?: string
+}
+
+export interface MergeFoodSubmissionData {
+  targetFoodId: number
+  note?: string
+}
+
 export interface AnalyticsPeriod {
   period: 'day' | 'week' | 'month'
 }
@@ -710,8 +782,16 @@ export async function deleteUser(id: string): Promise<void> {
   await Promise.all([
     User.findByIdAndDelete(id),
     DiaryEntry.deleteMany({ userId: new mongoose.Types.ObjectId(id) }),
+    MealTemplate.deleteMany({ userId: new mongoose.Types.ObjectId(id) }),
+    CustomFood.deleteMany({ userId: new mongoose.Types.ObjectId(id) }),
     ProblematicFood.deleteMany({ userId: new mongoose.Types.ObjectId(id) }),
     UserAchievement.deleteMany({ userId: new mongoose.Types.ObjectId(id) }),
+    UserDiscovery.deleteMany({ userId: new mongoose.Types.ObjectId(id) }),
+    ReintroductionChallenge.deleteMany({ userId: new mongoose.Types.ObjectId(id) }),
+    Notification.deleteMany({ userId: new mongoose.Types.ObjectId(id) }),
+    NotificationOutbox.deleteMany({ userId: new mongoose.Types.ObjectId(id) }),
+    PushSubscription.deleteMany({ userId: new mongoose.Types.ObjectId(id) }),
+    dataExportService.deleteAllForUser(id),
   ])
 
   await logActivity('admin_action', 'Usuário deletado pelo admin', {
@@ -785,6 +865,76 @@ export async function getFoodById(id: number): Promise<IFood> {
   return food as IFood
 }
 
+/**
+ * Fill optional serving thresholds so stored subgroups always have both fields
+ */
+function normalizeSubgroups(
+  subgroups: FodmapSubgroupsInput = {}
+): Partial<Record<FodmapGroup, FodmapSubgroupInfo>> {
+  const normalized: Partial<Record<FodmapGroup, FodmapSubgroupInfo>> = {}
+  for (const group of Object.keys(subgroups) as FodmapGroup[]) {
+    const info = subgroups[group]
+    if (!info) continue
+    normalized[group] = {
+      level: info.level,
+      serving_threshold_g: info.serving_threshold_g ?? null,
+    }
+  }
+  return normalized
+}
+
+/**
+ * Validate and normalize barcodes (see normalizeGtin)
+ * A barcode can only belong to one catalog food.
+ */
+async function normalizeFoodBarcodes(codes: string[], foodId?: number): Promise<string[]> {
+  const barcodes = new Set<string>()
+  for (const code of codes) {
+    const barcode = normalizeGtin(code)
+    if (!barcode) {
+      throw new ValidationError(`Código de barras inválido: ${code}`)
+    }
+    barcodes.add(barcode)
+  }
+
+  if (barcodes.size > 0) {
+    const owner = await Food.findOne({
+      barcodes: { $in: [...barcodes] },
+      ...(foodId !== undefined && { id: { $ne: foodId } }),
+    })
+      .select('id name')
+      .lean()
+    if (owner) {
+      throw new ConflictError(`Código de barras já cadastrado em ${owner.name} (ID ${owner.id})`)
+    }
+  }
+
+  return [...barcodes]
+}
+
+/**
+ * FODMAP info for a food that had none
+ */
+function buildFodmapInfo(
+  food: { name: string; category_level_1: string },
+  level: FodmapLevel,
+  note: string | undefined,
+  subgroups: Partial<Record<FodmapGroup, FodmapSubgroupInfo>>
+) {
+  return {
+    level,
+    portion_note: note || null,
+    additional_notes: null,
+    search_information: {
+      match_type: 'single_ingredient',
+      category: food.category_level_1,
+      name_english: food.name,
+      detected_keyword: food.name,
+    },
+    subgroups,
+  }
+}
+
 export async function createFood(data: {
   name: string
   category_level_1: string
@@ -793,37 +943,35 @@ export async function createFood(data: {
   image?: string
   fodmapLevel?: FodmapLevel
   fodmapNote?: string
+  fodmapSubgroups?: FodmapSubgroupsInput
+  barcodes?: string[]
 }): Promise<IFood> {
-  // Get the next ID
-  const lastFood = await Food.findOne().sort({ id: -1 })
-  const nextId = (lastFood?.id || 0) + 1
+  const barcodes = data.barcodes?.length ? await normalizeFoodBarcodes(data.barcodes) : undefined
 
   const foodData: Record<string, unknown> = {
-    id: nextId,
+    id: await getNextFoodId(),
     name: data.name,
     source: 'user_contributed',
     category_level_1: data.category_level_1,
     category_level_2: data.category_level_2 || '',
     category_level_3: data.category_level_3 || '',
     image: data.image || null,
+    barcodes,
     data_sources: {
       nutritional_data: 'admin_created',
     },
     searchCount: 0,
   }
 
-  if (data.fodmapLevel) {
-    foodData.fodmap = {
-      level: data.fodmapLevel,
-      portion_note: data.fodmapNote || null,
-      additional_notes: null,
-      search_information: {
-        match_type: 'single_ingredient',
-        category: data.category_level_1,
-        name_english: data.name,
-        detected_keyword: data.name,
-      },
-    }
+  // Without an overall level, use the worst subgroup level
+  const subgroups = normalizeSubgroups(data.fodmapSubgroups)
+  const fodmapLevel =
+    data.fodmapLevel ||
+    getWorstFodmapLevel(Object.values(subgroups).map((sg) => sg.level)) ||
+    undefined
+
+  if (fodmapLevel) {
+    foodData.fodmap = buildFodmapInfo(data, fodmapLevel, data.fodmapNote, subgroups)
   }
 
   const food = new Food(foodData)
@@ -846,16 +994,26 @@ export async function updateFood(
     image?: string
     fodmapLevel?: FodmapLevel
     fodmapNote?: string
+    fodmapSubgroups?: FodmapSubgroupsInput
+    barcodes?: string[]
     isAiGenerated?: boolean
   }
 ): Promise<IFood> {
   const updateData: Record<string, unknown> = {}
+  const unsetData: Record<string, 1> = {}
 
   if (data.name) updateData.name = data.name
   if (data.category_level_1) updateData.category_level_1 = data.category_level_1
   if (data.category_level_2 !== undefined) updateData.category_level_2 = data.category_level_2
   if (data.category_level_3 !== undefined) updateData.category_level_3 = data.category_level_3
   if (data.image !== undefined) updateData.image = data.image
+
+  // Replaces the whole list; an empty list removes the field (the index is sparse)
+  if (data.barcodes) {
+    const barcodes = await normalizeFoodBarcodes(data.barcodes, id)
+    if (barcodes.length > 0) updateData.barcodes = barcodes
+    else unsetData.barcodes = 1
+  }
   
   if (data.fodmapLevel) {
     updateData['fodmap.level'] = data.fodmapLevel
@@ -864,13 +1022,46 @@ export async function updateFood(
     }
   }
 
+  if (data.fodmapSubgroups) {
+    const current = await Food.findOne({ id }).select('name category_level_1 fodmap').lean()
+    if (!current) {
+      throw new NotFoundError('Alimento não encontrado')
+    }
+
+    // Without an overall level, use the worst level of the merged subgroups
+    const subgroups = normalizeSubgroups(data.fodmapSubgroups)
+    const merged = { ...current.fodmap?.subgroups, ...subgroups }
+    const fodmapLevel =
+      data.fodmapLevel || getWorstFodmapLevel(Object.values(merged).map((sg) => sg.level))
+
+    if (current.fodmap) {
+      for (const [group, info] of Object.entries(subgroups)) {
+        updateData[`fodmap.subgroups.${group}`] = info
+      }
+      if (fodmapLevel) updateData['fodmap.level'] = fodmapLevel
+    } else if (fodmapLevel) {
+      // First FODMAP data for this food: store the whole object
+      delete updateData['fodmap.level']
+      delete updateData['fodmap.portion_note']
+      updateData.fodmap = buildFodmapInfo(
+        {
+          name: data.name || current.name,
+          category_level_1: data.category_level_1 || current.category_level_1,
+        },
+        fodmapLevel,
+        data.fodmapNote,
+        subgroups
+      )
+    }
+  }
+
   if (data.isAiGenerated !== undefined) {
     updateData['data_sources.ai_generated.is_ai_generated'] = data.isAiGenerated
   }
 
   const food = await Food.findOneAndUpdate(
     { id },
-    { $set: updateData },
+    { $set: updateData, ...(Object.keys(unsetData).length > 0 && { $unset: unsetData }) },
     { new: true }
   ).lean()
 
@@ -898,6 +1089,456 @@ export async function deleteFood(id: number): Promise<void> {
   })
 }
 
+/**
+ * Import packaged products from an Open Food Facts dump file
+ */
+export async function importOpenFoodFacts(
+  data: Uint8Array,
+  adminUserId: string,
+  options: OpenFoodFactsImportOptions = {}
+): Promise<OpenFoodFactsImportResult> {
+  const result = await importOpenFoodFactsDump(data, options)
+
+  if (!result.dryRun && result.imported > 0) {
+    await logActivity('food_added', 'Produtos importados do Open Food Facts', {
+      userId: adminUserId,
+      details: `Importados ${result.imported} produtos (${result.withFodmapEstimate} com estimativa FODMAP)`,
+      metadata: { format: result.format, totalProducts: result.totalProducts, skipped: result.skipped },
+    })
+  }
+
+  return result
+}
+
+// =============================================================================
+// Food Submissions (moderation)
+// =============================================================================
+
+const SIMILAR_FOODS_LIMIT = 3
+const KJ_PER_KCAL = 4.184
+// A review claim older than this is considered abandoned and can be taken again
+const REVIEW_CLAIM_TTL_MS = 15 * 60 * 1000
+
+const NUTRIENT_FIELDS: (keyof CalculatedNutrition)[] = [
+  'calories',
+  'carbs',
+  'protein',
+  'fat',
+  'sugar',
+  'fiber',
+  'sodium',
+]
+
+/**
+ * Atomically move a pending submission to 'reviewing', so two admins can't
+ * approve/merge/reject the same submission at once
+ * A claim left behind by a crashed review expires after REVIEW_CLAIM_TTL_MS.
+ */
+async function claimSubmission(id: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw new NotFoundError('Envio de alimento')
+  }
+
+  const staleBefore = new Date(Date.now() - REVIEW_CLAIM_TTL_MS)
+  const submission = await CustomFood.findOneAndUpdate(
+    {
+      _id: id,
+      $or: [
+        { status: 'pending' },
+        // $not also matches claims made before reviewStartedAt existed
+        { status: 'reviewing', reviewStartedAt: { $not: { $gt: staleBefore } } },
+      ],
+    },
+    { $set: { status: 'reviewing', reviewStartedAt: new Date() } },
+    { new: true }
+  )
+  if (submission) return submission
+
+  const existing = await CustomFood.findById(id).select('status').lean()
+  if (!existing || existing.status === 'private') {
+    throw new NotFoundError('Envio de alimento')
+  }
+  if (existing.status === 'reviewing') {
+    throw new ConflictError('Este envio já está sendo revisado')
+  }
+  throw new ConflictError('Este envio já foi revisado')
+}
+
+/**
+ * Run a review step on a claimed submission; on failure it goes back to 'pending'
+ */
+async function withClaimedSubmission<T>(id: string, review: (submission: ICustomFood) => Promise<T>): Promise<T> {
+  const submission = await claimSubmission(id)
+  try {
+    return await review(submission)
+  } catch (error) {
+    // Only release our own claim, not one taken over after it expired
+    await CustomFood.updateOne(
+      { _id: id, status: 'reviewing', reviewStartedAt: submission.reviewStartedAt },
+      { $set: { status: 'pending' }, $unset: { reviewStartedAt: 1 } }
+    )
+    throw error
+  }
+}
+
+/**
+ * Fields where the submission differs from a catalog food
+ * Nutrition is compared per 100g; missing values show as null.
+ */
+function diffSubmission(submission: ICustomFood, food: IFood): FoodSubmissionDiff[] {
+  const diffs: FoodSubmissionDiff[] = []
+  const add = (field: string, submitted?: string | number | null, existing?: string | number | null) => {
+    if ((submitted ?? null) !== (existing ?? null)) {
+      diffs.push({ field, submitted: submitted ?? null, existing: existing ?? null })
+    }
+  }
+
+  add('name', submission.name, food.name)
+  add('category', submission.category, food.category_level_1)
+  add('fodmap.level', submission.fodmap?.level, food.fodmap?.level)
+  for (const group of FODMAP_GROUPS) {
+    add(`fodmap.${group}`, submission.fodmap?.subgroups?.[group], food.fodmap?.subgroups?.[group]?.level)
+  }
+
+  const existingNutrition = calculateNutrition(food, 100)
+  for (const key of NUTRIENT_FIELDS) {
+    add(`nutrition.${key}`, submission.nutrition?.[key], existingNutrition?.[key])
+  }
+
+  return diffs
+}
+
+async function getSimilarFoods(submission: ICustomFood): Promise<SimilarFood[]> {
+  const matches = await findSimilarFoods(submission.name, SIMILAR_FOODS_LIMIT)
+  if (matches.length === 0) return []
+
+  const foods = await Food.find({ id: { $in: matches.map((m) => m.foodId) } })
+    .select('id name category_level_1 nutrition fodmap')
+    .lean()
+  const foodsById = new Map(foods.map((f) => [f.id, f as IFood]))
+
+  return matches.flatMap((match) => {
+    const food = foodsById.get(match.foodId)
+    if (!food) return []
+    return [{
+      foodId: food.id,
+      name: food.name,
+      score: match.score,
+      diffs: diffSubmission(submission, food),
+    }]
+  })
+}
+
+function formatFoodSubmission(
+  submission: ICustomFood,
+  submitter: { name?: string; email?: string } | undefined,
+  similarFoods: SimilarFood[]
+) {
+  return {
+    id: submission._id.toString(),
+    kind: submission.kind,
+    name: submission.name,
+    category: submission.category,
+    ingredients: submission.ingredients,
+    yield_g: submission.yield_g,
+    nutrition: submission.nutrition,
+    fodmap: submission.fodmap,
+    notes: submission.notes,
+    status: submission.status,
+    submittedBy: {
+      id: submission.userId.toString(),
+      name: submitter?.name,
+      email: submitter?.email,
+    },
+    submittedAt: submission.submittedAt?.toISOString(),
+    reviewedAt: submission.reviewedAt?.toISOString(),
+    reviewReason: submission.reviewReason,
+    catalogFoodId: submission.catalogFoodId,
+    similarFoods,
+  }
+}
+
+/**
+ * Convert per-100g nutrition of a submission to the catalog format
+ */
+function toCatalogNutrition(nutrition: CalculatedNutrition) {
+  return {
+    energy_kcal: nutrition.calories,
+    energy_kj: Math.round(nutrition.calories * KJ_PER_KCAL),
+    reference_portion: '100g',
+    macronutrients: {
+      carbohydrates_g: String(nutrition.carbs),
+      protein_g: String(nutrition.protein),
+      lipids_g: String(nutrition.fat),
+      sugars_g: String(nutrition.sugar),
+      fiber_g: String(nutrition.fiber),
+    },
+    minerals: { sodium_mg: String(nutrition.sodium) },
+  }
+}
+
+function toCatalogFodmap(submission: ICustomFood, category: string) {
+  const fodmap = submission.fodmap
+  if (!fodmap) return undefined
+
+  const subgroups: Partial<Record<FodmapGroup, FodmapSubgroupInfo>> = {}
+  for (const group of FODMAP_GROUPS) {
+    const level = fodmap.subgroups?.[group]
+    if (level) subgroups[group] = { level, serving_threshold_g: null }
+  }
+
+  const isRecipe = submission.kind === 'recipe'
+  return {
+    level: fodmap.level,
+    portion_note: null,
+    additional_notes: isRecipe ? 'Receita: nível do ingrediente de maior risco' : null,
+    search_information: isRecipe
+      ? {
+          match_type: 'multiple_ingredients',
+          total_ingredients: submission.ingredients.length,
+          ingredients: submission.ingredients.map((i) => ({ portuguese_keyword: i.foodName })),
+        }
+      : {
+          match_type: 'single_ingredient',
+          category,
+          name_english: submission.name,
+          detected_keyword: submission.name,
+        },
+    subgroups,
+  }
+}
+
+async function completeReview(
+  submission: ICustomFood,
+  adminUserId: string,
+  review: { status: 'approved' | 'merged' | 'rejected'; reason?: string; catalogFoodId?: number }
+) {
+  submission.status = review.status
+  submission.reviewStartedAt = undefined
+  submission.reviewedAt = new Date()
+  submission.reviewedBy = new mongoose.Types.ObjectId(adminUserId)
+  submission.reviewReason = review.reason
+  submission.catalogFoodId = review.catalogFoodId
+  await submission.save()
+}
+
+function notifySubmitter(submission: ICustomFood, title: string, body: string): void {
+  notificationsService
+    .publish(submission.userId.toString(), {
+      type: 'food_submission_reviewed',
+      title,
+      body,
+      data: {
+        customFoodId: submission._id.toString(),
+        status: submission.status,
+        catalogFoodId: submission.catalogFoodId,
+      },
+    })
+    .catch((err) => console.error('[Admin] Failed to notify food submission review:', err))
+}
+
+/**
+ * List user-submitted foods (oldest pending first) with similar catalog foods
+ */
+export async function getFoodSubmissions(
+  filters: FoodSubmissionsFilters
+): Promise<PaginatedResult<ReturnType<typeof formatFoodSubmission>>> {
+  const { status = 'pending', page = 1, limit = 20 } = filters
+
+  const query: Record<string, unknown> =
+    status === 'all' ? { status: { $ne: 'private' } } : { status }
+
+  const [submissions, total] = await Promise.all([
+    CustomFood.find(query)
+      .sort({ submittedAt: 1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    CustomFood.countDocuments(query),
+  ])
+
+  const users = await User.find({ _id: { $in: submissions.map((s) => s.userId) } })
+    .select('name email')
+    .lean()
+  const usersById = new Map(users.map((u) => [u._id.toString(), u]))
+
+  const data = await Promise.all(
+    submissions.map(async (submission) =>
+      formatFoodSubmission(
+        submission,
+        usersById.get(submission.userId.toString()),
+        // Reviewed submissions don't need the comparison
+        submission.status === 'pending' ? await getSimilarFoods(submission) : []
+      )
+    )
+  )
+
+  return {
+    data,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  }
+}
+
+/**
+ * Get one submission with diffs against similar catalog foods
+ */
+export async function getFoodSubmissionById(id: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw new NotFoundError('Envio de alimento')
+  }
+
+  const submission = await CustomFood.findById(id)
+  if (!submission || submission.status === 'private') {
+    throw new NotFoundError('Envio de alimento')
+  }
+
+  const [submitter, similarFoods] = await Promise.all([
+    User.findById(submission.userId).select('name email').lean(),
+    getSimilarFoods(submission),
+  ])
+
+  return formatFoodSubmission(submission, submitter ?? undefined, similarFoods)
+}
+
+/**
+ * Approve a submission: copy it into the catalog with the next numeric Food.id
+ */
+export async function approveFoodSubmission(
+  id: string,
+  adminUserId: string,
+  data: ApproveFoodSubmissionData
+) {
+  const { submission, name, food } = await withClaimedSubmission(id, async (submission) => {
+    const name = data.name?.trim() || submission.name
+    const category = data.category_level_1 || submission.category
+    if (!category) {
+      throw new ValidationError('Informe a categoria do alimento')
+    }
+
+    const food = new Food({
+      id: await getNextFoodId(),
+      name,
+      source: 'user_contributed',
+      category_level_1: category,
+      category_level_2: data.category_level_2 || '',
+      category_level_3: data.category_level_3 || '',
+      image: null,
+      nutrition: submission.nutrition ? toCatalogNutrition(submission.nutrition) : undefined,
+      fodmap: toCatalogFodmap(submission, category),
+      data_sources: {
+        nutritional_data: 'user_submission',
+        fodmap_data: submission.kind === 'recipe' ? 'derived_from_ingredients' : 'user_submission',
+      },
+      searchCount: 0,
+    })
+    await food.save()
+
+    try {
+      await completeReview(submission, adminUserId, {
+        status: 'approved',
+        reason: data.note,
+        catalogFoodId: food.id,
+      })
+    } catch (error) {
+      // The submission goes back to 'pending'; don't leave its catalog copy behind
+      await Food.deleteOne({ _id: food._id })
+      throw error
+    }
+
+    return { submission, name, food }
+  })
+
+  await logActivity('food_added', 'Alimento de usuário aprovado', {
+    userId: adminUserId,
+    details: `Aprovado alimento: ${name} (ID ${food.id})`,
+    metadata: { submissionId: id, foodId: food.id, submittedBy: submission.userId.toString() },
+  })
+
+  notifySubmitter(submission, 'Alimento aprovado', `"${name}" agora faz parte do catálogo do Ceboelha.`)
+
+  return getFoodSubmissionById(id)
+}
+
+/**
+ * Merge a submission into an existing catalog food
+ * The submission's nutrition/FODMAP data fills what the catalog food is missing.
+ */
+export async function mergeFoodSubmission(
+  id: string,
+  adminUserId: string,
+  data: MergeFoodSubmissionData
+) {
+  const { submission, target, filled } = await withClaimedSubmission(id, async (submission) => {
+    const target = await Food.findOne({ id: data.targetFoodId })
+    if (!target) {
+      throw new NotFoundError('Alimento')
+    }
+
+    const filled: string[] = []
+    if (!target.nutrition && submission.nutrition) {
+      target.set('nutrition', toCatalogNutrition(submission.nutrition))
+      filled.push('nutrition')
+    }
+    if (!target.fodmap?.level && submission.fodmap) {
+      target.set('fodmap', toCatalogFodmap(submission, target.category_level_1))
+      filled.push('fodmap')
+    }
+    if (filled.length > 0) {
+      await target.save()
+      await logActivity('food_edited', 'Alimento completado com envio de usuário', {
+        userId: adminUserId,
+        details: `Completado alimento ID ${target.id}: ${target.name} (${filled.join(', ')})`,
+      })
+    }
+
+    await completeReview(submission, adminUserId, {
+      status: 'merged',
+      reason: data.note,
+      catalogFoodId: target.id,
+    })
+
+    return { submission, target, filled }
+  })
+
+  await logActivity('admin_action', 'Envio de alimento mesclado', {
+    userId: adminUserId,
+    details: `Mesclado "${submission.name}" em ${target.name} (ID ${target.id})`,
+    metadata: { submissionId: id, foodId: target.id, filled },
+  })
+
+  notifySubmitter(
+    submission,
+    'Alimento incorporado ao catálogo',
+    `"${submission.name}" já existia no catálogo como "${target.name}".`
+  )
+
+  return getFoodSubmissionById(id)
+}
+
+/**
+ * Reject a submission; the reason is shown to the user, who can fix and resubmit
+ */
+export async function rejectFoodSubmission(id: string, adminUserId: string, reason: string) {
+  const submission = await withClaimedSubmission(id, async (submission) => {
+    await completeReview(submission, adminUserId, { status: 'rejected', reason })
+    return submission
+  })
+
+  await logActivity('admin_action', 'Envio de alimento recusado', {
+    userId: adminUserId,
+    details: `Recusado "${submission.name}": ${reason}`,
+    metadata: { submissionId: id },
+  })
+
+  notifySubmitter(submission, 'Alimento não aprovado', `"${submission.name}": ${reason}`)
+
+  return getFoodSubmissionById(id)
+}
+
 // =============================================================================
 // News Management
 // =============================================================================
@@ -973,6 +1614,19 @@ export async function getNewsById(id: string): Promise<INewsArticle> {
   return article
 }
 
+/**
+ * Tell every user about a newly published article (runs in the background)
+ */
+function notifyNewsPublished(article: INewsArticle): void {
+  notificationsService
+    .notifyAll('news_published', {
+      articleId: article.id,
+      articleTitle: article.title,
+      articleSummary: article.summary,
+    })
+    .catch((err) => console.error('[Admin] Failed to notify news publication:', err))
+}
+
 export async function createNews(data: {
   title: string
   summary: string
@@ -1015,6 +1669,8 @@ export async function createNews(data: {
     details: `Criado artigo: ${data.title}`,
   })
 
+  if (article.status === 'published') notifyNewsPublished(article)
+
   return article.toObject()
 }
 
@@ -1035,10 +1691,12 @@ export async function updateNews(
   const updateData = { ...data }
 
   // Set publishedAt when publishing
+  let publishing = false
   if (data.status === 'published') {
     const existing = await NewsArticle.findOne({ id: parseInt(id, 10) })
     if (existing && existing.status !== 'published') {
       (updateData as Record<string, unknown>).publishedAt = new Date()
+      publishing = true
     }
   }
 
@@ -1071,6 +1729,8 @@ export async function updateNews(
     details: `Editado artigo: ${article.title}`,
   })
 
+  if (publishing) notifyNewsPublished(article)
+
   return article
 }
 
@@ -1104,6 +1764,32 @@ export async function deleteNews(id: string): Promise<void> {
   })
 }
 
+// =============================================================================
+// Announcements
+// =============================================================================
+
+/**
+ * Publish an announcement to the in-app inbox of every active user
+ */
+export async function publishAnnouncement(
+  data: { title: string; body: string; url?: string },
+  adminUserId: string
+): Promise<{ recipients: number }> {
+  const recipients = await notificationsService.publishToAll({
+    type: 'announcement',
+    title: data.title,
+    body: data.body,
+    url: data.url,
+  })
+
+  await logActivity('admin_action', 'Comunicado publicado', {
+    userId: adminUserId,
+    details: `Publicado comunicado "${data.title}" para ${recipients} usuários`,
+  })
+
+  return { recipients }
+}
+
 // =============================================================================
 // System Settings
 // =============================================================================
@@ -1130,6 +1816,7 @@ interface SettingsUpdateInput {
   features?: Partial<ISystemSettings['features']>
   limits?: Partial<ISystemSettings['limits']>
   notifications?: Partial<ISystemSettings['notifications']>
+  security?: Partial<ISystemSettings['security']>
   version?: Partial<ISystemSettings['version']>
 }
 
@@ -1168,6 +1855,12 @@ export async function updateSettings(
     }
   }
 
+  if (data.security) {
+    for (const [key, value] of Object.entries(data.security)) {
+      updateData[`security.${key}`] = value
+    }
+  }
+
   if (data.version) {
     for (const [key, value] of Object.entries(data.version)) {
       updateData[`version.${key}`] = value
@@ -1186,6 +1879,22 @@ export async function updateSettings(
     { new: true, upsert: true }
   )
 
+  // Apply maintenance/feature changes immediately on this instance
+  invalidateSettingsCache()
+
+  // Let connected clients react (maintenance banner, hidden modules)
+  if (data.maintenance || data.features) {
+    const { maintenance, features } = settings.toObject() as ISystemSettings
+    emitEvent('settings_updated', null, {
+      maintenance: {
+        enabled: maintenance.enabled,
+        message: maintenance.message,
+        estimated_end: maintenance.estimated_end,
+      },
+      features: { ...features },
+    })
+  }
+
   await logActivity('admin_action', 'Configurações atualizadas', {
     details: JSON.stringify(data),
   })
@@ -1635,3 +2344,27 @@ export async function updateAchievement(
 
   return achievement
 }
+
+// =============================================================================
+// Scheduled Jobs
+// =============================================================================
+
+export async function getJobs(): Promise<jobsService.JobSummary[]> {
+  return jobsService.getJobs()
+}
+
+export async function getJobRuns(name: string, limit?: number): Promise<IJobRun[]> {
+  return jobsService.getJobRuns(name, limit)
+}
+
+export async function runJob(name: string, adminUserId: string): Promise<IJobRun> {
+  const run = await jobsService.runJob(name, adminUserId)
+
+  await logActivity('admin_action', 'Job executado manualmente', {
+    userId: adminUserId,
+    details: `Job: ${name} (${run.status})`,
+    metadata: { job: name, runId: run._id.toString(), status: run.status },
+  })
+
+  return run
+}
@@ -38,6 +38,9 @@ export interface ISystemSettings {
     problematic_food_alerts: boolean
     news_notifications: boolean
   }
+  security: {
+    require_admin_2fa: boolean
+  }
   version: {
     current: string
     minimum_required: string
@@ -86,6 +89,9 @@ const systemSettingsSchema = new Schema(
       problematic_food_alerts: { type: Boolean, default: true },
       news_notifications: { type: Boolean, default: true },
     },
+    security: {
+      require_admin_2fa: { type: Boolean, default: false },
+    },
     version: {
       current: { type: String, default: '1.0.0' },
       minimum_required: { type: String, default: '1.0.0' },
@@ -3,8 +3,17 @@
  *
  * Endpoints:
  * - POST /auth/register - Create new account
- * - POST /auth/login - Authenticate user
+ * - POST /auth/login - Authenticate user (may require a 2FA step)
+ * - POST /auth/login/2fa - Second login step (TOTP or recovery code)
  * - POST /auth/refresh - Refresh access token
+ * - POST /auth/forgot-password - Send password reset link
+ * - POST /auth/reset-password - Set new password with reset token
+ * - POST /auth/verify-email - Confirm e-mail address
+ * - POST /auth/verify-email/resend - Resend confirmation link
+ * - POST /auth/2fa/setup - Start 2FA enrollment
+ * - POST /auth/2fa/enable - Confirm enrollment (returns recovery codes)
+ * - POST /auth/2fa/disable - Turn 2FA off
+ * - POST /auth/2fa/recovery-codes - Regenerate recovery codes
  * - POST /auth/logout - Logout (revoke tokens)
  * - GET /auth/sessions - Get active sessions
  * - DELETE /auth/sessions/:id - Revoke specific session
@@ -23,6 +32,12 @@ import {
   loginBodySchema,
   refreshTokenBodySchema,
   logoutBodySchema,
+  forgotPasswordBodySchema,
+  resetPasswordBodySchema,
+  verifyEmailBodySchema,
+  twoFactorLoginBodySchema,
+  twoFactorCodeBodySchema,
+  disableTwoFactorBodySchema,
 } from './auth.schemas'
 import {
   requireAuth,
@@ -200,6 +215,15 @@ export const authController = new Elysia({ prefix: '/auth' })
 
       const result = await authService.login(body, deviceInfo)
 
+      // 2FA enabled: no tokens yet, the client must call /auth/login/2fa
+      if ('twoFactorRequired' in result) {
+        return {
+          success: true,
+          data: result,
+          message: 'Informe o código do seu aplicativo autenticador',
+        }
+      }
+
       // Set secure httpOnly cookies
       setAuthCookies(set, result.accessToken, result.refreshToken)
 
@@ -209,6 +233,7 @@ export const authController = new Elysia({ prefix: '/auth' })
           user: result.user,
           // Tokens are now sent ONLY via httpOnly cookies for security
           expiresIn: result.expiresIn,
+          twoFactorSetupRequired: result.twoFactorSetupRequired,
         },
         message: result.user.isSpecial
           ? 'Login realizado com sucesso! 💕 Que bom te ver de novo!'
@@ -226,6 +251,14 @@ export const authController = new Elysia({ prefix: '/auth' })
           **Proteção contra brute force:**
           - Após 5 tentativas falhas, a conta é bloqueada por 15 minutos
           - Tentativas são contadas por e-mail
+
+          **Autenticação em dois fatores:**
+          Se o usuário tiver 2FA ativo, nenhum token é emitido. A resposta traz
+          \`twoFactorRequired: true\` e um \`challengeToken\` (válido por 5 minutos)
+          que deve ser enviado para \`POST /auth/login/2fa\`.
+
+          Admins sem 2FA, quando o 2FA é obrigatório, recebem
+          \`twoFactorSetupRequired: true\` e só acessam o painel após ativá-lo.
           
           **Rate Limit:** 5 requisições por 15 minutos
         `,
@@ -233,6 +266,51 @@ export const authController = new Elysia({ prefix: '/auth' })
     }
   )
 
+  // ============================================================================
+  // POST /auth/login/2fa - Second login step
+  // ============================================================================
+  .post(
+    '/login/2fa',
+    async ({ body, request, set }) => {
+      const deviceInfo = getDeviceInfo(request)
+
+      const result = await authService.verifyTwoFactorLogin(body, deviceInfo)
+
+      // Set secure httpOnly cookies
+      setAuthCookies(set, result.accessToken, result.refreshToken)
+
+      return {
+        success: true,
+        data: {
+          user: result.user,
+          expiresIn: result.expiresIn,
+        },
+        message: 'Login realizado com sucesso!',
+      }
+    },
+    {
+      body: twoFactorLoginBodySchema,
+      detail: {
+        tags: ['Auth'],
+        summary: 'Login - segundo fator',
+        description: `
+          Conclui o login com o \`challengeToken\` recebido em \`POST /auth/login\` e:
+          - \`code\`: código de 6 dígitos do aplicativo autenticador, ou
+          - \`recoveryCode\`: um dos códigos de recuperação (cada um vale uma vez)
+
+          Códigos errados contam para o bloqueio da conta, como senhas erradas.
+
+          **Rate Limit:** 5 requisições por 15 minutos
+        `,
+        responses: {
+          200: { description: 'Login concluído' },
+          401: { description: 'Código inválido ou desafio expirado' },
+          429: { description: 'Conta bloqueada temporariamente' },
+        },
+      },
+    }
+  )
+
   // ============================================================================
   // POST /auth/refresh - Refresh access token
   // ============================================================================
@@ -274,6 +352,123 @@ export const authController = new Elysia({ prefix: '/auth' })
     }
   )
 
+  // ============================================================================
+  // POST /auth/forgot-password - Send password reset link
+  // ============================================================================
+  .post(
+    '/forgot-password',
+    async ({ body, request }) => {
+      const deviceInfo = getDeviceInfo(request)
+
+      await authService.forgotPassword(body.email, deviceInfo)
+
+      // Same response whether the e-mail exists or not
+      return {
+        success: true,
+        message: 'Se o e-mail estiver cadastrado, você receberá um link para redefinir a senha',
+      }
+    },
+    {
+      body: forgotPasswordBodySchema,
+      detail: {
+        tags: ['Auth'],
+        summary: 'Esqueci minha senha',
+        description: `
+          Envia por e-mail um link para redefinir a senha.
+
+          **Segurança:**
+          - A resposta é a mesma para e-mails cadastrados ou não
+          - O link expira em 1 hora e só pode ser usado uma vez
+          - Um novo pedido invalida os links anteriores
+
+          **Rate Limit:** 5 requisições por 15 minutos
+        `,
+      },
+    }
+  )
+
+  // ============================================================================
+  // POST /auth/reset-password - Set new password with reset token
+  // ============================================================================
+  .post(
+    '/reset-password',
+    async ({ body, request, set }) => {
+      const deviceInfo = getDeviceInfo(request)
+
+      await authService.resetPassword(body.token, body.newPassword, deviceInfo)
+
+      // All sessions were revoked, including this browser's
+      clearAuthCookies(set)
+
+      return {
+        success: true,
+        message: 'Senha redefinida com sucesso! Faça login com a nova senha.',
+      }
+    },
+    {
+      body: resetPasswordBodySchema,
+      detail: {
+        tags: ['Auth'],
+        summary: 'Redefinir senha',
+        description: `
+          Define uma nova senha usando o token recebido por e-mail.
+
+          **Após redefinir:**
+          - O token é invalidado
+          - Todas as sessões ativas são encerradas
+
+          **Rate Limit:** 5 requisições por 15 minutos
+        `,
+        responses: {
+          200: { description: 'Senha redefinida' },
+          400: { description: 'Senha fraca' },
+          401: { description: 'Token inválido, expirado ou já utilizado' },
+        },
+      },
+    }
+  )
+
+  // ============================================================================
+  // POST /auth/verify-email - Confirm e-mail address
+  // ============================================================================
+  .post(
+    '/verify-email',
+    async ({ body }) => {
+      const user = await authService.verifyEmail(body.token)
+
+      return {
+        success: true,
+        data: {
+          email: user.email,
+          emailVerified: user.emailVerified,
+        },
+        message: 'E-mail confirmado com sucesso!',
+      }
+    },
+    {
+      body: verifyEmailBodySchema,
+      detail: {
+        tags: ['Auth'],
+        summary: 'Confirmar e-mail',
+        description: `
+          Confirma o e-mail usando o token recebido por e-mail.
+
+          - Após o cadastro: marca o e-mail atual como verificado
+          - Após uma troca de e-mail: o novo endereço passa a valer a partir daqui
+
+          O link expira em 24 horas e só pode ser usado uma vez.
+
+          **Rate Limit:** 5 requisições por 15 minutos
+        `,
+        responses: {
+          200: { description: 'E-mail confirmado' },
+          401: { description: 'Token inválido, expirado ou já utilizado' },
+          409: { description: 'Novo e-mail já está em uso' },
+        },
+      },
+    }
+  )
+
   // ============================================================================
   // POST /auth/logout - Logout (revoke tokens)
   // ============================================================================
@@ -327,6 +522,9 @@ export const authController = new Elysia({ prefix: '/auth' })
           user: {
             id: user._id,
             email: user.email,
+            emailVerified: user.emailVerified,
+            pendingEmail: user.pendingEmail,
+            twoFactorEnabled: user.twoFactorEnabled,
             name: user.name,
             role: user.role,
             isSpecial: user.isSpecial,
@@ -351,6 +549,146 @@ export const authController = new Elysia({ prefix: '/auth' })
     }
   )
 
+  // ============================================================================
+  // POST /auth/verify-email/resend - Resend confirmation link
+  // ============================================================================
+  .post(
+    '/verify-email/resend',
+    async ({ auth }) => {
+      const result = await authService.resendEmailVerification(auth.userId)
+
+      return {
+        success: true,
+        message: `Enviamos um novo link de confirmação para ${result.email}`,
+      }
+    },
+    {
+      detail: {
+        tags: ['Auth'],
+        summary: 'Reenviar confirmação de e-mail',
+        description: `
+          Reenvia o link de confirmação para o e-mail pendente de troca
+          ou, se não houver troca pendente, para o e-mail atual ainda não verificado.
+
+          **Requer autenticação:** Sim
+        `,
+      },
+    }
+  )
+
+  // ============================================================================
+  // POST /auth/2fa/setup - Start 2FA enrollment
+  // ============================================================================
+  .post(
+    '/2fa/setup',
+    async ({ auth }) => {
+      const setup = await authService.setupTwoFactor(auth.userId)
+
+      return {
+        success: true,
+        data: setup,
+        message: 'Escaneie o QR code no seu aplicativo autenticador',
+      }
+    },
+    {
+      detail: {
+        tags: ['Auth'],
+        summary: 'Configurar 2FA',
+        description: `
+          Gera um segredo TOTP (RFC 6238) e a URI \`otpauth://\` para o QR code.
+          O 2FA só é ativado após confirmar um código em \`POST /auth/2fa/enable\`.
+
+          **Requer autenticação:** Sim
+        `,
+      },
+    }
+  )
+
+  // ============================================================================
+  // POST /auth/2fa/enable - Confirm enrollment
+  // ============================================================================
+  .post(
+    '/2fa/enable',
+    async ({ auth, body }) => {
+      const result = await authService.enableTwoFactor(auth.userId, body.code)
+
+      return {
+        success: true,
+        data: result,
+        message: 'Autenticação em dois fatores ativada! Guarde os códigos de recuperação.',
+      }
+    },
+    {
+      body: twoFactorCodeBodySchema,
+      detail: {
+        tags: ['Auth'],
+        summary: 'Ativar 2FA',
+        description: `
+          Confirma a configuração com um código do aplicativo e ativa o 2FA.
+          Retorna 10 códigos de recuperação, exibidos apenas uma vez.
+
+          **Requer autenticação:** Sim
+        `,
+      },
+    }
+  )
+
+  // ============================================================================
+  // POST /auth/2fa/disable - Turn 2FA off
+  // ============================================================================
+  .post(
+    '/2fa/disable',
+    async ({ auth, body }) => {
+      await authService.disableTwoFactor(auth.userId, body.password, body.code)
+
+      return {
+        success: true,
+        message: 'Autenticação em dois fatores desativada',
+      }
+    },
+    {
+      body: disableTwoFactorBodySchema,
+      detail: {
+        tags: ['Auth'],
+        summary: 'Desativar 2FA',
+        description: `
+          Desativa o 2FA (requer senha e um código atual).
+          Administradores não podem desativar enquanto o 2FA for obrigatório.
+
+          **Requer autenticação:** Sim
+        `,
+      },
+    }
+  )
+
+  // ============================================================================
+  // POST /auth/2fa/recovery-codes - Regenerate recovery codes
+  // ============================================================================
+  .post(
+    '/2fa/recovery-codes',
+    async ({ auth, body }) => {
+      const result = await authService.regenerateRecoveryCodes(auth.userId, body.code)
+
+      return {
+        success: true,
+        data: result,
+        message: 'Novos códigos de recuperação gerados. Os anteriores não valem mais.',
+      }
+    },
+    {
+      body: twoFactorCodeBodySchema,
+      detail: {
+        tags: ['Auth'],
+        summary: 'Gerar novos códigos de recuperação',
+        description: `
+          Substitui todos os códigos de recuperação (requer um código atual).
+
+          **Requer autenticação:** Sim
+        `,
+      },
+    }
+  )
+
   // ============================================================================
   // GET /auth/sessions - Get active sessions
   // ============================================================================
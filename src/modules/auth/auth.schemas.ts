@@ -110,6 +110,94 @@ export const changePasswordBodySchema = t.Object({
 
 export type ChangePasswordBody = Static<typeof changePasswordBodySchema>
 
+// =============================================================================
+// Password Reset Schemas
+// =============================================================================
+
+export const forgotPasswordBodySchema = t.Object({
+  email: t.String({
+    format: 'email',
+    maxLength: 255,
+    error: 'E-mail inválido',
+  }),
+})
+
+export type ForgotPasswordBody = Static<typeof forgotPasswordBodySchema>
+
+export const resetPasswordBodySchema = t.Object({
+  token: t.String({
+    minLength: 64,
+    maxLength: 64,
+    pattern: '^[a-f0-9]+$', // Hex string only
+    error: 'Link de redefinição inválido',
+  }),
+  newPassword: t.String({
+    minLength: PASSWORD_MIN_LENGTH,
+    maxLength: PASSWORD_MAX_LENGTH,
+    error: `Nova senha deve ter entre ${PASSWORD_MIN_LENGTH} e ${PASSWORD_MAX_LENGTH} caracteres`,
+  }),
+})
+
+export type ResetPasswordBody = Static<typeof resetPasswordBodySchema>
+
+// =============================================================================
+// Email Verification Schema
+// =============================================================================
+
+export const verifyEmailBodySchema = t.Object({
+  token: t.String({
+    minLength: 64,
+    maxLength: 64,
+    pattern: '^[a-f0-9]+$', // Hex string only
+    error: 'Link de confirmação inválido',
+  }),
+})
+
+export type VerifyEmailBody = Static<typeof verifyEmailBodySchema>
+
+// =============================================================================
+// Two-Factor Schemas
+// =============================================================================
+
+const totpCodeSchema = t.String({
+  pattern: '^[0-9]{6}$',
+  error: 'Código deve ter 6 dígitos',
+})
+
+export const twoFactorLoginBodySchema = t.Object({
+  challengeToken: t.String({
+    minLength: 1,
+    maxLength: 2048,
+    error: 'Token de desafio inválido',
+  }),
+  code: t.Optional(totpCodeSchema),
+  recoveryCode: t.Optional(
+    t.String({
+      pattern: '^[a-fA-F0-9]{5}-?[a-fA-F0-9]{5}$',
+      error: 'Código de recuperação inválido',
+    })
+  ),
+})
+
+export type TwoFactorLoginBody = Static<typeof twoFactorLoginBodySchema>
+
+export const twoFactorCodeBodySchema = t.Object({
+  code: totpCodeSchema,
+})
+
+export type TwoFactorCodeBody = Static<typeof twoFactorCodeBodySchema>
+
+export const disableTwoFactorBodySchema = t.Object({
+  password: t.String({
+    minLength: 1,
+    maxLength: PASSWORD_MAX_LENGTH,
+    error: 'Senha é obrigatória',
+  }),
+  code: totpCodeSchema,
+})
+
+export type DisableTwoFactorBody = Static<typeof disableTwoFactorBodySchema>
+
 // =============================================================================
 // Response Types (for documentation)
 // =============================================================================
@@ -120,6 +208,8 @@ export const authResponseSchema = t.Object({
     user: t.Object({
       _id: t.String(),
       email: t.String(),
+      emailVerified: t.Boolean(),
+      pendingEmail: t.Optional(t.String()),
       name: t.String(),
       role: t.String(),
       status: t.String(),
@@ -8,22 +8,38 @@
  * - Login attempt logging
  * - Secure token storage (hashed)
  * - Device tracking
+ * - Password reset with single-use e-mail tokens
+ * - E-mail verification (on register and e-mail change)
+ * - TOTP two-factor authentication with recovery codes
  */
 
 import { SignJWT, jwtVerify, type JWTPayload as JoseJWTPayload } from 'jose'
 import mongoose from 'mongoose'
+import crypto from 'node:crypto'
 import { User, type IUser } from '@/modules/users/user.model'
 import { RefreshToken } from './refresh-token.model'
+import { PasswordResetToken } from './password-reset-token.model'
+import { EmailVerificationToken } from './email-verification-token.model'
 import { LoginAttempt, AccountLockout } from './login-attempt.model'
 import * as achievementsService from '@/modules/achievements/achievements.service'
 import { ActivityLog } from '@/modules/admin/activity-log.model'
 import {
   ConflictError,
+  ForbiddenError,
+  NotFoundError,
   UnauthorizedError,
   ValidationError,
   RateLimitError,
 } from '@/shared/errors'
-import { isJulia, getJuliaSpecialMessage } from '@/shared/utils'
+import {
+  isJulia,
+  getJuliaSpecialMessage,
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUri,
+} from '@/shared/utils'
+import { getCachedSettings } from '@/shared/middlewares/system-settings.middleware'
+import { sendMail } from '@/shared/mailer'
 import { validatePasswordStrength } from './auth.schemas'
 import { env } from '@/config'
 
@@ -51,7 +67,7 @@ export interface JWTPayload {
   sub: string // user id
   email: string
   role: string
-  type: 'access' | 'refresh'
+  type: 'access' | 'refresh' | '2fa_challenge'
   iat?: number
   exp?: number
 }
@@ -67,6 +83,26 @@ export interface AuthResponse {
   accessToken: string
   refreshToken: string
   expiresIn: number
+  twoFactorSetupRequired?: boolean // Admin must enroll 2FA before using the panel
+}
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true
+  challengeToken: string
+  expiresIn: number
+}
+
+export type LoginResult = AuthResponse | TwoFactorChallenge
+
+export interface TwoFactorLoginInput {
+  challengeToken: string
+  code?: string
+  recoveryCode?: string
+}
+
+export interface TwoFactorSetup {
+  secret: string
+  otpauthUri: string
 }
 
 // =============================================================================
@@ -98,6 +134,41 @@ function parseDuration(duration: string): number {
 const ACCESS_TOKEN_DURATION = parseDuration(env.JWT_ACCESS_EXPIRES_IN)
 const REFRESH_TOKEN_DURATION = parseDuration(env.JWT_REFRESH_EXPIRES_IN)
 
+// =============================================================================
+// Two-Factor Utilities
+// =============================================================================
+
+const TWO_FACTOR_ISSUER = 'Ceboelha'
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m'
+const TWO_FACTOR_AUDIENCE = 'ceboelha-2fa'
+const RECOVERY_CODE_COUNT = 10
+
+/**
+ * Generate recovery codes (plain, shown once) and their hashes (stored)
+ * Format: xxxxx-xxxxx (hex)
+ */
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex')
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`
+  })
+  return { codes, hashes: codes.map(hashRecoveryCode) }
+}
+
+function hashRecoveryCode(code: string): string {
+  // Accept codes typed with or without the dash, in any case
+  const normalized = code.trim().toLowerCase().replace(/-/g, '')
+  return crypto.createHash('sha256').update(normalized).digest('hex')
+}
+
+/**
+ * Whether admins are required to use 2FA (SystemSettings.security)
+ */
+async function isAdminTwoFactorRequired(): Promise<boolean> {
+  const settings = await getCachedSettings()
+  return settings.security?.require_admin_2fa ?? false
+}
+
 // =============================================================================
 // Service
 // =============================================================================
@@ -240,6 +311,11 @@ export const authService = {
       timestamp: new Date(),
     }).catch((err) => console.error('[ActivityLog] Failed to log user_register:', err))
 
+    // Confirm the address in background (registration doesn't wait for the mailer)
+    this.sendEmailVerification(user).catch((err) => {
+      console.error('[Auth] Failed to send verification e-mail:', err)
+    })
+
     // Generate tokens
     const tokens = await this.createTokenPair(user, deviceInfo)
 
@@ -255,7 +331,7 @@ export const authService = {
   async login(
     input: LoginInput,
     deviceInfo?: DeviceInfo
-  ): Promise<AuthResponse> {
+  ): Promise<LoginResult> {
     const { email, password } = input
     const normalizedEmail = email.toLowerCase().trim()
 
@@ -327,10 +403,23 @@ export const authService = {
       throw new UnauthorizedError('E-mail ou senha inválidos')
     }
 
-    // Login successful - reset lockout and update stats
+    // Password is correct - reset lockout
     await AccountLockout.resetAttempts(normalizedEmail)
+
+    // Second step: return a short-lived challenge instead of the token pair
+    if (user.twoFactorEnabled) {
+      return this.createTwoFactorChallenge(user)
+    }
+
+    return this.completeLogin(user, deviceInfo)
+  },
+
+  /**
+   * Finish a successful login: log it, update stats and issue tokens
+   */
+  async completeLogin(user: IUser, deviceInfo?: DeviceInfo): Promise<AuthResponse> {
     await LoginAttempt.create({
-      email: normalizedEmail,
+      email: user.email,
       ip: deviceInfo?.ip || 'unknown',
       success: true,
       userAgent: deviceInfo?.userAgent,
@@ -360,10 +449,243 @@ export const authService = {
       console.error('[Achievements] Failed to update first_login progress:', err)
     })
 
+    const twoFactorSetupRequired =
+      user.role === 'admin' && !user.twoFactorEnabled && (await isAdminTwoFactorRequired())
+
     return {
       user: user.toJSON() as Omit<IUser, 'password'>,
       ...tokens,
+      ...(twoFactorSetupRequired && { twoFactorSetupRequired }),
+    }
+  },
+
+  /**
+   * Issue the short-lived token that proves the password step passed
+   */
+  async createTwoFactorChallenge(user: IUser): Promise<TwoFactorChallenge> {
+    const payload: JWTPayload = {
+      sub: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      type: '2fa_challenge',
+    }
+
+    const challengeToken = await new SignJWT(payload as unknown as JoseJWTPayload)
+      .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+      .setIssuedAt()
+      .setExpirationTime(TWO_FACTOR_CHALLENGE_EXPIRES_IN)
+      .setIssuer('ceboelha-api')
+      .setAudience(TWO_FACTOR_AUDIENCE)
+      .sign(accessSecret)
+
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      expiresIn: Math.floor(parseDuration(TWO_FACTOR_CHALLENGE_EXPIRES_IN) / 1000),
+    }
+  },
+
+  /**
+   * Second login step: TOTP code or a recovery code
+   * Failures count towards the account lockout like wrong passwords
+   */
+  async verifyTwoFactorLogin(
+    input: TwoFactorLoginInput,
+    deviceInfo?: DeviceInfo
+  ): Promise<AuthResponse> {
+    let payload: JWTPayload
+    try {
+      const result = await jwtVerify(input.challengeToken, accessSecret, {
+        issuer: 'ceboelha-api',
+        audience: TWO_FACTOR_AUDIENCE,
+      })
+      payload = result.payload as unknown as JWTPayload
+    } catch {
+      throw new UnauthorizedError('Sessão de login expirada. Faça login novamente.')
+    }
+
+    if (payload.type !== '2fa_challenge') {
+      throw new UnauthorizedError('Token inválido')
+    }
+
+    const lockStatus = await AccountLockout.isLocked(payload.email)
+    if (lockStatus.locked) {
+      const minutes = Math.ceil((lockStatus.remainingTime || 0) / 60)
+      throw new RateLimitError(
+        `Conta bloqueada temporariamente. Tente novamente em ${minutes} minutos.`
+      )
+    }
+
+    const user = await User.findById(payload.sub).select(
+      '+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastStep'
+    )
+    if (!user || user.status !== 'active' || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      throw new UnauthorizedError('Sessão de login expirada. Faça login novamente.')
     }
+
+    let verified = false
+
+    if (input.code) {
+      const step = verifyTotp(user.twoFactorSecret, input.code)
+      // A code can only be used once, even inside its time window
+      if (step !== null && step > (user.twoFactorLastStep ?? -1)) {
+        user.twoFactorLastStep = step
+        verified = true
+      }
+    } else if (input.recoveryCode) {
+      const hash = hashRecoveryCode(input.recoveryCode)
+      if (user.twoFactorRecoveryCodes.includes(hash)) {
+        user.twoFactorRecoveryCodes = user.twoFactorRecoveryCodes.filter((h) => h !== hash)
+        verified = true
+      }
+    } else {
+      throw new ValidationError('Informe o código do autenticador ou um código de recuperação')
+    }
+
+    if (!verified) {
+      await AccountLockout.recordFailedAttempt(user.email, deviceInfo?.ip)
+      await LoginAttempt.create({
+        email: user.email,
+        ip: deviceInfo?.ip || 'unknown',
+        success: false,
+        userAgent: deviceInfo?.userAgent,
+        failureReason: 'Invalid 2FA code',
+      })
+      throw new UnauthorizedError('Código inválido')
+    }
+
+    await AccountLockout.resetAttempts(user.email)
+    return this.completeLogin(user, deviceInfo)
+  },
+
+  /**
+   * Start 2FA enrollment: generate a secret and its otpauth URI
+   * The secret only becomes active after enableTwoFactor confirms a code
+   */
+  async setupTwoFactor(userId: string): Promise<TwoFactorSetup> {
+    const user = await User.findById(userId)
+    if (!user) {
+      throw new NotFoundError('Usuário')
+    }
+    if (user.twoFactorEnabled) {
+      throw new ConflictError('A autenticação em dois fatores já está ativa')
+    }
+
+    const secret = generateTotpSecret()
+    user.twoFactorPendingSecret = secret
+    await user.save()
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, TWO_FACTOR_ISSUER),
+    }
+  },
+
+  /**
+   * Confirm enrollment with a code from the app
+   * Returns the recovery codes (shown only once)
+   */
+  async enableTwoFactor(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    const user = await User.findById(userId).select('+twoFactorPendingSecret')
+    if (!user) {
+      throw new NotFoundError('Usuário')
+    }
+    if (user.twoFactorEnabled) {
+      throw new ConflictError('A autenticação em dois fatores já está ativa')
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new ValidationError('Inicie a configuração da autenticação em dois fatores primeiro')
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code)
+    if (step === null) {
+      throw new ValidationError('Código inválido')
+    }
+
+    const { codes, hashes } = generateRecoveryCodes()
+
+    user.twoFactorEnabled = true
+    user.twoFactorEnabledAt = new Date()
+    user.twoFactorSecret = user.twoFactorPendingSecret
+    user.twoFactorPendingSecret = undefined
+    user.twoFactorRecoveryCodes = hashes
+    user.twoFactorLastStep = step
+    await user.save()
+
+    ActivityLog.create({
+      type: 'profile_updated',
+      userId: user._id,
+      userName: user.name,
+      userEmail: user.email,
+      action: 'Autenticação em dois fatores ativada',
+      timestamp: new Date(),
+    }).catch((err) => console.error('[ActivityLog] Failed to log profile_updated:', err))
+
+    return { recoveryCodes: codes }
+  },
+
+  /**
+   * Turn 2FA off (requires password and a current code)
+   * Not allowed for admins while SystemSettings requires 2FA
+   */
+  async disableTwoFactor(userId: string, password: string, code: string): Promise<void> {
+    const user = await User.findById(userId).select('+password +twoFactorSecret')
+    if (!user) {
+      throw new NotFoundError('Usuário')
+    }
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      throw new ValidationError('A autenticação em dois fatores não está ativa')
+    }
+
+    if (user.role === 'admin' && (await isAdminTwoFactorRequired())) {
+      throw new ForbiddenError('A autenticação em dois fatores é obrigatória para administradores')
+    }
+
+    const isValidPassword = await user.comparePassword(password)
+    if (!isValidPassword) {
+      throw new UnauthorizedError('Senha incorreta')
+    }
+    if (verifyTotp(user.twoFactorSecret, code) === null) {
+      throw new UnauthorizedError('Código inválido')
+    }
+
+    user.twoFactorEnabled = false
+    user.twoFactorEnabledAt = undefined
+    user.twoFactorSecret = undefined
+    user.twoFactorRecoveryCodes = []
+    user.twoFactorLastStep = undefined
+    await user.save()
+
+    ActivityLog.create({
+      type: 'profile_updated',
+      userId: user._id,
+      userName: user.name,
+      userEmail: user.email,
+      action: 'Autenticação em dois fatores desativada',
+      timestamp: new Date(),
+    }).catch((err) => console.error('[ActivityLog] Failed to log profile_updated:', err))
+  },
+
+  /**
+   * Replace all recovery codes (requires a current code)
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    const user = await User.findById(userId).select('+twoFactorSecret')
+    if (!user) {
+      throw new NotFoundError('Usuário')
+    }
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      throw new ValidationError('A autenticação em dois fatores não está ativa')
+    }
+    if (verifyTotp(user.twoFactorSecret, code) === null) {
+      throw new UnauthorizedError('Código inválido')
+    }
+
+    const { codes, hashes } = generateRecoveryCodes()
+    user.twoFactorRecoveryCodes = hashes
+    await user.save()
+
+    return { recoveryCodes: codes }
   },
 
   /**
@@ -487,6 +809,212 @@ export const authService = {
 
     return true
   },
+
+  /**
+   * Send a verification link to the user's e-mail
+   * With `email` set to a new address, the link confirms an e-mail change
+   */
+  async sendEmailVerification(user: IUser, email: string = user.email): Promise<void> {
+    // A new link replaces any link sent before
+    await EmailVerificationToken.invalidateAllForUser(user._id)
+
+    const { token } = await EmailVerificationToken.createToken(
+      user._id,
+      email,
+      env.EMAIL_VERIFICATION_EXPIRES
+    )
+
+    const verifyUrl = `${env.APP_URL}/verify-email?token=${token}`
+    const isChange = email !== user.email
+
+    await sendMail({
+      to: email,
+      subject: isChange ? 'Confirme seu novo e-mail - Ceboelha' : 'Confirme seu e-mail - Ceboelha',
+      text: [
+        `Olá, ${user.name}!`,
+        '',
+        isChange
+          ? 'Para concluir a troca de e-mail da sua conta, confirme este endereço:'
+          : 'Para confirmar seu e-mail, acesse o link abaixo:',
+        '',
+        verifyUrl,
+        '',
+        'Se você não reconhece este pedido, ignore este e-mail.',
+      ].join('\n'),
+    })
+  },
+
+  /**
+   * Resend the verification link (current e-mail or pending change)
+   */
+  async resendEmailVerification(userId: string): Promise<{ email: string }> {
+    const user = await User.findById(userId)
+    if (!user) {
+      throw new NotFoundError('Usuário')
+    }
+
+    if (user.pendingEmail) {
+      await this.sendEmailVerification(user, user.pendingEmail)
+      return { email: user.pendingEmail }
+    }
+
+    if (user.emailVerified) {
+      throw new ValidationError('Seu e-mail já está confirmado')
+    }
+
+    await this.sendEmailVerification(user)
+    return { email: user.email }
+  },
+
+  /**
+   * Confirm an e-mail address using the token sent by e-mail
+   * For pending e-mail changes, this is when the new address takes effect
+   */
+  async verifyEmail(token: string): Promise<IUser> {
+    const verification = await EmailVerificationToken.consume(token)
+    if (!verification) {
+      throw new UnauthorizedError('Link de confirmação inválido ou expirado')
+    }
+
+    const user = await User.findById(verification.userId)
+    if (!user) {
+      throw new UnauthorizedError('Link de confirmação inválido ou expirado')
+    }
+
+    const oldEmail = user.email
+    const isChange = verification.email !== user.email
+
+    if (isChange) {
+      // The link belongs to a change that was replaced or cancelled
+      if (verification.email !== user.pendingEmail) {
+        throw new UnauthorizedError('Link de confirmação inválido ou expirado')
+      }
+
+      // The address may have been taken while the change was pending
+      const existingUser = await User.findOne({ email: verification.email })
+      if (existingUser) {
+        throw new ConflictError('Este e-mail já está em uso')
+      }
+
+      user.email = verification.email
+      user.pendingEmail = undefined
+    }
+
+    user.emailVerified = true
+    user.emailVerifiedAt = new Date()
+    await user.save()
+
+    if (isChange) {
+      ActivityLog.create({
+        type: 'profile_updated',
+        userId: user._id,
+        userName: user.name,
+        userEmail: user.email,
+        action: 'E-mail alterado',
+        details: JSON.stringify({
+          email: { from: oldEmail, to: user.email },
+        }),
+        timestamp: new Date(),
+      }).catch((err) => console.error('[ActivityLog] Failed to log profile_updated:', err))
+    }
+
+    return user
+  },
+
+  /**
+   * Request a password reset link by e-mail
+   * Always resolves, even if the e-mail is unknown (prevents enumeration)
+   */
+  async forgotPassword(email: string, deviceInfo?: DeviceInfo): Promise<void> {
+    const user = await User.findOne({ email: email.toLowerCase().trim() })
+
+    if (!user || user.status !== 'active') {
+      return
+    }
+
+    // Token and e-mail are handled in background, so known and unknown
+    // addresses answer alike (same timing, mailer errors never surface)
+    this.sendPasswordReset(user, deviceInfo).catch((err) => {
+      console.error('[Auth] Failed to send password reset e-mail:', err)
+    })
+  },
+
+  /**
+   * Create a reset token and e-mail the link (replaces any link sent before)
+   */
+  async sendPasswordReset(user: IUser, deviceInfo?: DeviceInfo): Promise<void> {
+    await PasswordResetToken.invalidateAllForUser(user._id)
+
+    const { token } = await PasswordResetToken.createToken(
+      user._id,
+      env.PASSWORD_RESET_EXPIRES,
+      deviceInfo?.ip
+    )
+
+    const resetUrl = `${env.APP_URL}/reset-password?token=${token}`
+    const minutes = Math.round(env.PASSWORD_RESET_EXPIRES / 60000)
+
+    await sendMail({
+      to: user.email,
+      subject: 'Redefinição de senha - Ceboelha',
+      text: [
+        `Olá, ${user.name}!`,
+        '',
+        'Recebemos um pedido para redefinir a senha da sua conta.',
+        `Use o link abaixo em até ${minutes} minutos:`,
+        '',
+        resetUrl,
+        '',
+        'Se você não pediu a redefinição, ignore este e-mail. Sua senha continua a mesma.',
+      ].join('\n'),
+    })
+  },
+
+  /**
+   * Reset password using a token sent by e-mail
+   * The token is single-use; all sessions are revoked on success
+   */
+  async resetPassword(
+    token: string,
+    newPassword: string,
+    deviceInfo?: DeviceInfo
+  ): Promise<void> {
+    // Validate before consuming, so a weak password doesn't burn the link
+    const passwordError = validatePasswordStrength(newPassword)
+    if (passwordError) {
+      throw new ValidationError(passwordError)
+    }
+
+    const resetToken = await PasswordResetToken.consume(token)
+    if (!resetToken) {
+      throw new UnauthorizedError('Link de redefinição inválido ou expirado')
+    }
+
+    const user = await User.findById(resetToken.userId).select('+password')
+    if (!user || user.status !== 'active') {
+      throw new UnauthorizedError('Link de redefinição inválido ou expirado')
+    }
+
+    // Update password (will be hashed by pre-save hook)
+    user.password = newPassword
+    await user.save()
+
+    // Force re-login everywhere and clear any lockout from forgotten attempts
+    await RefreshToken.revokeAllForUser(user._id, 'Password reset')
+    await AccountLockout.resetAttempts(user.email)
+
+    // Activity Log - password_change
+    ActivityLog.create({
+      type: 'password_change',
+      userId: user._id,
+      userName: user.name,
+      userEmail: user.email,
+      action: 'Senha redefinida por e-mail',
+      ip_address: deviceInfo?.ip,
+      user_agent: deviceInfo?.userAgent,
+      timestamp: new Date(),
+    }).catch((err) => console.error('[ActivityLog] Failed to log password_change:', err))
+  },
 }
 
 export default authService
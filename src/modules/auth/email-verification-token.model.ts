@@ -0,0 +1,155 @@
+/**
+ * Email Verification Token Model - E-mail Confirmation Links
+ *
+ * Stores verification tokens with:
+ * - Token hash (never store plain tokens, same as RefreshToken)
+ * - The address being confirmed (current e-mail or a pending change)
+ * - Expiration
+ * - Single use (usedAt is set atomically when consumed)
+ */
+
+import crypto from 'node:crypto'
+import mongoose, { Schema, type Document, type Model } from 'mongoose'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export interface IEmailVerificationToken extends Document {
+  _id: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  email: string // Address this token confirms
+  tokenHash: string // SHA-256 hash of the token
+  usedAt?: Date
+  expiresAt: Date
+  createdAt: Date
+}
+
+// =============================================================================
+// Static Methods Interface
+// =============================================================================
+
+export interface IEmailVerificationTokenModel extends Model<IEmailVerificationToken> {
+  hashToken(token: string): string
+  createToken(
+    userId: mongoose.Types.ObjectId,
+    email: string,
+    expiresInMs: number,
+  ): Promise<{ token: string; doc: IEmailVerificationToken }>
+  consume(token: string): Promise<IEmailVerificationToken | null>
+  invalidateAllForUser(userId: mongoose.Types.ObjectId): Promise<void>
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const emailVerificationTokenSchema = new Schema<IEmailVerificationToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    usedAt: Date,
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'email_verification_tokens',
+  },
+)
+
+// =============================================================================
+// Indexes
+// =============================================================================
+
+// TTL index to auto-delete tokens 1 day after expiration
+emailVerificationTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 86400 })
+
+// =============================================================================
+// Helper Functions (used by statics)
+// =============================================================================
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+// =============================================================================
+// Static Methods
+// =============================================================================
+
+emailVerificationTokenSchema.statics.hashToken = hashToken
+
+/**
+ * Create a new verification token for an address
+ * Returns the plain token (sent by e-mail only) and the document
+ */
+emailVerificationTokenSchema.statics.createToken = async function (
+  userId: mongoose.Types.ObjectId,
+  email: string,
+  expiresInMs: number,
+): Promise<{ token: string; doc: IEmailVerificationToken }> {
+  // 32 bytes = 64 hex chars
+  const token = crypto.randomBytes(32).toString('hex')
+
+  const doc = await this.create({
+    userId,
+    email,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + expiresInMs),
+  })
+
+  return { token, doc }
+}
+
+/**
+ * Mark a token as used and return it
+ * Atomic: a token can only be consumed once, and only before it expires
+ */
+emailVerificationTokenSchema.statics.consume = async function (
+  token: string,
+): Promise<IEmailVerificationToken | null> {
+  return this.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() },
+    { new: true },
+  )
+}
+
+/**
+ * Invalidate pending tokens (a new link replaces older ones)
+ */
+emailVerificationTokenSchema.statics.invalidateAllForUser = async function (
+  userId: mongoose.Types.ObjectId,
+): Promise<void> {
+  await this.updateMany({ userId, usedAt: { $exists: false } }, { usedAt: new Date() })
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const EmailVerificationToken = mongoose.model<
+  IEmailVerificationToken,
+  IEmailVerificationTokenModel
+>('EmailVerificationToken', emailVerificationTokenSchema)
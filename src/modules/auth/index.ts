@@ -1,6 +1,15 @@
 // Auth Module Exports
 export { authController } from './auth.controller'
-export { authService, type JWTPayload, type AuthResponse, type TokenPair } from './auth.service'
+export {
+  authService,
+  type JWTPayload,
+  type AuthResponse,
+  type TokenPair,
+  type LoginResult,
+  type TwoFactorChallenge,
+} from './auth.service'
 export { RefreshToken, type IRefreshToken } from './refresh-token.model'
+export { PasswordResetToken, type IPasswordResetToken } from './password-reset-token.model'
+export { EmailVerificationToken, type IEmailVerificationToken } from './email-verification-token.model'
 export { LoginAttempt, AccountLockout, type ILoginAttempt, type IAccountLockout } from './login-attempt.model'
 export * from './auth.schemas'
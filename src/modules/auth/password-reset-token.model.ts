@@ -0,0 +1,149 @@
+/**
+ * Password Reset Token Model - Single-use Reset Links
+ *
+ * Stores password reset tokens with:
+ * - Token hash (never store plain tokens, same as RefreshToken)
+ * - Short expiration
+ * - Single use (usedAt is set atomically when consumed)
+ */
+
+import crypto from 'node:crypto'
+import mongoose, { Schema, type Document, type Model } from 'mongoose'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export interface IPasswordResetToken extends Document {
+  _id: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  tokenHash: string // SHA-256 hash of the token
+  requestedIp?: string
+  usedAt?: Date
+  expiresAt: Date
+  createdAt: Date
+}
+
+// =============================================================================
+// Static Methods Interface
+// =============================================================================
+
+export interface IPasswordResetTokenModel extends Model<IPasswordResetToken> {
+  hashToken(token: string): string
+  createToken(
+    userId: mongoose.Types.ObjectId,
+    expiresInMs: number,
+    requestedIp?: string,
+  ): Promise<{ token: string; doc: IPasswordResetToken }>
+  consume(token: string): Promise<IPasswordResetToken | null>
+  invalidateAllForUser(userId: mongoose.Types.ObjectId): Promise<void>
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const passwordResetTokenSchema = new Schema<IPasswordResetToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    requestedIp: String,
+    usedAt: Date,
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'password_reset_tokens',
+  },
+)
+
+// =============================================================================
+// Indexes
+// =============================================================================
+
+// TTL index to auto-delete tokens 1 day after expiration
+passwordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 86400 })
+
+// =============================================================================
+// Helper Functions (used by statics)
+// =============================================================================
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+// =============================================================================
+// Static Methods
+// =============================================================================
+
+passwordResetTokenSchema.statics.hashToken = hashToken
+
+/**
+ * Create a new reset token
+ * Returns the plain token (sent by e-mail only) and the document
+ */
+passwordResetTokenSchema.statics.createToken = async function (
+  userId: mongoose.Types.ObjectId,
+  expiresInMs: number,
+  requestedIp?: string,
+): Promise<{ token: string; doc: IPasswordResetToken }> {
+  // 32 bytes = 64 hex chars
+  const token = crypto.randomBytes(32).toString('hex')
+
+  const doc = await this.create({
+    userId,
+    tokenHash: hashToken(token),
+    requestedIp,
+    expiresAt: new Date(Date.now() + expiresInMs),
+  })
+
+  return { token, doc }
+}
+
+/**
+ * Mark a token as used and return it
+ * Atomic: a token can only be consumed once, and only before it expires
+ */
+passwordResetTokenSchema.statics.consume = async function (
+  token: string,
+): Promise<IPasswordResetToken | null> {
+  return this.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() },
+    { new: true },
+  )
+}
+
+/**
+ * Invalidate pending tokens (a new request replaces older links)
+ */
+passwordResetTokenSchema.statics.invalidateAllForUser = async function (
+  userId: mongoose.Types.ObjectId,
+): Promise<void> {
+  await this.updateMany({ userId, usedAt: { $exists: false } }, { usedAt: new Date() })
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const PasswordResetToken = mongoose.model<IPasswordResetToken, IPasswordResetTokenModel>(
+  'PasswordResetToken',
+  passwordResetTokenSchema,
+)
@@ -0,0 +1,192 @@
+/**
+ * Custom Food Model - Mongoose Schema
+ *
+ * Foods created by users: simple foods with their own nutrition label and
+ * recipes composed of catalog foods. They are private to their owner and
+ * use negative `foodId`s, so diary meals can reference them with the same
+ * numeric field used for catalog foods without ever colliding.
+ */
+
+import type { CalculatedNutrition, FodmapGroup, FodmapLevel } from '@/shared/types'
+import mongoose, { Schema, type Document, type Model } from 'mongoose'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CustomFoodKind = 'food' | 'recipe'
+
+// private: only the owner sees it; the others track a catalog submission
+// (reviewing: claimed by an admin; merged: the food already existed in the catalog)
+export type CustomFoodStatus =
+  | 'private'
+  | 'pending'
+  | 'reviewing'
+  | 'approved'
+  | 'merged'
+  | 'rejected'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export interface ICustomFoodIngredient {
+  foodId: number
+  foodName: string
+  quantity_g: number
+}
+
+export interface ICustomFoodFodmap {
+  level: FodmapLevel
+  subgroups?: Partial<Record<FodmapGroup, FodmapLevel>>
+  // Ingredients without FODMAP data (the level may be underestimated)
+  unclassifiedIngredients: number
+}
+
+export interface ICustomFood extends Document {
+  _id: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  foodId: number // Negative, unique across users
+  kind: CustomFoodKind
+  name: string
+  category?: string
+  ingredients: ICustomFoodIngredient[] // Recipes only
+  yield_g?: number // Recipe weight after cooking (defaults to the ingredients' sum)
+  nutrition?: CalculatedNutrition // Per 100g
+  fodmap?: ICustomFoodFodmap
+  notes?: string
+  status: CustomFoodStatus
+  submittedAt?: Date
+  reviewStartedAt?: Date // When an admin claimed it (status 'reviewing')
+  reviewedAt?: Date
+  reviewedBy?: mongoose.Types.ObjectId
+  reviewReason?: string // Required when rejected
+  catalogFoodId?: number // Food.id created on approval or merged into
+  createdAt: Date
+  updatedAt: Date
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const FODMAP_LEVELS = ['free', 'low', 'medium', 'high']
+
+const ingredientSchema = new Schema<ICustomFoodIngredient>(
+  {
+    foodId: { type: Number, required: true },
+    foodName: { type: String, required: true },
+    quantity_g: { type: Number, required: true, min: 0 },
+  },
+  { _id: false },
+)
+
+const nutritionSchema = new Schema<CalculatedNutrition>(
+  {
+    calories: Number,
+    carbs: Number,
+    protein: Number,
+    fat: Number,
+    sugar: Number,
+    fiber: Number,
+    sodium: Number,
+  },
+  { _id: false },
+)
+
+const fodmapSubgroupsSchema = new Schema(
+  {
+    fructans: { type: String, enum: FODMAP_LEVELS },
+    gos: { type: String, enum: FODMAP_LEVELS },
+    lactose: { type: String, enum: FODMAP_LEVELS },
+    fructose: { type: String, enum: FODMAP_LEVELS },
+    sorbitol: { type: String, enum: FODMAP_LEVELS },
+    mannitol: { type: String, enum: FODMAP_LEVELS },
+  },
+  { _id: false },
+)
+
+const fodmapSchema = new Schema<ICustomFoodFodmap>(
+  {
+    level: { type: String, enum: FODMAP_LEVELS, required: true },
+    subgroups: fodmapSubgroupsSchema,
+    unclassifiedIngredients: { type: Number, default: 0 },
+  },
+  { _id: false },
+)
+
+const customFoodSchema = new Schema<ICustomFood>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    foodId: {
+      type: Number,
+      required: true,
+      unique: true,
+      max: -1,
+    },
+    kind: {
+      type: String,
+      enum: ['food', 'recipe'],
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    category: {
+      type: String,
+      trim: true,
+    },
+    ingredients: {
+      type: [ingredientSchema],
+      default: [],
+    },
+    yield_g: { type: Number, min: 1 },
+    nutrition: nutritionSchema,
+    fodmap: fodmapSchema,
+    notes: String,
+    status: {
+      type: String,
+      enum: ['private', 'pending', 'reviewing', 'approved', 'merged', 'rejected'],
+      default: 'private',
+    },
+    submittedAt: Date,
+    reviewStartedAt: Date,
+    reviewedAt: Date,
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reviewReason: {
+      type: String,
+      maxlength: 500,
+    },
+    catalogFoodId: Number,
+  },
+  {
+    timestamps: true,
+    collection: 'custom_foods',
+  },
+)
+
+// =============================================================================
+// Indexes
+// =============================================================================
+
+customFoodSchema.index({ userId: 1, name: 1 })
+customFoodSchema.index({ status: 1, submittedAt: 1 })
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const CustomFood: Model<ICustomFood> = mongoose.model<ICustomFood>(
+  'CustomFood',
+  customFoodSchema,
+)
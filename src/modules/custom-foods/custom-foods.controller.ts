@@ -0,0 +1,231 @@
+/**
+ * Custom Foods Controller - REST Endpoints
+ *
+ * Endpoints:
+ * - GET /custom-foods - List custom foods and recipes
+ * - GET /custom-foods/:id - Get custom food
+ * - POST /custom-foods - Create custom food or recipe
+ * - PATCH /custom-foods/:id - Update custom food
+ * - DELETE /custom-foods/:id - Delete custom food
+ * - POST /custom-foods/:id/submit - Submit for the public catalog
+ */
+
+import { requireAuth, requireFeature } from '@/shared/middlewares'
+import { Elysia } from 'elysia'
+import {
+  createCustomFoodBodySchema,
+  customFoodIdParamSchema,
+  customFoodsQuerySchema,
+  updateCustomFoodBodySchema,
+} from './custom-foods.schemas'
+import * as customFoodsService from './custom-foods.service'
+
+// =============================================================================
+// Controller
+// =============================================================================
+
+export const customFoodsController = new Elysia({ prefix: '/custom-foods' })
+  // Apply auth middleware to all routes
+  .use(requireAuth)
+  .use(requireFeature('diary_enabled'))
+
+  // ==========================================================================
+  // GET /custom-foods - List custom foods and recipes
+  // ==========================================================================
+  .get(
+    '/',
+    async ({ auth, query }) => {
+      const foods = await customFoodsService.getCustomFoods(auth.userId, query)
+
+      return {
+        success: true,
+        data: foods,
+      }
+    },
+    {
+      query: customFoodsQuerySchema,
+      detail: {
+        tags: ['Custom Foods'],
+        summary: 'Listar alimentos personalizados',
+        description: `
+          Lista os alimentos e receitas criados pelo usuário.
+
+          Use o \`foodId\` (negativo) para registrá-los em refeições do diário,
+          junto com os alimentos do catálogo.
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Lista de alimentos personalizados' },
+          401: { description: 'Não autenticado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // GET /custom-foods/:id - Get custom food
+  // ==========================================================================
+  .get(
+    '/:id',
+    async ({ params, auth }) => {
+      const food = await customFoodsService.getCustomFoodById(auth.userId, params.id)
+
+      return {
+        success: true,
+        data: food,
+      }
+    },
+    {
+      params: customFoodIdParamSchema,
+      detail: {
+        tags: ['Custom Foods'],
+        summary: 'Buscar alimento personalizado',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Alimento encontrado' },
+          401: { description: 'Não autenticado' },
+          404: { description: 'Alimento não encontrado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // POST /custom-foods - Create custom food or recipe
+  // ==========================================================================
+  .post(
+    '/',
+    async ({ body, auth }) => {
+      const food = await customFoodsService.createCustomFood(auth.userId, body)
+
+      return {
+        success: true,
+        data: food,
+      }
+    },
+    {
+      body: createCustomFoodBodySchema,
+      detail: {
+        tags: ['Custom Foods'],
+        summary: 'Criar alimento personalizado ou receita',
+        description: `
+          **Alimento (\`kind: food\`)**: informe a tabela nutricional por 100g
+          e, opcionalmente, o nível FODMAP.
+
+          **Receita (\`kind: recipe\`)**: informe os ingredientes do catálogo com
+          as quantidades em gramas. A nutrição por 100g e o nível FODMAP são
+          calculados a partir dos ingredientes (o pior nível entre eles, geral
+          e por subgrupo). Use \`yield_g\` quando o peso final for diferente da
+          soma dos ingredientes (ex.: perda de água no cozimento).
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Alimento criado' },
+          400: { description: 'Dados inválidos ou ingrediente inexistente' },
+          401: { description: 'Não autenticado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // PATCH /custom-foods/:id - Update custom food
+  // ==========================================================================
+  .patch(
+    '/:id',
+    async ({ params, body, auth }) => {
+      const food = await customFoodsService.updateCustomFood(auth.userId, params.id, body)
+
+      return {
+        success: true,
+        data: food,
+      }
+    },
+    {
+      params: customFoodIdParamSchema,
+      body: updateCustomFoodBodySchema,
+      detail: {
+        tags: ['Custom Foods'],
+        summary: 'Atualizar alimento personalizado',
+        description: `
+          Alterar os ingredientes ou o peso final de uma receita recalcula a
+          nutrição e o nível FODMAP. Refeições já registradas não mudam.
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Alimento atualizado' },
+          400: { description: 'Dados inválidos' },
+          401: { description: 'Não autenticado' },
+          404: { description: 'Alimento não encontrado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // DELETE /custom-foods/:id - Delete custom food
+  // ==========================================================================
+  .delete(
+    '/:id',
+    async ({ params, auth }) => {
+      await customFoodsService.deleteCustomFood(auth.userId, params.id)
+
+      return {
+        success: true,
+        message: 'Alimento personalizado removido',
+      }
+    },
+    {
+      params: customFoodIdParamSchema,
+      detail: {
+        tags: ['Custom Foods'],
+        summary: 'Remover alimento personalizado',
+        description:
+          'Remove o alimento (e cancela o envio, se pendente). Refeições já registradas são mantidas.',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Alimento removido' },
+          401: { description: 'Não autenticado' },
+          404: { description: 'Alimento não encontrado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // POST /custom-foods/:id/submit - Submit for the public catalog
+  // ==========================================================================
+  .post(
+    '/:id/submit',
+    async ({ params, auth }) => {
+      const food = await customFoodsService.submitCustomFood(auth.userId, params.id)
+
+      return {
+        success: true,
+        data: food,
+        message: 'Alimento enviado para aprovação',
+      }
+    },
+    {
+      params: customFoodIdParamSchema,
+      detail: {
+        tags: ['Custom Foods'],
+        summary: 'Enviar para o catálogo',
+        description: `
+          Envia o alimento para a revisão de um administrador. Se aprovado,
+          passa a fazer parte do catálogo público.
+
+          O alimento precisa ter classificação FODMAP. Alimentos recusados
+          podem ser corrigidos e enviados novamente.
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Alimento enviado' },
+          400: { description: 'Alimento sem classificação FODMAP' },
+          401: { description: 'Não autenticado' },
+          404: { description: 'Alimento não encontrado' },
+          409: { description: 'Alimento já enviado ou aprovado' },
+        },
+      },
+    },
+  )
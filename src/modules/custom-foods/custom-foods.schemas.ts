@@ -0,0 +1,93 @@
+/**
+ * Custom Foods Schemas - TypeBox Validation
+ */
+
+import { t } from 'elysia'
+
+// =============================================================================
+// Shared Schemas
+// =============================================================================
+
+const kindSchema = t.Union([t.Literal('food'), t.Literal('recipe')], {
+  description: 'food: alimento com tabela própria; recipe: receita com ingredientes do catálogo',
+})
+
+const fodmapLevelSchema = t.Union([
+  t.Literal('free'),
+  t.Literal('low'),
+  t.Literal('medium'),
+  t.Literal('high'),
+])
+
+const nutritionSchema = t.Object(
+  {
+    calories: t.Optional(t.Number({ minimum: 0 })),
+    carbs: t.Optional(t.Number({ minimum: 0 })),
+    protein: t.Optional(t.Number({ minimum: 0 })),
+    fat: t.Optional(t.Number({ minimum: 0 })),
+    sugar: t.Optional(t.Number({ minimum: 0 })),
+    fiber: t.Optional(t.Number({ minimum: 0 })),
+    sodium: t.Optional(t.Number({ minimum: 0, description: 'Sódio em mg' })),
+  },
+  { description: 'Informação nutricional por 100g' },
+)
+
+const ingredientSchema = t.Object({
+  foodId: t.Number({ minimum: 1, description: 'ID do alimento do catálogo' }),
+  quantity_g: t.Number({ minimum: 1, maximum: 10000, description: 'Quantidade em gramas' }),
+})
+
+const ingredientsSchema = t.Array(ingredientSchema, { minItems: 1, maxItems: 50 })
+
+const yieldSchema = t.Number({
+  minimum: 1,
+  maximum: 50000,
+  description: 'Peso final da receita em gramas (padrão: soma dos ingredientes)',
+})
+
+// =============================================================================
+// Body Schemas
+// =============================================================================
+
+/**
+ * POST /custom-foods
+ */
+export const createCustomFoodBodySchema = t.Object({
+  kind: kindSchema,
+  name: t.String({ minLength: 1, maxLength: 100 }),
+  category: t.Optional(t.String({ maxLength: 100 })),
+  notes: t.Optional(t.String({ maxLength: 500 })),
+  nutrition: t.Optional(nutritionSchema),
+  fodmapLevel: t.Optional(fodmapLevelSchema),
+  ingredients: t.Optional(ingredientsSchema),
+  yield_g: t.Optional(yieldSchema),
+})
+
+/**
+ * PATCH /custom-foods/:id
+ */
+export const updateCustomFoodBodySchema = t.Object({
+  name: t.Optional(t.String({ minLength: 1, maxLength: 100 })),
+  category: t.Optional(t.String({ maxLength: 100 })),
+  notes: t.Optional(t.String({ maxLength: 500 })),
+  nutrition: t.Optional(nutritionSchema),
+  fodmapLevel: t.Optional(fodmapLevelSchema),
+  ingredients: t.Optional(ingredientsSchema),
+  yield_g: t.Optional(yieldSchema),
+})
+
+// =============================================================================
+// Query / Param Schemas
+// =============================================================================
+
+export const customFoodsQuerySchema = t.Object({
+  search: t.Optional(t.String({ maxLength: 100 })),
+  kind: t.Optional(kindSchema),
+})
+
+export const customFoodIdParamSchema = t.Object({
+  id: t.String({
+    pattern: '^[a-fA-F0-9]{24}$',
+    description: 'ID do alimento personalizado',
+  }),
+})
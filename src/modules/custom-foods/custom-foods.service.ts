@@ -0,0 +1,437 @@
+/**
+ * Custom Foods Service - Business Logic
+ *
+ * Features:
+ * - CRUD of the user's private foods and recipes
+ * - Recipe nutrition (per 100g) and worst-case FODMAP level derived from
+ *   the catalog ingredients
+ * - Nutrition of custom foods logged in diary meals
+ * - Submission of a custom food for inclusion in the public catalog
+ */
+
+import { Food } from '@/modules/foods/food.model'
+import { calculateNutrition, getWorstFodmapLevel } from '@/modules/foods/foods.service'
+import { IdCounter } from '@/modules/foods/id-counter.model'
+import { ConflictError, NotFoundError, ValidationError } from '@/shared/errors'
+import {
+  type CalculatedNutrition,
+  FODMAP_GROUPS,
+  type FodmapGroup,
+  type FodmapLevel,
+} from '@/shared/types'
+import { escapeRegex } from '@/shared/utils'
+import mongoose from 'mongoose'
+import {
+  CustomFood,
+  type CustomFoodKind,
+  type ICustomFood,
+  type ICustomFoodFodmap,
+  type ICustomFoodIngredient,
+} from './custom-food.model'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CustomFoodIngredientData {
+  foodId: number
+  quantity_g: number
+}
+
+export interface CreateCustomFoodData {
+  kind: CustomFoodKind
+  name: string
+  category?: string
+  notes?: string
+  // kind: 'food'
+  nutrition?: Partial<CalculatedNutrition>
+  fodmapLevel?: FodmapLevel
+  // kind: 'recipe'
+  ingredients?: CustomFoodIngredientData[]
+  yield_g?: number
+}
+
+export type UpdateCustomFoodData = Partial<Omit<CreateCustomFoodData, 'kind'>>
+
+export interface CustomFoodsQuery {
+  search?: string
+  kind?: CustomFoodKind
+}
+
+interface DerivedRecipeData {
+  ingredients: ICustomFoodIngredient[]
+  nutrition?: CalculatedNutrition
+  fodmap?: ICustomFoodFodmap
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_CUSTOM_FOODS_PER_USER = 200
+
+const NUTRIENT_DECIMALS: Record<keyof CalculatedNutrition, number> = {
+  calories: 0,
+  carbs: 1,
+  protein: 1,
+  fat: 1,
+  sugar: 1,
+  fiber: 1,
+  sodium: 0,
+}
+
+const NUTRIENT_KEYS = Object.keys(NUTRIENT_DECIMALS) as (keyof CalculatedNutrition)[]
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function scaleNutrition(nutrition: CalculatedNutrition, factor: number): CalculatedNutrition {
+  const scaled = {} as CalculatedNutrition
+  for (const key of NUTRIENT_KEYS) {
+    scaled[key] = round((nutrition[key] || 0) * factor, NUTRIENT_DECIMALS[key])
+  }
+  return scaled
+}
+
+/**
+ * Custom foods live in the negative side of the diary's numeric foodId space
+ */
+export function isCustomFoodId(foodId: number): boolean {
+  return foodId < 0
+}
+
+/**
+ * Allocated from an atomic counter: concurrent creates never share an ID
+ * and IDs of deleted custom foods are never handed out again
+ */
+async function nextCustomFoodId(): Promise<number> {
+  const lowest = await CustomFood.findOne().sort({ foodId: 1 }).select('foodId').lean()
+  const used = -Math.min(lowest?.foodId ?? 0, 0)
+  return -(await IdCounter.allocate('custom_food', used))
+}
+
+function formatCustomFood(food: ICustomFood) {
+  return {
+    id: food._id.toString(),
+    foodId: food.foodId,
+    kind: food.kind,
+    name: food.name,
+    category: food.category,
+    ingredients: food.ingredients.map((ingredient) => ({
+      foodId: ingredient.foodId,
+      foodName: ingredient.foodName,
+      quantity_g: ingredient.quantity_g,
+    })),
+    yield_g: food.yield_g,
+    nutrition: food.nutrition,
+    fodmap: food.fodmap,
+    notes: food.notes,
+    status: food.status,
+    submittedAt: food.submittedAt?.toISOString(),
+    reviewedAt: food.reviewedAt?.toISOString(),
+    reviewReason: food.reviewReason,
+    catalogFoodId: food.catalogFoodId,
+    createdAt: food.createdAt.toISOString(),
+    updatedAt: food.updatedAt.toISOString(),
+  }
+}
+
+async function findUserCustomFood(userId: string, customFoodId: string) {
+  if (!mongoose.Types.ObjectId.isValid(customFoodId)) {
+    throw new NotFoundError('Alimento personalizado')
+  }
+
+  const food = await CustomFood.findOne({
+    _id: new mongoose.Types.ObjectId(customFoodId),
+    userId: new mongoose.Types.ObjectId(userId),
+  })
+
+  if (!food) {
+    throw new NotFoundError('Alimento personalizado')
+  }
+
+  return food
+}
+
+/**
+ * Resolve recipe ingredients against the catalog and derive the recipe data
+ * - Nutrition: sum of the ingredients, scaled to 100g of the final weight
+ *   (`yield_g`, or the ingredients' total when not informed)
+ * - FODMAP: worst level among the ingredients, overall and per subgroup
+ */
+async function deriveRecipe(
+  ingredients: CustomFoodIngredientData[],
+  yieldG?: number,
+): Promise<DerivedRecipeData> {
+  const foodIds = [...new Set(ingredients.map((i) => i.foodId))]
+  const dbFoods = await Food.find({ id: { $in: foodIds } })
+    .select('id name nutrition fodmap')
+    .lean()
+    .exec()
+  const foodsById = new Map(dbFoods.map((f) => [f.id, f]))
+
+  const totals: CalculatedNutrition = {
+    calories: 0,
+    carbs: 0,
+    protein: 0,
+    fat: 0,
+    sugar: 0,
+    fiber: 0,
+    sodium: 0,
+  }
+  let hasNutrition = false
+  const levels: FodmapLevel[] = []
+  const subgroupLevels = new Map<FodmapGroup, FodmapLevel[]>()
+  let unclassifiedIngredients = 0
+
+  const resolved = ingredients.map((ingredient) => {
+    const food = foodsById.get(ingredient.foodId)
+    if (!food) {
+      throw new ValidationError(`Alimento ${ingredient.foodId} não encontrado`)
+    }
+
+    const nutrition = calculateNutrition(food, ingredient.quantity_g)
+    if (nutrition) {
+      hasNutrition = true
+      for (const key of NUTRIENT_KEYS) totals[key] += nutrition[key]
+    }
+
+    if (food.fodmap?.level) {
+      levels.push(food.fodmap.level)
+      for (const group of FODMAP_GROUPS) {
+        const level = food.fodmap.subgroups?.[group]?.level
+        if (level) subgroupLevels.set(group, [...(subgroupLevels.get(group) || []), level])
+      }
+    } else {
+      unclassifiedIngredients++
+    }
+
+    return {
+      foodId: food.id,
+      foodName: food.name,
+      quantity_g: ingredient.quantity_g,
+    }
+  })
+
+  const totalGrams = resolved.reduce((sum, i) => sum + i.quantity_g, 0)
+  const weight = yieldG || totalGrams
+
+  const level = getWorstFodmapLevel(levels)
+  let fodmap: ICustomFoodFodmap | undefined
+  if (level) {
+    const subgroups: Partial<Record<FodmapGroup, FodmapLevel>> = {}
+    for (const [group, groupLevels] of subgroupLevels) {
+      const worst = getWorstFodmapLevel(groupLevels)
+      if (worst) subgroups[group] = worst
+    }
+    fodmap = { level, subgroups, unclassifiedIngredients }
+  }
+
+  return {
+    ingredients: resolved,
+    nutrition: hasNutrition && weight > 0 ? scaleNutrition(totals, 100 / weight) : undefined,
+    fodmap,
+  }
+}
+
+function buildFoodNutrition(
+  nutrition?: Partial<CalculatedNutrition>,
+): CalculatedNutrition | undefined {
+  if (!nutrition) return undefined
+  return scaleNutrition(nutrition as CalculatedNutrition, 1)
+}
+
+function buildFoodFodmap(level?: FodmapLevel): ICustomFoodFodmap | undefined {
+  return level ? { level, unclassifiedIngredients: 0 } : undefined
+}
+
+// =============================================================================
+// Service Functions
+// =============================================================================
+
+/**
+ * List the user's custom foods and recipes
+ */
+export async function getCustomFoods(userId: string, query: CustomFoodsQuery = {}) {
+  const filter: Record<string, unknown> = {
+    userId: new mongoose.Types.ObjectId(userId),
+  }
+  if (query.kind) filter.kind = query.kind
+  if (query.search?.trim()) {
+    filter.name = { $regex: escapeRegex(query.search.trim()), $options: 'i' }
+  }
+
+  const foods = await CustomFood.find(filter).sort({ name: 1 }).exec()
+  return foods.map(formatCustomFood)
+}
+
+/**
+ * Get custom food by ID
+ */
+export async function getCustomFoodById(userId: string, customFoodId: string) {
+  const food = await findUserCustomFood(userId, customFoodId)
+  return formatCustomFood(food)
+}
+
+/**
+ * Create custom food or recipe
+ */
+export async function createCustomFood(userId: string, data: CreateCustomFoodData) {
+  const count = await CustomFood.countDocuments({ userId: new mongoose.Types.ObjectId(userId) })
+  if (count >= MAX_CUSTOM_FOODS_PER_USER) {
+    throw new ValidationError(
+      `Limite de ${MAX_CUSTOM_FOODS_PER_USER} alimentos personalizados atingido`,
+    )
+  }
+
+  const foodData: Partial<ICustomFood> = {
+    userId: new mongoose.Types.ObjectId(userId),
+    kind: data.kind,
+    name: data.name.trim(),
+    category: data.category,
+    notes: data.notes,
+  }
+
+  if (data.kind === 'recipe') {
+    if (!data.ingredients?.length) {
+      throw new ValidationError('Receitas precisam de pelo menos um ingrediente')
+    }
+    const derived = await deriveRecipe(data.ingredients, data.yield_g)
+    foodData.ingredients = derived.ingredients
+    foodData.yield_g = data.yield_g
+    foodData.nutrition = derived.nutrition
+    foodData.fodmap = derived.fodmap
+  } else {
+    if (data.ingredients?.length || data.yield_g) {
+      throw new ValidationError('Ingredientes só podem ser informados em receitas')
+    }
+    foodData.nutrition = buildFoodNutrition(data.nutrition)
+    foodData.fodmap = buildFoodFodmap(data.fodmapLevel)
+  }
+
+  const food = await CustomFood.create({
+    ...foodData,
+    foodId: await nextCustomFoodId(),
+  })
+
+  return formatCustomFood(food)
+}
+
+/**
+ * Update custom food or recipe
+ * Meals already logged keep the nutrition calculated when they were saved.
+ * Submissions awaiting approval are locked so the admin reviews what was sent.
+ */
+export async function updateCustomFood(
+  userId: string,
+  customFoodId: string,
+  data: UpdateCustomFoodData,
+) {
+  const food = await findUserCustomFood(userId, customFoodId)
+
+  if (food.status === 'pending' || food.status === 'reviewing') {
+    throw new ConflictError(
+      'Este alimento está aguardando aprovação e não pode ser editado; exclua-o para retirar o envio',
+    )
+  }
+
+  if (data.name !== undefined) food.name = data.name.trim()
+  if (data.category !== undefined) food.category = data.category
+  if (data.notes !== undefined) food.notes = data.notes
+
+  if (food.kind === 'recipe') {
+    if (data.nutrition || data.fodmapLevel) {
+      throw new ValidationError(
+        'Nutrição e FODMAP de receitas são calculados a partir dos ingredientes',
+      )
+    }
+    if (data.ingredients || data.yield_g !== undefined) {
+      if (data.yield_g !== undefined) food.yield_g = data.yield_g
+      const derived = await deriveRecipe(data.ingredients || food.ingredients, food.yield_g)
+      food.ingredients = derived.ingredients
+      food.nutrition = derived.nutrition
+      food.fodmap = derived.fodmap
+    }
+  } else {
+    if (data.ingredients || data.yield_g !== undefined) {
+      throw new ValidationError('Ingredientes só podem ser informados em receitas')
+    }
+    if (data.nutrition) food.nutrition = buildFoodNutrition(data.nutrition)
+    if (data.fodmapLevel) food.fodmap = buildFoodFodmap(data.fodmapLevel)
+  }
+
+  await food.save()
+  return formatCustomFood(food)
+}
+
+/**
+ * Delete custom food (withdraws a pending submission)
+ * Meals already logged keep the food name and nutrition.
+ */
+export async function deleteCustomFood(userId: string, customFoodId: string): Promise<void> {
+  const food = await findUserCustomFood(userId, customFoodId)
+  await food.deleteOne()
+}
+
+/**
+ * Submit custom food for admin approval into the public catalog
+ */
+export async function submitCustomFood(userId: string, customFoodId: string) {
+  const food = await findUserCustomFood(userId, customFoodId)
+
+  if (food.status === 'pending' || food.status === 'reviewing') {
+    throw new ConflictError('Este alimento já está aguardando aprovação')
+  }
+  if (food.status === 'approved' || food.status === 'merged') {
+    throw new ConflictError('Este alimento já foi aprovado')
+  }
+  if (!food.fodmap) {
+    throw new ValidationError('Informe a classificação FODMAP antes de enviar o alimento')
+  }
+
+  food.status = 'pending'
+  food.submittedAt = new Date()
+  food.reviewedAt = undefined
+  food.reviewReason = undefined
+  await food.save()
+
+  return formatCustomFood(food)
+}
+
+// =============================================================================
+// Diary Integration
+// =============================================================================
+
+/**
+ * Get the user's custom foods by their (negative) foodIds
+ */
+export async function getCustomFoodsByFoodIds(userId: string, foodIds: number[]) {
+  const customIds = foodIds.filter(isCustomFoodId)
+  if (customIds.length === 0) return []
+
+  return CustomFood.find({
+    userId: new mongoose.Types.ObjectId(userId),
+    foodId: { $in: customIds },
+  })
+    .select('foodId name nutrition fodmap')
+    .lean()
+    .exec()
+}
+
+/**
+ * Calculate nutrition for a given quantity of a custom food
+ * Returns null when the food has no nutritional data
+ */
+export function calculateCustomFoodNutrition(
+  food: Pick<ICustomFood, 'nutrition'>,
+  quantityG: number,
+): CalculatedNutrition | null {
+  if (!food.nutrition) return null
+  return scaleNutrition(food.nutrition, quantityG / 100)
+}
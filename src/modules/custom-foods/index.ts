@@ -0,0 +1,7 @@
+/**
+ * Custom Foods Module - Public Exports
+ */
+
+export { customFoodsController } from './custom-foods.controller'
+export * from './custom-food.model'
+export * as customFoodsService from './custom-foods.service'
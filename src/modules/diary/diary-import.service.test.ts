@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import { importDiary } from './diary-import.service'
+import { DiaryEntry } from './diary.model'
+
+const USER_ID = '507f1f77bcf86cd799439011'
+
+/**
+ * Stub the lookup of already imported entries and capture the keys asked for
+ */
+function stubExistingKeys(existing: (keys: string[]) => string[] = () => []) {
+  const lookups: string[][] = []
+  spyOn(DiaryEntry, 'find').mockImplementation(((filter: { importKey: { $in: string[] } }) => {
+    const keys = filter.importKey.$in
+    lookups.push(keys)
+    const docs = existing(keys).map((importKey) => ({ importKey }))
+    return { select: () => ({ lean: () => ({ exec: async () => docs }) }) }
+  }) as never)
+  return lookups
+}
+
+const symptomRow = { date: '2024-03-10', time: '15:00', symptom: 'inchaço', intensity: 3 }
+
+afterEach(() => {
+  mock.restore()
+})
+
+describe('importDiary symptom keys', () => {
+  it('keeps identical symptom rows of one file as separate entries', async () => {
+    const lookups = stubExistingKeys()
+
+    const result = await importDiary(USER_ID, {
+      format: 'json',
+      rows: [symptomRow, symptomRow],
+      dryRun: true,
+    })
+
+    expect(result.symptoms).toBe(2)
+    expect(new Set(lookups[0]).size).toBe(2)
+    expect(result.preview.filter((entry) => !entry.alreadyImported)).toHaveLength(2)
+  })
+
+  it('imports only the extra occurrence when the file is re-uploaded with one more row', async () => {
+    const previous = stubExistingKeys()
+    await importDiary(USER_ID, { format: 'json', rows: [symptomRow], dryRun: true })
+    const [firstKey] = previous[0]
+    mock.restore()
+
+    stubExistingKeys((keys) => keys.filter((key) => key === firstKey))
+    const result = await importDiary(USER_ID, {
+      format: 'json',
+      rows: [symptomRow, symptomRow],
+      dryRun: true,
+    })
+
+    expect(result.alreadyImported).toBe(1)
+    expect(result.preview.map((entry) => entry.alreadyImported)).toEqual([true, false])
+  })
+})
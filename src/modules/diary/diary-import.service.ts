@@ -0,0 +1,819 @@
+/**
+ * Diary Import Service - CSV / JSON History Import
+ *
+ * Features:
+ * - CSV with header row (",", ";" or tab) or the documented JSON row format
+ * - Column mapping (explicit, or detected from common pt-BR / en headers,
+ *   e.g. spreadsheets and MyFitnessPal / Cara Care exports)
+ * - Fuzzy matching of food names against the Food collection, with manual overrides
+ * - Dry run: preview entries, unmatched foods and row errors without saving
+ * - Idempotent: each entry gets an importKey, so re-uploading a file skips
+ *   entries already imported
+ *
+ * Rows are one food or one symptom each. Food rows sharing date, time and
+ * meal become a single meal entry.
+ */
+
+import crypto from 'node:crypto'
+import { achievementsService } from '@/modules/achievements'
+import { Food, foodsService } from '@/modules/foods'
+import type { FoodNameMatch } from '@/modules/foods/foods.service'
+import { User } from '@/modules/users/user.model'
+import { ValidationError } from '@/shared/errors'
+import type { DiaryFood, MealType, SymptomIntensity, SymptomType } from '@/shared/types'
+import { normalizeText, parseCsv } from '@/shared/utils'
+import mongoose from 'mongoose'
+import { DiaryEntry } from './diary.model'
+import { withCalculatedNutrition } from './diary.service'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DiaryImportField =
+  | 'date'
+  | 'time'
+  | 'meal'
+  | 'food'
+  | 'quantity'
+  | 'portion'
+  | 'notes'
+  | 'symptom'
+  | 'intensity'
+  | 'duration'
+
+// Field -> column header in the uploaded file
+export type DiaryImportMapping = Partial<Record<DiaryImportField, string>>
+
+export type DiaryImportDateFormat = 'auto' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY'
+
+/**
+ * Documented JSON row format (one food or one symptom per row)
+ */
+export interface DiaryImportRow {
+  date: string
+  time?: string
+  meal?: string
+  food?: string
+  quantity_g?: number | string
+  portion?: string
+  notes?: string
+  symptom?: string
+  intensity?: number | string
+  duration?: number | string
+}
+
+export interface DiaryImportInput {
+  format: 'csv' | 'json'
+  csv?: string
+  rows?: DiaryImportRow[]
+  mapping?: DiaryImportMapping
+  dateFormat?: DiaryImportDateFormat
+  // Manual matches for names the fuzzy matching got wrong or missed (name -> Food.id)
+  foodMatches?: Record<string, number>
+  dryRun?: boolean
+}
+
+export interface DiaryImportRowError {
+  row: number
+  message: string
+}
+
+export interface DiaryImportPreviewEntry {
+  type: 'meal' | 'symptom'
+  date: string
+  time: string
+  alreadyImported: boolean
+  meal?: {
+    type: MealType
+    foods: { name: string; foodId: number | null; foodName: string | null }[]
+  }
+  symptom?: {
+    type: SymptomType
+    intensity: SymptomIntensity
+  }
+}
+
+export interface DiaryImportResult {
+  dryRun: boolean
+  totalRows: number
+  validRows: number
+  meals: number
+  symptoms: number
+  alreadyImported: number
+  created: { meals: number; symptoms: number }
+  // Meals where no food could be matched (not imported)
+  skippedMeals: number
+  matchedFoods: { name: string; occurrences: number; match: FoodNameMatch }[]
+  unmatchedFoods: { name: string; occurrences: number }[]
+  errors: DiaryImportRowError[]
+  preview: DiaryImportPreviewEntry[]
+}
+
+interface ParsedRow {
+  row: number
+  date: string
+  time?: string
+  meal?: MealType
+  food?: string
+  quantity_g?: number
+  portion?: string
+  notes?: string
+  symptom?: { type: SymptomType; label: string }
+  intensity?: SymptomIntensity
+  duration?: number
+}
+
+interface MealDraft {
+  date: string
+  time: string
+  type: MealType
+  foods: { name: string; quantity_g?: number; portion?: string }[]
+  notes: string[]
+  importKey: string
+}
+
+interface SymptomDraft {
+  date: string
+  time: string
+  type: SymptomType
+  intensity: SymptomIntensity
+  duration?: number
+  notes?: string
+  importKey: string
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_IMPORT_ROWS = 5000
+const MAX_REPORTED_ERRORS = 100
+const MAX_PREVIEW_ENTRIES = 50
+
+const FIELD_ALIASES: Record<DiaryImportField, string[]> = {
+  date: ['date', 'data', 'dia', 'day'],
+  time: ['time', 'hora', 'horario', 'time of day'],
+  meal: ['meal', 'refeicao', 'meal type', 'tipo de refeicao', 'tipo refeicao'],
+  food: [
+    'food',
+    'alimento',
+    'food name',
+    'item',
+    'comida',
+    'name',
+    'nome',
+    'descricao',
+    'description',
+  ],
+  quantity: [
+    'quantity g',
+    'quantity',
+    'quantidade',
+    'quantidade g',
+    'grams',
+    'gramas',
+    'amount',
+    'weight',
+    'peso',
+  ],
+  portion: ['portion', 'porcao', 'serving', 'serving size', 'medida', 'unidade'],
+  notes: ['notes', 'note', 'observacoes', 'observacao', 'obs', 'comentario', 'comments'],
+  symptom: ['symptom', 'sintoma', 'symptom type', 'tipo de sintoma'],
+  intensity: ['intensity', 'intensidade', 'severity', 'severidade'],
+  duration: ['duration', 'duracao', 'duration min', 'duracao min'],
+}
+
+const MEAL_ALIASES: Record<MealType, string[]> = {
+  breakfast: ['breakfast', 'cafe da manha', 'cafe', 'desjejum', 'manha'],
+  lunch: ['lunch', 'almoco'],
+  dinner: ['dinner', 'jantar', 'janta', 'ceia', 'supper'],
+  snack: ['snack', 'snacks', 'lanche', 'lanches', 'lanche da manha', 'lanche da tarde', 'colacao'],
+}
+
+const SYMPTOM_ALIASES: Record<Exclude<SymptomType, 'other'>, string[]> = {
+  bloating: ['bloating', 'bloated', 'inchaco', 'estufamento', 'distensao abdominal', 'distensao'],
+  gas: ['gas', 'gases', 'flatulencia', 'flatulence', 'wind'],
+  cramps: [
+    'cramps',
+    'cramping',
+    'colica',
+    'colicas',
+    'dor abdominal',
+    'abdominal pain',
+    'stomach pain',
+  ],
+  nausea: ['nausea', 'enjoo'],
+  diarrhea: ['diarrhea', 'diarrhoea', 'diarreia'],
+  constipation: ['constipation', 'constipacao', 'prisao de ventre'],
+  reflux: ['reflux', 'refluxo', 'azia', 'heartburn'],
+  fatigue: ['fatigue', 'fadiga', 'cansaco', 'tiredness'],
+  headache: ['headache', 'dor de cabeca', 'enxaqueca', 'migraine'],
+  brain_fog: ['brain fog', 'nevoa mental', 'confusao mental'],
+}
+
+const INTENSITY_WORDS: Record<string, SymptomIntensity> = {
+  'muito leve': 1,
+  'very mild': 1,
+  leve: 2,
+  mild: 2,
+  moderado: 3,
+  moderada: 3,
+  moderate: 3,
+  forte: 4,
+  severe: 4,
+  'muito forte': 5,
+  'very severe': 5,
+}
+
+// Time used when the file has the meal but no time
+const DEFAULT_MEAL_TIMES: Record<MealType, string> = {
+  breakfast: '08:00',
+  lunch: '12:30',
+  snack: '16:00',
+  dinner: '19:30',
+}
+
+// =============================================================================
+// Value Parsing
+// =============================================================================
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return (
+    date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+  )
+}
+
+/**
+ * Parse a date cell into YYYY-MM-DD (and the time, when the cell has one)
+ * With "auto", slashed dates are read as DD/MM/YYYY unless that is impossible.
+ */
+function parseDateValue(
+  value: string,
+  format: DiaryImportDateFormat,
+): { date: string; time?: string } | null {
+  const trimmed = value.trim()
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}:\d{2}))?/)
+  if (iso && (format === 'auto' || format === 'YYYY-MM-DD')) {
+    const [, y, m, d, time] = iso
+    if (!isValidDate(+y, +m, +d)) return null
+    return {
+      date: `${y}-${pad(+m)}-${pad(+d)}`,
+      time: time ? (parseTimeValue(time) ?? undefined) : undefined,
+    }
+  }
+
+  const slashed = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:,?\s+(.+))?$/)
+  if (slashed && format !== 'YYYY-MM-DD') {
+    const [, a, b, rawYear, time] = slashed
+    const year = rawYear.length === 2 ? 2000 + +rawYear : +rawYear
+
+    let day = +a
+    let month = +b
+    if (format === 'MM/DD/YYYY' || (format === 'auto' && +b > 12 && +a <= 12)) {
+      day = +b
+      month = +a
+    }
+
+    if (!isValidDate(year, month, day)) return null
+    return {
+      date: `${year}-${pad(month)}-${pad(day)}`,
+      time: time ? (parseTimeValue(time) ?? undefined) : undefined,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Parse "8:05", "08:05:00", "8:05 PM", "20h30" or "20h" into HH:MM
+ */
+function parseTimeValue(value: string): string | null {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2})(?:[:h](\d{2})?)?(?::\d{2})?\s*(am|pm)?$/)
+  if (!match) return null
+
+  let hour = +match[1]
+  const minute = match[2] ? +match[2] : 0
+  const meridiem = match[3]
+
+  if (meridiem === 'pm' && hour < 12) hour += 12
+  if (meridiem === 'am' && hour === 12) hour = 0
+  if (hour > 23 || minute > 59) return null
+
+  return `${pad(hour)}:${pad(minute)}`
+}
+
+function parseNumberValue(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined
+
+  // "150 g", "1.234,5" (pt-BR) or "1,234.5" (en)
+  let text = value.trim().replace(/[^\d.,-]/g, '')
+  if (text.includes(',') && text.includes('.')) {
+    text =
+      text.lastIndexOf(',') > text.lastIndexOf('.')
+        ? text.replace(/\./g, '').replace(',', '.')
+        : text.replace(/,/g, '')
+  } else {
+    text = text.replace(',', '.')
+  }
+
+  const number = Number.parseFloat(text)
+  return Number.isFinite(number) ? number : undefined
+}
+
+function matchAlias<T extends string>(value: string, aliases: Record<T, string[]>): T | null {
+  const normalized = normalizeText(value)
+  if (!normalized) return null
+
+  const entries = Object.entries(aliases) as [T, string[]][]
+  for (const [key, list] of entries) {
+    if (normalized === key || list.includes(normalized)) return key
+  }
+  // "Lanche da tarde (16h)", "Dor abdominal forte"...
+  for (const [key, list] of entries) {
+    if (list.some((alias) => normalized.startsWith(`${alias} `))) return key
+  }
+  return null
+}
+
+function inferMealType(time?: string): MealType {
+  if (!time) return 'snack'
+  const hour = +time.split(':')[0]
+  if (hour >= 5 && hour < 11) return 'breakfast'
+  if (hour >= 11 && hour < 15) return 'lunch'
+  if (hour >= 18 && hour < 23) return 'dinner'
+  return 'snack'
+}
+
+function parseIntensity(value: string | number | undefined): SymptomIntensity | null {
+  if (typeof value === 'string') {
+    const word = INTENSITY_WORDS[normalizeText(value)]
+    if (word) return word
+  }
+
+  const number = parseNumberValue(value)
+  if (number === undefined) return null
+
+  const rounded = Math.round(number)
+  if (rounded >= 1 && rounded <= 5) return rounded as SymptomIntensity
+  // 0-10 scales used by other apps
+  if (rounded >= 6 && rounded <= 10) return Math.ceil(rounded / 2) as SymptomIntensity
+  return null
+}
+
+// =============================================================================
+// Row Parsing
+// =============================================================================
+
+/**
+ * Turn the CSV into JSON-format rows using the mapping (or detected headers)
+ */
+function csvToRows(
+  csv: string,
+  mapping: DiaryImportMapping = {},
+): { rows: DiaryImportRow[]; firstRow: number } {
+  const [header, ...lines] = parseCsv(csv)
+  if (!header) {
+    throw new ValidationError('Arquivo CSV vazio')
+  }
+
+  const normalizedHeader = header.map((h) => normalizeText(h))
+  const columns: Partial<Record<DiaryImportField, number>> = {}
+
+  for (const field of Object.keys(FIELD_ALIASES) as DiaryImportField[]) {
+    const mapped = mapping[field]
+    if (mapped) {
+      const index = normalizedHeader.indexOf(normalizeText(mapped))
+      if (index === -1) {
+        throw new ValidationError(`Coluna "${mapped}" (${field}) não encontrada no arquivo`)
+      }
+      columns[field] = index
+      continue
+    }
+
+    const index = normalizedHeader.findIndex((h) => h === field || FIELD_ALIASES[field].includes(h))
+    if (index !== -1) columns[field] = index
+  }
+
+  if (columns.date === undefined) {
+    throw new ValidationError('Coluna de data não encontrada. Informe mapping.date')
+  }
+  if (columns.food === undefined && columns.symptom === undefined) {
+    throw new ValidationError(
+      'Coluna de alimento ou sintoma não encontrada. Informe mapping.food ou mapping.symptom',
+    )
+  }
+
+  const cell = (line: string[], field: DiaryImportField) => {
+    const index = columns[field]
+    return index === undefined ? undefined : line[index]?.trim() || undefined
+  }
+
+  const rows = lines.map((line) => ({
+    date: cell(line, 'date') || '',
+    time: cell(line, 'time'),
+    meal: cell(line, 'meal'),
+    food: cell(line, 'food'),
+    quantity_g: cell(line, 'quantity'),
+    portion: cell(line, 'portion'),
+    notes: cell(line, 'notes'),
+    symptom: cell(line, 'symptom'),
+    intensity: cell(line, 'intensity'),
+    duration: cell(line, 'duration'),
+  }))
+
+  // Line 1 is the header
+  return { rows, firstRow: 2 }
+}
+
+function parseRow(
+  raw: DiaryImportRow,
+  row: number,
+  dateFormat: DiaryImportDateFormat,
+  today: string,
+): ParsedRow | DiaryImportRowError {
+  const parsedDate = raw.date ? parseDateValue(String(raw.date), dateFormat) : null
+  if (!parsedDate) {
+    return { row, message: `Data inválida: "${raw.date ?? ''}"` }
+  }
+  if (parsedDate.date > today) {
+    return { row, message: `Data no futuro: ${parsedDate.date}` }
+  }
+
+  let time = parsedDate.time
+  if (raw.time) {
+    const parsedTime = parseTimeValue(String(raw.time))
+    if (!parsedTime) return { row, message: `Hora inválida: "${raw.time}"` }
+    time = parsedTime
+  }
+
+  const notes = raw.notes?.trim().slice(0, 500) || undefined
+  const food = raw.food?.trim()
+
+  if (food) {
+    let meal: MealType | undefined
+    if (raw.meal) {
+      const matched = matchAlias(raw.meal, MEAL_ALIASES)
+      if (!matched) return { row, message: `Refeição desconhecida: "${raw.meal}"` }
+      meal = matched
+    }
+
+    const quantity = parseNumberValue(raw.quantity_g)
+    return {
+      row,
+      date: parsedDate.date,
+      time,
+      meal,
+      food: food.slice(0, 200),
+      quantity_g: quantity !== undefined && quantity > 0 ? quantity : undefined,
+      portion: raw.portion?.trim().slice(0, 100) || undefined,
+      notes,
+    }
+  }
+
+  if (raw.symptom?.trim()) {
+    const intensity = parseIntensity(raw.intensity)
+    if (!intensity) {
+      return { row, message: `Intensidade inválida: "${raw.intensity ?? ''}" (use 1 a 5)` }
+    }
+
+    const label = raw.symptom.trim().slice(0, 100)
+    const duration = parseNumberValue(raw.duration)
+    return {
+      row,
+      date: parsedDate.date,
+      time,
+      symptom: { type: matchAlias(label, SYMPTOM_ALIASES) || 'other', label },
+      intensity,
+      duration: duration !== undefined && duration >= 0 ? Math.round(duration) : undefined,
+      notes,
+    }
+  }
+
+  return { row, message: 'Linha sem alimento nem sintoma' }
+}
+
+function buildImportKey(parts: (string | number | undefined)[]): string {
+  return crypto.createHash('sha256').update(parts.join('|')).digest('hex').slice(0, 32)
+}
+
+/**
+ * Group food rows into meals and symptom rows into symptom drafts
+ */
+function buildDrafts(rows: ParsedRow[]): { meals: MealDraft[]; symptoms: SymptomDraft[] } {
+  const mealsByKey = new Map<string, MealDraft>()
+  const symptoms: SymptomDraft[] = []
+  const symptomOccurrences = new Map<string, number>()
+
+  for (const row of rows) {
+    if (row.food) {
+      const type = row.meal || inferMealType(row.time)
+      const time = row.time || DEFAULT_MEAL_TIMES[type]
+      const key = `${row.date}|${time}|${type}`
+
+      let meal = mealsByKey.get(key)
+      if (!meal) {
+        meal = { date: row.date, time, type, foods: [], notes: [], importKey: '' }
+        mealsByKey.set(key, meal)
+      }
+      meal.foods.push({ name: row.food, quantity_g: row.quantity_g, portion: row.portion })
+      if (row.notes && !meal.notes.includes(row.notes)) meal.notes.push(row.notes)
+    } else if (row.symptom && row.intensity) {
+      const time = row.time || '12:00'
+      const notes =
+        row.symptom.type === 'other' && normalizeText(row.symptom.label) !== 'other'
+          ? [row.symptom.label, row.notes].filter(Boolean).join(' - ')
+          : row.notes
+
+      // Identical symptom rows in one file are separate episodes: the occurrence
+      // number keeps their keys apart (the first one keeps the plain key)
+      const keyParts = [
+        'symptom',
+        row.date,
+        time,
+        row.symptom.type,
+        row.intensity,
+        normalizeText(row.symptom.label),
+      ]
+      const baseKey = keyParts.join('|')
+      const occurrence = symptomOccurrences.get(baseKey) ?? 0
+      symptomOccurrences.set(baseKey, occurrence + 1)
+
+      symptoms.push({
+        date: row.date,
+        time,
+        type: row.symptom.type,
+        intensity: row.intensity,
+        duration: row.duration,
+        notes,
+        importKey: buildImportKey(occurrence > 0 ? [...keyParts, occurrence] : keyParts),
+      })
+    }
+  }
+
+  const meals = [...mealsByKey.values()]
+  for (const meal of meals) {
+    // Keyed on the file content (not on matched foods) so re-uploads dedupe
+    // even if the food matching changed in between
+    const foods = meal.foods
+      .map((f) => `${normalizeText(f.name)}:${f.quantity_g ?? ''}:${f.portion ?? ''}`)
+      .sort()
+    meal.importKey = buildImportKey(['meal', meal.date, meal.time, meal.type, ...foods])
+  }
+
+  return { meals, symptoms }
+}
+
+/**
+ * Resolve each food name: manual overrides first, then fuzzy matching
+ */
+async function resolveFoods(
+  names: string[],
+  overrides: Record<string, number> = {},
+): Promise<Map<string, FoodNameMatch | null>> {
+  const overrideIds = [...new Set(Object.values(overrides))]
+  const overrideFoods = overrideIds.length
+    ? await Food.find({ id: { $in: overrideIds } })
+        .select('id name')
+        .lean()
+        .exec()
+    : []
+  const foodsById = new Map(overrideFoods.map((f) => [f.id, f]))
+
+  const overridesByName = new Map<string, FoodNameMatch>()
+  for (const [name, foodId] of Object.entries(overrides)) {
+    const food = foodsById.get(foodId)
+    if (!food) {
+      throw new ValidationError(`Alimento ${foodId} informado para "${name}" não existe`)
+    }
+    overridesByName.set(normalizeText(name), { foodId: food.id, foodName: food.name, score: 1 })
+  }
+
+  const toMatch = names.filter((name) => !overridesByName.has(normalizeText(name)))
+  const matches = await foodsService.matchFoodNames(toMatch)
+
+  for (const name of names) {
+    const override = overridesByName.get(normalizeText(name))
+    if (override) matches.set(name, override)
+  }
+
+  return matches
+}
+
+// =============================================================================
+// Service Functions
+// =============================================================================
+
+/**
+ * Import diary history (or preview it with dryRun)
+ */
+export async function importDiary(
+  userId: string,
+  input: DiaryImportInput,
+): Promise<DiaryImportResult> {
+  const dryRun = input.dryRun ?? false
+  const dateFormat = input.dateFormat || 'auto'
+
+  let rawRows: DiaryImportRow[]
+  let firstRow = 1
+  if (input.format === 'csv') {
+    if (!input.csv?.trim()) {
+      throw new ValidationError('Envie o conteúdo do arquivo em "csv"')
+    }
+    ;({ rows: rawRows, firstRow } = csvToRows(input.csv, input.mapping))
+  } else {
+    if (!input.rows?.length) {
+      throw new ValidationError('Envie as linhas em "rows"')
+    }
+    rawRows = input.rows
+  }
+
+  if (rawRows.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`Máximo de ${MAX_IMPORT_ROWS} linhas por importação`)
+  }
+
+  // Parse rows
+  const today = new Date().toISOString().split('T')[0]
+  const parsed: ParsedRow[] = []
+  const errors: DiaryImportRowError[] = []
+  rawRows.forEach((raw, i) => {
+    const result = parseRow(raw, i + firstRow, dateFormat, today)
+    if ('message' in result) errors.push(result)
+    else parsed.push(result)
+  })
+
+  const { meals, symptoms } = buildDrafts(parsed)
+
+  // Match foods
+  const occurrences = new Map<string, number>()
+  for (const meal of meals) {
+    for (const food of meal.foods) {
+      occurrences.set(food.name, (occurrences.get(food.name) || 0) + 1)
+    }
+  }
+  const matches = await resolveFoods([...occurrences.keys()], input.foodMatches)
+
+  // Entries already imported from a previous upload
+  const userObjectId = new mongoose.Types.ObjectId(userId)
+  const allKeys = [...meals, ...symptoms].map((d) => d.importKey)
+  const existing = await DiaryEntry.find({ userId: userObjectId, importKey: { $in: allKeys } })
+    .select('importKey')
+    .lean()
+    .exec()
+  const existingKeys = new Set(existing.map((e) => e.importKey))
+
+  const newMeals = meals.filter((m) => !existingKeys.has(m.importKey))
+  const importableMeals = newMeals.filter((m) => m.foods.some((f) => matches.get(f.name)))
+  const newSymptoms = symptoms.filter((s) => !existingKeys.has(s.importKey))
+
+  const result: DiaryImportResult = {
+    dryRun,
+    totalRows: rawRows.length,
+    validRows: parsed.length,
+    meals: meals.length,
+    symptoms: symptoms.length,
+    alreadyImported: existingKeys.size,
+    created: { meals: 0, symptoms: 0 },
+    skippedMeals: newMeals.length - importableMeals.length,
+    matchedFoods: [],
+    unmatchedFoods: [],
+    errors: errors.slice(0, MAX_REPORTED_ERRORS),
+    preview: [],
+  }
+
+  for (const [name, count] of occurrences) {
+    const match = matches.get(name)
+    if (match) result.matchedFoods.push({ name, occurrences: count, match })
+    else result.unmatchedFoods.push({ name, occurrences: count })
+  }
+  result.unmatchedFoods.sort((a, b) => b.occurrences - a.occurrences)
+
+  if (dryRun) {
+    const preview: DiaryImportPreviewEntry[] = [
+      ...meals.map((meal) => ({
+        type: 'meal' as const,
+        date: meal.date,
+        time: meal.time,
+        alreadyImported: existingKeys.has(meal.importKey),
+        meal: {
+          type: meal.type,
+          foods: meal.foods.map((food) => {
+            const match = matches.get(food.name)
+            return {
+              name: food.name,
+              foodId: match?.foodId ?? null,
+              foodName: match?.foodName ?? null,
+            }
+          }),
+        },
+      })),
+      ...symptoms.map((symptom) => ({
+        type: 'symptom' as const,
+        date: symptom.date,
+        time: symptom.time,
+        alreadyImported: existingKeys.has(symptom.importKey),
+        symptom: { type: symptom.type, intensity: symptom.intensity },
+      })),
+    ]
+    result.preview = preview
+      .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time))
+      .slice(0, MAX_PREVIEW_ENTRIES)
+    return result
+  }
+
+  // Build documents (unmatched foods are left out of their meal)
+  const mealFoods: DiaryFood[][] = importableMeals.map((meal) =>
+    meal.foods.flatMap((food) => {
+      const match = matches.get(food.name)
+      return match
+        ? [
+            {
+              foodId: match.foodId,
+              foodName: match.foodName,
+              quantity_g: food.quantity_g,
+              portion: food.portion,
+            },
+          ]
+        : []
+    }),
+  )
+
+  // Nutrition for all meals in one pass
+  const withNutrition = await withCalculatedNutrition(userId, mealFoods.flat())
+  let offset = 0
+
+  const docs = [
+    ...importableMeals.map((meal, i) => {
+      const foods = withNutrition.slice(offset, offset + mealFoods[i].length)
+      offset += mealFoods[i].length
+      return {
+        userId: userObjectId,
+        type: 'meal' as const,
+        date: new Date(`${meal.date}T${meal.time}:00.000Z`),
+        meal: {
+          type: meal.type,
+          time: meal.time,
+          foods,
+          notes: meal.notes.join(' / ').slice(0, 500) || undefined,
+        },
+        importKey: meal.importKey,
+      }
+    }),
+    ...newSymptoms.map((symptom) => ({
+      userId: userObjectId,
+      type: 'symptom' as const,
+      date: new Date(`${symptom.date}T${symptom.time}:00.000Z`),
+      symptom: {
+        type: symptom.type,
+        intensity: symptom.intensity,
+        time: symptom.time,
+        duration: symptom.duration,
+        notes: symptom.notes,
+      },
+      importKey: symptom.importKey,
+    })),
+  ]
+
+  let inserted: { type: string }[] = []
+  if (docs.length > 0) {
+    try {
+      inserted = await DiaryEntry.insertMany(docs, { ordered: false })
+    } catch (error) {
+      // A concurrent upload of the same file already inserted some keys
+      const insertedDocs = (error as { insertedDocs?: { type: string }[] }).insertedDocs
+      if ((error as { code?: number }).code !== 11000 || !insertedDocs) throw error
+      inserted = insertedDocs
+    }
+  }
+
+  result.created.meals = inserted.filter((d) => d.type === 'meal').length
+  result.created.symptoms = inserted.filter((d) => d.type === 'symptom').length
+
+  if (inserted.length > 0) {
+    await User.updateOne(
+      { _id: userObjectId },
+      {
+        $inc: {
+          'stats.totalMealsLogged': result.created.meals,
+          'stats.totalSymptomsLogged': result.created.symptoms,
+        },
+      },
+    )
+
+    achievementsService
+      .recalculateMetrics(userId)
+      .catch((err) => console.error('[DiaryImport] Failed to recalculate achievements:', err))
+  }
+
+  return result
+}
@@ -5,27 +5,33 @@
  * - GET /diary - List entries with filters
  * - GET /diary/symptoms/overview - Symptoms overview (must be before :id)
  * - GET /diary/summary/day/:date - Day summary
+ * - GET /diary/summary/day/:date/nutrition - Day nutrition vs diet limits
+ * - GET /diary/summary/nutrition - Nutrition per day across a date range
  * - GET /diary/summary/month/:year/:month - Month summary for calendar
  * - GET /diary/:id - Get entry by ID
  * - POST /diary/meal - Create meal entry
  * - POST /diary/symptom - Create symptom entry
+ * - POST /diary/import - Import history from CSV / JSON (with dry run)
  * - PATCH /diary/:id - Update entry
  * - DELETE /diary/:id - Delete entry
  */
 
 import { Elysia } from 'elysia'
 import * as diaryService from './diary.service'
+import * as diaryImportService from './diary-import.service'
 import {
   diaryQuerySchema,
   symptomsOverviewQuerySchema,
+  nutritionRangeQuerySchema,
   entryIdParamSchema,
   dayDateParamSchema,
   monthParamSchema,
   createMealBodySchema,
   createSymptomBodySchema,
   updateEntryBodySchema,
+  importBodySchema,
 } from './diary.schemas'
-import { requireAuth } from '@/shared/middlewares'
+import { requireAuth, requireFeature } from '@/shared/middlewares'
 import type { SymptomData, SymptomIntensity, SymptomType } from '@/shared/types'
 
 // =============================================================================
@@ -35,6 +41,7 @@ import type { SymptomData, SymptomIntensity, SymptomType } from '@/shared/types'
 export const diaryController = new Elysia({ prefix: '/diary' })
   // Apply auth middleware to all routes
   .use(requireAuth)
+  .use(requireFeature('diary_enabled'))
 
   // ==========================================================================
   // GET /diary/symptoms/overview - Symptoms overview
@@ -112,6 +119,85 @@ export const diaryController = new Elysia({ prefix: '/diary' })
     }
   )
 
+  // ==========================================================================
+  // GET /diary/summary/day/:date/nutrition - Day nutrition vs diet limits
+  // ==========================================================================
+  .get(
+    '/summary/day/:date/nutrition',
+    async ({ params, auth }) => {
+      const nutrition = await diaryService.getDayNutrition(auth.userId, params.date)
+
+      return {
+        success: true,
+        data: nutrition,
+      }
+    },
+    {
+      params: dayDateParamSchema,
+      detail: {
+        tags: ['Diary'],
+        summary: 'Nutrição do dia vs limites',
+        description: `
+          Retorna o total nutricional do dia comparado aos limites da dieta do usuário.
+          
+          **Dados retornados por nutriente** (calories, carbs, protein, fat, sugar, fiber, sodium):
+          - \`consumed\`: Total consumido
+          - \`limit\`: Limite diário
+          - \`remaining\`: Quanto ainda falta
+          - \`percentage\`: Percentual do limite
+          - \`warning\`: Atingiu o \`warningThreshold\`
+          - \`exceeded\`: Ultrapassou o limite
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Nutrição do dia' },
+          401: { description: 'Não autenticado' },
+        },
+      },
+    }
+  )
+
+  // ==========================================================================
+  // GET /diary/summary/nutrition - Nutrition per day across a date range
+  // ==========================================================================
+  .get(
+    '/summary/nutrition',
+    async ({ query, auth }) => {
+      const nutrition = await diaryService.getNutritionRange(
+        auth.userId,
+        query.startDate,
+        query.endDate
+      )
+
+      return {
+        success: true,
+        data: nutrition,
+      }
+    },
+    {
+      query: nutritionRangeQuerySchema,
+      detail: {
+        tags: ['Diary'],
+        summary: 'Nutrição por período',
+        description: `
+          Retorna a nutrição de cada dia do período comparada aos limites da dieta,
+          para gráficos semanais.
+          
+          **Parâmetros:**
+          - \`startDate\` e \`endDate\`: Período (YYYY-MM-DD, máximo 93 dias)
+          
+          Inclui a média diária considerando apenas dias com refeições registradas.
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Nutrição por período' },
+          400: { description: 'Período inválido' },
+          401: { description: 'Não autenticado' },
+        },
+      },
+    }
+  )
+
   // ==========================================================================
   // GET /diary/summary/month/:year/:month - Month summary
   // ==========================================================================
@@ -246,6 +332,9 @@ export const diaryController = new Elysia({ prefix: '/diary' })
           - \`meal.type\`: Tipo (breakfast, lunch, dinner, snack)
           - \`meal.time\`: Horário (HH:MM)
           - \`meal.foods\`: Lista de alimentos (mínimo 1)
+          
+          A nutrição de cada alimento (\`calculatedNutrition\`) é calculada no servidor
+          a partir da base de alimentos e de \`quantity_g\`.
         `,
         security: [{ bearerAuth: [] }],
         responses: {
@@ -306,6 +395,54 @@ export const diaryController = new Elysia({ prefix: '/diary' })
     }
   )
 
+  // ==========================================================================
+  // POST /diary/import - Import history from CSV / JSON
+  // ==========================================================================
+  .post(
+    '/import',
+    async ({ body, auth }) => {
+      const result = await diaryImportService.importDiary(auth.userId, body)
+
+      return {
+        success: true,
+        data: result,
+      }
+    },
+    {
+      body: importBodySchema,
+      detail: {
+        tags: ['Diary'],
+        summary: 'Importar histórico',
+        description: `
+          Importa o histórico de planilhas ou outros apps (MyFitnessPal, Cara Care...).
+
+          **Formatos:**
+          - \`csv\`: arquivo com cabeçalho, separado por \`,\`, \`;\` ou tab.
+            As colunas são detectadas pelo nome (data, hora, refeição, alimento, quantidade,
+            porção, observações, sintoma, intensidade, duração) ou informadas em \`mapping\`.
+          - \`json\`: \`rows\` com \`{ date, time?, meal?, food?, quantity_g?, portion?, notes?, symptom?, intensity?, duration? }\`.
+
+          Cada linha é um alimento ou um sintoma. Alimentos com mesma data, hora e refeição
+          formam uma única refeição. Sem hora, é usado um horário padrão da refeição;
+          sem refeição, ela é deduzida pela hora.
+
+          **Alimentos:** os nomes são comparados com a base por similaridade.
+          Use \`dryRun: true\` para ver \`unmatchedFoods\` e corrigir com \`foodMatches\`
+          (nome no arquivo -> ID do alimento). Alimentos sem correspondência ficam de fora.
+
+          **Reenvio:** entradas já importadas (mesmo conteúdo) são ignoradas,
+          então o mesmo arquivo pode ser enviado de novo sem duplicar o diário.
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Resultado da importação (ou pré-visualização)' },
+          401: { description: 'Não autenticado' },
+          400: { description: 'Arquivo ou mapeamento inválido' },
+        },
+      },
+    }
+  )
+
   // ==========================================================================
   // PATCH /diary/:id - Update entry
   // ==========================================================================
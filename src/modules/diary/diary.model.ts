@@ -25,6 +25,7 @@ export interface IDiaryEntry extends Document {
   date: Date
   meal?: MealData
   symptom?: SymptomData
+  importKey?: string // Set by POST /diary/import so re-uploads don't duplicate
   createdAt: Date
   updatedAt: Date
 }
@@ -148,6 +149,7 @@ const diaryEntrySchema = new Schema<IDiaryEntry>(
     },
     meal: mealDataSchema,
     symptom: symptomDataSchema,
+    importKey: String,
   },
   {
     timestamps: true,
@@ -168,6 +170,10 @@ diaryEntrySchema.index({ userId: 1, date: -1 })
 diaryEntrySchema.index({ userId: 1, type: 1, date: -1 })
 diaryEntrySchema.index({ userId: 1, 'meal.foods.foodId': 1 })
 diaryEntrySchema.index({ userId: 1, type: 1, 'symptom.intensity': -1 })
+diaryEntrySchema.index(
+  { userId: 1, importKey: 1 },
+  { unique: true, partialFilterExpression: { importKey: { $type: 'string' } } }
+)
 
 // =============================================================================
 // Validation
@@ -52,11 +52,12 @@ const calculatedNutritionSchema = t.Optional(
 )
 
 const diaryFoodSchema = t.Object({
-  foodId: t.Number({ description: 'ID do alimento' }),
+  foodId: t.Number({ description: 'ID do alimento (negativo para alimentos personalizados)' }),
   foodName: t.String({ minLength: 1, description: 'Nome do alimento' }),
   portion: t.Optional(t.String({ description: 'Descrição da porção' })),
   quantity_g: t.Optional(t.Number({ minimum: 0, description: 'Quantidade em gramas' })),
   markedAsBad: t.Optional(t.Boolean({ description: 'Se foi marcado como problemático' })),
+  // Ignored on input: nutrition is recalculated server-side from the food database
   calculatedNutrition: calculatedNutritionSchema,
 })
 
@@ -124,6 +125,64 @@ export const updateEntryBodySchema = t.Object({
   ),
 })
 
+// =============================================================================
+// Import Schema
+// =============================================================================
+
+const importCellSchema = t.Optional(t.Union([t.String({ maxLength: 500 }), t.Number()]))
+
+export const importRowSchema = t.Object({
+  date: t.String({ description: 'Data (YYYY-MM-DD, DD/MM/YYYY ou MM/DD/YYYY)' }),
+  time: t.Optional(t.String({ description: 'Hora (HH:MM, 8:30 PM, 20h30)' })),
+  meal: t.Optional(t.String({ description: 'Refeição (breakfast, almoço, jantar, lanche...)' })),
+  food: t.Optional(t.String({ maxLength: 200, description: 'Nome do alimento (linha de refeição)' })),
+  quantity_g: importCellSchema,
+  portion: t.Optional(t.String({ maxLength: 100 })),
+  notes: t.Optional(t.String({ maxLength: 500 })),
+  symptom: t.Optional(t.String({ maxLength: 100, description: 'Sintoma (linha de sintoma)' })),
+  intensity: importCellSchema,
+  duration: importCellSchema,
+})
+
+export const importBodySchema = t.Object({
+  format: t.Union([t.Literal('csv'), t.Literal('json')], {
+    description: 'csv: conteúdo em `csv`; json: linhas em `rows`',
+  }),
+  csv: t.Optional(t.String({ maxLength: 2_000_000, description: 'Conteúdo do arquivo CSV com cabeçalho' })),
+  rows: t.Optional(t.Array(importRowSchema, { description: 'Linhas no formato JSON documentado' })),
+  mapping: t.Optional(
+    t.Object(
+      {
+        date: t.Optional(t.String()),
+        time: t.Optional(t.String()),
+        meal: t.Optional(t.String()),
+        food: t.Optional(t.String()),
+        quantity: t.Optional(t.String()),
+        portion: t.Optional(t.String()),
+        notes: t.Optional(t.String()),
+        symptom: t.Optional(t.String()),
+        intensity: t.Optional(t.String()),
+        duration: t.Optional(t.String()),
+      },
+      { description: 'Campo -> nome da coluna no CSV (padrão: detectado pelo cabeçalho)' }
+    )
+  ),
+  dateFormat: t.Optional(
+    t.Union([
+      t.Literal('auto'),
+      t.Literal('YYYY-MM-DD'),
+      t.Literal('DD/MM/YYYY'),
+      t.Literal('MM/DD/YYYY'),
+    ])
+  ),
+  foodMatches: t.Optional(
+    t.Record(t.String(), t.Number(), {
+      description: 'Correspondência manual: nome no arquivo -> ID do alimento',
+    })
+  ),
+  dryRun: t.Optional(t.Boolean({ description: 'Apenas pré-visualizar, sem salvar' })),
+})
+
 // =============================================================================
 // Query Schemas
 // =============================================================================
@@ -135,6 +194,11 @@ export const diaryQuerySchema = t.Object({
   type: t.Optional(t.Union([t.Literal('meal'), t.Literal('symptom'), t.Literal('all')])),
 })
 
+export const nutritionRangeQuerySchema = t.Object({
+  startDate: dateSchema,
+  endDate: dateSchema,
+})
+
 export const symptomsOverviewQuerySchema = t.Object({
   days: t.Optional(
     t.String({
@@ -7,6 +7,8 @@
  * - Month summary for calendar view
  * - Symptoms overview with trends and correlations
  * - User stats update on entry creation
+ * - Server-side nutrition calculation from the food database
+ * - Daily nutrition totals vs diet limits
  */
 
 import mongoose from 'mongoose'
@@ -14,9 +16,14 @@ import { DiaryEntry, type IDiaryEntry } from './diary.model'
 import { User } from '@/modules/users/user.model'
 import { NotFoundError, ForbiddenError, ValidationError } from '@/shared/errors'
 import { achievementsService } from '@/modules/achievements'
+import { Food, foodsService } from '@/modules/foods'
+import * as customFoodsService from '@/modules/custom-foods/custom-foods.service'
 import { ActivityLog } from '@/modules/admin/activity-log.model'
 import type {
+  CalculatedNutrition,
+  DailyLimits,
   DiaryEntryType,
+  DiaryFood,
   MealData,
   SymptomData,
   SymptomType,
@@ -48,6 +55,40 @@ export interface MonthSummary {
   days: DaySummary[]
 }
 
+export type NutrientKey = keyof DailyLimits
+
+export interface NutrientProgress {
+  consumed: number
+  limit: number
+  remaining: number
+  percentage: number
+  warning: boolean
+  exceeded: boolean
+}
+
+export interface DayNutritionSummary {
+  date: string
+  mealsCount: number
+  consumed: CalculatedNutrition
+  nutrients: Record<NutrientKey, NutrientProgress>
+}
+
+export interface DayNutritionDetail extends DayNutritionSummary {
+  limits: DailyLimits
+  warningThreshold: number
+  showRemaining: boolean
+}
+
+export interface NutritionRangeSummary {
+  startDate: string
+  endDate: string
+  limits: DailyLimits
+  warningThreshold: number
+  showRemaining: boolean
+  days: DayNutritionSummary[]
+  average: CalculatedNutrition
+}
+
 export interface SymptomCount {
   type: SymptomType
   count: number
@@ -67,6 +108,11 @@ export interface FoodCorrelation {
   avgIntensity: number
 }
 
+export interface SymptomsOverviewOptions {
+  endDate?: Date
+  maxTrendDays?: number
+}
+
 export interface SymptomsOverview {
   totalSymptoms: number
   avgIntensity: number
@@ -119,6 +165,136 @@ function getDateRange(dateStr: string): { start: Date; end: Date } {
   return { start, end }
 }
 
+const NUTRIENT_KEYS: NutrientKey[] = ['calories', 'carbs', 'protein', 'fat', 'sugar', 'fiber', 'sodium']
+
+// Same defaults as the user model, used when diet settings were never saved
+const DEFAULT_DAILY_LIMITS: DailyLimits = {
+  calories: 2000,
+  carbs: 225,
+  protein: 75,
+  fat: 65,
+  sugar: 40,
+  fiber: 28,
+  sodium: 2300,
+}
+const DEFAULT_WARNING_THRESHOLD = 80
+const MAX_NUTRITION_RANGE_DAYS = 93
+
+function emptyNutrition(): CalculatedNutrition {
+  return { calories: 0, carbs: 0, protein: 0, fat: 0, sugar: 0, fiber: 0, sodium: 0 }
+}
+
+function roundNutrient(key: NutrientKey, value: number): number {
+  // Calories and sodium are whole numbers, macros keep one decimal
+  return key === 'calories' || key === 'sodium'
+    ? Math.round(value)
+    : Math.round(value * 10) / 10
+}
+
+/**
+ * Sum calculated nutrition of all foods in the given meal entries
+ */
+function sumMealNutrition(meals: Pick<IDiaryEntry, 'meal'>[]): CalculatedNutrition {
+  const total = emptyNutrition()
+
+  for (const entry of meals) {
+    for (const food of entry.meal?.foods || []) {
+      if (!food.calculatedNutrition) continue
+      for (const key of NUTRIENT_KEYS) {
+        total[key] += food.calculatedNutrition[key] || 0
+      }
+    }
+  }
+
+  for (const key of NUTRIENT_KEYS) {
+    total[key] = roundNutrient(key, total[key])
+  }
+
+  return total
+}
+
+/**
+ * Compare consumed nutrition against daily limits
+ */
+function buildNutrientProgress(
+  consumed: CalculatedNutrition,
+  limits: DailyLimits,
+  warningThreshold: number
+): Record<NutrientKey, NutrientProgress> {
+  const progress = {} as Record<NutrientKey, NutrientProgress>
+
+  for (const key of NUTRIENT_KEYS) {
+    const limit = limits[key] || 0
+    const value = consumed[key]
+    const percentage = limit > 0 ? Math.round((value / limit) * 100) : 0
+    const exceeded = limit > 0 && value > limit
+
+    progress[key] = {
+      consumed: value,
+      limit,
+      remaining: roundNutrient(key, Math.max(0, limit - value)),
+      percentage,
+      warning: !exceeded && limit > 0 && percentage >= warningThreshold,
+      exceeded,
+    }
+  }
+
+  return progress
+}
+
+/**
+ * Get the user's daily limits and warning threshold (with model defaults)
+ */
+async function getUserDietLimits(userId: string) {
+  const user = await User.findById(userId).select('dietSettings').lean().exec()
+  const settings = user?.dietSettings
+
+  return {
+    limits: { ...DEFAULT_DAILY_LIMITS, ...settings?.limits },
+    warningThreshold: settings?.warningThreshold ?? DEFAULT_WARNING_THRESHOLD,
+    showRemaining: settings?.showRemaining ?? true,
+  }
+}
+
+/**
+ * Calculate nutrition for each meal food from the food database
+ * Client-sent values are discarded so totals are consistent across clients.
+ * Foods without quantity_g or nutritional data get no calculatedNutrition.
+ * Negative foodIds are the user's custom foods and recipes.
+ */
+export async function withCalculatedNutrition(
+  userId: string,
+  foods: DiaryFood[]
+): Promise<DiaryFood[]> {
+  const foodIds = [...new Set(foods.map((f) => f.foodId))]
+  const [dbFoods, customFoods] = await Promise.all([
+    Food.find({ id: { $in: foodIds } })
+      .select('id nutrition')
+      .lean()
+      .exec(),
+    customFoodsService.getCustomFoodsByFoodIds(userId, foodIds),
+  ])
+
+  const foodsById = new Map(dbFoods.map((f) => [f.id, f]))
+  const customFoodsById = new Map(customFoods.map((f) => [f.foodId, f]))
+
+  return foods.map((food) => {
+    const { calculatedNutrition: _clientNutrition, ...rest } = food
+    if (!food.quantity_g) return rest
+
+    const dbFood = foodsById.get(food.foodId)
+    const customFood = customFoodsById.get(food.foodId)
+    let nutrition: CalculatedNutrition | null = null
+    if (dbFood) {
+      nutrition = foodsService.calculateNutrition(dbFood, food.quantity_g)
+    } else if (customFood) {
+      nutrition = customFoodsService.calculateCustomFoodNutrition(customFood, food.quantity_g)
+    }
+
+    return nutrition ? { ...rest, calculatedNutrition: nutrition } : rest
+  })
+}
+
 /**
  * Format entry for API response
  */
@@ -230,6 +406,99 @@ export async function getDaySummary(userId: string, date: string): Promise<DaySu
   }
 }
 
+/**
+ * Get day nutrition totals compared to the user's diet limits
+ */
+export async function getDayNutrition(
+  userId: string,
+  date: string
+): Promise<DayNutritionDetail> {
+  const range = await getNutritionRange(userId, date, date)
+  const [day] = range.days
+
+  return {
+    ...day,
+    limits: range.limits,
+    warningThreshold: range.warningThreshold,
+    showRemaining: range.showRemaining,
+  }
+}
+
+/**
+ * Get nutrition totals per day across a date range (weekly charts)
+ */
+export async function getNutritionRange(
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<NutritionRangeSummary> {
+  const { start } = getDateRange(startDate)
+  const { end } = getDateRange(endDate)
+
+  if (start > end) {
+    throw new ValidationError('A data inicial deve ser anterior à data final')
+  }
+
+  const totalDays = Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000))
+  if (totalDays > MAX_NUTRITION_RANGE_DAYS) {
+    throw new ValidationError(`O período máximo é de ${MAX_NUTRITION_RANGE_DAYS} dias`)
+  }
+
+  const [{ limits, warningThreshold, showRemaining }, meals] = await Promise.all([
+    getUserDietLimits(userId),
+    DiaryEntry.find({
+      userId: new mongoose.Types.ObjectId(userId),
+      type: 'meal',
+      date: { $gte: start, $lte: end },
+    })
+      .select('date meal')
+      .lean()
+      .exec(),
+  ])
+
+  // Group meals by day
+  const mealsByDay = new Map<string, typeof meals>()
+  for (const entry of meals) {
+    const dateStr = entry.date.toISOString().split('T')[0]
+    const dayMeals = mealsByDay.get(dateStr)
+    if (dayMeals) dayMeals.push(entry)
+    else mealsByDay.set(dateStr, [entry])
+  }
+
+  // Build days array (including days without meals)
+  const days: DayNutritionSummary[] = []
+  for (const current = new Date(start); current <= end; current.setUTCDate(current.getUTCDate() + 1)) {
+    const dateStr = current.toISOString().split('T')[0]
+    const dayMeals = mealsByDay.get(dateStr) || []
+    const consumed = sumMealNutrition(dayMeals)
+
+    days.push({
+      date: dateStr,
+      mealsCount: dayMeals.length,
+      consumed,
+      nutrients: buildNutrientProgress(consumed, limits, warningThreshold),
+    })
+  }
+
+  // Average only over days with at least one meal
+  const loggedDays = days.filter((d) => d.mealsCount > 0)
+  const average = emptyNutrition()
+  for (const key of NUTRIENT_KEYS) {
+    const sum = loggedDays.reduce((acc, d) => acc + d.consumed[key], 0)
+    average[key] = loggedDays.length > 0 ? roundNutrient(key, sum / loggedDays.length) : 0
+  }
+
+  return {
+    startDate,
+    endDate,
+    limits,
+    warningThreshold,
+    showRemaining,
+    days,
+    average,
+  }
+}
+
 /**
  * Get month summary for calendar
  */
@@ -293,12 +562,16 @@ export async function getMonthSummary(
 
 /**
  * Get symptoms overview with trends and correlations
+ *
+ * The period covers `days` days before `endDate` (default: today).
+ * Daily trends cover the last `maxTrendDays` days (default: up to 14).
  */
 export async function getSymptomsOverview(
   userId: string,
-  days: number = 30
+  days = 30,
+  options: SymptomsOverviewOptions = {}
 ): Promise<SymptomsOverview> {
-  const today = new Date()
+  const today = options.endDate ? new Date(options.endDate) : new Date()
   const startDate = new Date(today)
   startDate.setDate(today.getDate() - days)
   startDate.setUTCHours(0, 0, 0, 0)
@@ -348,8 +621,8 @@ export async function getSymptomsOverview(
     }))
     .sort((a, b) => b.count - a.count)
 
-  // Build trends (last 14 days max)
-  const trendDays = Math.min(days, 14)
+  // Build trends (last 14 days max by default)
+  const trendDays = options.maxTrendDays ?? Math.min(days, 14)
   const trends: SymptomTrend[] = []
   for (let i = trendDays - 1; i >= 0; i--) {
     const date = new Date(today)
@@ -435,7 +708,10 @@ export async function createMealEntry(userId: string, data: CreateMealData) {
     userId: new mongoose.Types.ObjectId(userId),
     type: 'meal' as DiaryEntryType,
     date: entryDate,
-    meal,
+    meal: {
+      ...meal,
+      foods: await withCalculatedNutrition(userId, meal.foods),
+    },
   })
 
   await entry.save()
@@ -558,7 +834,7 @@ export async function updateEntry(
   if (entry.type === 'meal' && data.meal) {
     if (data.meal.type) entry.meal!.type = data.meal.type
     if (data.meal.time) entry.meal!.time = data.meal.time
-    if (data.meal.foods) entry.meal!.foods = data.meal.foods
+    if (data.meal.foods) entry.meal!.foods = await withCalculatedNutrition(userId, data.meal.foods)
     if (data.meal.notes !== undefined) entry.meal!.notes = data.meal.notes
   } else if (entry.type === 'symptom' && data.symptom) {
     if (data.symptom.type) entry.symptom!.type = data.symptom.type
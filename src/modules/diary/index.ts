@@ -5,4 +5,5 @@
 export { diaryController } from './diary.controller'
 export { DiaryEntry, type IDiaryEntry } from './diary.model'
 export * from './diary.service'
+export * from './diary-import.service'
 export * from './diary.schemas'
@@ -0,0 +1,65 @@
+/**
+ * Events Controller - Server-Sent Events
+ *
+ * Endpoints:
+ * - GET /events - Real-time event stream (text/event-stream)
+ */
+
+import { requireAuth } from '@/shared/middlewares'
+import { Elysia } from 'elysia'
+import * as eventsService from './events.service'
+
+// =============================================================================
+// Controller
+// =============================================================================
+
+export const eventsController = new Elysia({ prefix: '/events' })
+  // Apply auth middleware to all routes
+  .use(requireAuth)
+
+  // ==========================================================================
+  // GET /events - Event stream
+  // ==========================================================================
+  .get(
+    '/',
+    ({ auth, request }) => {
+      const stream = eventsService.openEventStream(auth.userId, request.signal)
+
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'text/event-stream; charset=utf-8',
+          'Cache-Control': 'no-cache, no-transform',
+          Connection: 'keep-alive',
+          // Disable response buffering on nginx
+          'X-Accel-Buffering': 'no',
+        },
+      })
+    },
+    {
+      detail: {
+        tags: ['Events'],
+        summary: 'Eventos em tempo real (SSE)',
+        description: `
+          Stream \`text/event-stream\` para uso com \`EventSource\`
+          (autenticado pelo cookie de sessão ou header Bearer).
+
+          **Eventos:**
+          - \`connected\` - Conexão aberta
+          - \`achievement_unlocked\` - Conquista desbloqueada
+          - \`discovery_created\` - Nova descoberta nos insights
+          - \`problematic_food_status_changed\` - Alimento problemático criado, confirmado ou removido
+          - \`notification_created\` - Nova notificação na caixa de entrada
+          - \`data_export_completed\` - Exportação de dados pronta (ou falhou)
+          - \`settings_updated\` - Manutenção ou feature flags alteradas (para todos os usuários)
+
+          Um comentário \`: ping\` é enviado a cada 25 segundos. Máximo de 5 conexões por usuário.
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Stream de eventos' },
+          401: { description: 'Não autenticado' },
+          429: { description: 'Conexões demais abertas' },
+        },
+      },
+    },
+  )
@@ -0,0 +1,119 @@
+/**
+ * Events Service - Server-Sent Events Streams
+ *
+ * Features:
+ * - One text/event-stream per connection, fed by the in-process event bus
+ * - Only the user's own events plus broadcasts are forwarded
+ * - Heartbeat comments keep proxies from closing idle connections
+ * - Limit of open connections per user
+ */
+
+import { RateLimitError } from '@/shared/errors'
+import { type AppEvent, subscribeEvents } from '@/shared/events'
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const HEARTBEAT_INTERVAL = 25000 // 25 seconds
+const RECONNECT_DELAY = 5000 // Sent to EventSource as `retry`
+const MAX_CONNECTIONS_PER_USER = 5
+
+// =============================================================================
+// State
+// =============================================================================
+
+const connectionsByUser = new Map<string, number>()
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const encoder = new TextEncoder()
+
+function formatMessage(type: string, data: unknown, id?: number): string {
+  const lines = [`event: ${type}`, `data: ${JSON.stringify(data)}`]
+  if (id !== undefined) {
+    lines.unshift(`id: ${id}`)
+  }
+  return `${lines.join('\n')}\n\n`
+}
+
+function isForUser(event: AppEvent, userId: string): boolean {
+  return event.userId === null || event.userId === userId
+}
+
+function trackConnection(userId: string, delta: 1 | -1): void {
+  const count = (connectionsByUser.get(userId) ?? 0) + delta
+  if (count > 0) {
+    connectionsByUser.set(userId, count)
+  } else {
+    connectionsByUser.delete(userId)
+  }
+}
+
+// =============================================================================
+// Streams
+// =============================================================================
+
+/**
+ * Open an SSE stream for a user; closes when the client disconnects
+ * @throws RateLimitError when the user already has too many open streams
+ */
+export function openEventStream(userId: string, signal: AbortSignal): ReadableStream<Uint8Array> {
+  if ((connectionsByUser.get(userId) ?? 0) >= MAX_CONNECTIONS_PER_USER) {
+    throw new RateLimitError(
+      'Muitas conexões de eventos abertas. Feche outras abas e tente novamente.',
+    )
+  }
+
+  let unsubscribe: (() => void) | null = null
+  let heartbeat: ReturnType<typeof setInterval> | null = null
+  let closed = false
+
+  const cleanup = () => {
+    if (closed) return
+    closed = true
+    unsubscribe?.()
+    if (heartbeat) clearInterval(heartbeat)
+    trackConnection(userId, -1)
+  }
+
+  trackConnection(userId, 1)
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          // Stream already closed by the runtime
+          cleanup()
+        }
+      }
+
+      send(`retry: ${RECONNECT_DELAY}\n\n`)
+      send(formatMessage('connected', { connectedAt: new Date().toISOString() }))
+
+      unsubscribe = subscribeEvents((event) => {
+        if (!isForUser(event, userId)) return
+        send(formatMessage(event.type, event.data, event.id))
+      })
+
+      heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL)
+
+      signal.addEventListener('abort', () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      })
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+}
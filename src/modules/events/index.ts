@@ -0,0 +1,6 @@
+/**
+ * Events Module - Public Exports
+ */
+
+export { eventsController } from './events.controller'
+export * as eventsService from './events.service'
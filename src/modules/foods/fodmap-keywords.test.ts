@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'bun:test'
+import { analyzeIngredientList, estimateFodmapFromIngredients } from './fodmap-keywords'
+
+const keywords = (text: string) =>
+  estimateFodmapFromIngredients(text).ingredients.map((ingredient) => ingredient.keyword)
+
+describe('estimateFodmapFromIngredients', () => {
+  it('takes the worst level among the recognized ingredients', () => {
+    const estimate = estimateFodmapFromIngredients('Farinha de trigo, açúcar, sal')
+
+    expect(estimate.level).toBe('high')
+    expect(estimate.subgroups).toEqual({ fructans: 'high' })
+    expect(keywords('Farinha de trigo, açúcar, sal')).toEqual(['farinha de trigo', 'açúcar', 'sal'])
+  })
+
+  it('prefers the longest keyword', () => {
+    expect(keywords('leite de coco')).toEqual(['leite de coco'])
+    expect(estimateFodmapFromIngredients('leite de coco').level).toBe('low')
+  })
+
+  it('returns a null level when nothing is recognized', () => {
+    const estimate = estimateFodmapFromIngredients('xyz, abc')
+
+    expect(estimate.level).toBeNull()
+    expect(estimate.unrecognized).toEqual(['xyz', 'abc'])
+  })
+
+  it('reports the position of each ingredient in the list', () => {
+    const estimate = estimateFodmapFromIngredients('arroz, cenoura, cebola')
+
+    expect(estimate.ingredients.map((i) => i.position)).toEqual([1, 2, 3])
+    expect(estimate.totalIngredients).toBe(3)
+  })
+
+  it('recognizes English ingredient names', () => {
+    const estimate = estimateFodmapFromIngredients(
+      'Ingredients: water, rice flour, onion powder, salt',
+    )
+
+    expect(estimate.level).toBe('high')
+    expect(keywords('water, rice flour, onion powder, salt')).toEqual([
+      'água',
+      'farinha de arroz',
+      'cebola',
+      'sal',
+    ])
+  })
+
+  it('ignores allergen and trace statements', () => {
+    expect(estimateFodmapFromIngredients('arroz, sal. Pode conter leite e trigo.').level).toBe(
+      'free',
+    )
+    expect(estimateFodmapFromIngredients('rice, salt. May contain milk.').level).toBe('free')
+  })
+
+  describe('negations', () => {
+    it('drops ingredients mentioned as absent', () => {
+      expect(keywords('sem açúcar, sal')).toEqual(['sal'])
+      expect(keywords('no added sugar, salt')).toEqual(['sal'])
+      expect(keywords('lactose free, salt')).toEqual(['sal'])
+    })
+
+    it('keeps the next item after a negated one', () => {
+      expect(estimateFodmapFromIngredients('sem lactose, maçãs').level).toBe('high')
+    })
+
+    it('does not read the Portuguese "no" (in the) as a negation', () => {
+      expect(estimateFodmapFromIngredients('frango temperado no alho, sal').level).toBe('high')
+      expect(estimateFodmapFromIngredients('Arroz cozido no alho e óleo').level).toBe('high')
+      expect(keywords('frango temperado no alho, sal')).toContain('alho')
+    })
+  })
+
+  describe('lactose-free qualifiers', () => {
+    it('applies right after the ingredient', () => {
+      expect(estimateFodmapFromIngredients('leite sem lactose').level).toBe('low')
+      expect(estimateFodmapFromIngredients('leite em pó sem lactose').level).toBe('low')
+    })
+
+    it('applies anywhere later in the same item', () => {
+      expect(estimateFodmapFromIngredients('leite integral sem lactose').level).toBe('low')
+      expect(estimateFodmapFromIngredients('leite em pó integral sem lactose').level).toBe('low')
+    })
+
+    it('applies when it opens the next item', () => {
+      expect(estimateFodmapFromIngredients('Leite em pó (sem lactose), açúcar').level).toBe('low')
+      expect(estimateFodmapFromIngredients('milk (lactose free), sugar').level).toBe('low')
+    })
+
+    it('does not apply to other items', () => {
+      expect(estimateFodmapFromIngredients('leite, açúcar, queijo sem lactose').level).toBe('high')
+    })
+  })
+})
+
+describe('analyzeIngredientList', () => {
+  it('explains the ingredients that define the level', () => {
+    const analysis = analyzeIngredientList('arroz, cebola, sal')
+
+    expect(analysis.level).toBe('high')
+    expect(analysis.explanations[0]).toContain('cebola')
+    expect(analysis.ingredients.find((i) => i.keyword === 'cebola')?.explanation).toContain(
+      'Frutanos',
+    )
+  })
+
+  it('flags risky ingredients late in the list', () => {
+    const analysis = analyzeIngredientList('arroz, cenoura, batata, sal, azeite, tomate, cebola')
+    const onion = analysis.ingredients.find((i) => i.keyword === 'cebola')
+
+    expect(onion?.position).toBe(7)
+    expect(onion?.explanation).toContain('pequena quantidade')
+  })
+
+  it('warns about unrecognized ingredients', () => {
+    const analysis = analyzeIngredientList('arroz, xyz')
+
+    expect(analysis.unrecognized).toEqual(['xyz'])
+    expect(analysis.explanations.some((e) => e.includes('1 de 2'))).toBe(true)
+  })
+
+  it('says when no level can be estimated', () => {
+    const analysis = analyzeIngredientList('xyz')
+
+    expect(analysis.level).toBeNull()
+    expect(analysis.ingredients).toEqual([])
+    expect(analysis.explanations[0]).toContain('não é possível estimar')
+  })
+})
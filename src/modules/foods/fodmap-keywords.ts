@@ -0,0 +1,1184 @@
+/**
+ * FODMAP Keyword Dictionary
+ *
+ * Ingredient names as they appear on Brazilian labels (with English names
+ * and spellings, for imported products) and their FODMAP level and
+ * subgroups, based on the Monash University classification. Used to
+ * estimate the FODMAP level of packaged products from their ingredient list.
+ */
+
+import { FODMAP_GROUP_DEFINITIONS } from '@/modules/reintroduction/reintroduction.service'
+import type { FodmapGroup, FodmapLevel } from '@/shared/types'
+import { escapeRegex, normalizeText } from '@/shared/utils'
+import { FODMAP_LEVEL_LABELS, getWorstFodmapLevel } from './foods.service'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface FodmapKeyword {
+  keyword: string
+  name_english: string
+  level: FodmapLevel
+  category: string
+  groups: FodmapGroup[]
+  aliases?: string[] // Other spellings; name_english is matched too
+}
+
+export interface FodmapIngredientMatch extends FodmapKeyword {
+  matched: string // Text found in the list (normalized)
+  position: number // Position in the label's list (labels list by quantity, largest first)
+}
+
+export interface FodmapEstimate {
+  level: FodmapLevel | null // null when no ingredient was recognized
+  subgroups: Partial<Record<FodmapGroup, FodmapLevel>>
+  ingredients: FodmapIngredientMatch[]
+  totalIngredients: number
+  unrecognized: string[] // List items without any known ingredient
+}
+
+export interface IngredientAnalysisItem extends FodmapIngredientMatch {
+  explanation: string
+}
+
+export interface IngredientAnalysis extends FodmapEstimate {
+  ingredients: IngredientAnalysisItem[]
+  explanations: string[]
+}
+
+// =============================================================================
+// Dictionary
+// =============================================================================
+
+export const FODMAP_KEYWORDS: FodmapKeyword[] = [
+  // Grains and starches
+  {
+    keyword: 'trigo',
+    name_english: 'wheat',
+    level: 'high',
+    category: 'grains',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'farinha de trigo',
+    name_english: 'wheat flour',
+    level: 'high',
+    category: 'grains',
+    groups: ['fructans'],
+    aliases: ['flour'],
+  },
+  {
+    keyword: 'centeio',
+    name_english: 'rye',
+    level: 'high',
+    category: 'grains',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'cevada',
+    name_english: 'barley',
+    level: 'high',
+    category: 'grains',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'extrato de malte',
+    name_english: 'malt extract',
+    level: 'medium',
+    category: 'grains',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'aveia',
+    name_english: 'oats',
+    level: 'low',
+    category: 'grains',
+    groups: [],
+    aliases: ['oat'],
+  },
+  { keyword: 'arroz', name_english: 'rice', level: 'free', category: 'grains', groups: [] },
+  {
+    keyword: 'farinha de arroz',
+    name_english: 'rice flour',
+    level: 'free',
+    category: 'grains',
+    groups: [],
+  },
+  {
+    keyword: 'milho',
+    name_english: 'corn',
+    level: 'low',
+    category: 'grains',
+    groups: [],
+    aliases: ['maize'],
+  },
+  {
+    keyword: 'fubá',
+    name_english: 'corn meal',
+    level: 'low',
+    category: 'grains',
+    groups: [],
+    aliases: ['cornmeal'],
+  },
+  {
+    keyword: 'amido de milho',
+    name_english: 'corn starch',
+    level: 'free',
+    category: 'grains',
+    groups: [],
+    aliases: ['cornstarch', 'maize starch'],
+  },
+  {
+    keyword: 'fécula de mandioca',
+    name_english: 'cassava starch',
+    level: 'free',
+    category: 'grains',
+    groups: [],
+    aliases: ['tapioca starch'],
+  },
+  {
+    keyword: 'polvilho',
+    name_english: 'cassava starch',
+    level: 'free',
+    category: 'grains',
+    groups: [],
+  },
+  { keyword: 'tapioca', name_english: 'tapioca', level: 'free', category: 'grains', groups: [] },
+  { keyword: 'quinoa', name_english: 'quinoa', level: 'low', category: 'grains', groups: [] },
+
+  // Vegetables
+  {
+    keyword: 'alho',
+    name_english: 'garlic',
+    level: 'high',
+    category: 'vegetables',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'cebola',
+    name_english: 'onion',
+    level: 'high',
+    category: 'vegetables',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'alho-poró',
+    name_english: 'leek bulb',
+    level: 'high',
+    category: 'vegetables',
+    groups: ['fructans'],
+    aliases: ['leek'],
+  },
+  {
+    keyword: 'cebolinha',
+    name_english: 'chives',
+    level: 'low',
+    category: 'vegetables',
+    groups: [],
+  },
+  {
+    keyword: 'cogumelo',
+    name_english: 'mushroom',
+    level: 'high',
+    category: 'vegetables',
+    groups: ['mannitol'],
+  },
+  {
+    keyword: 'champignon',
+    name_english: 'button mushroom',
+    level: 'high',
+    category: 'vegetables',
+    groups: ['mannitol'],
+  },
+  {
+    keyword: 'couve-flor',
+    name_english: 'cauliflower',
+    level: 'high',
+    category: 'vegetables',
+    groups: ['mannitol'],
+  },
+  {
+    keyword: 'aspargo',
+    name_english: 'asparagus',
+    level: 'high',
+    category: 'vegetables',
+    groups: ['fructose', 'fructans'],
+  },
+  {
+    keyword: 'alcachofra',
+    name_english: 'artichoke',
+    level: 'high',
+    category: 'vegetables',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'beterraba',
+    name_english: 'beetroot',
+    level: 'medium',
+    category: 'vegetables',
+    groups: ['fructans', 'gos'],
+    aliases: ['beet'],
+  },
+  {
+    keyword: 'ervilha',
+    name_english: 'green peas',
+    level: 'high',
+    category: 'vegetables',
+    groups: ['gos', 'fructans'],
+    aliases: ['pea'],
+  },
+  {
+    keyword: 'tomate',
+    name_english: 'tomato',
+    level: 'low',
+    category: 'vegetables',
+    groups: [],
+    aliases: ['tomatoes'],
+  },
+  { keyword: 'cenoura', name_english: 'carrot', level: 'free', category: 'vegetables', groups: [] },
+  {
+    keyword: 'batata',
+    name_english: 'potato',
+    level: 'free',
+    category: 'vegetables',
+    groups: [],
+    aliases: ['potatoes'],
+  },
+  { keyword: 'abóbora', name_english: 'pumpkin', level: 'low', category: 'vegetables', groups: [] },
+  {
+    keyword: 'pimentão',
+    name_english: 'bell pepper',
+    level: 'low',
+    category: 'vegetables',
+    groups: [],
+  },
+
+  // Legumes
+  {
+    keyword: 'feijão',
+    name_english: 'beans',
+    level: 'high',
+    category: 'legumes',
+    groups: ['gos'],
+    aliases: ['bean'],
+  },
+  {
+    keyword: 'grão-de-bico',
+    name_english: 'chickpeas',
+    level: 'high',
+    category: 'legumes',
+    groups: ['gos'],
+    aliases: ['chickpea'],
+  },
+  {
+    keyword: 'lentilha',
+    name_english: 'lentils',
+    level: 'medium',
+    category: 'legumes',
+    groups: ['gos'],
+    aliases: ['lentil'],
+  },
+  {
+    keyword: 'soja',
+    name_english: 'soybeans',
+    level: 'high',
+    category: 'legumes',
+    groups: ['gos', 'fructans'],
+    aliases: ['soy', 'soya', 'soybean'],
+  },
+  {
+    keyword: 'proteína de soja',
+    name_english: 'soy protein isolate',
+    level: 'low',
+    category: 'legumes',
+    groups: [],
+    aliases: ['soy protein'],
+  },
+  {
+    keyword: 'proteína isolada de soja',
+    name_english: 'soy protein isolate',
+    level: 'low',
+    category: 'legumes',
+    groups: [],
+  },
+  {
+    keyword: 'lecitina de soja',
+    name_english: 'soy lecithin',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+    aliases: ['soya lecithin'],
+  },
+  {
+    keyword: 'óleo de soja',
+    name_english: 'soybean oil',
+    level: 'free',
+    category: 'fats',
+    groups: [],
+    aliases: ['soy oil'],
+  },
+  {
+    keyword: 'molho de soja',
+    name_english: 'soy sauce',
+    level: 'low',
+    category: 'condiments',
+    groups: [],
+  },
+  { keyword: 'shoyu', name_english: 'soy sauce', level: 'low', category: 'condiments', groups: [] },
+
+  // Fruits
+  {
+    keyword: 'maçã',
+    name_english: 'apple',
+    level: 'high',
+    category: 'fruits',
+    groups: ['fructose', 'sorbitol'],
+  },
+  {
+    keyword: 'pera',
+    name_english: 'pear',
+    level: 'high',
+    category: 'fruits',
+    groups: ['fructose', 'sorbitol'],
+  },
+  {
+    keyword: 'manga',
+    name_english: 'mango',
+    level: 'high',
+    category: 'fruits',
+    groups: ['fructose'],
+  },
+  {
+    keyword: 'melancia',
+    name_english: 'watermelon',
+    level: 'high',
+    category: 'fruits',
+    groups: ['fructose', 'mannitol', 'fructans'],
+  },
+  {
+    keyword: 'ameixa',
+    name_english: 'plum',
+    level: 'high',
+    category: 'fruits',
+    groups: ['sorbitol'],
+    aliases: ['prune'],
+  },
+  {
+    keyword: 'pêssego',
+    name_english: 'peach',
+    level: 'high',
+    category: 'fruits',
+    groups: ['sorbitol'],
+    aliases: ['peaches'],
+  },
+  {
+    keyword: 'damasco',
+    name_english: 'apricot',
+    level: 'high',
+    category: 'fruits',
+    groups: ['sorbitol'],
+  },
+  {
+    keyword: 'cereja',
+    name_english: 'cherry',
+    level: 'high',
+    category: 'fruits',
+    groups: ['fructose', 'sorbitol'],
+    aliases: ['cherries'],
+  },
+  {
+    keyword: 'uva-passa',
+    name_english: 'raisins',
+    level: 'high',
+    category: 'fruits',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'tâmara',
+    name_english: 'dates',
+    level: 'high',
+    category: 'fruits',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'abacate',
+    name_english: 'avocado',
+    level: 'medium',
+    category: 'fruits',
+    groups: ['sorbitol'],
+  },
+  { keyword: 'banana', name_english: 'banana', level: 'low', category: 'fruits', groups: [] },
+  {
+    keyword: 'morango',
+    name_english: 'strawberry',
+    level: 'low',
+    category: 'fruits',
+    groups: [],
+    aliases: ['strawberries'],
+  },
+  { keyword: 'laranja', name_english: 'orange', level: 'low', category: 'fruits', groups: [] },
+  { keyword: 'uva', name_english: 'grapes', level: 'low', category: 'fruits', groups: [] },
+  { keyword: 'coco', name_english: 'coconut', level: 'low', category: 'fruits', groups: [] },
+
+  // Dairy and alternatives
+  { keyword: 'leite', name_english: 'milk', level: 'high', category: 'dairy', groups: ['lactose'] },
+  {
+    keyword: 'leite em pó',
+    name_english: 'milk powder',
+    level: 'high',
+    category: 'dairy',
+    groups: ['lactose'],
+    aliases: ['powdered milk', 'milk solids'],
+  },
+  {
+    keyword: 'leite condensado',
+    name_english: 'condensed milk',
+    level: 'high',
+    category: 'dairy',
+    groups: ['lactose'],
+  },
+  {
+    keyword: 'soro de leite',
+    name_english: 'whey',
+    level: 'high',
+    category: 'dairy',
+    groups: ['lactose'],
+  },
+  {
+    keyword: 'lactose',
+    name_english: 'lactose',
+    level: 'high',
+    category: 'dairy',
+    groups: ['lactose'],
+  },
+  {
+    keyword: 'iogurte',
+    name_english: 'yogurt',
+    level: 'high',
+    category: 'dairy',
+    groups: ['lactose'],
+    aliases: ['yoghurt'],
+  },
+  {
+    keyword: 'creme de leite',
+    name_english: 'cream',
+    level: 'medium',
+    category: 'dairy',
+    groups: ['lactose'],
+  },
+  {
+    keyword: 'requeijão',
+    name_english: 'cream cheese',
+    level: 'medium',
+    category: 'dairy',
+    groups: ['lactose'],
+  },
+  {
+    keyword: 'ricota',
+    name_english: 'ricotta',
+    level: 'medium',
+    category: 'dairy',
+    groups: ['lactose'],
+  },
+  { keyword: 'queijo', name_english: 'cheese', level: 'low', category: 'dairy', groups: [] },
+  { keyword: 'manteiga', name_english: 'butter', level: 'low', category: 'dairy', groups: [] },
+  {
+    keyword: 'manteiga de cacau',
+    name_english: 'cocoa butter',
+    level: 'free',
+    category: 'fats',
+    groups: [],
+  },
+  { keyword: 'cacau', name_english: 'cocoa', level: 'low', category: 'sweeteners', groups: [] },
+  {
+    keyword: 'leite sem lactose',
+    name_english: 'lactose-free milk',
+    level: 'low',
+    category: 'dairy',
+    groups: [],
+  },
+  {
+    keyword: 'leite de coco',
+    name_english: 'coconut milk',
+    level: 'low',
+    category: 'dairy',
+    groups: [],
+  },
+  {
+    keyword: 'leite de amêndoas',
+    name_english: 'almond milk',
+    level: 'low',
+    category: 'dairy',
+    groups: [],
+  },
+  {
+    keyword: 'leite de soja',
+    name_english: 'soy milk (whole beans)',
+    level: 'high',
+    category: 'dairy',
+    groups: ['gos'],
+    aliases: ['soy milk', 'soya milk'],
+  },
+
+  // Sugars and sweeteners
+  { keyword: 'açúcar', name_english: 'sugar', level: 'low', category: 'sweeteners', groups: [] },
+  { keyword: 'glicose', name_english: 'glucose', level: 'low', category: 'sweeteners', groups: [] },
+  {
+    keyword: 'dextrose',
+    name_english: 'dextrose',
+    level: 'low',
+    category: 'sweeteners',
+    groups: [],
+  },
+  {
+    keyword: 'xarope de glicose',
+    name_english: 'glucose syrup',
+    level: 'low',
+    category: 'sweeteners',
+    groups: [],
+  },
+  {
+    keyword: 'maltodextrina',
+    name_english: 'maltodextrin',
+    level: 'low',
+    category: 'sweeteners',
+    groups: [],
+  },
+  {
+    keyword: 'mel',
+    name_english: 'honey',
+    level: 'high',
+    category: 'sweeteners',
+    groups: ['fructose'],
+  },
+  {
+    keyword: 'frutose',
+    name_english: 'fructose',
+    level: 'high',
+    category: 'sweeteners',
+    groups: ['fructose'],
+  },
+  {
+    keyword: 'xarope de frutose',
+    name_english: 'fructose syrup',
+    level: 'high',
+    category: 'sweeteners',
+    groups: ['fructose'],
+  },
+  {
+    keyword: 'xarope de glicose-frutose',
+    name_english: 'glucose-fructose syrup',
+    level: 'high',
+    category: 'sweeteners',
+    groups: ['fructose'],
+  },
+  {
+    keyword: 'xarope de milho rico em frutose',
+    name_english: 'high fructose corn syrup',
+    level: 'high',
+    category: 'sweeteners',
+    groups: ['fructose'],
+  },
+  {
+    keyword: 'xarope de agave',
+    name_english: 'agave syrup',
+    level: 'high',
+    category: 'sweeteners',
+    groups: ['fructose'],
+  },
+  {
+    keyword: 'açúcar invertido',
+    name_english: 'invert sugar',
+    level: 'medium',
+    category: 'sweeteners',
+    groups: ['fructose'],
+  },
+  {
+    keyword: 'inulina',
+    name_english: 'inulin',
+    level: 'high',
+    category: 'fibers',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'oligofrutose',
+    name_english: 'oligofructose',
+    level: 'high',
+    category: 'fibers',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'frutooligossacarídeos',
+    name_english: 'fructooligosaccharides',
+    level: 'high',
+    category: 'fibers',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'fruto-oligossacarídeos',
+    name_english: 'fructooligosaccharides',
+    level: 'high',
+    category: 'fibers',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'fos',
+    name_english: 'fructooligosaccharides',
+    level: 'high',
+    category: 'fibers',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'raiz de chicória',
+    name_english: 'chicory root',
+    level: 'high',
+    category: 'fibers',
+    groups: ['fructans'],
+  },
+  {
+    keyword: 'sorbitol',
+    name_english: 'sorbitol',
+    level: 'high',
+    category: 'sweeteners',
+    groups: ['sorbitol'],
+  },
+  {
+    keyword: 'ins 420',
+    name_english: 'sorbitol',
+    level: 'high',
+    category: 'sweeteners',
+    groups: ['sorbitol'],
+  },
+  {
+    keyword: 'e420',
+    name_english: 'sorbitol',
+    level: 'high',
+    category: 'sweeteners',
+    groups: ['sorbitol'],
+  },
+  {
+    keyword: 'manitol',
+    name_english: 'mannitol',
+    level: 'high',
+    category: 'sweeteners',
+    groups: ['mannitol'],
+  },
+  {
+    keyword: 'ins 421',
+    name_english: 'mannitol',
+    level: 'high',
+    category: 'sweeteners',
+    groups: ['mannitol'],
+  },
+  {
+    keyword: 'e421',
+    name_english: 'mannitol',
+    level: 'high',
+    category: 'sweeteners',
+    groups: ['mannitol'],
+  },
+  {
+    keyword: 'maltitol',
+    name_english: 'maltitol',
+    level: 'high',
+    category: 'sweeteners',
+    groups: [],
+  },
+  {
+    keyword: 'ins 965',
+    name_english: 'maltitol',
+    level: 'high',
+    category: 'sweeteners',
+    groups: [],
+  },
+  {
+    keyword: 'xilitol',
+    name_english: 'xylitol',
+    level: 'high',
+    category: 'sweeteners',
+    groups: [],
+  },
+  {
+    keyword: 'ins 967',
+    name_english: 'xylitol',
+    level: 'high',
+    category: 'sweeteners',
+    groups: [],
+  },
+  {
+    keyword: 'isomalte',
+    name_english: 'isomalt',
+    level: 'high',
+    category: 'sweeteners',
+    groups: [],
+  },
+  {
+    keyword: 'lactitol',
+    name_english: 'lactitol',
+    level: 'high',
+    category: 'sweeteners',
+    groups: [],
+  },
+  {
+    keyword: 'eritritol',
+    name_english: 'erythritol',
+    level: 'low',
+    category: 'sweeteners',
+    groups: [],
+  },
+  {
+    keyword: 'sucralose',
+    name_english: 'sucralose',
+    level: 'free',
+    category: 'sweeteners',
+    groups: [],
+  },
+  { keyword: 'estévia', name_english: 'stevia', level: 'free', category: 'sweeteners', groups: [] },
+
+  // Nuts and seeds
+  {
+    keyword: 'castanha de caju',
+    name_english: 'cashews',
+    level: 'high',
+    category: 'nuts',
+    groups: ['gos', 'fructans'],
+    aliases: ['cashew'],
+  },
+  {
+    keyword: 'pistache',
+    name_english: 'pistachio',
+    level: 'high',
+    category: 'nuts',
+    groups: ['gos', 'fructans'],
+  },
+  {
+    keyword: 'amêndoa',
+    name_english: 'almonds',
+    level: 'medium',
+    category: 'nuts',
+    groups: ['gos'],
+    aliases: ['almond'],
+  },
+  {
+    keyword: 'amendoim',
+    name_english: 'peanuts',
+    level: 'low',
+    category: 'nuts',
+    groups: [],
+    aliases: ['peanut', 'peanut butter', 'pasta de amendoim'],
+  },
+  {
+    keyword: 'castanha-do-pará',
+    name_english: 'brazil nuts',
+    level: 'low',
+    category: 'nuts',
+    groups: [],
+    aliases: ['brazil nut'],
+  },
+  { keyword: 'chia', name_english: 'chia seeds', level: 'low', category: 'nuts', groups: [] },
+
+  // Fats, proteins and basics
+  {
+    keyword: 'óleo',
+    name_english: 'vegetable oil',
+    level: 'free',
+    category: 'fats',
+    groups: [],
+    aliases: ['oil'],
+  },
+  { keyword: 'azeite', name_english: 'olive oil', level: 'free', category: 'fats', groups: [] },
+  {
+    keyword: 'gordura vegetal',
+    name_english: 'vegetable fat',
+    level: 'free',
+    category: 'fats',
+    groups: [],
+  },
+  { keyword: 'ovo', name_english: 'egg', level: 'free', category: 'proteins', groups: [] },
+  { keyword: 'sal', name_english: 'salt', level: 'free', category: 'condiments', groups: [] },
+  {
+    keyword: 'vinagre',
+    name_english: 'vinegar',
+    level: 'free',
+    category: 'condiments',
+    groups: [],
+  },
+  {
+    keyword: 'pimenta-do-reino',
+    name_english: 'black pepper',
+    level: 'free',
+    category: 'condiments',
+    groups: [],
+  },
+  {
+    keyword: 'páprica',
+    name_english: 'paprika',
+    level: 'free',
+    category: 'condiments',
+    groups: [],
+  },
+  {
+    keyword: 'canela',
+    name_english: 'cinnamon',
+    level: 'free',
+    category: 'condiments',
+    groups: [],
+  },
+  {
+    keyword: 'cúrcuma',
+    name_english: 'turmeric',
+    level: 'free',
+    category: 'condiments',
+    groups: [],
+    aliases: ['açafrão-da-terra'],
+  },
+  { keyword: 'fermento', name_english: 'yeast', level: 'free', category: 'additives', groups: [] },
+  {
+    keyword: 'fermento químico',
+    name_english: 'baking powder',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+  },
+  { keyword: 'água', name_english: 'water', level: 'free', category: 'basics', groups: [] },
+
+  // Additives and fortification (recognized so they don't count as unknown)
+  {
+    keyword: 'aromatizante',
+    name_english: 'flavoring',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+    aliases: ['aroma', 'flavouring', 'natural flavor'],
+  },
+  {
+    keyword: 'corante',
+    name_english: 'coloring',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+    aliases: ['colour', 'color'],
+  },
+  {
+    keyword: 'emulsificante',
+    name_english: 'emulsifier',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+    aliases: ['emulsionante'],
+  },
+  {
+    keyword: 'estabilizante',
+    name_english: 'stabilizer',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+    aliases: ['stabiliser'],
+  },
+  {
+    keyword: 'goma xantana',
+    name_english: 'xanthan gum',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+  },
+  {
+    keyword: 'goma guar',
+    name_english: 'guar gum',
+    level: 'low',
+    category: 'additives',
+    groups: [],
+  },
+  {
+    keyword: 'espessante',
+    name_english: 'thickener',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+  },
+  {
+    keyword: 'conservador',
+    name_english: 'preservative',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+    aliases: ['conservante'],
+  },
+  {
+    keyword: 'acidulante',
+    name_english: 'acidity regulator',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+    aliases: ['regulador de acidez'],
+  },
+  {
+    keyword: 'antioxidante',
+    name_english: 'antioxidant',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+  },
+  { keyword: 'ferro', name_english: 'iron', level: 'free', category: 'additives', groups: [] },
+  {
+    keyword: 'ácido fólico',
+    name_english: 'folic acid',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+  },
+  {
+    keyword: 'vitamina',
+    name_english: 'vitamin',
+    level: 'free',
+    category: 'additives',
+    groups: [],
+  },
+]
+
+// Words that turn a mention into an absence ("sem lactose", "no added sugar")
+// A bare "no" is left out: in Portuguese it means "in the" ("temperado no alho")
+const NEGATIONS = ['sem', 'zero', 'isento de', 'livre de', 'no added', 'without', 'free from']
+
+// Words after a mention that do the same ("lactose free")
+const NEGATIONS_AFTER = ['free']
+
+// Qualifiers that remove a subgroup from an ingredient when they follow it in
+// the same list item or open the next one ("leite integral sem lactose",
+// "milk (lactose free)")
+const FREE_FROM: Partial<Record<FodmapGroup, string[]>> = {
+  lactose: ['sem lactose', 'zero lactose', 'lactose free'],
+}
+
+// Allergen warnings and trace statements repeat or add ingredients that
+// are not part of the recipe, so the list is cut where they start
+const LIST_END_MARKERS = [
+  'pode conter',
+  'contem tracos',
+  'alergicos',
+  'may contain',
+  'traces of',
+  'allergy advice',
+]
+
+// Separates list items in the normalized text (normalizeText drops commas)
+const ITEM_SEPARATOR = ' , '
+
+// Ingredients after this position are likely used in small amounts
+const LATE_POSITION = 5
+
+// Longest terms first, so "leite de coco" wins over "leite"
+const KEYWORD_PATTERNS = FODMAP_KEYWORDS.flatMap((entry) => {
+  const terms = new Set(
+    [entry.keyword, entry.name_english, ...(entry.aliases || [])].map(normalizeText),
+  )
+  return [...terms].map((term) => ({
+    entry,
+    pattern: new RegExp(`(^| )${escapeRegex(term)}s?(?= |$)`, 'g'),
+    length: term.length,
+  }))
+}).sort((a, b) => b.length - a.length)
+
+const NEGATION_SUFFIXES = NEGATIONS.map((negation) => ` ${negation}`)
+
+// =============================================================================
+// Estimation
+// =============================================================================
+
+/**
+ * Split a label's ingredient list into items ("farinha de trigo (glúten),
+ * açúcar" -> ["farinha de trigo", "glúten", "açúcar"]), up to the allergen
+ * and trace statements
+ */
+function splitIngredientList(ingredientsText: string): { text: string; normalized: string }[] {
+  const items: { text: string; normalized: string }[] = []
+  const parts = ingredientsText
+    .replace(/^\s*(ingredientes|ingredients)\s*:/i, '')
+    .split(/[,;()[\]]|\.(?=\s|$)/)
+
+  for (const part of parts) {
+    const normalized = normalizeText(part)
+    const marker = LIST_END_MARKERS.map((m) => normalized.indexOf(m)).filter((i) => i >= 0)
+    if (marker.length > 0) {
+      const kept = normalized.slice(0, Math.min(...marker)).trim()
+      if (kept) items.push({ text: kept, normalized: kept })
+      break
+    }
+    if (normalized) items.push({ text: part.trim(), normalized })
+  }
+
+  return items
+}
+
+/**
+ * Recognize FODMAP ingredients in a label's ingredient list (Portuguese or English)
+ * The level is the worst among the recognized ingredients; ingredients
+ * not in the dictionary are ignored, so the estimate can be lower than
+ * the real level.
+ */
+export function estimateFodmapFromIngredients(ingredientsText: string): FodmapEstimate {
+  const items = splitIngredientList(ingredientsText)
+  const original = items.map((item) => item.normalized).join(ITEM_SEPARATOR)
+  let text = original
+
+  // Start offset of each item in the joined text
+  const itemStarts: number[] = []
+  let offset = 0
+  for (const item of items) {
+    itemStarts.push(offset)
+    offset += item.normalized.length + ITEM_SEPARATOR.length
+  }
+  const itemAt = (index: number) => {
+    let item = 0
+    while (item + 1 < itemStarts.length && itemStarts[item + 1] <= index) item++
+    return item
+  }
+
+  const found: { entry: FodmapKeyword; matched: string; item: number; index: number }[] = []
+  const recognizedItems = new Set<number>()
+
+  for (const { entry, pattern } of KEYWORD_PATTERNS) {
+    text = text.replace(pattern, (match, prefix: string, index: number) => {
+      const matched = match.slice(prefix.length)
+      const before = ` ${text.slice(0, index)}`.trimEnd()
+      const after = text.slice(index + match.length).trimStart()
+      // Qualifiers may contain keywords already masked ("lactose free")
+      const [restOfItem, nextItem = ''] = original.slice(index + match.length).split(ITEM_SEPARATOR)
+      const negated =
+        NEGATION_SUFFIXES.some((negation) => before.endsWith(negation)) ||
+        NEGATIONS_AFTER.some((negation) => after === negation || after.startsWith(`${negation} `))
+      const freeFrom = entry.groups.some((group) =>
+        FREE_FROM[group]?.some(
+          (qualifier) =>
+            ` ${restOfItem} `.includes(` ${qualifier} `) || nextItem.startsWith(qualifier),
+        ),
+      )
+
+      const item = itemAt(index + prefix.length)
+      recognizedItems.add(item)
+
+      if (freeFrom) {
+        found.push({ entry: { ...entry, level: 'low', groups: [] }, matched, item, index })
+      } else if (!negated) {
+        found.push({ entry, matched, item, index })
+      }
+
+      // Mask the match so shorter keywords (and negations) don't reach into it
+      return prefix + '#'.repeat(matched.length)
+    })
+  }
+
+  const seen = new Set<string>()
+  const ingredients: FodmapIngredientMatch[] = []
+  for (const { entry, matched, item } of found.sort((a, b) => a.index - b.index)) {
+    if (seen.has(entry.keyword)) continue
+    seen.add(entry.keyword)
+    ingredients.push({ ...entry, matched, position: item + 1 })
+  }
+
+  const subgroups: Partial<Record<FodmapGroup, FodmapLevel>> = {}
+  for (const ingredient of ingredients) {
+    for (const group of ingredient.groups) {
+      const current = subgroups[group]
+      subgroups[group] = current
+        ? (getWorstFodmapLevel([current, ingredient.level]) ?? current)
+        : ingredient.level
+    }
+  }
+
+  return {
+    level: getWorstFodmapLevel(ingredients.map((i) => i.level)),
+    subgroups,
+    ingredients,
+    totalIngredients: items.length,
+    unrecognized: items.filter((_, index) => !recognizedItems.has(index)).map((item) => item.text),
+  }
+}
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function isRisky(level: FodmapLevel | null): boolean {
+  return level === 'medium' || level === 'high'
+}
+
+function explainIngredient(ingredient: FodmapIngredientMatch): string {
+  const label = capitalize(FODMAP_LEVEL_LABELS[ingredient.level])
+  if (!isRisky(ingredient.level)) {
+    return ingredient.level === 'low' ? `${label} nas porções usuais` : label
+  }
+
+  const groups = ingredient.groups.map((group) => FODMAP_GROUP_DEFINITIONS[group].name)
+  const source = groups.length > 0 ? `${label}: ${groups.join(', ')}` : label
+  return ingredient.position > LATE_POSITION
+    ? `${source}. É o ${ingredient.position}º ingrediente da lista, provavelmente em pequena quantidade`
+    : source
+}
+
+/**
+ * Estimate the FODMAP level of an ingredient list and explain it:
+ * what each recognized ingredient contributes, which ones define the
+ * overall level and how reliable the estimate is
+ */
+export function analyzeIngredientList(ingredientsText: string): IngredientAnalysis {
+  const estimate = estimateFodmapFromIngredients(ingredientsText)
+  const explanations: string[] = []
+
+  if (!estimate.level) {
+    explanations.push(
+      'Nenhum ingrediente conhecido foi encontrado, então não é possível estimar o nível FODMAP.',
+    )
+  } else if (isRisky(estimate.level)) {
+    const worst = estimate.ingredients.filter((i) => i.level === estimate.level)
+    explanations.push(
+      `Nível estimado: ${FODMAP_LEVEL_LABELS[estimate.level]}, por causa de: ${worst.map((i) => i.keyword).join(', ')}.`,
+    )
+
+    const groups = (Object.entries(estimate.subgroups) as [FodmapGroup, FodmapLevel][])
+      .filter(([, level]) => isRisky(level))
+      .map(
+        ([group, level]) =>
+          `${FODMAP_GROUP_DEFINITIONS[group].name}: ${FODMAP_LEVEL_LABELS[level]}`,
+      )
+    if (groups.length > 0) {
+      explanations.push(`Subgrupos envolvidos: ${groups.join('; ')}.`)
+    }
+
+    if (worst.every((i) => i.position > LATE_POSITION)) {
+      explanations.push(
+        'Os ingredientes de maior risco estão no fim da lista; em pequena quantidade, uma porção pode ser tolerada.',
+      )
+    }
+  } else {
+    explanations.push(
+      `Nível estimado: ${FODMAP_LEVEL_LABELS[estimate.level]}. Nenhum ingrediente reconhecido tem FODMAP moderado ou alto.`,
+    )
+  }
+
+  if (estimate.unrecognized.length > 0) {
+    explanations.push(
+      `${estimate.unrecognized.length} de ${estimate.totalIngredients} ingredientes não foram reconhecidos; o nível real pode ser maior.`,
+    )
+  }
+
+  if (estimate.level) {
+    explanations.push(
+      'O rótulo não informa a quantidade de cada ingrediente, então o resultado é uma estimativa.',
+    )
+  }
+
+  return {
+    ...estimate,
+    ingredients: estimate.ingredients.map((ingredient) => ({
+      ...ingredient,
+      explanation: explainIngredient(ingredient),
+    })),
+    explanations,
+  }
+}
@@ -56,6 +56,7 @@ export interface IFood extends Document {
   category_level_2?: string
   category_level_3?: string
   image?: string
+  barcodes?: string[] // Normalized GTINs (see normalizeGtin)
   fodmap?: FodmapInfo
   nutrition?: INutritionInfo
   data_sources: IDataSources
@@ -100,6 +101,30 @@ const fodmapSearchInfoSchema = new Schema(
   { _id: false }
 )
 
+// Level and serving threshold for a single FODMAP subgroup
+const fodmapSubgroupSchema = new Schema(
+  {
+    level: {
+      type: String,
+      enum: ['free', 'low', 'medium', 'high'],
+    },
+    serving_threshold_g: { type: Number, default: null },
+  },
+  { _id: false }
+)
+
+const fodmapSubgroupsSchema = new Schema(
+  {
+    fructans: fodmapSubgroupSchema,
+    gos: fodmapSubgroupSchema,
+    lactose: fodmapSubgroupSchema,
+    fructose: fodmapSubgroupSchema,
+    sorbitol: fodmapSubgroupSchema,
+    mannitol: fodmapSubgroupSchema,
+  },
+  { _id: false }
+)
+
 const fodmapSchema = new Schema(
   {
     level: {
@@ -109,6 +134,7 @@ const fodmapSchema = new Schema(
     portion_note: { type: String, default: null },
     additional_notes: { type: String, default: null },
     search_information: fodmapSearchInfoSchema,
+    subgroups: fodmapSubgroupsSchema,
   },
   { _id: false }
 )
@@ -178,7 +204,7 @@ const foodSchema = new Schema<IFood>(
     },
     source: {
       type: String,
-      enum: ['nutritional_table', 'user_contributed', 'ai_generated'],
+      enum: ['nutritional_table', 'user_contributed', 'ai_generated', 'open_food_facts'],
       default: 'nutritional_table',
     },
     category_level_1: {
@@ -192,6 +218,10 @@ const foodSchema = new Schema<IFood>(
       type: String,
       default: null,
     },
+    barcodes: {
+      type: [String],
+      default: undefined,
+    },
     fodmap: fodmapSchema,
     nutrition: nutritionSchema,
     data_sources: dataSourcesSchema,
@@ -218,6 +248,7 @@ const foodSchema = new Schema<IFood>(
 foodSchema.index({ name: 'text', category_level_1: 'text', category_level_3: 'text' })
 foodSchema.index({ 'fodmap.level': 1 })
 foodSchema.index({ searchCount: -1 })
+foodSchema.index({ barcodes: 1 }, { unique: true, sparse: true })
 foodSchema.index({ 'data_sources.ai_generated.is_ai_generated': 1, searchCount: -1 })
 
 // =============================================================================
@@ -4,14 +4,38 @@
  * Endpoints:
  * - GET /foods - Search and list foods
  * - GET /foods/categories - List available categories
+ * - GET /foods/barcode/:code - Get food by barcode
+ * - POST /foods/analyze-ingredients - Estimate FODMAP level of an ingredient list
  * - GET /foods/:id - Get food by ID
+ *
+ * Authenticated requests get a `personalRisk` annotation on each food.
  */
 
 import { Elysia } from 'elysia'
 import * as foodsService from './foods.service'
-import { foodsQuerySchema, foodIdParamSchema } from './foods.schemas'
-import { generalRateLimiter } from '@/shared/middlewares'
-import type { FodmapLevel } from '@/shared/types'
+import { analyzeIngredientList } from './fodmap-keywords'
+import {
+  foodsQuerySchema,
+  foodIdParamSchema,
+  barcodeParamSchema,
+  analyzeIngredientsBodySchema,
+} from './foods.schemas'
+import { authMiddleware, generalRateLimiter } from '@/shared/middlewares'
+import { FODMAP_GROUPS, type FodmapLevel } from '@/shared/types'
+
+/**
+ * Parse subgroup filters from query params (comma-separated levels)
+ */
+function parseSubgroupFilters(query: Record<string, string | undefined>): foodsService.FodmapSubgroupFilters {
+  const filters: foodsService.FodmapSubgroupFilters = {}
+  for (const group of FODMAP_GROUPS) {
+    const value = query[group]
+    if (value) {
+      filters[group] = value.split(',') as FodmapLevel[]
+    }
+  }
+  return filters
+}
 
 // =============================================================================
 // Controller
@@ -20,6 +44,8 @@ import type { FodmapLevel } from '@/shared/types'
 export const foodsController = new Elysia({ prefix: '/foods' })
   // Apply rate limiting to prevent scraping
   .use(generalRateLimiter)
+  // Optional auth: adds personalRisk when the user is logged in
+  .use(authMiddleware)
 
   // ==========================================================================
   // GET /foods/categories - List available categories
@@ -81,7 +107,7 @@ export const foodsController = new Elysia({ prefix: '/foods' })
   // ==========================================================================
   .get(
     '/',
-    async ({ query }) => {
+    async ({ query, auth }) => {
       const { 
         search, level, category, category2, category3,
         hasFodmap, hasNutrition, source, sortBy, sortOrder,
@@ -91,6 +117,7 @@ export const foodsController = new Elysia({ prefix: '/foods' })
       const result = await foodsService.searchFoods({
         search,
         level: level as FodmapLevel | 'all' | undefined,
+        subgroups: parseSubgroupFilters(query),
         category,
         category2,
         category3,
@@ -105,7 +132,9 @@ export const foodsController = new Elysia({ prefix: '/foods' })
 
       return {
         success: true,
-        data: result.foods,
+        data: auth
+          ? await foodsService.annotatePersonalRisk(auth.userId, result.foods)
+          : result.foods,
         pagination: result.pagination,
       }
     },
@@ -120,6 +149,8 @@ export const foodsController = new Elysia({ prefix: '/foods' })
           **Parâmetros de busca:**
           - \`search\`: Busca textual por nome/categoria
           - \`level\`: Filtrar por nível FODMAP (free, low, medium, high, all)
+          - \`fructans\`, \`gos\`, \`lactose\`, \`fructose\`, \`sorbitol\`, \`mannitol\`:
+            Filtrar por nível do subgrupo FODMAP (ex: \`lactose=high&fructans=free,low\`)
           - \`category\`: Filtrar por categoria principal (level 1)
           - \`category2\`: Filtrar por subcategoria (level 2)
           - \`category3\`: Filtrar por subcategoria (level 3)
@@ -130,6 +161,9 @@ export const foodsController = new Elysia({ prefix: '/foods' })
           - \`sortOrder\`: Ordem (asc, desc)
           - \`page\`: Número da página (padrão: 1)
           - \`limit\`: Itens por página (padrão: 50, máximo: 100)
+
+          Se autenticado, cada alimento inclui \`personalRisk\` (safe, caution, avoid)
+          com a lista de motivos.
         `,
         responses: {
           200: {
@@ -140,15 +174,115 @@ export const foodsController = new Elysia({ prefix: '/foods' })
     }
   )
 
+  // ==========================================================================
+  // GET /foods/barcode/:code - Get food by barcode
+  // ==========================================================================
+  .get(
+    '/barcode/:code',
+    async ({ params, auth }) => {
+      const food = await foodsService.getFoodByBarcode(params.code)
+
+      if (auth) {
+        const [annotated] = await foodsService.annotatePersonalRisk(auth.userId, [food])
+        return {
+          success: true,
+          data: annotated,
+        }
+      }
+
+      return {
+        success: true,
+        data: food,
+      }
+    },
+    {
+      params: barcodeParamSchema,
+      detail: {
+        tags: ['Foods'],
+        summary: 'Buscar alimento por código de barras',
+        description: `
+          Busca um produto embalado pelo código de barras (EAN-8, EAN-13, UPC-A ou GTIN-14).
+          O dígito verificador é validado; espaços e hífens são ignorados e um UPC-A
+          encontra o mesmo produto que o EAN-13 equivalente (com 0 à esquerda).
+
+          Produtos importados do Open Food Facts têm o nível FODMAP **estimado** a
+          partir da lista de ingredientes (\`data_sources.fodmap_data\`).
+
+          Se autenticado, inclui \`personalRisk\` como em \`GET /foods/:id\`.
+        `,
+        responses: {
+          200: {
+            description: 'Dados do alimento',
+          },
+          400: {
+            description: 'Código de barras inválido',
+          },
+          404: {
+            description: 'Alimento não encontrado',
+          },
+        },
+      },
+    }
+  )
+
+  // ==========================================================================
+  // POST /foods/analyze-ingredients - Estimate FODMAP level of an ingredient list
+  // ==========================================================================
+  .post(
+    '/analyze-ingredients',
+    ({ body }) => {
+      return {
+        success: true,
+        data: analyzeIngredientList(body.ingredients),
+      }
+    },
+    {
+      body: analyzeIngredientsBodySchema,
+      detail: {
+        tags: ['Foods'],
+        summary: 'Analisar lista de ingredientes',
+        description: `
+          Estima o nível FODMAP de um produto a partir da lista de ingredientes do
+          rótulo (em português ou inglês), usando um dicionário de ingredientes
+          baseado na classificação da Monash University.
+
+          **Resposta:**
+          - \`level\`: pior nível entre os ingredientes reconhecidos (\`null\` se nenhum)
+          - \`subgroups\`: nível por subgrupo FODMAP
+          - \`ingredients\`: ingredientes reconhecidos, com nível, subgrupos, posição na
+            lista e uma explicação
+          - \`unrecognized\`: itens da lista que não estão no dicionário
+          - \`explanations\`: por que o nível foi estimado assim e o quanto confiar nele
+
+          "Sem lactose", "zero açúcar", "lactose free" e avisos de alérgenos
+          ("pode conter...", "may contain...") são considerados.
+        `,
+        responses: {
+          200: {
+            description: 'Estimativa FODMAP da lista de ingredientes',
+          },
+        },
+      },
+    }
+  )
+
   // ==========================================================================
   // GET /foods/:id - Get food by ID
   // ==========================================================================
   .get(
     '/:id',
-    async ({ params }) => {
+    async ({ params, auth }) => {
       const id = parseInt(params.id, 10)
       const food = await foodsService.getFoodById(id)
 
+      if (auth) {
+        const [annotated] = await foodsService.annotatePersonalRisk(auth.userId, [food])
+        return {
+          success: true,
+          data: annotated,
+        }
+      }
+
       return {
         success: true,
         data: food,
@@ -159,7 +293,16 @@ export const foodsController = new Elysia({ prefix: '/foods' })
       detail: {
         tags: ['Foods'],
         summary: 'Buscar alimento por ID',
-        description: 'Retorna os detalhes completos de um alimento específico.',
+        description: `
+          Retorna os detalhes completos de um alimento específico.
+
+          **Risco pessoal (se autenticado):** \`personalRisk\` combina o nível FODMAP,
+          o status em alimentos problemáticos, as tolerâncias da reintrodução e
+          quantas vezes o alimento foi consumido sem sintomas nos últimos 90 dias.
+          - \`safe\` - Provavelmente seguro
+          - \`caution\` - Consumir com cautela
+          - \`avoid\` - Evitar
+        `,
         responses: {
           200: {
             description: 'Dados do alimento',
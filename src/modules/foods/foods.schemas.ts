@@ -8,6 +8,14 @@ import { t } from 'elysia'
 // Query Schemas
 // =============================================================================
 
+/**
+ * FODMAP subgroup level filter: one level or a comma-separated list
+ * e.g. lactose=low or fructans=free,low
+ */
+const subgroupLevelFilterSchema = t.Optional(
+  t.String({ pattern: '^(free|low|medium|high)(,(free|low|medium|high))*$' })
+)
+
 /**
  * Query parameters for GET /foods
  */
@@ -20,6 +28,12 @@ export const foodsQuerySchema = t.Object({
     t.Literal('high'),
     t.Literal('all'),
   ])),
+  fructans: subgroupLevelFilterSchema,
+  gos: subgroupLevelFilterSchema,
+  lactose: subgroupLevelFilterSchema,
+  fructose: subgroupLevelFilterSchema,
+  sorbitol: subgroupLevelFilterSchema,
+  mannitol: subgroupLevelFilterSchema,
   category: t.Optional(t.String({ minLength: 1, maxLength: 100 })),
   category2: t.Optional(t.String({ minLength: 1, maxLength: 200 })),
   category3: t.Optional(t.String({ minLength: 1, maxLength: 200 })),
@@ -51,3 +65,25 @@ export const foodIdParamSchema = t.Object({
 
 export type FoodsQuery = typeof foodsQuerySchema.static
 export type FoodIdParam = typeof foodIdParamSchema.static
+
+/**
+ * Barcode parameter for GET /foods/barcode/:code (digits, spaces and dashes allowed)
+ */
+export const barcodeParamSchema = t.Object({
+  code: t.String({ pattern: '^[0-9][0-9 -]{6,20}[0-9]$' }),
+})
+
+// =============================================================================
+// Body Schemas
+// =============================================================================
+
+/**
+ * Body for POST /foods/analyze-ingredients
+ */
+export const analyzeIngredientsBodySchema = t.Object({
+  ingredients: t.String({
+    minLength: 1,
+    maxLength: 5000,
+    description: 'Lista de ingredientes do rótulo, em português ou inglês',
+  }),
+})
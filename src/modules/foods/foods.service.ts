@@ -3,23 +3,45 @@
  *
  * Features:
  * - Text search with MongoDB
- * - FODMAP level filtering
+ * - FODMAP level filtering (overall and per subgroup)
  * - Category filtering
  * - Efficient pagination
+ * - Barcode (EAN/UPC) lookup
  * - Search count analytics
+ * - Nutrition calculation per portion
+ * - Personal risk per user (FODMAP level, problematic foods, tolerances, history)
  */
 
-import { Food, type IFood } from './food.model'
-import { NotFoundError } from '@/shared/errors'
-import type { FodmapLevel } from '@/shared/types'
+import mongoose from 'mongoose'
+import { Food, type IFood, type INutritionInfo } from './food.model'
+import { IdCounter } from './id-counter.model'
+import { DiaryEntry } from '@/modules/diary/diary.model'
+import { ProblematicFood } from '@/modules/problematic-foods/problematic-food.model'
+import { User } from '@/modules/users/user.model'
+import { DEFAULT_TRIGGER_WINDOW } from '@/modules/insights/insights.service'
+import { FODMAP_GROUP_DEFINITIONS } from '@/modules/reintroduction/reintroduction.service'
+import { NotFoundError, ValidationError } from '@/shared/errors'
+import { escapeRegex, normalizeGtin, normalizeText } from '@/shared/utils'
+import {
+  FODMAP_GROUPS,
+  type CalculatedNutrition,
+  type FodmapGroup,
+  type FodmapLevel,
+  type FodmapTolerance,
+  type PersonalRisk,
+  type PersonalRiskReason,
+} from '@/shared/types'
 
 // =============================================================================
 // Types
 // =============================================================================
 
+export type FodmapSubgroupFilters = Partial<Record<FodmapGroup, FodmapLevel[]>>
+
 export interface FoodsSearchParams {
   search?: string
   level?: FodmapLevel | 'all'
+  subgroups?: FodmapSubgroupFilters
   category?: string
   category2?: string
   category3?: string
@@ -32,6 +54,14 @@ export interface FoodsSearchParams {
   limit?: number
 }
 
+export type FoodWithPersonalRisk = IFood & { personalRisk: PersonalRisk }
+
+export interface FoodNameMatch {
+  foodId: number
+  foodName: string
+  score: number // 0-1 similarity
+}
+
 export interface FoodsSearchResult {
   foods: IFood[]
   pagination: {
@@ -42,15 +72,31 @@ export interface FoodsSearchResult {
   }
 }
 
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const FODMAP_LEVEL_LABELS: Record<FodmapLevel, string> = {
+  free: 'livre de FODMAP',
+  low: 'baixo FODMAP',
+  medium: 'FODMAP moderado',
+  high: 'alto FODMAP',
+}
+
+const FODMAP_LEVEL_ORDER: Record<FodmapLevel, number> = { free: 0, low: 1, medium: 2, high: 3 }
+
 // =============================================================================
 // Service
 // =============================================================================
 
 /**
- * Escape special regex characters in a string
+ * Get the worst (highest) FODMAP level from a list
  */
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+export function getWorstFodmapLevel(levels: FodmapLevel[]): FodmapLevel | null {
+  if (levels.length === 0) return null
+  return levels.reduce((worst, level) =>
+    FODMAP_LEVEL_ORDER[level] > FODMAP_LEVEL_ORDER[worst] ? level : worst
+  )
 }
 
 /**
@@ -61,6 +107,7 @@ export async function searchFoods(params: FoodsSearchParams): Promise<FoodsSearc
   const {
     search,
     level,
+    subgroups,
     category,
     category2,
     category3,
@@ -89,6 +136,16 @@ export async function searchFoods(params: FoodsSearchParams): Promise<FoodsSearc
     query['fodmap.level'] = level
   }
 
+  // FODMAP subgroup filters (e.g. lactose=low or lactose=high,medium)
+  if (subgroups) {
+    for (const group of FODMAP_GROUPS) {
+      const levels = subgroups[group]
+      if (levels && levels.length > 0) {
+        query[`fodmap.subgroups.${group}.level`] = levels.length === 1 ? levels[0] : { $in: levels }
+      }
+    }
+  }
+
   // Category filters (level 1, 2, 3)
   if (category && category.trim()) {
     query.category_level_1 = category.trim()
@@ -192,6 +249,28 @@ export async function getFoodById(id: number): Promise<IFood> {
   return food as IFood
 }
 
+/**
+ * Get food by barcode (EAN-8, EAN-13, UPC-A or GTIN-14)
+ */
+export async function getFoodByBarcode(code: string): Promise<IFood> {
+  const barcode = normalizeGtin(code)
+  if (!barcode) {
+    throw new ValidationError('Código de barras inválido')
+  }
+
+  const food = await Food.findOne({ barcodes: barcode }).lean().exec()
+
+  if (!food) {
+    throw new NotFoundError('Alimento')
+  }
+
+  Food.updateOne({ id: food.id }, { $inc: { searchCount: 1 } }).exec().catch(() => {
+    // Silently ignore errors
+  })
+
+  return food as IFood
+}
+
 /**
  * Get all unique categories (level 1)
  */
@@ -207,6 +286,7 @@ export async function getFilterOptions(): Promise<{
   categories: { level1: string[]; level2: string[]; level3: string[] }
   sources: string[]
   fodmapLevels: string[]
+  fodmapSubgroups: string[]
 }> {
   const [level1, level2, level3, sources] = await Promise.all([
     Food.distinct('category_level_1').exec(),
@@ -223,6 +303,7 @@ export async function getFilterOptions(): Promise<{
     },
     sources: sources.filter(Boolean).sort(),
     fodmapLevels: ['free', 'low', 'medium', 'high'],
+    fodmapSubgroups: [...FODMAP_GROUPS],
   }
 }
 
@@ -233,9 +314,475 @@ export async function getFoodsCount(): Promise<number> {
   return Food.countDocuments().exec()
 }
 
+/**
+ * Reserve numeric IDs for new catalog foods and return the first one
+ * Allocated from an atomic counter, so concurrent creates/imports never collide.
+ */
+export async function getNextFoodId(count = 1): Promise<number> {
+  const lastFood = await Food.findOne().sort({ id: -1 }).select('id').lean().exec()
+  return IdCounter.allocate('food', lastFood?.id || 0, count)
+}
+
 /**
  * Increment search count for a food (analytics)
  */
 export async function incrementSearchCount(id: number): Promise<void> {
   await Food.updateOne({ id }, { $inc: { searchCount: 1 } }).exec()
 }
+
+// =============================================================================
+// Nutrition
+// =============================================================================
+
+const DEFAULT_REFERENCE_GRAMS = 100
+
+// Sodium share of table salt (NaCl), used when the food has no sodium mineral
+const SODIUM_PER_GRAM_OF_SALT_MG = 393.4
+
+/**
+ * Parse a nutrient value from the nutritional table
+ * Handles Brazilian decimals ("12,3") and non-numeric markers:
+ * "Tr" (trace), "NA" (not analysed), "*" and empty values count as 0
+ */
+export function parseNutrientValue(value: string | number | null | undefined): number {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : 0
+  }
+  if (!value) return 0
+
+  const normalized = value.trim().replace(',', '.')
+  const parsed = Number.parseFloat(normalized)
+
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0
+}
+
+/**
+ * Extract the amount in grams of a reference portion ("100g", "100 ml", "1 unidade (50g)")
+ */
+export function parseReferencePortionGrams(referencePortion?: string): number {
+  if (!referencePortion) return DEFAULT_REFERENCE_GRAMS
+
+  const match = referencePortion.match(/(\d+(?:[.,]\d+)?)\s*(g|ml)\b/i)
+  if (!match) return DEFAULT_REFERENCE_GRAMS
+
+  const grams = Number.parseFloat(match[1].replace(',', '.'))
+  return grams > 0 ? grams : DEFAULT_REFERENCE_GRAMS
+}
+
+/**
+ * Get sodium in mg per reference portion
+ * Prefers the sodium mineral, falling back to salt content
+ */
+function getSodiumMg(nutrition: INutritionInfo): number {
+  const minerals =
+    nutrition.minerals instanceof Map
+      ? Object.fromEntries(nutrition.minerals as Map<string, string | null>)
+      : nutrition.minerals || {}
+
+  const sodiumKey = Object.keys(minerals).find((key) => key.toLowerCase().startsWith('sodium'))
+  if (sodiumKey) {
+    const sodium = parseNutrientValue(minerals[sodiumKey])
+    // Values in grams are converted to mg
+    return sodiumKey.toLowerCase().endsWith('_g') ? sodium * 1000 : sodium
+  }
+
+  return parseNutrientValue(nutrition.macronutrients?.salt_g) * SODIUM_PER_GRAM_OF_SALT_MG
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Calculate nutrition for a given quantity of a food
+ * Food.nutrition values are per reference_portion (usually 100g)
+ * Returns null when the food has no nutritional data
+ */
+export function calculateNutrition(
+  food: Pick<IFood, 'nutrition'>,
+  quantityG: number
+): CalculatedNutrition | null {
+  const nutrition = food.nutrition
+  if (!nutrition) return null
+
+  const factor = quantityG / parseReferencePortionGrams(nutrition.reference_portion)
+  const macros = nutrition.macronutrients
+
+  return {
+    calories: round(parseNutrientValue(nutrition.energy_kcal) * factor, 0),
+    carbs: round(parseNutrientValue(macros?.carbohydrates_g) * factor, 1),
+    protein: round(parseNutrientValue(macros?.protein_g) * factor, 1),
+    fat: round(parseNutrientValue(macros?.lipids_g) * factor, 1),
+    sugar: round(parseNutrientValue(macros?.sugars_g) * factor, 1),
+    fiber: round(parseNutrientValue(macros?.fiber_g) * factor, 1),
+    sodium: round(getSodiumMg(nutrition) * factor, 0),
+  }
+}
+
+// =============================================================================
+// Personal Risk
+// =============================================================================
+
+const RISK_HISTORY_DAYS = 90
+const MIN_SAFE_MEALS = 3          // Symptom-free meals needed to lower the risk
+const SAFE_MEAL_RATE = 0.8        // Share of meals that must be symptom-free
+const CAUTION_SCORE = 1
+const AVOID_SCORE = 3
+
+const FODMAP_LEVEL_SCORE: Record<FodmapLevel, number> = {
+  free: 0,
+  low: 0,
+  medium: 1,
+  high: 2,
+}
+
+interface FoodHistory {
+  meals: number
+  symptomFree: number
+}
+
+interface RiskContext {
+  problematic: Map<number, { status: string; totalIncidents: number }>
+  tolerances: Map<FodmapGroup, FodmapTolerance>
+  history: Map<number, FoodHistory>
+}
+
+/**
+ * Count meals with each food and how many were not followed by symptoms
+ * inside the default trigger window
+ */
+async function getFoodHistory(
+  userId: mongoose.Types.ObjectId,
+  foodIds: number[]
+): Promise<Map<number, FoodHistory>> {
+  const since = new Date()
+  since.setUTCDate(since.getUTCDate() - RISK_HISTORY_DAYS)
+
+  const [meals, symptoms] = await Promise.all([
+    DiaryEntry.find({
+      userId,
+      type: 'meal',
+      date: { $gte: since },
+      'meal.foods.foodId': { $in: foodIds },
+    })
+      .select('date meal.foods.foodId')
+      .lean(),
+    DiaryEntry.find({ userId, type: 'symptom', date: { $gte: since } })
+      .select('date')
+      .lean(),
+  ])
+
+  const symptomTimes = symptoms.map((s) => s.date.getTime())
+  const startMs = DEFAULT_TRIGGER_WINDOW.startMinutes * 60 * 1000
+  const endMs = DEFAULT_TRIGGER_WINDOW.endMinutes * 60 * 1000
+  const wanted = new Set(foodIds)
+  const history = new Map<number, FoodHistory>()
+
+  for (const meal of meals) {
+    const mealTime = meal.date.getTime()
+    const hadSymptoms = symptomTimes.some((time) => {
+      const delta = time - mealTime
+      return delta >= startMs && delta <= endMs
+    })
+
+    const mealFoodIds = new Set((meal.meal?.foods || []).map((f) => f.foodId))
+    for (const foodId of mealFoodIds) {
+      if (!wanted.has(foodId)) continue
+      const stat = history.get(foodId) || { meals: 0, symptomFree: 0 }
+      stat.meals++
+      if (!hadSymptoms) stat.symptomFree++
+      history.set(foodId, stat)
+    }
+  }
+
+  return history
+}
+
+async function loadRiskContext(userId: string, foodIds: number[]): Promise<RiskContext> {
+  const userObjectId = new mongoose.Types.ObjectId(userId)
+
+  const [problematicFoods, user, history] = await Promise.all([
+    ProblematicFood.find({ userId: userObjectId, foodId: { $in: foodIds } })
+      .select('foodId status totalIncidents')
+      .lean(),
+    User.findById(userObjectId).select('fodmapTolerances').lean(),
+    getFoodHistory(userObjectId, foodIds),
+  ])
+
+  return {
+    problematic: new Map(
+      problematicFoods.map((p) => [p.foodId, { status: p.status, totalIncidents: p.totalIncidents }])
+    ),
+    tolerances: new Map((user?.fodmapTolerances || []).map((t) => [t.group, t])),
+    history,
+  }
+}
+
+/**
+ * Combine every factor into a score:
+ * score < 1 = safe, 1-2 = caution, >= 3 (or confirmed problematic) = avoid
+ */
+function calculatePersonalRisk(food: IFood, context: RiskContext): PersonalRisk {
+  const reasons: PersonalRiskReason[] = []
+  let score = 0
+  let forceAvoid = false
+
+  // FODMAP level of the food itself
+  const level = food.fodmap?.level
+  if (level) {
+    score += FODMAP_LEVEL_SCORE[level]
+    reasons.push({
+      factor: 'fodmap_level',
+      effect: FODMAP_LEVEL_SCORE[level] > 0 ? 'raises' : 'lowers',
+      message: `Alimento classificado como ${FODMAP_LEVEL_LABELS[level]}`,
+    })
+  } else {
+    reasons.push({
+      factor: 'fodmap_level',
+      effect: 'neutral',
+      message: 'Alimento sem classificação FODMAP',
+    })
+  }
+
+  // User's own problematic foods
+  const problematic = context.problematic.get(food.id)
+  if (problematic) {
+    const incidents = `${problematic.totalIncidents} ocorrência${problematic.totalIncidents === 1 ? '' : 's'}`
+    if (problematic.status === 'confirmed') {
+      forceAvoid = true
+      score += AVOID_SCORE
+      reasons.push({
+        factor: 'problematic_food',
+        effect: 'raises',
+        message: `Você confirmou este alimento como problemático (${incidents})`,
+      })
+    } else {
+      score += problematic.totalIncidents >= 3 ? 2 : 1
+      reasons.push({
+        factor: 'problematic_food',
+        effect: 'raises',
+        message: `Você marcou este alimento como suspeito (${incidents})`,
+      })
+    }
+  }
+
+  // Reintroduction tolerances for the subgroups that are not low in this food
+  const subgroups = food.fodmap?.subgroups || {}
+  let toleratedGroups = 0
+  let relevantGroups = 0
+  for (const group of FODMAP_GROUPS) {
+    const subgroup = subgroups[group]
+    if (!subgroup || FODMAP_LEVEL_SCORE[subgroup.level] === 0) continue
+    relevantGroups++
+
+    const tolerance = context.tolerances.get(group)
+    if (!tolerance) continue
+    const groupName = FODMAP_GROUP_DEFINITIONS[group].name
+
+    if (tolerance.verdict === 'not_tolerated') {
+      score += 2
+      reasons.push({
+        factor: 'tolerance',
+        effect: 'raises',
+        message: `Você não tolerou ${groupName} na reintrodução`,
+      })
+    } else if (tolerance.verdict === 'partially_tolerated') {
+      score += subgroup.level === 'high' ? 1 : 0
+      reasons.push({
+        factor: 'tolerance',
+        effect: subgroup.level === 'high' ? 'raises' : 'neutral',
+        message: `Você tolerou ${groupName} apenas até a dose ${tolerance.maxToleratedDose ?? 'low'}`,
+      })
+    } else {
+      toleratedGroups++
+      reasons.push({
+        factor: 'tolerance',
+        effect: 'lowers',
+        message: `Você tolerou ${groupName} na reintrodução`,
+      })
+    }
+  }
+
+  // All FODMAPs present in the food were tolerated: the level no longer applies
+  if (relevantGroups > 0 && toleratedGroups === relevantGroups && level) {
+    score -= FODMAP_LEVEL_SCORE[level]
+  }
+
+  // Past meals without symptoms
+  const history = context.history.get(food.id)
+  if (history && history.meals > 0) {
+    const safeRate = history.symptomFree / history.meals
+    const isSafeHistory = history.symptomFree >= MIN_SAFE_MEALS && safeRate >= SAFE_MEAL_RATE
+    if (isSafeHistory) score -= 1
+    reasons.push({
+      factor: 'history',
+      effect: isSafeHistory ? 'lowers' : 'neutral',
+      message: `Você comeu ${history.meals}x nos últimos ${RISK_HISTORY_DAYS} dias, ${history.symptomFree}x sem sintomas`,
+    })
+  }
+
+  score = Math.max(0, score)
+
+  return {
+    level: forceAvoid || score >= AVOID_SCORE ? 'avoid' : score >= CAUTION_SCORE ? 'caution' : 'safe',
+    score,
+    reasons,
+  }
+}
+
+/**
+ * Annotate foods with the user's personal risk
+ * Loads problematic foods, tolerances and diary history once for the whole list
+ */
+export async function annotatePersonalRisk(
+  userId: string,
+  foods: IFood[]
+): Promise<FoodWithPersonalRisk[]> {
+  if (foods.length === 0) return []
+
+  const context = await loadRiskContext(userId, foods.map((f) => f.id))
+
+  return foods.map((food) => ({
+    ...food,
+    personalRisk: calculatePersonalRisk(food, context),
+  }) as FoodWithPersonalRisk)
+}
+
+// =============================================================================
+// Name Matching
+// =============================================================================
+
+// Below this similarity a name is reported as unmatched
+const MIN_MATCH_SCORE = 0.5
+const MATCH_CANDIDATES = 20
+const NAME_STOPWORDS = new Set(['de', 'da', 'do', 'das', 'dos', 'com', 'sem', 'e', 'a', 'o', 'em', 'of', 'with', 'and'])
+
+function nameTokens(normalized: string): string[] {
+  return normalized.split(' ').filter((token) => token && !NAME_STOPWORDS.has(token))
+}
+
+function sameToken(a: string, b: string): boolean {
+  // Tolerate simple plurals ("bananas" / "banana")
+  return a === b || a === `${b}s` || b === `${a}s`
+}
+
+function bigrams(text: string): string[] {
+  const compact = text.replace(/ /g, '')
+  const result: string[] = []
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2))
+  }
+  return result
+}
+
+function diceCoefficient(a: string, b: string): number {
+  const aBigrams = bigrams(a)
+  const bBigrams = bigrams(b)
+  if (aBigrams.length === 0 || bBigrams.length === 0) return a === b ? 1 : 0
+
+  const counts = new Map<string, number>()
+  for (const bigram of aBigrams) counts.set(bigram, (counts.get(bigram) || 0) + 1)
+
+  let overlap = 0
+  for (const bigram of bBigrams) {
+    const count = counts.get(bigram) || 0
+    if (count > 0) {
+      overlap++
+      counts.set(bigram, count - 1)
+    }
+  }
+
+  return (2 * overlap) / (aBigrams.length + bBigrams.length)
+}
+
+/**
+ * Similarity between a free-text food name and a database food name (0-1)
+ * Mixes character similarity with how many of the query words the food contains,
+ * so "arroz cozido" matches "Arroz, tipo 1, cozido".
+ */
+export function scoreFoodName(query: string, candidate: string): number {
+  const q = normalizeText(query)
+  const c = normalizeText(candidate)
+  if (!q || !c) return 0
+  if (q === c) return 1
+
+  const qTokens = nameTokens(q)
+  const cTokens = nameTokens(c)
+  if (qTokens.length === 0 || cTokens.length === 0) return diceCoefficient(q, c)
+
+  const shared = qTokens.filter((qt) => cTokens.some((ct) => sameToken(qt, ct))).length
+  const coverage = shared / qTokens.length
+  const precision = shared / cTokens.length
+  // The first word is usually the food itself ("Banana, prata" vs "Bolo de banana")
+  const sameStart = sameToken(qTokens[0], cTokens[0]) ? 0.15 : 0
+
+  const score = 0.4 * diceCoefficient(q, c) + 0.4 * coverage + 0.2 * precision + sameStart
+  return Math.min(Math.round(score * 100) / 100, 0.99)
+}
+
+/**
+ * Find the foods most similar to a free-text name, best first
+ * Only foods similar enough (MIN_MATCH_SCORE) are returned.
+ */
+export async function findSimilarFoods(name: string, limit = 5): Promise<FoodNameMatch[]> {
+  const normalized = normalizeText(name)
+  if (!normalized) return []
+
+  const firstToken = nameTokens(normalized)[0] || normalized.split(' ')[0]
+
+  const [textCandidates, prefixCandidates] = await Promise.all([
+    Food.find({ $text: { $search: normalized } }, { score: { $meta: 'textScore' } })
+      .sort({ score: { $meta: 'textScore' } })
+      .limit(MATCH_CANDIDATES)
+      .select('id name')
+      .lean()
+      .exec(),
+    Food.find({ name: { $regex: `^${escapeRegex(firstToken)}`, $options: 'i' } })
+      .sort({ searchCount: -1 })
+      .limit(MATCH_CANDIDATES)
+      .select('id name')
+      .lean()
+      .exec(),
+  ])
+
+  const matches = new Map<number, FoodNameMatch>()
+  for (const food of [...textCandidates, ...prefixCandidates]) {
+    if (matches.has(food.id)) continue
+    const score = scoreFoodName(name, food.name)
+    if (score >= MIN_MATCH_SCORE) {
+      matches.set(food.id, { foodId: food.id, foodName: food.name, score })
+    }
+  }
+
+  return [...matches.values()].sort((a, b) => b.score - a.score).slice(0, limit)
+}
+
+/**
+ * Find the closest food in the database for a free-text name
+ * Returns null when nothing is similar enough.
+ */
+export async function matchFoodName(name: string): Promise<FoodNameMatch | null> {
+  const [best] = await findSimilarFoods(name, 1)
+  return best ?? null
+}
+
+/**
+ * Match several names at once (deduplicated by normalized name)
+ */
+export async function matchFoodNames(
+  names: string[]
+): Promise<Map<string, FoodNameMatch | null>> {
+  const results = new Map<string, FoodNameMatch | null>()
+  const byNormalized = new Map<string, FoodNameMatch | null>()
+
+  for (const name of names) {
+    const key = normalizeText(name)
+    if (!byNormalized.has(key)) {
+      byNormalized.set(key, await matchFoodName(name))
+    }
+    results.set(name, byNormalized.get(key) ?? null)
+  }
+
+  return results
+}
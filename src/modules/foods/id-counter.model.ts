@@ -0,0 +1,82 @@
+/**
+ * ID Counter Model - Atomic Numeric ID Sequences
+ *
+ * One document per sequence (keyed by name). IDs are handed out with an
+ * atomic $inc, so concurrent creates never get the same ID and IDs of
+ * deleted documents are never reused:
+ * - food: catalog Food.id (admin create, submission approval, imports)
+ * - custom_food: CustomFood.foodId, stored as the negative of the sequence
+ */
+
+import mongoose, { Schema, type Model } from 'mongoose'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type IdSequence = 'food' | 'custom_food'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export interface IIdCounter {
+  _id: IdSequence
+  value: number // Last ID handed out
+  updatedAt: Date
+}
+
+// =============================================================================
+// Static Methods Interface
+// =============================================================================
+
+export interface IIdCounterModel extends Model<IIdCounter> {
+  allocate(sequence: IdSequence, floor: number, count?: number): Promise<number>
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const idCounterSchema = new Schema<IIdCounter>(
+  {
+    _id: { type: String, required: true },
+    value: { type: Number, required: true, default: 0 },
+  },
+  {
+    timestamps: { createdAt: false, updatedAt: true },
+    collection: 'id_counters',
+  },
+)
+
+// =============================================================================
+// Static Methods
+// =============================================================================
+
+/**
+ * Reserve `count` consecutive IDs and return the first one
+ * `floor` is the highest ID already in use: documents inserted without the
+ * counter (seeds, older data) are skipped over instead of collided with.
+ */
+idCounterSchema.statics.allocate = async function (
+  sequence: IdSequence,
+  floor: number,
+  count = 1,
+): Promise<number> {
+  // $max never lowers the value, so a stale floor read is harmless
+  await this.updateOne({ _id: sequence }, { $max: { value: floor } }, { upsert: true })
+
+  const counter = await this.findOneAndUpdate(
+    { _id: sequence },
+    { $inc: { value: count } },
+    { new: true },
+  ).lean()
+
+  return (counter?.value ?? floor + count) - count + 1
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const IdCounter = mongoose.model<IIdCounter, IIdCounterModel>('IdCounter', idCounterSchema)
@@ -0,0 +1,490 @@
+/**
+ * Open Food Facts Import Service - Packaged Products from a Dump File
+ *
+ * Features:
+ * - Offline dump files: JSONL (products.jsonl), JSON array or the
+ *   tab-separated CSV export, optionally gzipped
+ * - Barcode validation and normalization (see normalizeGtin)
+ * - Nutrition per 100g mapped to the catalog's nutrition format
+ * - FODMAP level estimated from the label's ingredient list
+ * - Dry run: counts and a preview without saving
+ * - Idempotent: products whose barcode is already in the catalog are skipped
+ */
+
+import { ValidationError } from '@/shared/errors'
+import type { FodmapGroup, FodmapLevel, FodmapSubgroupInfo } from '@/shared/types'
+import { normalizeGtin, normalizeText, parseCsv } from '@/shared/utils'
+import { gunzipSync } from 'fflate'
+import { type FodmapEstimate, estimateFodmapFromIngredients } from './fodmap-keywords'
+import { Food } from './food.model'
+import { getNextFoodId } from './foods.service'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type OpenFoodFactsDumpFormat = 'jsonl' | 'json' | 'csv'
+
+export type OpenFoodFactsSkipReason =
+  | 'invalid_line'
+  | 'invalid_barcode'
+  | 'missing_name'
+  | 'duplicate_in_file'
+  | 'already_exists'
+
+export interface OpenFoodFactsImportOptions {
+  dryRun?: boolean
+}
+
+export interface OpenFoodFactsImportError {
+  line: number
+  barcode?: string
+  message: string
+}
+
+export interface OpenFoodFactsPreviewEntry {
+  barcode: string
+  name: string
+  category: string
+  energy_kcal: number | null
+  fodmapLevel: FodmapLevel | null
+  fodmapIngredients: string[]
+}
+
+export interface OpenFoodFactsImportResult {
+  dryRun: boolean
+  format: OpenFoodFactsDumpFormat
+  totalProducts: number
+  // Products saved (or that would be saved, in a dry run)
+  imported: number
+  withNutrition: number
+  withFodmapEstimate: number
+  skipped: Record<OpenFoodFactsSkipReason, number>
+  errors: OpenFoodFactsImportError[]
+  preview: OpenFoodFactsPreviewEntry[]
+}
+
+type OpenFoodFactsProduct = Record<string, unknown>
+
+interface FoodDraft {
+  line: number
+  barcode: string
+  name: string
+  category: string
+  image: string | null
+  nutrition?: ReturnType<typeof toCatalogNutrition>
+  estimate: FodmapEstimate
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_IMPORT_PRODUCTS = 50000
+const MAX_DUMP_BYTES = 200 * 1024 * 1024 // Uncompressed
+const MAX_REPORTED_ERRORS = 100
+const MAX_PREVIEW_ENTRIES = 50
+const INSERT_BATCH_SIZE = 500
+
+const KJ_PER_KCAL = 4.184
+
+const PACKAGED_CATEGORY = 'Produtos industrializados'
+const DEFAULT_SUBCATEGORY = 'Outros'
+
+const SKIP_MESSAGES: Record<OpenFoodFactsSkipReason, string> = {
+  invalid_line: 'Linha inválida',
+  invalid_barcode: 'Código de barras ausente ou inválido',
+  missing_name: 'Produto sem nome',
+  duplicate_in_file: 'Código de barras repetido no arquivo',
+  already_exists: 'Código de barras já cadastrado',
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function isGzip(data: Uint8Array): boolean {
+  return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b
+}
+
+function decodeDump(data: Uint8Array): string {
+  if (!isGzip(data)) {
+    if (data.length > MAX_DUMP_BYTES) {
+      throw new ValidationError('Arquivo muito grande')
+    }
+    return new TextDecoder().decode(data)
+  }
+
+  // The gzip footer holds the uncompressed size (mod 2^32)
+  const footer = data.length - 4
+  const size =
+    (data[footer] |
+      (data[footer + 1] << 8) |
+      (data[footer + 2] << 16) |
+      (data[footer + 3] << 24)) >>>
+    0
+  if (size > MAX_DUMP_BYTES) {
+    throw new ValidationError('Arquivo muito grande')
+  }
+
+  try {
+    return new TextDecoder().decode(gunzipSync(data))
+  } catch {
+    throw new ValidationError('Arquivo gzip inválido')
+  }
+}
+
+function isProduct(value: unknown): value is OpenFoodFactsProduct {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Split the dump into products, keeping the line (or array position) of each
+ * one for error reporting. Unparseable lines become `null`.
+ */
+function parseDump(text: string): {
+  format: OpenFoodFactsDumpFormat
+  products: { line: number; product: OpenFoodFactsProduct | null }[]
+} {
+  const input = (text.startsWith('\ufeff') ? text.slice(1) : text).trim()
+  if (!input) {
+    throw new ValidationError('Arquivo vazio')
+  }
+
+  if (input.startsWith('[')) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(input)
+    } catch {
+      throw new ValidationError('JSON inválido')
+    }
+    const items = Array.isArray(parsed) ? parsed : []
+    return {
+      format: 'json',
+      products: items.map((item, index) => ({
+        line: index + 1,
+        product: isProduct(item) ? item : null,
+      })),
+    }
+  }
+
+  const lines = input.split(/\r?\n/)
+
+  if (input.startsWith('{')) {
+    const products: { line: number; product: OpenFoodFactsProduct | null }[] = []
+    lines.forEach((line, index) => {
+      if (!line.trim()) return
+      try {
+        const parsed: unknown = JSON.parse(line)
+        products.push({ line: index + 1, product: isProduct(parsed) ? parsed : null })
+      } catch {
+        products.push({ line: index + 1, product: null })
+      }
+    })
+    return { format: 'jsonl', products }
+  }
+
+  // The official CSV export is tab-separated without quoting, so quotes are
+  // literal text there; other delimiters go through the RFC 4180 parser
+  const rows = lines[0].includes('\t')
+    ? lines.filter((line) => line.trim()).map((line) => line.split('\t'))
+    : parseCsv(input)
+  const [header, ...dataRows] = rows
+  if (!header?.includes('code')) {
+    throw new ValidationError(
+      'Formato não reconhecido: envie JSONL, JSON ou CSV do Open Food Facts com a coluna "code"',
+    )
+  }
+
+  return {
+    format: 'csv',
+    products: dataRows.map((cells, index) => ({
+      line: index + 2,
+      product: Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ''])),
+    })),
+  }
+}
+
+// =============================================================================
+// Mapping
+// =============================================================================
+
+function getText(product: OpenFoodFactsProduct, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = product[key]
+    if (typeof value === 'string' && value.trim()) return value.trim()
+    if (typeof value === 'number') return String(value)
+  }
+  return undefined
+}
+
+/**
+ * Nutrient per 100g: JSON dumps nest them under `nutriments`, the CSV
+ * export has them as top-level columns
+ */
+function getNutrient(product: OpenFoodFactsProduct, key: string): number | undefined {
+  const nutriments = isProduct(product.nutriments) ? product.nutriments : {}
+  const value = nutriments[key] ?? product[key]
+  if (value === undefined || value === null || value === '') return undefined
+
+  const parsed =
+    typeof value === 'number' ? value : Number.parseFloat(String(value).replace(',', '.'))
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function toCatalogNutrition(product: OpenFoodFactsProduct) {
+  const kj = getNutrient(product, 'energy-kj_100g') ?? getNutrient(product, 'energy_100g')
+  const kcal =
+    getNutrient(product, 'energy-kcal_100g') ?? (kj !== undefined ? kj / KJ_PER_KCAL : undefined)
+
+  const macros = {
+    carbohydrates_g: getNutrient(product, 'carbohydrates_100g'),
+    sugars_g: getNutrient(product, 'sugars_100g'),
+    protein_g: getNutrient(product, 'proteins_100g'),
+    lipids_g: getNutrient(product, 'fat_100g'),
+    saturated_fatty_acids_g: getNutrient(product, 'saturated-fat_100g'),
+    trans_fatty_acids_g: getNutrient(product, 'trans-fat_100g'),
+    fiber_g: getNutrient(product, 'fiber_100g'),
+    salt_g: getNutrient(product, 'salt_100g'),
+  }
+  const sodium = getNutrient(product, 'sodium_100g') // grams
+
+  if (
+    kcal === undefined &&
+    macros.carbohydrates_g === undefined &&
+    macros.protein_g === undefined &&
+    macros.lipids_g === undefined
+  ) {
+    return undefined
+  }
+
+  const macronutrients: Partial<Record<keyof typeof macros, string>> = {}
+  for (const [key, value] of Object.entries(macros) as [
+    keyof typeof macros,
+    number | undefined,
+  ][]) {
+    if (value !== undefined) macronutrients[key] = String(round(value))
+  }
+
+  return {
+    energy_kcal: kcal !== undefined ? Math.round(kcal) : 0,
+    energy_kj: Math.round(kj ?? (kcal ?? 0) * KJ_PER_KCAL),
+    reference_portion: '100g',
+    macronutrients,
+    minerals: sodium !== undefined ? { sodium_mg: String(round(sodium * 1000, 0)) } : {},
+  }
+}
+
+function toCatalogFodmap(estimate: FodmapEstimate) {
+  if (!estimate.level) return undefined
+
+  const subgroups: Partial<Record<FodmapGroup, FodmapSubgroupInfo>> = {}
+  for (const [group, level] of Object.entries(estimate.subgroups) as [FodmapGroup, FodmapLevel][]) {
+    subgroups[group] = { level, serving_threshold_g: null }
+  }
+
+  return {
+    level: estimate.level,
+    portion_note: null,
+    additional_notes: 'Estimativa a partir da lista de ingredientes do rótulo',
+    search_information: {
+      match_type: 'multiple_ingredients',
+      total_ingredients: estimate.ingredients.length,
+      ingredients: estimate.ingredients.map((ingredient) => ({
+        portuguese_keyword: ingredient.keyword,
+        name_english: ingredient.name_english,
+        level: ingredient.level,
+        portion_note: null,
+        category: ingredient.category,
+      })),
+    },
+    subgroups,
+  }
+}
+
+/**
+ * Most specific category of the product ("Snacks, Biscoitos, Biscoitos
+ * recheados" -> "Biscoitos recheados"). Taxonomy tags ("en:sandwich-cookies")
+ * are only used when there is no plain name.
+ */
+function getCategory(product: OpenFoodFactsProduct): string {
+  const categories = (getText(product, 'categories_pt', 'categories') || '')
+    .split(',')
+    .map((category) => category.trim())
+    .filter(Boolean)
+  const named = categories.filter((category) => !/^[a-z]{2}:/.test(category))
+  if (named.length > 0) return named[named.length - 1]
+
+  const tag = categories.pop()
+  return tag ? tag.replace(/^[a-z]{2}:/, '').replace(/-/g, ' ') : DEFAULT_SUBCATEGORY
+}
+
+/**
+ * Product name with the brand ("Biscoito de polvilho (Marca)")
+ */
+function getName(product: OpenFoodFactsProduct): string | undefined {
+  const name = getText(
+    product,
+    'product_name_pt',
+    'product_name',
+    'generic_name_pt',
+    'generic_name',
+  )
+  if (!name) return undefined
+
+  const brand = getText(product, 'brands')?.split(',')[0].trim()
+  if (!brand || normalizeText(name).includes(normalizeText(brand))) return name
+  return `${name} (${brand})`
+}
+
+function getImage(product: OpenFoodFactsProduct): string | null {
+  const url = getText(product, 'image_front_url', 'image_url')
+  return url && /^https?:\/\//.test(url) ? url : null
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Barcodes among `barcodes` that are already in the catalog
+ */
+async function findExistingBarcodes(barcodes: string[]): Promise<Set<string>> {
+  const existing = new Set<string>()
+  for (let i = 0; i < barcodes.length; i += INSERT_BATCH_SIZE) {
+    const batch = barcodes.slice(i, i + INSERT_BATCH_SIZE)
+    const foods = await Food.find({ barcodes: { $in: batch } })
+      .select('barcodes')
+      .lean()
+      .exec()
+    for (const food of foods) {
+      for (const barcode of food.barcodes || []) existing.add(barcode)
+    }
+  }
+  return existing
+}
+
+/**
+ * Import products from an Open Food Facts dump file
+ */
+export async function importOpenFoodFactsDump(
+  data: Uint8Array,
+  options: OpenFoodFactsImportOptions = {},
+): Promise<OpenFoodFactsImportResult> {
+  const dryRun = options.dryRun ?? false
+  const { format, products } = parseDump(decodeDump(data))
+
+  if (products.length > MAX_IMPORT_PRODUCTS) {
+    throw new ValidationError(`Máximo de ${MAX_IMPORT_PRODUCTS} produtos por importação`)
+  }
+
+  const skipped: Record<OpenFoodFactsSkipReason, number> = {
+    invalid_line: 0,
+    invalid_barcode: 0,
+    missing_name: 0,
+    duplicate_in_file: 0,
+    already_exists: 0,
+  }
+  const errors: OpenFoodFactsImportError[] = []
+
+  const skip = (reason: OpenFoodFactsSkipReason, line: number, barcode?: string) => {
+    skipped[reason]++
+    errors.push({ line, barcode, message: SKIP_MESSAGES[reason] })
+  }
+
+  const drafts: FoodDraft[] = []
+  const seen = new Set<string>()
+
+  for (const { line, product } of products) {
+    if (!product) {
+      skip('invalid_line', line)
+      continue
+    }
+
+    const code = getText(product, 'code')
+    const barcode = code ? normalizeGtin(code) : null
+    if (!barcode) {
+      skip('invalid_barcode', line, code)
+      continue
+    }
+    if (seen.has(barcode)) {
+      skip('duplicate_in_file', line, barcode)
+      continue
+    }
+    seen.add(barcode)
+
+    const name = getName(product)
+    if (!name) {
+      skip('missing_name', line, barcode)
+      continue
+    }
+
+    drafts.push({
+      line,
+      barcode,
+      name,
+      category: getCategory(product),
+      image: getImage(product),
+      nutrition: toCatalogNutrition(product),
+      estimate: estimateFodmapFromIngredients(
+        getText(product, 'ingredients_text_pt', 'ingredients_text') || '',
+      ),
+    })
+  }
+
+  const existing = await findExistingBarcodes(drafts.map((d) => d.barcode))
+  const newDrafts = drafts.filter((draft) => {
+    if (!existing.has(draft.barcode)) return true
+    skip('already_exists', draft.line, draft.barcode)
+    return false
+  })
+
+  if (!dryRun && newDrafts.length > 0) {
+    let nextId = await getNextFoodId(newDrafts.length)
+
+    for (let i = 0; i < newDrafts.length; i += INSERT_BATCH_SIZE) {
+      const batch = newDrafts.slice(i, i + INSERT_BATCH_SIZE).map((draft) => ({
+        id: nextId++,
+        name: draft.name,
+        source: 'open_food_facts',
+        category_level_1: PACKAGED_CATEGORY,
+        category_level_2: draft.category,
+        category_level_3: '',
+        image: draft.image,
+        barcodes: [draft.barcode],
+        nutrition: draft.nutrition,
+        fodmap: toCatalogFodmap(draft.estimate),
+        data_sources: {
+          nutritional_data: 'open_food_facts',
+          fodmap_data: draft.estimate.level ? 'estimated_from_ingredients' : undefined,
+        },
+        searchCount: 0,
+      }))
+      await Food.insertMany(batch)
+    }
+  }
+
+  return {
+    dryRun,
+    format,
+    totalProducts: products.length,
+    imported: newDrafts.length,
+    withNutrition: newDrafts.filter((d) => d.nutrition).length,
+    withFodmapEstimate: newDrafts.filter((d) => d.estimate.level).length,
+    skipped,
+    errors: errors.sort((a, b) => a.line - b.line).slice(0, MAX_REPORTED_ERRORS),
+    preview: newDrafts.slice(0, MAX_PREVIEW_ENTRIES).map((draft) => ({
+      barcode: draft.barcode,
+      name: draft.name,
+      category: draft.category,
+      energy_kcal: draft.nutrition?.energy_kcal ?? null,
+      fodmapLevel: draft.estimate.level,
+      fodmapIngredients: draft.estimate.ingredients.map((i) => i.keyword),
+    })),
+  }
+}
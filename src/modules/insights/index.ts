@@ -3,5 +3,6 @@
  */
 
 export { insightsController } from './insights.controller'
+export * from './user-discovery.model'
 export * from './insights.service'
 export * from './insights.schemas'
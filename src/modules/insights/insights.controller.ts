@@ -5,6 +5,8 @@
  * - GET /insights/highlights - Daily highlights
  * - GET /insights/weekly-summary - Weekly statistics
  * - GET /insights/discoveries - Identified patterns
+ * - POST /insights/discoveries/:id/seen - Mark discovery as seen
+ * - POST /insights/discoveries/:id/dismiss - Dismiss discovery
  */
 
 import { Elysia } from 'elysia'
@@ -13,8 +15,11 @@ import {
   highlightsResponseSchema,
   weeklySummaryResponseSchema,
   discoveriesResponseSchema,
+  discoveriesQuerySchema,
+  discoveryIdParamSchema,
+  discoveryResponseSchema,
 } from './insights.schemas'
-import { requireAuth } from '@/shared/middlewares'
+import { requireAuth, requireFeature } from '@/shared/middlewares'
 
 // =============================================================================
 // Controller
@@ -23,6 +28,7 @@ import { requireAuth } from '@/shared/middlewares'
 export const insightsController = new Elysia({ prefix: '/insights' })
   // Apply auth middleware to all routes
   .use(requireAuth)
+  .use(requireFeature('insights_enabled'))
 
   // ==========================================================================
   // GET /insights/highlights - Daily highlights
@@ -105,8 +111,13 @@ export const insightsController = new Elysia({ prefix: '/insights' })
   // ==========================================================================
   .get(
     '/discoveries',
-    async ({ auth }) => {
-      const discoveries = await insightsService.getDiscoveries(auth.userId)
+    async ({ query, auth }) => {
+      const discoveries = await insightsService.getDiscoveries(auth.userId, {
+        window: {
+          startMinutes: query.windowStart ? Number.parseInt(query.windowStart, 10) : undefined,
+          endMinutes: query.windowEnd ? Number.parseInt(query.windowEnd, 10) : undefined,
+        },
+      })
 
       return {
         success: true,
@@ -114,6 +125,7 @@ export const insightsController = new Elysia({ prefix: '/insights' })
       }
     },
     {
+      query: discoveriesQuerySchema,
       response: discoveriesResponseSchema,
       detail: {
         tags: ['Insights'],
@@ -127,15 +139,90 @@ export const insightsController = new Elysia({ prefix: '/insights' })
           - \`combination\` - Combinações problemáticas
           - \`safe_food\` - Alimentos seguros (sem reações)
           
+          **Gatilhos estatísticos:**
+          Cada refeição é associada aos sintomas registrados dentro da janela
+          (\`windowStart\` a \`windowEnd\` minutos depois, padrão 30min - 24h).
+          Alimentos com risco relativo ≥ 1.5 em relação às refeições sem eles viram
+          \`trigger\`, com \`data.stats\` trazendo exposições, taxas, risco relativo e lift.
+          
+          **Combinações:**
+          Pares de alimentos na mesma refeição cujo risco é ≥ 1.5x o de cada alimento
+          consumido sem o outro viram \`combination\`, com o par em \`data.foods\`.
+          
+          **Persistência:**
+          Cada descoberta tem um ID estável (tipo + alimentos + sintomas).
+          \`isNew\` fica \`true\` até ser marcada como vista; descobertas dispensadas
+          não são mais retornadas.
+          
           **Níveis de confiança:**
-          - \`high\` - Alta confiança (5+ ocorrências)
-          - \`medium\` - Média confiança (3-4 ocorrências)
-          - \`low\` - Baixa confiança (2 ocorrências)
+          - \`high\` - Alta confiança (10+ exposições e resultado significativo)
+          - \`medium\` - Média confiança (5+ exposições ou resultado significativo)
+          - \`low\` - Baixa confiança (poucas exposições)
         `,
         security: [{ bearerAuth: [] }],
         responses: {
           200: { description: 'Descobertas' },
+          400: { description: 'Janela inválida' },
+          401: { description: 'Não autenticado' },
+        },
+      },
+    }
+  )
+
+  // ==========================================================================
+  // POST /insights/discoveries/:id/seen - Mark discovery as seen
+  // ==========================================================================
+  .post(
+    '/discoveries/:id/seen',
+    async ({ params, auth }) => {
+      const discovery = await insightsService.markDiscoverySeen(auth.userId, params.id)
+
+      return {
+        success: true,
+        data: discovery,
+      }
+    },
+    {
+      params: discoveryIdParamSchema,
+      response: discoveryResponseSchema,
+      detail: {
+        tags: ['Insights'],
+        summary: 'Marcar descoberta como vista',
+        description: 'Marca a descoberta como vista (\`isNew\` passa a ser \`false\`).',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Descoberta marcada como vista' },
+          401: { description: 'Não autenticado' },
+          404: { description: 'Descoberta não encontrada' },
+        },
+      },
+    }
+  )
+
+  // ==========================================================================
+  // POST /insights/discoveries/:id/dismiss - Dismiss discovery
+  // ==========================================================================
+  .post(
+    '/discoveries/:id/dismiss',
+    async ({ params, auth }) => {
+      await insightsService.dismissDiscovery(auth.userId, params.id)
+
+      return {
+        success: true,
+        message: 'Descoberta dispensada',
+      }
+    },
+    {
+      params: discoveryIdParamSchema,
+      detail: {
+        tags: ['Insights'],
+        summary: 'Dispensar descoberta',
+        description: 'Dispensa a descoberta, que deixa de aparecer nas próximas análises.',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Descoberta dispensada' },
           401: { description: 'Não autenticado' },
+          404: { description: 'Descoberta não encontrada' },
         },
       },
     }
@@ -64,9 +64,60 @@ export const discoverySchema = t.Object({
     symptoms: t.Optional(t.Array(t.String())),
     timeRange: t.Optional(t.String()),
     occurrences: t.Number(),
+    stats: t.Optional(
+      t.Object({
+        exposures: t.Number(),
+        symptomRate: t.Number(),
+        baselineRate: t.Number(),
+        relativeRisk: t.Number(),
+        lift: t.Number(),
+      })
+    ),
   }),
   discoveredAt: t.String(),
   isNew: t.Boolean(),
+  firstSeenAt: t.String(),
+  lastConfirmedAt: t.String(),
+  confidenceHistory: t.Array(
+    t.Object({
+      confidence: t.Union([
+        t.Literal('high'),
+        t.Literal('medium'),
+        t.Literal('low'),
+      ]),
+      recordedAt: t.String(),
+    })
+  ),
+})
+
+// =============================================================================
+// Query Schemas
+// =============================================================================
+
+export const discoveriesQuerySchema = t.Object({
+  windowStart: t.Optional(
+    t.String({
+      pattern: '^\\d+$',
+      description: 'Início da janela após a refeição, em minutos (padrão: 30)',
+    })
+  ),
+  windowEnd: t.Optional(
+    t.String({
+      pattern: '^\\d+$',
+      description: 'Fim da janela após a refeição, em minutos (padrão: 1440, máximo: 2880)',
+    })
+  ),
+})
+
+// =============================================================================
+// Param Schemas
+// =============================================================================
+
+export const discoveryIdParamSchema = t.Object({
+  id: t.String({
+    pattern: '^[a-fA-F0-9]{24}$',
+    description: 'ID da descoberta',
+  }),
 })
 
 // =============================================================================
@@ -87,3 +138,8 @@ export const discoveriesResponseSchema = t.Object({
   success: t.Boolean(),
   data: t.Array(discoverySchema),
 })
+
+export const discoveryResponseSchema = t.Object({
+  success: t.Boolean(),
+  data: discoverySchema,
+})
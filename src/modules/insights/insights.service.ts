@@ -5,15 +5,23 @@
  * - Daily highlights (achievements, patterns, warnings, tips)
  * - Weekly summary with statistics
  * - Discoveries (triggers, safe foods, patterns)
+ * - Statistical trigger detection (time-windowed relative risk)
+ * - Food combination analysis (pairs that react only together)
+ * - Persisted discoveries with seen/dismissed tracking
+ * - New discoveries are published to SSE streams and the notification inbox
  *
- * Note: This module doesn't have its own model.
- * It analyzes data from Diary, ProblematicFoods, and User.
+ * Note: Insights are computed from Diary, ProblematicFoods, and User.
+ * Only discoveries are stored (UserDiscovery) to keep stable IDs.
  */
 
 import mongoose from 'mongoose'
 import { DiaryEntry } from '@/modules/diary/diary.model'
 import { ProblematicFood } from '@/modules/problematic-foods/problematic-food.model'
 import { User } from '@/modules/users/user.model'
+import { UserDiscovery, type IUserDiscovery } from './user-discovery.model'
+import * as notificationsService from '@/modules/notifications/notifications.service'
+import { emitEvent } from '@/shared/events'
+import { NotFoundError, ValidationError } from '@/shared/errors'
 import type { SymptomType } from '@/shared/types'
 
 // =============================================================================
@@ -55,11 +63,34 @@ export interface WeeklySummary {
   periodEnd: string
 }
 
+export interface DiscoveryStats {
+  exposures: number     // Meals containing the food
+  symptomRate: number   // Share of those meals followed by symptoms (0-1)
+  baselineRate: number  // Share of all meals followed by symptoms (0-1)
+  relativeRisk: number  // symptomRate vs meals without the food
+  lift: number          // symptomRate vs baselineRate
+}
+
 export interface DiscoveryData {
   foods?: string[]
   symptoms?: string[]
   timeRange?: string
   occurrences: number
+  stats?: DiscoveryStats
+}
+
+/**
+ * Time window after a meal in which a symptom is attributed to it
+ */
+export interface TriggerWindow {
+  startMinutes: number
+  endMinutes: number
+}
+
+export interface DiscoveryOptions {
+  window?: Partial<TriggerWindow>
+  // Analyze only this period instead of the last days up to today
+  period?: { start: Date; end: Date }
 }
 
 export interface Discovery {
@@ -71,8 +102,19 @@ export interface Discovery {
   data: DiscoveryData
   discoveredAt: string
   isNew: boolean
+  firstSeenAt: string
+  lastConfirmedAt: string
+  confidenceHistory: { confidence: ConfidenceLevel; recordedAt: string }[]
 }
 
+/**
+ * Discovery as produced by the analysis, before being persisted
+ */
+export type DetectedDiscovery = Omit<
+  Discovery,
+  'id' | 'isNew' | 'firstSeenAt' | 'lastConfirmedAt' | 'confidenceHistory'
+>
+
 // =============================================================================
 // Tips Database
 // =============================================================================
@@ -130,6 +172,26 @@ const DAILY_TIPS = [
   },
 ]
 
+// =============================================================================
+// Correlation Settings
+// =============================================================================
+
+export const DEFAULT_TRIGGER_WINDOW: TriggerWindow = {
+  startMinutes: 30,
+  endMinutes: 24 * 60,
+}
+const MAX_TRIGGER_WINDOW_MINUTES = 48 * 60
+
+const CORRELATION_PERIOD_DAYS = 90
+const MIN_FOOD_EXPOSURES = 3          // Times a food must be eaten to be analyzed
+const MIN_SYMPTOMATIC_EXPOSURES = 2   // Times it must be followed by symptoms
+const MIN_RELATIVE_RISK = 1.5
+const MIN_PAIR_EXPOSURES = 3          // Meals where both foods appear together
+const MIN_SOLO_EXPOSURES = 2          // Meals with each food without the other
+const MAX_COMBINATIONS = 3
+const MAX_CONFIDENCE_HISTORY = 20
+const Z_95 = 1.96
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -158,6 +220,311 @@ function calculatePercentageChange(current: number, previous: number): number {
   return Math.round(((current - previous) / previous) * 100)
 }
 
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}min`
+  const hours = minutes / 60
+  return Number.isInteger(hours) ? `${hours}h` : `${roundTo(hours, 1)}h`
+}
+
+/**
+ * Validate and fill a trigger window with defaults
+ */
+export function resolveTriggerWindow(window?: Partial<TriggerWindow>): TriggerWindow {
+  const resolved = { ...DEFAULT_TRIGGER_WINDOW, ...window }
+
+  if (
+    resolved.startMinutes < 0 ||
+    resolved.endMinutes > MAX_TRIGGER_WINDOW_MINUTES ||
+    resolved.startMinutes >= resolved.endMinutes
+  ) {
+    throw new ValidationError(
+      `Janela inválida: o início deve ser menor que o fim, com no máximo ${MAX_TRIGGER_WINDOW_MINUTES / 60}h`
+    )
+  }
+
+  return resolved
+}
+
+// =============================================================================
+// Correlation Engine
+// =============================================================================
+
+type DiaryEntryLean = Awaited<ReturnType<typeof fetchEntries>>[number]
+
+interface MealExposure {
+  date: Date
+  foods: Map<number, string> // foodId -> foodName
+  symptomTypes: Set<string>  // Symptoms logged inside the window after the meal
+}
+
+interface FoodTriggerStat {
+  foodId: number
+  foodName: string
+  exposures: number
+  symptomatic: number
+  symptomRate: number
+  baselineRate: number
+  relativeRisk: number
+  lift: number
+  lowerBound: number
+  symptoms: string[]
+  lastSymptomatic: Date
+}
+
+interface FoodPairStat {
+  foods: [string, string]
+  exposures: number
+  symptomatic: number
+  symptomRate: number
+  baselineRate: number
+  relativeRisk: number // Against the riskier food eaten alone
+  lift: number
+  lowerBound: number
+  symptoms: string[]
+  lastSymptomatic: Date
+}
+
+async function fetchEntries(userId: mongoose.Types.ObjectId, since: Date, until?: Date) {
+  return DiaryEntry.find({ userId, date: { $gte: since, ...(until && { $lte: until }) } }).lean()
+}
+
+/**
+ * Pair each meal with the symptoms logged inside the window after it
+ */
+function buildMealExposures(
+  entries: DiaryEntryLean[],
+  window: TriggerWindow
+): MealExposure[] {
+  const symptoms = entries.flatMap((e) =>
+    e.type === 'symptom' && e.symptom ? [{ time: e.date.getTime(), type: e.symptom.type }] : []
+  )
+
+  const startMs = window.startMinutes * 60 * 1000
+  const endMs = window.endMinutes * 60 * 1000
+
+  return entries
+    .filter((e) => e.type === 'meal' && e.meal?.foods?.length)
+    .map((entry) => {
+      const mealTime = entry.date.getTime()
+      const foods = new Map<number, string>()
+      for (const food of entry.meal?.foods ?? []) {
+        foods.set(food.foodId, food.foodName)
+      }
+
+      const symptomTypes = new Set<string>()
+      for (const symptom of symptoms) {
+        const delta = symptom.time - mealTime
+        if (delta >= startMs && delta <= endMs) {
+          symptomTypes.add(symptom.type)
+        }
+      }
+
+      return { date: entry.date, foods, symptomTypes }
+    })
+}
+
+/**
+ * Relative risk with a 95% confidence interval lower bound (Katz log method)
+ * a/n1 = symptomatic/total exposed, c/n2 = symptomatic/total unexposed.
+ * Applies the Haldane correction (+0.5) when a cell is zero.
+ */
+function relativeRisk(a: number, n1: number, c: number, n2: number) {
+  const correction = a === 0 || c === 0 || a === n1 || c === n2 ? 0.5 : 0
+  const ca = a + correction
+  const cc = c + correction
+  const cn1 = n1 + 2 * correction
+  const cn2 = n2 + 2 * correction
+
+  const rr = ca / cn1 / (cc / cn2)
+  const se = Math.sqrt(1 / ca - 1 / cn1 + 1 / cc - 1 / cn2)
+
+  return { relativeRisk: rr, lowerBound: Math.exp(Math.log(rr) - Z_95 * se) }
+}
+
+/**
+ * Confidence derived from sample size and statistical significance
+ */
+function confidenceFromSample(exposures: number, lowerBound: number): ConfidenceLevel {
+  if (exposures >= 10 && lowerBound > 1) return 'high'
+  if (exposures >= 5 || lowerBound > 1) return 'medium'
+  return 'low'
+}
+
+/**
+ * Find foods whose meals are followed by symptoms more often than the rest
+ */
+function detectTriggerFoods(exposures: MealExposure[]): FoodTriggerStat[] {
+  const totalMeals = exposures.length
+  const totalSymptomatic = exposures.filter((e) => e.symptomTypes.size > 0).length
+  if (totalMeals === 0 || totalSymptomatic === 0) return []
+
+  const baselineRate = totalSymptomatic / totalMeals
+
+  // Aggregate per food
+  const perFood = new Map<
+    number,
+    { name: string; exposures: number; symptomatic: number; symptoms: Set<string>; last: Date | null }
+  >()
+
+  for (const exposure of exposures) {
+    const isSymptomatic = exposure.symptomTypes.size > 0
+    for (const [foodId, foodName] of exposure.foods) {
+      let stat = perFood.get(foodId)
+      if (!stat) {
+        stat = { name: foodName, exposures: 0, symptomatic: 0, symptoms: new Set(), last: null }
+        perFood.set(foodId, stat)
+      }
+      stat.exposures++
+      if (isSymptomatic) {
+        stat.symptomatic++
+        for (const type of exposure.symptomTypes) stat.symptoms.add(type)
+        if (!stat.last || exposure.date > stat.last) stat.last = exposure.date
+      }
+    }
+  }
+
+  const triggers: FoodTriggerStat[] = []
+
+  for (const [foodId, stat] of perFood) {
+    const unexposed = totalMeals - stat.exposures
+    if (stat.exposures < MIN_FOOD_EXPOSURES || stat.symptomatic < MIN_SYMPTOMATIC_EXPOSURES) continue
+    if (!stat.last) continue
+    // Without meals lacking the food there is nothing to compare against
+    if (unexposed < MIN_FOOD_EXPOSURES) continue
+
+    const unexposedSymptomatic = totalSymptomatic - stat.symptomatic
+    const { relativeRisk: rr, lowerBound } = relativeRisk(
+      stat.symptomatic,
+      stat.exposures,
+      unexposedSymptomatic,
+      unexposed
+    )
+    if (rr < MIN_RELATIVE_RISK) continue
+
+    const symptomRate = stat.symptomatic / stat.exposures
+
+    triggers.push({
+      foodId,
+      foodName: stat.name,
+      exposures: stat.exposures,
+      symptomatic: stat.symptomatic,
+      symptomRate,
+      baselineRate,
+      relativeRisk: rr,
+      lift: symptomRate / baselineRate,
+      lowerBound,
+      symptoms: Array.from(stat.symptoms),
+      lastSymptomatic: stat.last,
+    })
+  }
+
+  return triggers.sort((a, b) => b.relativeRisk - a.relativeRisk)
+}
+
+/**
+ * Find food pairs whose meals are followed by symptoms more often than
+ * meals with either food alone (e.g. onion + wheat in the same meal)
+ */
+function detectFoodCombinations(exposures: MealExposure[]): FoodPairStat[] {
+  const totalMeals = exposures.length
+  const totalSymptomatic = exposures.filter((e) => e.symptomTypes.size > 0).length
+  if (totalMeals === 0 || totalSymptomatic === 0) return []
+
+  const baselineRate = totalSymptomatic / totalMeals
+
+  // Per-food and per-pair counts
+  type FoodCount = { name: string; exposures: number; symptomatic: number }
+  const foodCounts = new Map<number, FoodCount>()
+  const pairCounts = new Map<
+    string,
+    { foods: [FoodCount, FoodCount]; exposures: number; symptomatic: number; symptoms: Set<string>; last: Date | null }
+  >()
+
+  for (const exposure of exposures) {
+    const isSymptomatic = exposure.symptomTypes.size > 0
+    const foodIds = Array.from(exposure.foods.keys()).sort((a, b) => a - b)
+
+    const counts = foodIds.map((foodId) => {
+      let count = foodCounts.get(foodId)
+      if (!count) {
+        count = { name: exposure.foods.get(foodId) ?? '', exposures: 0, symptomatic: 0 }
+        foodCounts.set(foodId, count)
+      }
+      count.exposures++
+      if (isSymptomatic) count.symptomatic++
+      return count
+    })
+
+    for (let i = 0; i < foodIds.length; i++) {
+      for (let j = i + 1; j < foodIds.length; j++) {
+        const key = `${foodIds[i]}:${foodIds[j]}`
+        let pair = pairCounts.get(key)
+        if (!pair) {
+          pair = {
+            foods: [counts[i], counts[j]],
+            exposures: 0,
+            symptomatic: 0,
+            symptoms: new Set(),
+            last: null,
+          }
+          pairCounts.set(key, pair)
+        }
+        pair.exposures++
+        if (isSymptomatic) {
+          pair.symptomatic++
+          for (const type of exposure.symptomTypes) pair.symptoms.add(type)
+          if (!pair.last || exposure.date > pair.last) pair.last = exposure.date
+        }
+      }
+    }
+  }
+
+  const combinations: FoodPairStat[] = []
+
+  for (const pair of pairCounts.values()) {
+    if (pair.exposures < MIN_PAIR_EXPOSURES || pair.symptomatic < MIN_SYMPTOMATIC_EXPOSURES) continue
+    if (!pair.last) continue
+
+    // Compare the pair against each food eaten without the other
+    const solos = pair.foods.map((food) => ({
+      name: food.name,
+      exposures: food.exposures - pair.exposures,
+      symptomatic: food.symptomatic - pair.symptomatic,
+    }))
+    if (solos.some((solo) => solo.exposures < MIN_SOLO_EXPOSURES)) continue
+
+    const risks = solos.map((solo) =>
+      relativeRisk(pair.symptomatic, pair.exposures, solo.symptomatic, solo.exposures)
+    )
+    const weakest = risks.reduce((min, r) => (r.relativeRisk < min.relativeRisk ? r : min))
+    if (weakest.relativeRisk < MIN_RELATIVE_RISK) continue
+
+    const symptomRate = pair.symptomatic / pair.exposures
+
+    combinations.push({
+      foods: [solos[0].name, solos[1].name],
+      exposures: pair.exposures,
+      symptomatic: pair.symptomatic,
+      symptomRate,
+      baselineRate,
+      relativeRisk: weakest.relativeRisk,
+      lift: symptomRate / baselineRate,
+      lowerBound: Math.min(...risks.map((r) => r.lowerBound)),
+      symptoms: Array.from(pair.symptoms),
+      lastSymptomatic: pair.last,
+    })
+  }
+
+  return combinations
+    .sort((a, b) => b.relativeRisk - a.relativeRisk)
+    .slice(0, MAX_COMBINATIONS)
+}
+
 // =============================================================================
 // Service Functions
 // =============================================================================
@@ -362,20 +729,26 @@ export async function getWeeklySummary(userId: string): Promise<WeeklySummary> {
 }
 
 /**
- * Get discoveries (patterns identified from data)
+ * Analyze diary data and detect discoveries (patterns identified from data)
+ * Nothing is stored; getDiscoveries persists the result.
  */
-export async function getDiscoveries(userId: string): Promise<Discovery[]> {
-  const discoveries: Discovery[] = []
+export async function analyzeDiscoveries(
+  userId: string,
+  options: DiscoveryOptions = {}
+): Promise<DetectedDiscovery[]> {
+  const discoveries: DetectedDiscovery[] = []
   const userObjectId = new mongoose.Types.ObjectId(userId)
-  const today = new Date()
+  const { period } = options
+  const today = period ? period.end : new Date()
+  const window = resolveTriggerWindow(options.window)
 
-  // Get last 30 days of data
-  const { start: thirtyDaysAgo } = getDateRange(30)
+  // Correlations use a longer period, the other patterns the last 30 days
+  // (a given period bounds both)
+  const correlationStart = period ? period.start : getDateRange(CORRELATION_PERIOD_DAYS).start
+  const patternStart = period ? period.start : getDateRange(30).start
 
-  const entries = await DiaryEntry.find({
-    userId: userObjectId,
-    date: { $gte: thirtyDaysAgo },
-  }).lean()
+  const allEntries = await fetchEntries(userObjectId, correlationStart, period?.end)
+  const entries = allEntries.filter((e) => e.date >= patternStart)
 
   const meals = entries.filter((e) => e.type === 'meal')
   const symptoms = entries.filter((e) => e.type === 'symptom')
@@ -383,11 +756,83 @@ export async function getDiscoveries(userId: string): Promise<Discovery[]> {
   // Get problematic foods
   const problematicFoods = await ProblematicFood.find({ userId: userObjectId }).lean()
 
-  // 1. TRIGGERS - Foods marked as problematic multiple times
+  // 1. TRIGGERS (statistical) - Foods followed by symptoms inside the window
+  const windowLabel = `${formatMinutes(window.startMinutes)} - ${formatMinutes(window.endMinutes)}`
+  const exposures = buildMealExposures(allEntries, window)
+  const detectedFoodIds = new Set<number>()
+
+  for (const trigger of detectTriggerFoods(exposures)) {
+    detectedFoodIds.add(trigger.foodId)
+    const name = trigger.foodName.toLowerCase()
+    const rr = roundTo(trigger.relativeRisk, 1)
+
+    discoveries.push({
+      type: 'trigger',
+      confidence: confidenceFromSample(trigger.exposures, trigger.lowerBound),
+      title: `${name} pode ser um gatilho`,
+      description: `em ${trigger.symptomatic} de ${trigger.exposures} vezes que você comeu ${name}, teve sintomas entre ${formatMinutes(window.startMinutes)} e ${formatMinutes(window.endMinutes)} depois. isso é ${rr}x mais do que sem ele.`,
+      data: {
+        foods: [trigger.foodName],
+        symptoms: trigger.symptoms,
+        timeRange: windowLabel,
+        occurrences: trigger.symptomatic,
+        stats: {
+          exposures: trigger.exposures,
+          symptomRate: roundTo(trigger.symptomRate, 2),
+          baselineRate: roundTo(trigger.baselineRate, 2),
+          relativeRisk: rr,
+          lift: roundTo(trigger.lift, 2),
+        },
+      },
+      discoveredAt: getDateStr(trigger.lastSymptomatic),
+    })
+  }
+
+  // 2. COMBINATIONS - Food pairs that only react together
+  for (const combination of detectFoodCombinations(exposures)) {
+    const [first, second] = combination.foods.map((f) => f.toLowerCase())
+    const rr = roundTo(combination.relativeRisk, 1)
+
+    discoveries.push({
+      type: 'combination',
+      confidence: confidenceFromSample(combination.exposures, combination.lowerBound),
+      title: `${first} + ${second} juntos`,
+      description: `quando você come ${first} e ${second} na mesma refeição, os sintomas aparecem ${rr}x mais do que com cada um separado.`,
+      data: {
+        foods: combination.foods,
+        symptoms: combination.symptoms,
+        timeRange: windowLabel,
+        occurrences: combination.symptomatic,
+        stats: {
+          exposures: combination.exposures,
+          symptomRate: roundTo(combination.symptomRate, 2),
+          baselineRate: roundTo(combination.baselineRate, 2),
+          relativeRisk: rr,
+          lift: roundTo(combination.lift, 2),
+        },
+      },
+      discoveredAt: getDateStr(combination.lastSymptomatic),
+    })
+  }
+
+  // 3. TRIGGERS (manual) - Foods marked as problematic multiple times
   for (const pf of problematicFoods) {
-    if (pf.totalIncidents >= 2) {
+    // Already reported with statistical evidence
+    if (detectedFoodIds.has(pf.foodId)) continue
+
+    // Within a period, only the incidents inside it count
+    const incidents = period
+      ? pf.incidents.filter(
+          (incident) =>
+            incident.date >= getDateStr(period.start) && incident.date <= getDateStr(period.end)
+        )
+      : pf.incidents
+    const totalIncidents = period ? incidents.length : pf.totalIncidents
+    const lastIncident = period ? incidents.map((i) => i.date).sort().pop() : pf.lastIncident
+
+    if (totalIncidents >= 2) {
       const uniqueSymptoms = new Set<string>()
-      for (const incident of pf.incidents) {
+      for (const incident of incidents) {
         for (const symptom of incident.symptomTypes) {
           uniqueSymptoms.add(symptom)
         }
@@ -395,17 +840,10 @@ export async function getDiscoveries(userId: string): Promise<Discovery[]> {
 
       // Determine confidence based on incidents
       let confidence: ConfidenceLevel = 'low'
-      if (pf.totalIncidents >= 5) confidence = 'high'
-      else if (pf.totalIncidents >= 3) confidence = 'medium'
-
-      // Check if recent (last 7 days)
-      const lastIncidentDate = pf.lastIncident ? new Date(pf.lastIncident) : null
-      const sevenDaysAgo = new Date()
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7)
-      const isNew = lastIncidentDate ? lastIncidentDate >= sevenDaysAgo : false
+      if (totalIncidents >= 5) confidence = 'high'
+      else if (totalIncidents >= 3) confidence = 'medium'
 
       discoveries.push({
-        id: generateId(),
         type: 'trigger',
         confidence,
         title: `você marcou ${pf.foodName.toLowerCase()}`,
@@ -413,15 +851,14 @@ export async function getDiscoveries(userId: string): Promise<Discovery[]> {
         data: {
           foods: [pf.foodName],
           symptoms: Array.from(uniqueSymptoms),
-          occurrences: pf.totalIncidents,
+          occurrences: totalIncidents,
         },
-        discoveredAt: pf.lastIncident || getDateStr(today),
-        isNew,
+        discoveredAt: lastIncident || getDateStr(today),
       })
     }
   }
 
-  // 2. TIME PATTERNS - Analyze when symptoms occur most
+  // 4. TIME PATTERNS - Analyze when symptoms occur most
   if (symptoms.length >= 5) {
     const hourCounts: Record<string, number> = {
       morning: 0,   // 6-12
@@ -460,7 +897,6 @@ export async function getDiscoveries(userId: string): Promise<Discovery[]> {
       }
 
       discoveries.push({
-        id: generateId(),
         type: 'time_pattern',
         confidence: percentage > 60 ? 'high' : 'medium',
         title: 'mais anotações à ' + dominantPeriod.replace('evening', 'noite').replace('morning', 'manhã').replace('afternoon', 'tarde').replace('night', 'madrugada'),
@@ -470,12 +906,11 @@ export async function getDiscoveries(userId: string): Promise<Discovery[]> {
           occurrences: count,
         },
         discoveredAt: getDateStr(today),
-        isNew: false,
       })
     }
   }
 
-  // 3. SAFE FOODS - Foods eaten multiple times without marking as bad
+  // 5. SAFE FOODS - Foods eaten multiple times without marking as bad
   const foodConsumption: Record<number, { name: string; count: number; markedBad: boolean }> = {}
 
   for (const meal of meals) {
@@ -492,15 +927,17 @@ export async function getDiscoveries(userId: string): Promise<Discovery[]> {
     }
   }
 
-  // Foods eaten 5+ times without being marked as bad
+  // Foods eaten 5+ times without being marked as bad (and not detected as triggers)
   const safeFoods = Object.entries(foodConsumption)
-    .filter(([_, data]) => data.count >= 5 && !data.markedBad)
+    .filter(
+      ([foodId, data]) =>
+        data.count >= 5 && !data.markedBad && !detectedFoodIds.has(Number(foodId))
+    )
     .sort((a, b) => b[1].count - a[1].count)
     .slice(0, 3) // Top 3 safe foods
 
   for (const [foodId, data] of safeFoods) {
     discoveries.push({
-      id: generateId(),
       type: 'safe_food',
       confidence: data.count >= 10 ? 'high' : 'medium',
       title: `${data.name.toLowerCase()} tá de boa!`,
@@ -510,7 +947,6 @@ export async function getDiscoveries(userId: string): Promise<Discovery[]> {
         occurrences: data.count,
       },
       discoveredAt: getDateStr(today),
-      isNew: false,
     })
   }
 
@@ -529,3 +965,200 @@ export async function getDiscoveries(userId: string): Promise<Discovery[]> {
     return typeOrder[a.type] - typeOrder[b.type]
   })
 }
+
+/**
+ * Stable key for a discovery: type + foods + symptoms
+ * Time patterns have no foods, so their time range is used instead.
+ */
+function getDiscoveryFingerprint(discovery: DetectedDiscovery): string {
+  const normalize = (values?: string[]) =>
+    (values || []).map((v) => v.trim().toLowerCase()).sort().join(',')
+
+  const parts: string[] = [discovery.type, normalize(discovery.data.foods)]
+
+  if (discovery.type === 'time_pattern') {
+    parts.push(discovery.data.timeRange || '')
+  } else if (!discovery.data.foods?.length) {
+    parts.push(normalize(discovery.data.symptoms))
+  }
+
+  return parts.join('|')
+}
+
+function formatDiscovery(record: IUserDiscovery, discoveredAt?: string): Discovery {
+  return {
+    id: record._id.toString(),
+    type: record.type,
+    confidence: record.confidence,
+    title: record.title,
+    description: record.description,
+    data: record.data,
+    discoveredAt: discoveredAt || getDateStr(record.firstSeenAt),
+    isNew: !record.seenAt,
+    firstSeenAt: record.firstSeenAt.toISOString(),
+    lastConfirmedAt: record.lastConfirmedAt.toISOString(),
+    confidenceHistory: (record.confidenceHistory || []).map((entry) => ({
+      confidence: entry.confidence,
+      recordedAt: entry.recordedAt.toISOString(),
+    })),
+  }
+}
+
+/**
+ * Push first-time discoveries to open SSE streams and the user's inbox
+ */
+function publishNewDiscoveries(userId: string, records: IUserDiscovery[]): void {
+  for (const record of records) {
+    emitEvent('discovery_created', userId, {
+      id: record._id.toString(),
+      type: record.type,
+      confidence: record.confidence,
+      title: record.title,
+      description: record.description,
+    })
+
+    notificationsService
+      .publish(userId, {
+        type: 'new_discovery',
+        title: record.title,
+        body: record.description,
+        url: '/dashboard/insights#discoveries',
+        data: { discoveryId: record._id.toString(), discoveryType: record.type },
+      })
+      .catch((err) => console.error('[Insights] Failed to publish discovery:', err))
+  }
+}
+
+/**
+ * Get discoveries, persisting them so IDs and seen state are stable
+ * Dismissed discoveries are not returned.
+ */
+export async function getDiscoveries(
+  userId: string,
+  options: DiscoveryOptions = {}
+): Promise<Discovery[]> {
+  const userObjectId = new mongoose.Types.ObjectId(userId)
+  const detected = await analyzeDiscoveries(userId, options)
+  if (detected.length === 0) return []
+
+  const now = new Date()
+  const withFingerprints = detected.map((discovery) => ({
+    discovery,
+    fingerprint: getDiscoveryFingerprint(discovery),
+  }))
+
+  const existing = await UserDiscovery.find({
+    userId: userObjectId,
+    fingerprint: { $in: withFingerprints.map((d) => d.fingerprint) },
+  })
+    .select('fingerprint confidence')
+    .lean()
+  const existingByFingerprint = new Map(existing.map((e) => [e.fingerprint, e]))
+
+  const upserts = withFingerprints.map(({ discovery, fingerprint }) => {
+    const previous = existingByFingerprint.get(fingerprint)
+    const confidenceChanged = !previous || previous.confidence !== discovery.confidence
+
+    return {
+      updateOne: {
+        filter: { userId: userObjectId, fingerprint },
+        update: {
+          $set: {
+            type: discovery.type,
+            confidence: discovery.confidence,
+            title: discovery.title,
+            description: discovery.description,
+            data: discovery.data,
+            lastConfirmedAt: now,
+          },
+          $setOnInsert: {
+            firstSeenAt: now,
+            seenAt: null,
+            dismissedAt: null,
+          },
+          // Only record confidence when it changes
+          ...(confidenceChanged && {
+            $push: {
+              confidenceHistory: {
+                $each: [{ confidence: discovery.confidence, recordedAt: now }],
+                $slice: -MAX_CONFIDENCE_HISTORY,
+              },
+            },
+          }),
+        },
+        upsert: true,
+      },
+    }
+  })
+
+  try {
+    await UserDiscovery.bulkWrite(upserts, { ordered: false })
+  } catch (error) {
+    // A concurrent request inserted the same fingerprint first and stored the
+    // same analysis; being unordered, the remaining upserts still ran
+    if ((error as { code?: number }).code !== 11000) throw error
+  }
+
+  const records = await UserDiscovery.find({
+    userId: userObjectId,
+    fingerprint: { $in: withFingerprints.map((d) => d.fingerprint) },
+    dismissedAt: null,
+  })
+  const recordsByFingerprint = new Map(records.map((r) => [r.fingerprint, r]))
+
+  publishNewDiscoveries(
+    userId,
+    records.filter((r) => !existingByFingerprint.has(r.fingerprint))
+  )
+
+  // Keep the analysis order (confidence, then type)
+  return withFingerprints.flatMap(({ discovery, fingerprint }) => {
+    const record = recordsByFingerprint.get(fingerprint)
+    return record ? [formatDiscovery(record, discovery.discoveredAt)] : []
+  })
+}
+
+/**
+ * Find a discovery owned by the user
+ */
+async function findUserDiscovery(userId: string, discoveryId: string) {
+  if (!mongoose.Types.ObjectId.isValid(discoveryId)) {
+    throw new NotFoundError('Descoberta')
+  }
+
+  const record = await UserDiscovery.findOne({
+    _id: new mongoose.Types.ObjectId(discoveryId),
+    userId: new mongoose.Types.ObjectId(userId),
+  })
+
+  if (!record) {
+    throw new NotFoundError('Descoberta')
+  }
+
+  return record
+}
+
+/**
+ * Mark a discovery as seen (no longer new)
+ */
+export async function markDiscoverySeen(userId: string, discoveryId: string): Promise<Discovery> {
+  const record = await findUserDiscovery(userId, discoveryId)
+
+  if (!record.seenAt) {
+    record.seenAt = new Date()
+    await record.save()
+  }
+
+  return formatDiscovery(record)
+}
+
+/**
+ * Dismiss a discovery (hidden from future results)
+ */
+export async function dismissDiscovery(userId: string, discoveryId: string): Promise<void> {
+  const record = await findUserDiscovery(userId, discoveryId)
+
+  record.dismissedAt = new Date()
+  record.seenAt = record.seenAt || record.dismissedAt
+  await record.save()
+}
@@ -0,0 +1,110 @@
+/**
+ * User Discovery Model - Mongoose Schema
+ *
+ * Stores discoveries per user, keyed by a stable fingerprint
+ * (type + foods + symptoms), so the same pattern keeps its ID
+ * across analyses and can be marked as seen or dismissed.
+ */
+
+import mongoose, { Schema, type Document, type Model } from 'mongoose'
+import type { ConfidenceLevel, DiscoveryData, DiscoveryType } from './insights.service'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export interface IConfidenceHistoryEntry {
+  confidence: ConfidenceLevel
+  recordedAt: Date
+}
+
+export interface IUserDiscovery extends Document {
+  _id: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  fingerprint: string
+  type: DiscoveryType
+  confidence: ConfidenceLevel
+  title: string
+  description: string
+  data: DiscoveryData
+  confidenceHistory: IConfidenceHistoryEntry[]
+  firstSeenAt: Date
+  lastConfirmedAt: Date
+  seenAt: Date | null
+  dismissedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const confidenceHistorySchema = new Schema<IConfidenceHistoryEntry>(
+  {
+    confidence: {
+      type: String,
+      enum: ['high', 'medium', 'low'],
+      required: true,
+    },
+    recordedAt: { type: Date, required: true },
+  },
+  { _id: false },
+)
+
+const userDiscoverySchema = new Schema<IUserDiscovery>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    fingerprint: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['trigger', 'time_pattern', 'combination', 'safe_food'],
+      required: true,
+    },
+    confidence: {
+      type: String,
+      enum: ['high', 'medium', 'low'],
+      required: true,
+    },
+    title: { type: String, required: true },
+    description: { type: String, required: true },
+    data: { type: Schema.Types.Mixed, default: {} },
+    confidenceHistory: {
+      type: [confidenceHistorySchema],
+      default: [],
+    },
+    firstSeenAt: { type: Date, required: true },
+    lastConfirmedAt: { type: Date, required: true },
+    seenAt: { type: Date, default: null },
+    dismissedAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true,
+    collection: 'user_discoveries',
+  },
+)
+
+// =============================================================================
+// Indexes
+// =============================================================================
+
+// One record per user+pattern
+userDiscoverySchema.index({ userId: 1, fingerprint: 1 }, { unique: true })
+userDiscoverySchema.index({ userId: 1, dismissedAt: 1, lastConfirmedAt: -1 })
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const UserDiscovery: Model<IUserDiscovery> = mongoose.model<IUserDiscovery>(
+  'UserDiscovery',
+  userDiscoverySchema,
+)
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'bun:test'
+import { cronMatches, getNextRun, isValidCron, parseCron } from './cron'
+
+const TIMEZONE = 'America/Sao_Paulo' // UTC-3, no daylight saving time
+
+describe('parseCron', () => {
+  it('expands wildcards, ranges, lists and steps', () => {
+    const cron = parseCron('*/15 9-11 1,15 * 1-5')
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45])
+    expect([...cron.hours]).toEqual([9, 10, 11])
+    expect([...cron.daysOfMonth]).toEqual([1, 15])
+    expect(cron.months.size).toBe(12)
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('supports stepped ranges and a start with a step', () => {
+    expect([...parseCron('0 8-18/4 * * *').hours]).toEqual([8, 12, 16])
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45])
+  })
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0])
+  })
+
+  it('tracks which day fields are restricted', () => {
+    const cron = parseCron('0 0 13 * *')
+
+    expect(cron.domRestricted).toBe(true)
+    expect(cron.dowRestricted).toBe(false)
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('expected 5 fields')
+    expect(() => parseCron('60 * * * *')).toThrow('Invalid cron value')
+    expect(() => parseCron('* * * 0 *')).toThrow('Invalid cron value')
+    expect(() => parseCron('5-1 * * * *')).toThrow('Invalid cron value')
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron step')
+    expect(() => parseCron('a * * * *')).toThrow()
+  })
+})
+
+describe('isValidCron', () => {
+  it('reports validity without throwing', () => {
+    expect(isValidCron('30 20 * * *')).toBe(true)
+    expect(isValidCron('30 24 * * *')).toBe(false)
+    expect(isValidCron('')).toBe(false)
+  })
+})
+
+describe('cronMatches', () => {
+  it('evaluates the expression in the given timezone', () => {
+    const cron = parseCron('0 20 * * *')
+
+    // 23:00 UTC is 20:00 in São Paulo
+    expect(cronMatches(cron, new Date('2026-10-19T23:00:00Z'), TIMEZONE)).toBe(true)
+    expect(cronMatches(cron, new Date('2026-10-19T20:00:00Z'), TIMEZONE)).toBe(false)
+    expect(cronMatches(cron, new Date('2026-10-19T20:00:00Z'), 'UTC')).toBe(true)
+  })
+
+  it('ignores seconds', () => {
+    const cron = parseCron('0 20 * * *')
+
+    expect(cronMatches(cron, new Date('2026-10-19T23:00:42Z'), TIMEZONE)).toBe(true)
+  })
+
+  it('matches either day field when both are restricted', () => {
+    const cron = parseCron('0 12 13 * 5')
+
+    // Friday the 16th, Tuesday the 13th, Wednesday the 14th
+    expect(cronMatches(cron, new Date('2026-10-16T15:00:00Z'), TIMEZONE)).toBe(true)
+    expect(cronMatches(cron, new Date('2026-10-13T15:00:00Z'), TIMEZONE)).toBe(true)
+    expect(cronMatches(cron, new Date('2026-10-14T15:00:00Z'), TIMEZONE)).toBe(false)
+  })
+
+  it('requires both day fields when only one is restricted', () => {
+    const cron = parseCron('0 12 * * 1')
+
+    expect(cronMatches(cron, new Date('2026-10-19T15:00:00Z'), TIMEZONE)).toBe(true)
+    expect(cronMatches(cron, new Date('2026-10-20T15:00:00Z'), TIMEZONE)).toBe(false)
+  })
+})
+
+describe('getNextRun', () => {
+  it('returns the next matching minute in the timezone', () => {
+    const next = getNextRun(parseCron('0 20 * * *'), new Date('2026-10-19T12:00:00Z'), TIMEZONE)
+
+    expect(next?.toISOString()).toBe('2026-10-19T23:00:00.000Z')
+  })
+
+  it('is strictly after the starting date', () => {
+    const from = new Date('2026-10-19T23:00:00Z')
+    const next = getNextRun(parseCron('0 20 * * *'), from, TIMEZONE)
+
+    expect(next?.toISOString()).toBe('2026-10-20T23:00:00.000Z')
+  })
+
+  it('finds minutes inside a matching hour', () => {
+    const next = getNextRun(parseCron('*/15 * * * *'), new Date('2026-10-19T10:07:30Z'), TIMEZONE)
+
+    expect(next?.toISOString()).toBe('2026-10-19T10:15:00.000Z')
+  })
+
+  it('crosses month boundaries', () => {
+    const next = getNextRun(parseCron('0 3 1 * *'), new Date('2026-10-19T12:00:00Z'), TIMEZONE)
+
+    expect(next?.toISOString()).toBe('2026-11-01T06:00:00.000Z')
+  })
+
+  it('returns null when nothing matches within a year', () => {
+    expect(
+      getNextRun(parseCron('0 0 31 2 *'), new Date('2026-10-19T12:00:00Z'), TIMEZONE),
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,236 @@
+/**
+ * Cron Expressions
+ *
+ * Minimal 5-field cron parser (minute hour day-of-month month day-of-week)
+ * evaluated in a given IANA timezone.
+ *
+ * Supported syntax per field: `*`, `5`, `1-5`, `1,15,30`, `*\/10`, `8-18/2`.
+ * Day-of-week accepts 0-7 (0 and 7 = Sunday). As in classic cron, when both
+ * day-of-month and day-of-week are restricted, a date matches if EITHER does.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CronExpression {
+  source: string
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  domRestricted: boolean
+  dowRestricted: boolean
+}
+
+interface ZonedParts {
+  minute: number
+  hour: number
+  day: number
+  month: number
+  weekday: number
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week
+]
+
+const WEEKDAYS: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+}
+
+// Upper bound for getNextRun (one year of hourly probes)
+const MAX_SEARCH_MINUTES = 366 * 24 * 60
+
+const MINUTE_MS = 60_000
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/')
+    const step = stepPart === undefined ? 1 : Number(stepPart)
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step: "${part}"`)
+    }
+
+    let start: number
+    let end: number
+
+    if (rangePart === '*') {
+      start = min
+      end = max
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-')
+      start = Number(a)
+      end = Number(b)
+    } else {
+      start = Number(rangePart)
+      // "5/15" means "from 5 to the end, every 15"
+      end = stepPart === undefined ? start : max
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron value: "${part}" (expected ${min}-${max})`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a 5-field cron expression
+ * @throws Error when the expression is malformed
+ */
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/)
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i]),
+  )
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    source: expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*',
+  }
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      minute: 'numeric',
+      hour: 'numeric',
+      day: 'numeric',
+      month: 'numeric',
+      weekday: 'short',
+    })
+    formatters.set(timeZone, formatter)
+  }
+
+  const parts: Record<string, string> = {}
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value
+  }
+
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: WEEKDAYS[parts.weekday],
+  }
+}
+
+function matchesDay(cron: CronExpression, parts: ZonedParts): boolean {
+  if (!cron.months.has(parts.month)) return false
+
+  const domMatch = cron.daysOfMonth.has(parts.day)
+  const dowMatch = cron.daysOfWeek.has(parts.weekday)
+
+  if (cron.domRestricted && cron.dowRestricted) return domMatch || dowMatch
+  return domMatch && dowMatch
+}
+
+/**
+ * Check whether a date (truncated to the minute) matches the expression
+ */
+export function cronMatches(cron: CronExpression, date: Date, timeZone: string): boolean {
+  const parts = getZonedParts(date, timeZone)
+
+  return matchesDay(cron, parts) && cron.hours.has(parts.hour) && cron.minutes.has(parts.minute)
+}
+
+/**
+ * Next date (strictly after `from`) matching the expression, or null if
+ * nothing matches within a year
+ */
+export function getNextRun(cron: CronExpression, from: Date, timeZone: string): Date | null {
+  let candidate = new Date(Math.floor(from.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS)
+  let searched = 0
+
+  while (searched < MAX_SEARCH_MINUTES) {
+    const parts = getZonedParts(candidate, timeZone)
+
+    if (!matchesDay(cron, parts) || !cron.hours.has(parts.hour)) {
+      // Jump to the start of the next local hour
+      const skip = 60 - parts.minute
+      candidate = new Date(candidate.getTime() + skip * MINUTE_MS)
+      searched += skip
+      continue
+    }
+
+    if (cron.minutes.has(parts.minute)) return candidate
+
+    candidate = new Date(candidate.getTime() + MINUTE_MS)
+    searched++
+  }
+
+  return null
+}
@@ -0,0 +1,7 @@
+/**
+ * Jobs Module - Public Exports
+ */
+
+export * from './job-lock.model'
+export * from './job-run.model'
+export * as jobsService from './jobs.service'
@@ -0,0 +1,180 @@
+/**
+ * Job Definitions - Maintenance Tasks Run by the Scheduler
+ *
+ * Jobs:
+ * - cleanup_refresh_tokens - Delete expired refresh tokens
+ * - reset_streaks - Zero the streak of users who missed a day
+ * - cleanup_data_exports - Delete expired personal data archives
+ * - daily_reminder - Remind users who logged nothing today
+ *   (time and on/off switch come from SystemSettings.notifications)
+ */
+
+import { env } from '@/config'
+import type { ISystemSettings } from '@/modules/admin/system-settings.model'
+import { RefreshToken } from '@/modules/auth/refresh-token.model'
+import { DiaryEntry } from '@/modules/diary/diary.model'
+import { notify } from '@/modules/notifications/notifications.service'
+import { dataExportService } from '@/modules/users/data-export.service'
+import { User } from '@/modules/users/user.model'
+import type mongoose from 'mongoose'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type JobResult = Record<string, unknown>
+
+export interface JobDefinition {
+  name: string
+  description: string
+  // Static cron expression, or derived from the current settings
+  // (null = not scheduled right now)
+  schedule: string | ((settings: ISystemSettings) => string | null)
+  // How long the lock is held before another instance may take over
+  lockTtlMs: number
+  handler: () => Promise<JobResult>
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const REMINDER_TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/
+const DEFAULT_REMINDER_TIME = '20:00'
+
+function getStartOfDay(date: Date = new Date()): Date {
+  const start = new Date(date)
+  start.setUTCHours(0, 0, 0, 0)
+  return start
+}
+
+/**
+ * Start of the current calendar day in SCHEDULER_TIMEZONE, as diary dates
+ * store it (the day at 00:00 UTC). At 21:30 in São Paulo "today" is still
+ * the local date, even though it is already tomorrow in UTC.
+ */
+function getSchedulerToday(date: Date = new Date()): Date {
+  const day = date.toLocaleDateString('en-CA', { timeZone: env.SCHEDULER_TIMEZONE })
+  return new Date(`${day}T00:00:00.000Z`)
+}
+
+/**
+ * Turn SystemSettings.notifications.reminder_time ("HH:MM") into a daily cron
+ */
+function reminderSchedule(settings: ISystemSettings): string | null {
+  if (!settings.notifications.daily_reminder_enabled) return null
+
+  let time = settings.notifications.reminder_time
+  if (!REMINDER_TIME_REGEX.test(time)) {
+    console.error(`[Jobs] Invalid reminder_time "${time}", using ${DEFAULT_REMINDER_TIME}`)
+    time = DEFAULT_REMINDER_TIME
+  }
+
+  const [hour, minute] = time.split(':').map(Number)
+  return `${minute} ${hour} * * *`
+}
+
+// =============================================================================
+// Handlers
+// =============================================================================
+
+async function cleanupRefreshTokens(): Promise<JobResult> {
+  const deleted = await RefreshToken.cleanupExpired()
+  return { deleted }
+}
+
+/**
+ * A streak survives while the user has an entry today or yesterday (UTC,
+ * same rule as diary.service updateUserStreak). Everyone else goes to 0.
+ */
+async function resetStreaks(): Promise<JobResult> {
+  const yesterday = getStartOfDay()
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1)
+
+  const activeUserIds: mongoose.Types.ObjectId[] = await DiaryEntry.distinct('userId', {
+    date: { $gte: yesterday },
+  })
+
+  const result = await User.updateMany(
+    {
+      'stats.currentStreak': { $gt: 0 },
+      _id: { $nin: activeUserIds },
+    },
+    { $set: { 'stats.currentStreak': 0 } },
+  )
+
+  return { reset: result.modifiedCount }
+}
+
+async function cleanupDataExports(): Promise<JobResult> {
+  const deleted = await dataExportService.cleanupExpired()
+  return { deleted }
+}
+
+async function sendDailyReminders(): Promise<JobResult> {
+  const loggedToday: mongoose.Types.ObjectId[] = await DiaryEntry.distinct('userId', {
+    date: { $gte: getSchedulerToday() },
+  })
+
+  const users = User.find({
+    status: 'active',
+    'preferences.notifications': true,
+    _id: { $nin: loggedToday },
+  })
+    .select('_id')
+    .lean()
+    .cursor()
+
+  let sent = 0
+  let skipped = 0
+  let failed = 0
+
+  for await (const user of users) {
+    try {
+      const result = await notify(user._id.toString(), 'daily_reminder')
+      if (result.sent) sent++
+      else skipped++
+    } catch (error) {
+      failed++
+      console.error(`[Jobs] daily_reminder failed for user ${user._id}:`, error)
+    }
+  }
+
+  return { sent, skipped, failed }
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+export const JOBS: JobDefinition[] = [
+  {
+    name: 'cleanup_refresh_tokens',
+    description: 'Remove refresh tokens expirados',
+    schedule: '0 4 * * *',
+    lockTtlMs: 10 * 60 * 1000,
+    handler: cleanupRefreshTokens,
+  },
+  {
+    name: 'reset_streaks',
+    description: 'Zera a sequência de quem não registrou nada ontem nem hoje',
+    // Hourly so the UTC day boundary is honoured whatever the scheduler timezone
+    schedule: '5 * * * *',
+    lockTtlMs: 10 * 60 * 1000,
+    handler: resetStreaks,
+  },
+  {
+    name: 'cleanup_data_exports',
+    description: 'Apaga exportações de dados com link expirado',
+    schedule: '30 * * * *',
+    lockTtlMs: 10 * 60 * 1000,
+    handler: cleanupDataExports,
+  },
+  {
+    name: 'daily_reminder',
+    description: 'Lembrete diário para quem ainda não registrou nada hoje',
+    schedule: reminderSchedule,
+    lockTtlMs: 60 * 60 * 1000,
+    handler: sendDailyReminders,
+  },
+]
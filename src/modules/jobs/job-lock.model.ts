@@ -0,0 +1,118 @@
+/**
+ * Job Lock Model - Distributed Lock for Scheduled Jobs
+ *
+ * One document per job (keyed by job name) so that, when several API
+ * instances run the scheduler, only one of them executes each job:
+ * - Acquired atomically with a conditional upsert
+ * - Expires on its own (lockedUntil) if the holder dies mid-run
+ * - lastScheduledFor stops a second instance from re-running the same
+ *   cron slot after the first one already finished it
+ */
+
+import mongoose, { Schema, type Model } from 'mongoose'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export interface IJobLock {
+  _id: string // job name
+  lockedBy: string | null
+  lockedUntil: Date
+  lastScheduledFor?: string // minute slot (ISO) of the last scheduled run
+  updatedAt: Date
+}
+
+// =============================================================================
+// Static Methods Interface
+// =============================================================================
+
+export interface IJobLockModel extends Model<IJobLock> {
+  acquire(job: string, instanceId: string, ttlMs: number, scheduledFor?: string): Promise<boolean>
+  release(job: string, instanceId: string): Promise<void>
+  isLocked(job: string): Promise<boolean>
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const jobLockSchema = new Schema<IJobLock>(
+  {
+    _id: { type: String, required: true },
+    lockedBy: { type: String, default: null },
+    lockedUntil: { type: Date, required: true },
+    lastScheduledFor: String,
+  },
+  {
+    timestamps: { createdAt: false, updatedAt: true },
+    collection: 'job_locks',
+  },
+)
+
+// =============================================================================
+// Static Methods
+// =============================================================================
+
+/**
+ * Try to take the lock for a job
+ * Returns false if another instance holds it (or already ran this slot)
+ */
+jobLockSchema.statics.acquire = async function (
+  job: string,
+  instanceId: string,
+  ttlMs: number,
+  scheduledFor?: string,
+): Promise<boolean> {
+  const now = new Date()
+
+  const filter: Record<string, unknown> = {
+    _id: job,
+    lockedUntil: { $lte: now },
+  }
+  if (scheduledFor) {
+    filter.lastScheduledFor = { $ne: scheduledFor }
+  }
+
+  const update: Record<string, unknown> = {
+    lockedBy: instanceId,
+    lockedUntil: new Date(now.getTime() + ttlMs),
+  }
+  if (scheduledFor) {
+    update.lastScheduledFor = scheduledFor
+  }
+
+  try {
+    // If the filter misses because the lock is held, the upsert tries to
+    // insert a second document with the same _id and fails with E11000
+    await this.findOneAndUpdate(filter, { $set: update }, { upsert: true })
+    return true
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) return false
+    throw error
+  }
+}
+
+/**
+ * Release a lock held by this instance
+ */
+jobLockSchema.statics.release = async function (job: string, instanceId: string): Promise<void> {
+  await this.updateOne(
+    { _id: job, lockedBy: instanceId },
+    { $set: { lockedBy: null, lockedUntil: new Date() } },
+  )
+}
+
+/**
+ * Whether any instance currently holds the lock
+ */
+jobLockSchema.statics.isLocked = async function (job: string): Promise<boolean> {
+  const lock = await this.exists({ _id: job, lockedUntil: { $gt: new Date() } })
+  return !!lock
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const JobLock = mongoose.model<IJobLock, IJobLockModel>('JobLock', jobLockSchema)
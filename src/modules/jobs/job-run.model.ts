@@ -0,0 +1,77 @@
+/**
+ * Job Run Model - Scheduled Job History
+ *
+ * One document per execution of a scheduled job (automatic or manual),
+ * with outcome, duration and the summary returned by the job handler.
+ */
+
+import mongoose, { Schema, type Document, type Model } from 'mongoose'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export type JobRunStatus = 'running' | 'success' | 'failed'
+export type JobRunTrigger = 'schedule' | 'manual'
+
+export interface IJobRun extends Document {
+  _id: mongoose.Types.ObjectId
+  job: string
+  trigger: JobRunTrigger
+  triggeredBy?: mongoose.Types.ObjectId
+  status: JobRunStatus
+  instanceId: string
+  startedAt: Date
+  finishedAt?: Date
+  durationMs?: number
+  result?: Record<string, unknown>
+  error?: string
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const jobRunSchema = new Schema<IJobRun>(
+  {
+    job: { type: String, required: true },
+    trigger: {
+      type: String,
+      enum: ['schedule', 'manual'],
+      required: true,
+    },
+    triggeredBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    status: {
+      type: String,
+      enum: ['running', 'success', 'failed'],
+      default: 'running',
+    },
+    instanceId: { type: String, required: true },
+    startedAt: { type: Date, required: true },
+    finishedAt: Date,
+    durationMs: Number,
+    result: Schema.Types.Mixed,
+    error: String,
+  },
+  {
+    collection: 'job_runs',
+  },
+)
+
+// =============================================================================
+// Indexes
+// =============================================================================
+
+jobRunSchema.index({ job: 1, startedAt: -1 })
+
+// Keep 90 days of history
+jobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: 7776000 })
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const JobRun: Model<IJobRun> = mongoose.model<IJobRun>('JobRun', jobRunSchema)
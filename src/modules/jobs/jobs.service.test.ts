@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import { JOBS } from './job-definitions'
+import { JobLock } from './job-lock.model'
+import { JobRun } from './job-run.model'
+import { runJob } from './jobs.service'
+
+const job = JOBS[0]
+
+/**
+ * Stub the lock and the handler; the run is a real (unsaved) document
+ */
+function stubRun() {
+  const run = new JobRun({
+    job: job.name,
+    trigger: 'manual',
+    instanceId: 'test',
+    startedAt: new Date(),
+  })
+  spyOn(JobLock, 'acquire').mockResolvedValue(true)
+  const release = spyOn(JobLock, 'release').mockResolvedValue()
+  spyOn(JobRun, 'create').mockResolvedValue(run as never)
+  spyOn(job, 'handler').mockResolvedValue({ deleted: 3 })
+  return { run, release }
+}
+
+afterEach(() => {
+  mock.restore()
+})
+
+describe('runJob', () => {
+  it('records the outcome and releases the lock', async () => {
+    const { run, release } = stubRun()
+    spyOn(run, 'save').mockResolvedValue(run)
+
+    const result = await runJob(job.name)
+
+    expect(result.status).toBe('success')
+    expect(result.result).toEqual({ deleted: 3 })
+    expect(result.durationMs).toBeGreaterThanOrEqual(0)
+    expect(release).toHaveBeenCalledTimes(1)
+  })
+
+  it('releases the lock when the run cannot be saved', async () => {
+    const { run, release } = stubRun()
+    spyOn(run, 'save').mockRejectedValue(new Error('connection lost'))
+
+    await expect(runJob(job.name)).rejects.toThrow('connection lost')
+    expect(release).toHaveBeenCalledTimes(1)
+  })
+
+  it('releases the lock when the run cannot be created', async () => {
+    const { release } = stubRun()
+    spyOn(JobRun, 'create').mockRejectedValue(new Error('connection lost'))
+
+    await expect(runJob(job.name)).rejects.toThrow('connection lost')
+    expect(release).toHaveBeenCalledTimes(1)
+  })
+})
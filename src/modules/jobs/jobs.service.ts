@@ -0,0 +1,210 @@
+/**
+ * Jobs Service - In-process Scheduler
+ *
+ * Features:
+ * - Cron schedules evaluated once a minute in SCHEDULER_TIMEZONE
+ * - Mongo lock per job, so with several instances each run happens once
+ * - Run history (JobRun) with outcome, duration and handler summary
+ * - Manual trigger for admins
+ */
+
+import crypto from 'node:crypto'
+import os from 'node:os'
+import { env } from '@/config'
+import { ConflictError, NotFoundError } from '@/shared/errors'
+import { getCachedSettings } from '@/shared/middlewares/system-settings.middleware'
+import mongoose from 'mongoose'
+import { cronMatches, getNextRun, parseCron } from './cron'
+import { JOBS, type JobDefinition } from './job-definitions'
+import { JobLock } from './job-lock.model'
+import { type IJobRun, JobRun, type JobRunTrigger } from './job-run.model'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface JobSummary {
+  name: string
+  description: string
+  schedule: string | null
+  timezone: string
+  nextRunAt: Date | null
+  running: boolean
+  lastRun: IJobRun | null
+}
+
+// =============================================================================
+// State
+// =============================================================================
+
+const MINUTE_MS = 60_000
+
+// Identifies this process in locks and run history
+const instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`
+
+let tickTimeout: ReturnType<typeof setTimeout> | null = null
+let tickInterval: ReturnType<typeof setInterval> | null = null
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function getJob(name: string): JobDefinition {
+  const job = JOBS.find((j) => j.name === name)
+  if (!job) {
+    throw new NotFoundError('Job')
+  }
+  return job
+}
+
+async function resolveSchedule(job: JobDefinition): Promise<string | null> {
+  if (typeof job.schedule === 'string') return job.schedule
+  return job.schedule(await getCachedSettings())
+}
+
+/**
+ * Run a job under its lock and record the outcome
+ * Returns null when the lock could not be taken
+ */
+async function executeJob(
+  job: JobDefinition,
+  trigger: JobRunTrigger,
+  options: { scheduledFor?: string; triggeredBy?: string } = {},
+): Promise<IJobRun | null> {
+  const acquired = await JobLock.acquire(job.name, instanceId, job.lockTtlMs, options.scheduledFor)
+  if (!acquired) return null
+
+  // Recording the run may fail too; the lock is released regardless
+  try {
+    const run = await JobRun.create({
+      job: job.name,
+      trigger,
+      triggeredBy: options.triggeredBy
+        ? new mongoose.Types.ObjectId(options.triggeredBy)
+        : undefined,
+      instanceId,
+      startedAt: new Date(),
+    })
+
+    try {
+      run.result = await job.handler()
+      run.status = 'success'
+    } catch (error) {
+      run.status = 'failed'
+      run.error = error instanceof Error ? error.message : String(error)
+      console.error(`[Jobs] ${job.name} failed:`, error)
+    } finally {
+      run.finishedAt = new Date()
+      run.durationMs = run.finishedAt.getTime() - run.startedAt.getTime()
+      await run.save()
+    }
+
+    return run
+  } finally {
+    await JobLock.release(job.name, instanceId)
+  }
+}
+
+// =============================================================================
+// Scheduler
+// =============================================================================
+
+async function tick(now: Date = new Date()) {
+  // Slot = the current minute; shared by every instance ticking this minute
+  const slot = new Date(Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS)
+
+  for (const job of JOBS) {
+    try {
+      const schedule = await resolveSchedule(job)
+      if (!schedule) continue
+      if (!cronMatches(parseCron(schedule), slot, env.SCHEDULER_TIMEZONE)) continue
+
+      // Not awaited: a slow job must not delay the others
+      executeJob(job, 'schedule', { scheduledFor: slot.toISOString() }).catch((err) =>
+        console.error(`[Jobs] ${job.name} could not run:`, err),
+      )
+    } catch (error) {
+      console.error(`[Jobs] Invalid schedule for ${job.name}:`, error)
+    }
+  }
+}
+
+/**
+ * Start ticking at the top of every minute
+ */
+export function startScheduler(): void {
+  if (tickTimeout || tickInterval) return
+
+  const delay = MINUTE_MS - (Date.now() % MINUTE_MS)
+  tickTimeout = setTimeout(() => {
+    tickTimeout = null
+    tick()
+    tickInterval = setInterval(() => tick(), MINUTE_MS)
+  }, delay)
+
+  console.log(`⏰ Scheduler started (${JOBS.length} jobs, ${env.SCHEDULER_TIMEZONE})`)
+}
+
+/**
+ * Stop ticking (runs already in progress finish on their own)
+ */
+export function stopScheduler(): void {
+  if (tickTimeout) clearTimeout(tickTimeout)
+  if (tickInterval) clearInterval(tickInterval)
+  tickTimeout = null
+  tickInterval = null
+}
+
+// =============================================================================
+// Admin
+// =============================================================================
+
+/**
+ * All jobs with schedule, next run and last outcome
+ */
+export async function getJobs(): Promise<JobSummary[]> {
+  const now = new Date()
+
+  return Promise.all(
+    JOBS.map(async (job) => {
+      const schedule = await resolveSchedule(job)
+      const [lastRun, running] = await Promise.all([
+        JobRun.findOne({ job: job.name }).sort({ startedAt: -1 }),
+        JobLock.isLocked(job.name),
+      ])
+
+      return {
+        name: job.name,
+        description: job.description,
+        schedule,
+        timezone: env.SCHEDULER_TIMEZONE,
+        nextRunAt: schedule ? getNextRun(parseCron(schedule), now, env.SCHEDULER_TIMEZONE) : null,
+        running,
+        lastRun,
+      }
+    }),
+  )
+}
+
+/**
+ * Recent runs of a job (most recent first)
+ */
+export async function getJobRuns(name: string, limit = 20): Promise<IJobRun[]> {
+  getJob(name)
+
+  return JobRun.find({ job: name }).sort({ startedAt: -1 }).limit(Math.min(limit, 100))
+}
+
+/**
+ * Run a job now, waiting for it to finish
+ */
+export async function runJob(name: string, triggeredBy?: string): Promise<IJobRun> {
+  const job = getJob(name)
+
+  const run = await executeJob(job, 'manual', { triggeredBy })
+  if (!run) {
+    throw new ConflictError('Este job já está em execução')
+  }
+
+  return run
+}
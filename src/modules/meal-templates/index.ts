@@ -0,0 +1,7 @@
+/**
+ * Meal Templates Module - Public Exports
+ */
+
+export { mealTemplatesController } from './meal-templates.controller'
+export * from './meal-template.model'
+export * as mealTemplatesService from './meal-templates.service'
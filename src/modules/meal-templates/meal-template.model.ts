@@ -0,0 +1,110 @@
+/**
+ * Meal Template Model - Mongoose Schema
+ *
+ * A saved meal (e.g. "Café da manhã de sempre") that can be logged to the
+ * diary in one request instead of re-sending the full foods list.
+ */
+
+import type { MealType } from '@/shared/types'
+import mongoose, { Schema, type Document, type Model } from 'mongoose'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export interface IMealTemplateFood {
+  foodId: number
+  foodName: string
+  quantity_g?: number
+  portion?: string
+}
+
+export interface IMealTemplate extends Document {
+  _id: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  name: string
+  mealType: MealType
+  defaultTime?: string // HH:MM
+  foods: IMealTemplateFood[]
+  notes?: string
+  // Sorted food IDs, used to tell suggestions apart from existing templates
+  foodsKey: string
+  usageCount: number
+  lastUsedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const templateFoodSchema = new Schema<IMealTemplateFood>(
+  {
+    foodId: { type: Number, required: true },
+    foodName: { type: String, required: true },
+    quantity_g: { type: Number, min: 0 },
+    portion: String,
+  },
+  { _id: false },
+)
+
+const mealTemplateSchema = new Schema<IMealTemplate>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 60,
+    },
+    mealType: {
+      type: String,
+      enum: ['breakfast', 'lunch', 'dinner', 'snack'],
+      required: true,
+    },
+    defaultTime: {
+      type: String,
+      validate: {
+        validator: (v: string) => /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(v),
+        message: 'Formato de hora inválido. Use HH:MM',
+      },
+    },
+    foods: {
+      type: [templateFoodSchema],
+      required: true,
+      validate: {
+        validator: (v: IMealTemplateFood[]) => v.length > 0,
+        message: 'Pelo menos um alimento é obrigatório',
+      },
+    },
+    notes: String,
+    foodsKey: { type: String, required: true },
+    usageCount: { type: Number, default: 0 },
+    lastUsedAt: Date,
+  },
+  {
+    timestamps: true,
+    collection: 'meal_templates',
+  },
+)
+
+// =============================================================================
+// Indexes
+// =============================================================================
+
+mealTemplateSchema.index({ userId: 1, name: 1 }, { unique: true })
+mealTemplateSchema.index({ userId: 1, usageCount: -1 })
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const MealTemplate: Model<IMealTemplate> = mongoose.model<IMealTemplate>(
+  'MealTemplate',
+  mealTemplateSchema,
+)
@@ -0,0 +1,258 @@
+/**
+ * Meal Templates Controller - REST Endpoints
+ *
+ * Endpoints:
+ * - GET /meal-templates - List templates
+ * - GET /meal-templates/suggestions - Suggestions from repeated meals
+ * - GET /meal-templates/:id - Get template
+ * - POST /meal-templates - Create template
+ * - PATCH /meal-templates/:id - Update template
+ * - DELETE /meal-templates/:id - Delete template
+ * - POST /meal-templates/:id/log - Log template to the diary
+ */
+
+import { requireAuth, requireFeature } from '@/shared/middlewares'
+import { Elysia } from 'elysia'
+import {
+  createTemplateBodySchema,
+  logTemplateBodySchema,
+  suggestionsQuerySchema,
+  templateIdParamSchema,
+  updateTemplateBodySchema,
+} from './meal-templates.schemas'
+import * as mealTemplatesService from './meal-templates.service'
+
+// =============================================================================
+// Controller
+// =============================================================================
+
+export const mealTemplatesController = new Elysia({ prefix: '/meal-templates' })
+  // Apply auth middleware to all routes
+  .use(requireAuth)
+  .use(requireFeature('diary_enabled'))
+
+  // ==========================================================================
+  // GET /meal-templates - List templates
+  // ==========================================================================
+  .get(
+    '/',
+    async ({ auth }) => {
+      const templates = await mealTemplatesService.getTemplates(auth.userId)
+
+      return {
+        success: true,
+        data: templates,
+      }
+    },
+    {
+      detail: {
+        tags: ['Meal Templates'],
+        summary: 'Listar modelos de refeição',
+        description:
+          'Lista os modelos de refeição do usuário, dos mais usados para os menos usados.',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Lista de modelos' },
+          401: { description: 'Não autenticado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // GET /meal-templates/suggestions - Suggestions from repeated meals
+  // ==========================================================================
+  .get(
+    '/suggestions',
+    async ({ auth, query }) => {
+      const suggestions = await mealTemplatesService.getSuggestions(auth.userId, {
+        days: query.days ? Number.parseInt(query.days, 10) : undefined,
+        limit: query.limit ? Number.parseInt(query.limit, 10) : undefined,
+      })
+
+      return {
+        success: true,
+        data: suggestions,
+      }
+    },
+    {
+      query: suggestionsQuerySchema,
+      detail: {
+        tags: ['Meal Templates'],
+        summary: 'Sugestões de modelos',
+        description: `
+          Sugere modelos a partir das refeições que o usuário repete com frequência
+          (mesmo conjunto de alimentos pelo menos 3 vezes no período).
+          
+          Tipo, horário e quantidades são os mais comuns entre as repetições.
+          Refeições que já têm um modelo não são sugeridas.
+          Para salvar, envie a sugestão para \`POST /meal-templates\`.
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Sugestões' },
+          401: { description: 'Não autenticado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // GET /meal-templates/:id - Get template
+  // ==========================================================================
+  .get(
+    '/:id',
+    async ({ params, auth }) => {
+      const template = await mealTemplatesService.getTemplateById(auth.userId, params.id)
+
+      return {
+        success: true,
+        data: template,
+      }
+    },
+    {
+      params: templateIdParamSchema,
+      detail: {
+        tags: ['Meal Templates'],
+        summary: 'Buscar modelo de refeição',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Modelo encontrado' },
+          401: { description: 'Não autenticado' },
+          404: { description: 'Modelo não encontrado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // POST /meal-templates - Create template
+  // ==========================================================================
+  .post(
+    '/',
+    async ({ body, auth }) => {
+      const template = await mealTemplatesService.createTemplate(auth.userId, body)
+
+      return {
+        success: true,
+        data: template,
+      }
+    },
+    {
+      body: createTemplateBodySchema,
+      detail: {
+        tags: ['Meal Templates'],
+        summary: 'Criar modelo de refeição',
+        description: `
+          Salva uma refeição para registrar depois com um clique.
+          
+          Os nomes dos alimentos vêm da base; informe apenas \`foodId\` e a quantidade.
+          Limite de 50 modelos por usuário; o nome deve ser único.
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Modelo criado' },
+          400: { description: 'Dados inválidos ou alimento inexistente' },
+          401: { description: 'Não autenticado' },
+          409: { description: 'Nome já usado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // PATCH /meal-templates/:id - Update template
+  // ==========================================================================
+  .patch(
+    '/:id',
+    async ({ params, body, auth }) => {
+      const template = await mealTemplatesService.updateTemplate(auth.userId, params.id, body)
+
+      return {
+        success: true,
+        data: template,
+      }
+    },
+    {
+      params: templateIdParamSchema,
+      body: updateTemplateBodySchema,
+      detail: {
+        tags: ['Meal Templates'],
+        summary: 'Atualizar modelo de refeição',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Modelo atualizado' },
+          400: { description: 'Dados inválidos' },
+          401: { description: 'Não autenticado' },
+          404: { description: 'Modelo não encontrado' },
+          409: { description: 'Nome já usado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // DELETE /meal-templates/:id - Delete template
+  // ==========================================================================
+  .delete(
+    '/:id',
+    async ({ params, auth }) => {
+      await mealTemplatesService.deleteTemplate(auth.userId, params.id)
+
+      return {
+        success: true,
+        message: 'Modelo de refeição removido',
+      }
+    },
+    {
+      params: templateIdParamSchema,
+      detail: {
+        tags: ['Meal Templates'],
+        summary: 'Remover modelo de refeição',
+        description: 'Remove o modelo. Refeições já registradas a partir dele continuam no diário.',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Modelo removido' },
+          401: { description: 'Não autenticado' },
+          404: { description: 'Modelo não encontrado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // POST /meal-templates/:id/log - Log template to the diary
+  // ==========================================================================
+  .post(
+    '/:id/log',
+    async ({ params, body, auth }) => {
+      const entry = await mealTemplatesService.logTemplate(auth.userId, params.id, body)
+
+      return {
+        success: true,
+        data: entry,
+      }
+    },
+    {
+      params: templateIdParamSchema,
+      body: logTemplateBodySchema,
+      detail: {
+        tags: ['Meal Templates'],
+        summary: 'Registrar refeição a partir do modelo',
+        description: `
+          Cria uma refeição no diário com os alimentos do modelo.
+          
+          - \`time\`: padrão é o horário do modelo (ou o horário típico da refeição)
+          - \`mealType\`: padrão é o tipo do modelo
+          - \`notes\`: padrão são as observações do modelo
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Refeição registrada' },
+          400: { description: 'Dados inválidos' },
+          401: { description: 'Não autenticado' },
+          404: { description: 'Modelo não encontrado' },
+        },
+      },
+    },
+  )
@@ -0,0 +1,100 @@
+/**
+ * Meal Templates Schemas - TypeBox Validation
+ */
+
+import { t } from 'elysia'
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'] as const
+
+// =============================================================================
+// Shared Schemas
+// =============================================================================
+
+const mealTypeSchema = t.Union(
+  MEAL_TYPES.map((type) => t.Literal(type)),
+  { description: 'Tipo da refeição' },
+)
+
+const timeSchema = t.String({
+  pattern: '^([01]?[0-9]|2[0-3]):[0-5][0-9]$',
+  description: 'Horário no formato HH:MM',
+})
+
+const templateFoodSchema = t.Object({
+  foodId: t.Number({ description: 'ID do alimento (negativo para alimentos personalizados)' }),
+  quantity_g: t.Optional(t.Number({ minimum: 0, description: 'Quantidade em gramas' })),
+  portion: t.Optional(t.String({ maxLength: 100, description: 'Descrição da porção' })),
+})
+
+// =============================================================================
+// Body Schemas
+// =============================================================================
+
+/**
+ * POST /meal-templates
+ */
+export const createTemplateBodySchema = t.Object({
+  name: t.String({ minLength: 1, maxLength: 60, description: 'Nome do modelo' }),
+  mealType: mealTypeSchema,
+  defaultTime: t.Optional(timeSchema),
+  foods: t.Array(templateFoodSchema, {
+    minItems: 1,
+    maxItems: 30,
+    description: 'Alimentos com quantidades (mínimo 1)',
+  }),
+  notes: t.Optional(t.String({ maxLength: 500 })),
+})
+
+/**
+ * PATCH /meal-templates/:id
+ */
+export const updateTemplateBodySchema = t.Object({
+  name: t.Optional(t.String({ minLength: 1, maxLength: 60 })),
+  mealType: t.Optional(mealTypeSchema),
+  defaultTime: t.Optional(timeSchema),
+  foods: t.Optional(t.Array(templateFoodSchema, { minItems: 1, maxItems: 30 })),
+  notes: t.Optional(t.String({ maxLength: 500 })),
+})
+
+/**
+ * POST /meal-templates/:id/log
+ */
+export const logTemplateBodySchema = t.Object({
+  date: t.String({
+    pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+    description: 'Data da refeição (YYYY-MM-DD)',
+  }),
+  time: t.Optional(timeSchema),
+  mealType: t.Optional(mealTypeSchema),
+  notes: t.Optional(t.String({ maxLength: 500 })),
+})
+
+// =============================================================================
+// Query / Param Schemas
+// =============================================================================
+
+export const suggestionsQuerySchema = t.Object({
+  days: t.Optional(
+    t.String({
+      pattern: '^\\d+$',
+      description: 'Dias do histórico analisados (padrão: 60, de 7 a 365)',
+    }),
+  ),
+  limit: t.Optional(
+    t.String({
+      pattern: '^\\d+$',
+      description: 'Máximo de sugestões (padrão: 5, até 20)',
+    }),
+  ),
+})
+
+export const templateIdParamSchema = t.Object({
+  id: t.String({
+    pattern: '^[a-fA-F0-9]{24}$',
+    description: 'ID do modelo de refeição',
+  }),
+})
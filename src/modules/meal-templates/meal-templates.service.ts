@@ -0,0 +1,381 @@
+/**
+ * Meal Templates Service - Business Logic
+ *
+ * Features:
+ * - CRUD of the user's saved meals
+ * - Log a template to the diary for a date/time (goes through createMealEntry,
+ *   so nutrition, stats and achievements behave as a regular meal)
+ * - Suggestions from meals the user repeats often and hasn't saved yet
+ */
+
+import * as customFoodsService from '@/modules/custom-foods/custom-foods.service'
+import { DiaryEntry } from '@/modules/diary/diary.model'
+import * as diaryService from '@/modules/diary/diary.service'
+import { Food } from '@/modules/foods'
+import { ConflictError, NotFoundError, ValidationError } from '@/shared/errors'
+import type { MealData, MealType } from '@/shared/types'
+import mongoose from 'mongoose'
+import { type IMealTemplate, type IMealTemplateFood, MealTemplate } from './meal-template.model'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MealTemplateFoodData {
+  foodId: number
+  quantity_g?: number
+  portion?: string
+}
+
+export interface CreateMealTemplateData {
+  name: string
+  mealType: MealType
+  defaultTime?: string
+  foods: MealTemplateFoodData[]
+  notes?: string
+}
+
+export type UpdateMealTemplateData = Partial<CreateMealTemplateData>
+
+export interface LogMealTemplateData {
+  date: string
+  time?: string
+  mealType?: MealType
+  notes?: string
+}
+
+export interface MealTemplateSuggestion {
+  name: string
+  mealType: MealType
+  defaultTime: string
+  foods: IMealTemplateFood[]
+  occurrences: number
+  lastEatenAt: string
+}
+
+export interface SuggestionOptions {
+  days?: number
+  limit?: number
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_TEMPLATES_PER_USER = 50
+
+// A meal must repeat at least this many times to be suggested
+const MIN_SUGGESTION_OCCURRENCES = 3
+
+const DEFAULT_TIMES: Record<MealType, string> = {
+  breakfast: '08:00',
+  lunch: '12:30',
+  snack: '16:00',
+  dinner: '19:30',
+}
+
+const MEAL_TYPE_LABELS: Record<MealType, string> = {
+  breakfast: 'Café da manhã',
+  lunch: 'Almoço',
+  dinner: 'Jantar',
+  snack: 'Lanche',
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function buildFoodsKey(foods: { foodId: number }[]): string {
+  return [...new Set(foods.map((f) => f.foodId))].sort((a, b) => a - b).join(',')
+}
+
+function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>()
+  let best: T | undefined
+  let bestCount = 0
+  for (const value of values) {
+    const count = (counts.get(value) || 0) + 1
+    counts.set(value, count)
+    if (count > bestCount) {
+      best = value
+      bestCount = count
+    }
+  }
+  return best
+}
+
+function formatTemplate(template: IMealTemplate) {
+  return {
+    id: template._id.toString(),
+    name: template.name,
+    mealType: template.mealType,
+    defaultTime: template.defaultTime,
+    foods: template.foods.map((food) => ({
+      foodId: food.foodId,
+      foodName: food.foodName,
+      quantity_g: food.quantity_g,
+      portion: food.portion,
+    })),
+    notes: template.notes,
+    usageCount: template.usageCount,
+    lastUsedAt: template.lastUsedAt?.toISOString(),
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString(),
+  }
+}
+
+async function findUserTemplate(userId: string, templateId: string) {
+  if (!mongoose.Types.ObjectId.isValid(templateId)) {
+    throw new NotFoundError('Modelo de refeição')
+  }
+
+  const template = await MealTemplate.findOne({
+    _id: new mongoose.Types.ObjectId(templateId),
+    userId: new mongoose.Types.ObjectId(userId),
+  })
+
+  if (!template) {
+    throw new NotFoundError('Modelo de refeição')
+  }
+
+  return template
+}
+
+/**
+ * Check the foods exist and take their names from the database
+ * (catalog foods or the user's custom foods)
+ */
+async function resolveTemplateFoods(
+  userId: string,
+  foods: MealTemplateFoodData[],
+): Promise<IMealTemplateFood[]> {
+  const foodIds = [...new Set(foods.map((f) => f.foodId))]
+  const [dbFoods, customFoods] = await Promise.all([
+    Food.find({ id: { $in: foodIds } })
+      .select('id name')
+      .lean()
+      .exec(),
+    customFoodsService.getCustomFoodsByFoodIds(userId, foodIds),
+  ])
+  const namesById = new Map([
+    ...dbFoods.map((f) => [f.id, f.name] as const),
+    ...customFoods.map((f) => [f.foodId, f.name] as const),
+  ])
+
+  return foods.map((food) => {
+    const foodName = namesById.get(food.foodId)
+    if (!foodName) {
+      throw new ValidationError(`Alimento ${food.foodId} não encontrado`)
+    }
+    return {
+      foodId: food.foodId,
+      foodName,
+      quantity_g: food.quantity_g,
+      portion: food.portion,
+    }
+  })
+}
+
+async function ensureUniqueName(userId: string, name: string, excludeId?: mongoose.Types.ObjectId) {
+  const existing = await MealTemplate.findOne({
+    userId: new mongoose.Types.ObjectId(userId),
+    name: name.trim(),
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  })
+    .select('_id')
+    .lean()
+
+  if (existing) {
+    throw new ConflictError('Já existe um modelo de refeição com este nome')
+  }
+}
+
+// =============================================================================
+// Service Functions
+// =============================================================================
+
+/**
+ * List templates (most used first)
+ */
+export async function getTemplates(userId: string) {
+  const templates = await MealTemplate.find({ userId: new mongoose.Types.ObjectId(userId) })
+    .sort({ usageCount: -1, name: 1 })
+    .exec()
+
+  return templates.map(formatTemplate)
+}
+
+/**
+ * Get template by ID
+ */
+export async function getTemplateById(userId: string, templateId: string) {
+  const template = await findUserTemplate(userId, templateId)
+  return formatTemplate(template)
+}
+
+/**
+ * Create template
+ */
+export async function createTemplate(userId: string, data: CreateMealTemplateData) {
+  const count = await MealTemplate.countDocuments({ userId: new mongoose.Types.ObjectId(userId) })
+  if (count >= MAX_TEMPLATES_PER_USER) {
+    throw new ValidationError(`Limite de ${MAX_TEMPLATES_PER_USER} modelos de refeição atingido`)
+  }
+
+  await ensureUniqueName(userId, data.name)
+  const foods = await resolveTemplateFoods(userId, data.foods)
+
+  const template = await MealTemplate.create({
+    userId: new mongoose.Types.ObjectId(userId),
+    name: data.name.trim(),
+    mealType: data.mealType,
+    defaultTime: data.defaultTime,
+    foods,
+    notes: data.notes,
+    foodsKey: buildFoodsKey(foods),
+  })
+
+  return formatTemplate(template)
+}
+
+/**
+ * Update template
+ */
+export async function updateTemplate(
+  userId: string,
+  templateId: string,
+  data: UpdateMealTemplateData,
+) {
+  const template = await findUserTemplate(userId, templateId)
+
+  if (data.name !== undefined && data.name.trim() !== template.name) {
+    await ensureUniqueName(userId, data.name, template._id)
+    template.name = data.name.trim()
+  }
+  if (data.mealType !== undefined) template.mealType = data.mealType
+  if (data.defaultTime !== undefined) template.defaultTime = data.defaultTime
+  if (data.notes !== undefined) template.notes = data.notes
+  if (data.foods !== undefined) {
+    template.foods = await resolveTemplateFoods(userId, data.foods)
+    template.foodsKey = buildFoodsKey(template.foods)
+  }
+
+  await template.save()
+  return formatTemplate(template)
+}
+
+/**
+ * Delete template
+ */
+export async function deleteTemplate(userId: string, templateId: string): Promise<void> {
+  const template = await findUserTemplate(userId, templateId)
+  await template.deleteOne()
+}
+
+/**
+ * Create a diary meal entry from a template
+ */
+export async function logTemplate(userId: string, templateId: string, data: LogMealTemplateData) {
+  const template = await findUserTemplate(userId, templateId)
+  const mealType = data.mealType || template.mealType
+
+  const entry = await diaryService.createMealEntry(userId, {
+    date: data.date,
+    meal: {
+      type: mealType,
+      time: data.time || template.defaultTime || DEFAULT_TIMES[mealType],
+      foods: template.foods.map((food) => ({
+        foodId: food.foodId,
+        foodName: food.foodName,
+        quantity_g: food.quantity_g,
+        portion: food.portion,
+      })),
+      notes: data.notes ?? template.notes,
+    },
+  })
+
+  await MealTemplate.updateOne(
+    { _id: template._id },
+    { $inc: { usageCount: 1 }, $set: { lastUsedAt: new Date() } },
+  )
+
+  return entry
+}
+
+/**
+ * Suggest templates from meals repeated in the last `days` days
+ * Meals are grouped by their set of foods; the meal type, time and
+ * quantities of a suggestion are the most common ones in the group.
+ * Meals already saved as a template are left out.
+ */
+export async function getSuggestions(
+  userId: string,
+  options: SuggestionOptions = {},
+): Promise<MealTemplateSuggestion[]> {
+  const days = Math.min(Math.max(options.days ?? 60, 7), 365)
+  const limit = Math.min(Math.max(options.limit ?? 5, 1), 20)
+  const userObjectId = new mongoose.Types.ObjectId(userId)
+
+  const since = new Date()
+  since.setUTCDate(since.getUTCDate() - days)
+  since.setUTCHours(0, 0, 0, 0)
+
+  const [meals, templates] = await Promise.all([
+    DiaryEntry.find({ userId: userObjectId, type: 'meal', date: { $gte: since } })
+      .select('date meal')
+      .sort({ date: -1 })
+      .lean()
+      .exec(),
+    MealTemplate.find({ userId: userObjectId }).select('foodsKey').lean().exec(),
+  ])
+
+  const savedKeys = new Set(templates.map((t) => t.foodsKey))
+  const groups = new Map<string, { date: Date; meal: MealData }[]>()
+
+  for (const { date, meal } of meals) {
+    if (!meal?.foods.length) continue
+    const key = buildFoodsKey(meal.foods)
+    if (savedKeys.has(key)) continue
+
+    const group = groups.get(key)
+    if (group) group.push({ date, meal })
+    else groups.set(key, [{ date, meal }])
+  }
+
+  const suggestions: MealTemplateSuggestion[] = []
+
+  for (const [key, entries] of groups) {
+    if (entries.length < MIN_SUGGESTION_OCCURRENCES) continue
+
+    const mealType = mostCommon(entries.map((e) => e.meal.type)) as MealType
+    const times = entries.map((e) => e.meal.time).sort()
+    const foodIds = key.split(',').map(Number)
+
+    // Most common quantity/portion of each food across the repetitions
+    const foods = foodIds.map((foodId) => {
+      const occurrences = entries.flatMap((e) => e.meal.foods.filter((f) => f.foodId === foodId))
+      return {
+        foodId,
+        foodName: occurrences[0].foodName,
+        quantity_g: mostCommon(occurrences.map((f) => f.quantity_g).filter((q) => q !== undefined)),
+        portion: mostCommon(occurrences.map((f) => f.portion).filter((p) => p !== undefined)),
+      }
+    })
+
+    const names = foods.map((f) => f.foodName.split(',')[0])
+    const extra = names.length > 2 ? ` +${names.length - 2}` : ''
+
+    suggestions.push({
+      name: `${MEAL_TYPE_LABELS[mealType]}: ${names.slice(0, 2).join(', ')}${extra}`.slice(0, 60),
+      mealType,
+      defaultTime: times[Math.floor(times.length / 2)],
+      foods,
+      occurrences: entries.length,
+      lastEatenAt: entries[0].date.toISOString().split('T')[0],
+    })
+  }
+
+  return suggestions
+    .sort((a, b) => b.occurrences - a.occurrences || b.lastEatenAt.localeCompare(a.lastEatenAt))
+    .slice(0, limit)
+}
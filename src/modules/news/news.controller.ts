@@ -9,9 +9,12 @@ import {
   articleIdParamSchema,
 } from './news.schemas'
 import { NotFoundError } from '@/shared/errors'
+import { requireFeature } from '@/shared/middlewares'
 import type { ArticleCategory } from './news.model'
 
 export const newsController = new Elysia({ prefix: '/insights/news' })
+  .use(requireFeature('news_enabled'))
+
   // =========================================================================
   // GET /news - List articles
   // =========================================================================
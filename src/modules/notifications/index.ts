@@ -0,0 +1,9 @@
+/**
+ * Notifications Module - Public Exports
+ */
+
+export { notificationsController } from './notifications.controller'
+export * from './notification.model'
+export * from './notification-outbox.model'
+export * from './push-subscription.model'
+export * as notificationsService from './notifications.service'
@@ -0,0 +1,140 @@
+/**
+ * Notification Channels - Delivery Adapters
+ *
+ * Channels:
+ * - email: through the shared mailer (console, file or SMTP transport)
+ * - push: Web Push to every subscription of the user (VAPID)
+ * - outbox: stores the notification in MongoDB (development/testing)
+ *
+ * Active channels come from NOTIFICATION_CHANNELS (comma-separated).
+ */
+
+import { env } from '@/config'
+import type { IUser } from '@/modules/users/user.model'
+import { sendMail } from '@/shared/mailer'
+import type { NotificationChannelName, NotificationType } from '@/shared/types'
+import webpush from 'web-push'
+import { NotificationOutbox } from './notification-outbox.model'
+import { type RenderedNotification, renderEmail } from './notification-templates'
+import { PushSubscription } from './push-subscription.model'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ChannelMessage extends RenderedNotification {
+  type: NotificationType
+}
+
+export interface NotificationChannel {
+  name: NotificationChannelName
+  isConfigured(): boolean
+  send(user: IUser, message: ChannelMessage): Promise<void>
+}
+
+// =============================================================================
+// Email
+// =============================================================================
+
+export const emailChannel: NotificationChannel = {
+  name: 'email',
+  isConfigured: () => true,
+  async send(user, message) {
+    const { text, html } = renderEmail(message, user.preferences.language, env.APP_URL)
+    await sendMail({
+      to: user.email,
+      subject: message.title,
+      text,
+      html,
+    })
+  },
+}
+
+// =============================================================================
+// Web Push
+// =============================================================================
+
+let vapidConfigured = false
+
+function ensureVapid(): void {
+  if (vapidConfigured) return
+  webpush.setVapidDetails(env.VAPID_SUBJECT, env.VAPID_PUBLIC_KEY, env.VAPID_PRIVATE_KEY)
+  vapidConfigured = true
+}
+
+export const pushChannel: NotificationChannel = {
+  name: 'push',
+  isConfigured: () => Boolean(env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY),
+  async send(user, message) {
+    ensureVapid()
+
+    const subscriptions = await PushSubscription.find({ userId: user._id })
+    const payload = JSON.stringify({
+      type: message.type,
+      title: message.title,
+      body: message.body,
+      url: message.url,
+    })
+
+    await Promise.all(
+      subscriptions.map(async (subscription) => {
+        try {
+          await webpush.sendNotification(
+            { endpoint: subscription.endpoint, keys: subscription.keys },
+            payload,
+          )
+          subscription.lastUsedAt = new Date()
+          await subscription.save()
+        } catch (error) {
+          // 404/410: the browser dropped the subscription
+          const statusCode = (error as { statusCode?: number }).statusCode
+          if (statusCode === 404 || statusCode === 410) {
+            await subscription.deleteOne()
+            return
+          }
+          throw error
+        }
+      }),
+    )
+  },
+}
+
+// =============================================================================
+// Outbox (local)
+// =============================================================================
+
+export const outboxChannel: NotificationChannel = {
+  name: 'outbox',
+  isConfigured: () => true,
+  async send(user, message) {
+    await NotificationOutbox.create({
+      userId: user._id,
+      email: user.email,
+      type: message.type,
+      language: user.preferences.language,
+      title: message.title,
+      body: message.body,
+      url: message.url,
+    })
+  },
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const CHANNELS: Record<NotificationChannelName, NotificationChannel> = {
+  email: emailChannel,
+  push: pushChannel,
+  outbox: outboxChannel,
+}
+
+/**
+ * Channels enabled by NOTIFICATION_CHANNELS
+ */
+export function getEnabledChannels(): NotificationChannel[] {
+  return env.NOTIFICATION_CHANNELS.split(',')
+    .map((name) => name.trim() as NotificationChannelName)
+    .filter((name) => name in CHANNELS)
+    .map((name) => CHANNELS[name])
+}
@@ -0,0 +1,82 @@
+/**
+ * Notification Outbox Model - Mongoose Schema
+ *
+ * Local delivery channel: every notification sent through the
+ * "outbox" channel is stored here instead of leaving the server.
+ * Used in development and tests to inspect what would be delivered.
+ */
+
+import type { Language, NotificationType } from '@/shared/types'
+import mongoose, { Schema, type Document, type Model } from 'mongoose'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export interface INotificationOutbox extends Document {
+  _id: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  email: string
+  type: NotificationType
+  language: Language
+  title: string
+  body: string
+  url?: string
+  createdAt: Date
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const notificationOutboxSchema = new Schema<INotificationOutbox>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    email: { type: String, required: true },
+    type: {
+      type: String,
+      enum: [
+        'daily_reminder',
+        'achievement_unlocked',
+        'problematic_food_confirmed',
+        'news_published',
+      ],
+      required: true,
+    },
+    language: {
+      type: String,
+      enum: ['pt-BR', 'en'],
+      required: true,
+    },
+    title: { type: String, required: true },
+    body: { type: String, required: true },
+    url: String,
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'notification_outbox',
+  },
+)
+
+// =============================================================================
+// Indexes
+// =============================================================================
+
+notificationOutboxSchema.index({ userId: 1, createdAt: -1 })
+
+// Keep the outbox small: entries expire after 30 days
+notificationOutboxSchema.index({ createdAt: 1 }, { expireAfterSeconds: 2592000 })
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const NotificationOutbox: Model<INotificationOutbox> = mongoose.model<INotificationOutbox>(
+  'NotificationOutbox',
+  notificationOutboxSchema,
+)
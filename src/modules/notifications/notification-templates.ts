@@ -0,0 +1,131 @@
+/**
+ * Notification Templates - pt-BR / en
+ *
+ * Each notification type renders a title, a body and an optional link
+ * in the user's language (UserPreferences.language).
+ */
+
+import type { Language, NotificationType } from '@/shared/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RenderedNotification {
+  title: string
+  body: string
+  url?: string
+}
+
+export interface NotificationVariables {
+  name: string // User's first name
+  [key: string]: string | number | undefined
+}
+
+type Template = (vars: NotificationVariables) => RenderedNotification
+
+// =============================================================================
+// Templates
+// =============================================================================
+
+const TEMPLATES: Record<NotificationType, Record<Language, Template>> = {
+  daily_reminder: {
+    'pt-BR': (vars) => ({
+      title: 'Hora de registrar seu dia 🐰',
+      body: `Oi, ${vars.name}! Você ainda não registrou nada hoje. Anotar refeições e sintomas ajuda a descobrir seus gatilhos.`,
+      url: '/diary',
+    }),
+    en: (vars) => ({
+      title: 'Time to log your day 🐰',
+      body: `Hi, ${vars.name}! You haven't logged anything today. Tracking meals and symptoms helps find your triggers.`,
+      url: '/diary',
+    }),
+  },
+  achievement_unlocked: {
+    'pt-BR': (vars) => ({
+      title: `Conquista desbloqueada: ${vars.achievementName} ${vars.emoji ?? '🏆'}`,
+      body: `Parabéns, ${vars.name}! ${vars.achievementDescription ?? ''}`.trim(),
+      url: '/achievements',
+    }),
+    en: (vars) => ({
+      title: `Achievement unlocked: ${vars.achievementName} ${vars.emoji ?? '🏆'}`,
+      body: `Congratulations, ${vars.name}! ${vars.achievementDescription ?? ''}`.trim(),
+      url: '/achievements',
+    }),
+  },
+  problematic_food_confirmed: {
+    'pt-BR': (vars) => ({
+      title: `${vars.foodName} confirmado como gatilho`,
+      body: `${vars.name}, ${vars.foodName} causou sintomas ${vars.incidents} vezes. Ele agora aparece como alimento a evitar.`,
+      url: '/problematic-foods',
+    }),
+    en: (vars) => ({
+      title: `${vars.foodName} confirmed as a trigger`,
+      body: `${vars.name}, ${vars.foodName} caused symptoms ${vars.incidents} times. It is now listed as a food to avoid.`,
+      url: '/problematic-foods',
+    }),
+  },
+  news_published: {
+    'pt-BR': (vars) => ({
+      title: `Novo conteúdo: ${vars.articleTitle}`,
+      body: String(vars.articleSummary ?? 'Confira o novo conteúdo no Ceboelha.'),
+      url: vars.articleId ? `/news/${vars.articleId}` : '/news',
+    }),
+    en: (vars) => ({
+      title: `New content: ${vars.articleTitle}`,
+      body: String(vars.articleSummary ?? 'Check out the new content on Ceboelha.'),
+      url: vars.articleId ? `/news/${vars.articleId}` : '/news',
+    }),
+  },
+}
+
+// =============================================================================
+// Render
+// =============================================================================
+
+/**
+ * Render a notification in the given language (falls back to pt-BR)
+ */
+export function renderNotification(
+  type: NotificationType,
+  language: Language,
+  vars: NotificationVariables,
+): RenderedNotification {
+  const templates = TEMPLATES[type]
+  const template = templates[language] || templates['pt-BR']
+  return template(vars)
+}
+
+/**
+ * Plain-text and HTML e-mail bodies for a rendered notification
+ */
+export function renderEmail(
+  notification: RenderedNotification,
+  language: Language,
+  appUrl: string,
+): { text: string; html: string } {
+  const link = notification.url ? `${appUrl}${notification.url}` : appUrl
+  const cta = language === 'en' ? 'Open Ceboelha' : 'Abrir o Ceboelha'
+  const footer =
+    language === 'en'
+      ? 'You can turn off notifications in your profile settings.'
+      : 'Você pode desativar as notificações nas configurações do perfil.'
+
+  const text = `${notification.body}\n\n${cta}: ${link}\n\n${footer}`
+  const html = [
+    `<h2>${escapeHtml(notification.title)}</h2>`,
+    `<p>${escapeHtml(notification.body)}</p>`,
+    `<p><a href="${escapeHtml(link)}">${cta}</a></p>`,
+    `<p style="color:#888;font-size:12px">${footer}</p>`,
+  ].join('\n')
+
+  return { text, html }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -0,0 +1,81 @@
+/**
+ * Notification Model - In-app Inbox
+ *
+ * Persistent notifications shown inside the app (bell/inbox), published by
+ * other services: unlocked achievements, confirmed problematic foods,
+ * new insight discoveries and admin announcements. Independent from the delivery channels
+ * (e-mail/push), so opting out of those does not empty the inbox.
+ */
+
+import type { InboxNotificationType } from '@/shared/types'
+import mongoose, { Schema, type Document, type Model } from 'mongoose'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export interface INotification extends Document {
+  _id: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  type: InboxNotificationType
+  title: string
+  body: string
+  url?: string
+  data?: Record<string, unknown> // Ids of the related entity (achievementId, foodId...)
+  readAt: Date | null
+  createdAt: Date
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const notificationSchema = new Schema<INotification>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: [
+        'achievement_unlocked',
+        'problematic_food_confirmed',
+        'new_discovery',
+        'food_submission_reviewed',
+        'announcement',
+      ],
+      required: true,
+    },
+    title: { type: String, required: true, maxlength: 200 },
+    body: { type: String, required: true, maxlength: 1000 },
+    url: String,
+    data: Schema.Types.Mixed,
+    readAt: { type: Date, default: null },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'notifications',
+  },
+)
+
+// =============================================================================
+// Indexes
+// =============================================================================
+
+// Inbox listing and unread count
+notificationSchema.index({ userId: 1, createdAt: -1 })
+notificationSchema.index({ userId: 1, readAt: 1 })
+
+// Old notifications expire after 180 days
+notificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 15552000 })
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const Notification: Model<INotification> = mongoose.model<INotification>(
+  'Notification',
+  notificationSchema,
+)
@@ -0,0 +1,244 @@
+/**
+ * Notifications Controller - REST Endpoints
+ *
+ * Endpoints:
+ * - GET /notifications - Inbox (paginated) with unread count
+ * - GET /notifications/unread-count - Unread count only
+ * - POST /notifications/read-all - Mark all as read
+ * - POST /notifications/:id/read - Mark one as read
+ * - DELETE /notifications/:id - Delete from inbox
+ * - GET /notifications/push/public-key - VAPID public key for the browser
+ * - POST /notifications/push/subscribe - Save a push subscription
+ * - POST /notifications/push/unsubscribe - Remove a push subscription
+ */
+
+import { requireAuth, requireFeature } from '@/shared/middlewares'
+import { Elysia } from 'elysia'
+import {
+  inboxQuerySchema,
+  notificationIdParamSchema,
+  pushSubscriptionBodySchema,
+  pushUnsubscribeBodySchema,
+} from './notifications.schemas'
+import * as notificationsService from './notifications.service'
+
+// =============================================================================
+// Controller
+// =============================================================================
+
+export const notificationsController = new Elysia({ prefix: '/notifications' })
+  // Apply auth middleware to all routes
+  .use(requireAuth)
+  .use(requireFeature('notifications_enabled'))
+
+  // ==========================================================================
+  // GET /notifications/push/public-key - VAPID public key
+  // ==========================================================================
+  .get(
+    '/push/public-key',
+    () => ({
+      success: true,
+      data: { publicKey: notificationsService.getPushPublicKey() },
+    }),
+    {
+      detail: {
+        tags: ['Notifications'],
+        summary: 'Chave pública Web Push',
+        description: 'Retorna a chave VAPID usada pelo navegador em `PushManager.subscribe()`',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Chave pública' },
+          400: { description: 'Push não configurado no servidor' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // POST /notifications/push/subscribe - Save subscription
+  // ==========================================================================
+  .post(
+    '/push/subscribe',
+    async ({ body, auth, request }) => {
+      await notificationsService.subscribePush(
+        auth.userId,
+        body,
+        request.headers.get('user-agent') || undefined,
+      )
+
+      return {
+        success: true,
+        message: 'Notificações push ativadas neste dispositivo',
+      }
+    },
+    {
+      body: pushSubscriptionBodySchema,
+      detail: {
+        tags: ['Notifications'],
+        summary: 'Ativar push',
+        description: 'Salva a inscrição Web Push (`PushSubscription.toJSON()`) deste navegador',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+  )
+
+  // ==========================================================================
+  // POST /notifications/push/unsubscribe - Remove subscription
+  // ==========================================================================
+  .post(
+    '/push/unsubscribe',
+    async ({ body, auth }) => {
+      await notificationsService.unsubscribePush(auth.userId, body.endpoint)
+
+      return {
+        success: true,
+        message: 'Notificações push desativadas neste dispositivo',
+      }
+    },
+    {
+      body: pushUnsubscribeBodySchema,
+      detail: {
+        tags: ['Notifications'],
+        summary: 'Desativar push',
+        description: 'Remove a inscrição Web Push deste navegador',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+  )
+
+  // ==========================================================================
+  // GET /notifications - Inbox
+  // ==========================================================================
+  .get(
+    '/',
+    async ({ query, auth }) => {
+      const result = await notificationsService.getInbox(auth.userId, {
+        page: query.page ? Number.parseInt(query.page, 10) : 1,
+        limit: query.limit ? Number.parseInt(query.limit, 10) : 20,
+        unreadOnly: query.unread === 'true',
+      })
+
+      return {
+        success: true,
+        data: result.notifications,
+        unreadCount: result.unreadCount,
+        pagination: result.pagination,
+      }
+    },
+    {
+      query: inboxQuerySchema,
+      detail: {
+        tags: ['Notifications'],
+        summary: 'Caixa de notificações',
+        description: `
+          Lista as notificações do usuário (mais recentes primeiro) e o total de não lidas.
+
+          **Tipos:** \`achievement_unlocked\`, \`problematic_food_confirmed\`, \`new_discovery\`,
+          \`food_submission_reviewed\`
+
+          Use \`unread=true\` para listar apenas as não lidas.
+        `,
+        security: [{ bearerAuth: [] }],
+      },
+    },
+  )
+
+  // ==========================================================================
+  // GET /notifications/unread-count - Unread count
+  // ==========================================================================
+  .get(
+    '/unread-count',
+    async ({ auth }) => {
+      const count = await notificationsService.getUnreadCount(auth.userId)
+
+      return {
+        success: true,
+        data: { count },
+      }
+    },
+    {
+      detail: {
+        tags: ['Notifications'],
+        summary: 'Total de não lidas',
+        description: 'Retorna apenas o número de notificações não lidas (badge do sino)',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+  )
+
+  // ==========================================================================
+  // POST /notifications/read-all - Mark all as read
+  // ==========================================================================
+  .post(
+    '/read-all',
+    async ({ auth }) => {
+      const updated = await notificationsService.markAllAsRead(auth.userId)
+
+      return {
+        success: true,
+        data: { updated },
+        message: 'Todas as notificações foram marcadas como lidas',
+      }
+    },
+    {
+      detail: {
+        tags: ['Notifications'],
+        summary: 'Marcar todas como lidas',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+  )
+
+  // ==========================================================================
+  // POST /notifications/:id/read - Mark as read
+  // ==========================================================================
+  .post(
+    '/:id/read',
+    async ({ params, auth }) => {
+      const notification = await notificationsService.markAsRead(auth.userId, params.id)
+
+      return {
+        success: true,
+        data: notification,
+      }
+    },
+    {
+      params: notificationIdParamSchema,
+      detail: {
+        tags: ['Notifications'],
+        summary: 'Marcar como lida',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Notificação marcada como lida' },
+          404: { description: 'Notificação não encontrada' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // DELETE /notifications/:id - Delete notification
+  // ==========================================================================
+  .delete(
+    '/:id',
+    async ({ params, auth }) => {
+      await notificationsService.deleteNotification(auth.userId, params.id)
+
+      return {
+        success: true,
+        message: 'Notificação removida',
+      }
+    },
+    {
+      params: notificationIdParamSchema,
+      detail: {
+        tags: ['Notifications'],
+        summary: 'Remover notificação',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Notificação removida' },
+          404: { description: 'Notificação não encontrada' },
+        },
+      },
+    },
+  )
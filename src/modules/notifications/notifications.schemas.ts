@@ -0,0 +1,35 @@
+/**
+ * Notifications Schemas - TypeBox Validation
+ */
+
+import { t } from 'elysia'
+
+// =============================================================================
+// Push Subscription Schemas
+// =============================================================================
+
+export const pushSubscriptionBodySchema = t.Object({
+  endpoint: t.String({ format: 'uri', maxLength: 2048 }),
+  keys: t.Object({
+    p256dh: t.String({ minLength: 1, maxLength: 256 }),
+    auth: t.String({ minLength: 1, maxLength: 256 }),
+  }),
+})
+
+export const pushUnsubscribeBodySchema = t.Object({
+  endpoint: t.String({ format: 'uri', maxLength: 2048 }),
+})
+
+// =============================================================================
+// Inbox Schemas
+// =============================================================================
+
+export const inboxQuerySchema = t.Object({
+  page: t.Optional(t.String({ pattern: '^[1-9][0-9]*$' })),
+  limit: t.Optional(t.String({ pattern: '^[1-9][0-9]*$' })),
+  unread: t.Optional(t.String({ pattern: '^(true|false)$' })),
+})
+
+export const notificationIdParamSchema = t.Object({
+  id: t.String({ description: 'Notification ID' }),
+})
@@ -0,0 +1,422 @@
+/**
+ * Notifications Service - Business Logic
+ *
+ * Features:
+ * - Delivery through pluggable channels (email, web push, local outbox)
+ * - pt-BR / en templates based on UserPreferences.language
+ * - Respects SystemSettings (global switch + per-type switches)
+ *   and the user's UserPreferences.notifications opt-out
+ * - Broadcast to every user (news publication)
+ * - Web Push subscription management
+ * - In-app inbox other modules publish into (and admin announcements)
+ */
+
+import { env } from '@/config'
+import type { ISystemSettings } from '@/modules/admin/system-settings.model'
+import { User } from '@/modules/users/user.model'
+import { NotFoundError, ValidationError } from '@/shared/errors'
+import { emitEvent } from '@/shared/events'
+import { getCachedSettings } from '@/shared/middlewares/system-settings.middleware'
+import type {
+  InboxNotificationType,
+  NotificationChannelName,
+  NotificationDeliveryStatus,
+  NotificationType,
+} from '@/shared/types'
+import mongoose from 'mongoose'
+import { getEnabledChannels } from './notification-channels'
+import { type NotificationVariables, renderNotification } from './notification-templates'
+import { type INotification, Notification } from './notification.model'
+import { PushSubscription } from './push-subscription.model'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type NotifySkipReason =
+  | 'notifications_disabled'
+  | 'type_disabled'
+  | 'user_opted_out'
+  | 'user_not_found'
+
+export interface ChannelDelivery {
+  channel: NotificationChannelName
+  status: NotificationDeliveryStatus
+  error?: string
+}
+
+export interface NotifyResult {
+  sent: boolean
+  skipped?: NotifySkipReason
+  deliveries: ChannelDelivery[]
+}
+
+export interface NotifyAllResult {
+  sent: number
+  skipped: number
+  failed: number
+}
+
+export interface PushSubscriptionInput {
+  endpoint: string
+  keys: {
+    p256dh: string
+    auth: string
+  }
+}
+
+export interface PublishInput {
+  type: InboxNotificationType
+  title: string
+  body: string
+  url?: string
+  data?: Record<string, unknown>
+}
+
+export interface InboxOptions {
+  page?: number
+  limit?: number
+  unreadOnly?: boolean
+}
+
+export interface InboxPage {
+  notifications: INotification[]
+  unreadCount: number
+  pagination: {
+    page: number
+    totalPages: number
+    total: number
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// SystemSettings.notifications switch for each type
+const TYPE_SETTINGS: Record<NotificationType, keyof ISystemSettings['notifications']> = {
+  daily_reminder: 'daily_reminder_enabled',
+  achievement_unlocked: 'achievement_notifications',
+  problematic_food_confirmed: 'problematic_food_alerts',
+  news_published: 'news_notifications',
+}
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/**
+ * Send a notification to a user through every enabled channel
+ * Channel failures are reported in the result, never thrown
+ */
+export async function notify(
+  userId: string,
+  type: NotificationType,
+  vars: Omit<NotificationVariables, 'name'> = {},
+): Promise<NotifyResult> {
+  const settings = await getCachedSettings()
+
+  if (!settings.features.notifications_enabled) {
+    return { sent: false, skipped: 'notifications_disabled', deliveries: [] }
+  }
+  if (!settings.notifications[TYPE_SETTINGS[type]]) {
+    return { sent: false, skipped: 'type_disabled', deliveries: [] }
+  }
+
+  const user = await User.findById(userId)
+  if (!user || user.status !== 'active') {
+    return { sent: false, skipped: 'user_not_found', deliveries: [] }
+  }
+  if (!user.preferences.notifications) {
+    return { sent: false, skipped: 'user_opted_out', deliveries: [] }
+  }
+
+  const language = user.preferences.language
+  const message = {
+    type,
+    ...renderNotification(type, language, { ...vars, name: user.name.split(' ')[0] }),
+  }
+
+  const deliveries = await Promise.all(
+    getEnabledChannels().map(async (channel): Promise<ChannelDelivery> => {
+      if (!channel.isConfigured()) {
+        return { channel: channel.name, status: 'skipped' }
+      }
+      try {
+        await channel.send(user, message)
+        return { channel: channel.name, status: 'sent' }
+      } catch (error) {
+        console.error(`[Notifications] ${channel.name} delivery failed for ${type}:`, error)
+        return {
+          channel: channel.name,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        }
+      }
+    }),
+  )
+
+  return {
+    sent: deliveries.some((d) => d.status === 'sent'),
+    deliveries,
+  }
+}
+
+/**
+ * Send a notification to every active user who has notifications on
+ * Users are notified one at a time; failures are counted, never thrown.
+ */
+export async function notifyAll(
+  type: NotificationType,
+  vars: Omit<NotificationVariables, 'name'> = {},
+): Promise<NotifyAllResult> {
+  const result: NotifyAllResult = { sent: 0, skipped: 0, failed: 0 }
+
+  const settings = await getCachedSettings()
+  if (!settings.features.notifications_enabled || !settings.notifications[TYPE_SETTINGS[type]]) {
+    return result
+  }
+
+  const users = User.find({ status: 'active', 'preferences.notifications': true })
+    .select('_id')
+    .lean()
+    .cursor()
+
+  for await (const user of users) {
+    try {
+      const delivery = await notify(user._id.toString(), type, vars)
+      if (delivery.sent) result.sent++
+      else result.skipped++
+    } catch (error) {
+      result.failed++
+      console.error(`[Notifications] ${type} failed for user ${user._id}:`, error)
+    }
+  }
+
+  return result
+}
+
+// =============================================================================
+// Web Push Subscriptions
+// =============================================================================
+
+/**
+ * Public VAPID key the frontend needs for PushManager.subscribe()
+ */
+export function getPushPublicKey(): string {
+  if (!env.VAPID_PUBLIC_KEY) {
+    throw new ValidationError('Notificações push não estão configuradas')
+  }
+  return env.VAPID_PUBLIC_KEY
+}
+
+/**
+ * Save (or move to this user) a browser push subscription
+ */
+export async function subscribePush(
+  userId: string,
+  input: PushSubscriptionInput,
+  userAgent?: string,
+): Promise<void> {
+  await PushSubscription.findOneAndUpdate(
+    { endpoint: input.endpoint },
+    {
+      userId: new mongoose.Types.ObjectId(userId),
+      endpoint: input.endpoint,
+      keys: input.keys,
+      userAgent,
+    },
+    { upsert: true },
+  )
+}
+
+/**
+ * Remove a browser push subscription
+ */
+export async function unsubscribePush(userId: string, endpoint: string): Promise<void> {
+  await PushSubscription.deleteOne({
+    userId: new mongoose.Types.ObjectId(userId),
+    endpoint,
+  })
+}
+
+// =============================================================================
+// Inbox
+// =============================================================================
+
+const MAX_INBOX_PAGE_SIZE = 50
+const BROADCAST_BATCH_SIZE = 500
+
+/**
+ * Add a notification to the user's in-app inbox
+ */
+export async function publish(userId: string, input: PublishInput): Promise<INotification> {
+  const notification = await Notification.create({
+    userId: new mongoose.Types.ObjectId(userId),
+    ...input,
+  })
+
+  emitEvent('notification_created', userId, {
+    id: notification._id.toString(),
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    url: notification.url,
+  })
+
+  return notification
+}
+
+/**
+ * Add the same notification to the inbox of every active user
+ * Returns how many users received it
+ */
+export async function publishToAll(input: PublishInput): Promise<number> {
+  const users = User.find({ status: 'active' }).select('_id').lean().cursor()
+
+  let published = 0
+  let batch: mongoose.Types.ObjectId[] = []
+
+  const flush = async () => {
+    const notifications = await Notification.insertMany(
+      batch.map((userId) => ({ userId, ...input })),
+    )
+    for (const notification of notifications) {
+      emitEvent('notification_created', notification.userId.toString(), {
+        id: notification._id.toString(),
+        type: notification.type,
+        title: notification.title,
+        body: notification.body,
+        url: notification.url,
+      })
+    }
+    published += notifications.length
+    batch = []
+  }
+
+  for await (const user of users) {
+    batch.push(user._id)
+    if (batch.length >= BROADCAST_BATCH_SIZE) await flush()
+  }
+  if (batch.length > 0) await flush()
+
+  return published
+}
+
+/**
+ * Publish using the channel templates, rendered in the user's language
+ * Returns null if the user no longer exists
+ */
+export async function publishTemplate(
+  userId: string,
+  type: Extract<InboxNotificationType, NotificationType>,
+  vars: Omit<NotificationVariables, 'name'> = {},
+  data?: Record<string, unknown>,
+): Promise<INotification | null> {
+  const user = await User.findById(userId).select('name preferences.language').lean()
+  if (!user) return null
+
+  const rendered = renderNotification(type, user.preferences?.language ?? 'pt-BR', {
+    ...vars,
+    name: user.name.split(' ')[0],
+  })
+
+  return publish(userId, { type, ...rendered, data })
+}
+
+/**
+ * List the user's notifications (most recent first) with the unread count
+ */
+export async function getInbox(userId: string, options: InboxOptions = {}): Promise<InboxPage> {
+  const userObjectId = new mongoose.Types.ObjectId(userId)
+  const page = Math.max(options.page ?? 1, 1)
+  const limit = Math.min(options.limit ?? 20, MAX_INBOX_PAGE_SIZE)
+
+  const filter: Record<string, unknown> = { userId: userObjectId }
+  if (options.unreadOnly) {
+    filter.readAt = null
+  }
+
+  const [notifications, total, unreadCount] = await Promise.all([
+    Notification.find(filter)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    Notification.countDocuments(filter),
+    getUnreadCount(userId),
+  ])
+
+  return {
+    notifications,
+    unreadCount,
+    pagination: {
+      page,
+      totalPages: Math.ceil(total / limit),
+      total,
+    },
+  }
+}
+
+/**
+ * Number of unread notifications
+ */
+export async function getUnreadCount(userId: string): Promise<number> {
+  return Notification.countDocuments({
+    userId: new mongoose.Types.ObjectId(userId),
+    readAt: null,
+  })
+}
+
+/**
+ * Find a notification owned by the user
+ */
+async function findUserNotification(userId: string, notificationId: string) {
+  if (!mongoose.Types.ObjectId.isValid(notificationId)) {
+    throw new NotFoundError('Notificação')
+  }
+
+  const notification = await Notification.findOne({
+    _id: new mongoose.Types.ObjectId(notificationId),
+    userId: new mongoose.Types.ObjectId(userId),
+  })
+
+  if (!notification) {
+    throw new NotFoundError('Notificação')
+  }
+
+  return notification
+}
+
+/**
+ * Mark one notification as read
+ */
+export async function markAsRead(userId: string, notificationId: string): Promise<INotification> {
+  const notification = await findUserNotification(userId, notificationId)
+
+  if (!notification.readAt) {
+    notification.readAt = new Date()
+    await notification.save()
+  }
+
+  return notification
+}
+
+/**
+ * Mark every unread notification as read
+ */
+export async function markAllAsRead(userId: string): Promise<number> {
+  const result = await Notification.updateMany(
+    { userId: new mongoose.Types.ObjectId(userId), readAt: null },
+    { $set: { readAt: new Date() } },
+  )
+
+  return result.modifiedCount
+}
+
+/**
+ * Delete a notification
+ */
+export async function deleteNotification(userId: string, notificationId: string): Promise<void> {
+  const notification = await findUserNotification(userId, notificationId)
+  await notification.deleteOne()
+}
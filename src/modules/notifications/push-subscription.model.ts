@@ -0,0 +1,65 @@
+/**
+ * Push Subscription Model - Mongoose Schema
+ *
+ * Web Push subscriptions (one per browser/device) created by the
+ * frontend service worker with PushManager.subscribe().
+ */
+
+import mongoose, { Schema, type Document, type Model } from 'mongoose'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export interface IPushSubscription extends Document {
+  _id: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  endpoint: string
+  keys: {
+    p256dh: string
+    auth: string
+  }
+  userAgent?: string
+  lastUsedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const pushSubscriptionSchema = new Schema<IPushSubscription>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    endpoint: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    keys: {
+      p256dh: { type: String, required: true },
+      auth: { type: String, required: true },
+    },
+    userAgent: String,
+    lastUsedAt: Date,
+  },
+  {
+    timestamps: true,
+    collection: 'push_subscriptions',
+  },
+)
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const PushSubscription: Model<IPushSubscription> = mongoose.model<IPushSubscription>(
+  'PushSubscription',
+  pushSubscriptionSchema,
+)
@@ -20,11 +20,12 @@ import {
   foodIdParamSchema,
   incidentParamsSchema,
 } from './problematic-foods.schemas'
-import { requireAuth } from '@/shared/middlewares'
+import { requireAuth, requireFeature } from '@/shared/middlewares'
 
 export const problematicFoodsController = new Elysia({ prefix: '/problematic-foods' })
   // All routes require authentication
   .use(requireAuth)
+  .use(requireFeature('problematic_foods_enabled'))
 
   // ==========================================================================
   // GET /problematic-foods - Lista de alimentos problemáticos
@@ -8,8 +8,14 @@ import { Food } from '@/modules/foods/food.model'
 import { User } from '@/modules/users/user.model'
 import { NotFoundError } from '@/shared/errors'
 import { achievementsService } from '@/modules/achievements'
+import * as notificationsService from '@/modules/notifications/notifications.service'
 import { ActivityLog } from '@/modules/admin/activity-log.model'
-import type { SymptomType, ProblematicFoodIncident } from '@/shared/types'
+import { emitEvent } from '@/shared/events'
+import type {
+  SymptomType,
+  ProblematicFoodIncident,
+  ProblematicFoodStatus,
+} from '@/shared/types'
 
 // =============================================================================
 // Types
@@ -24,6 +30,31 @@ export interface MarkAsBadInput {
   notes?: string
 }
 
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Tell open SSE streams that a problematic food was created, changed status
+ * or was removed (status null)
+ */
+function emitStatusChange(
+  userId: string,
+  food: IProblematicFood,
+  previousStatus: ProblematicFoodStatus | null,
+  status: ProblematicFoodStatus | null
+): void {
+  if (previousStatus === status) return
+
+  emitEvent('problematic_food_status_changed', userId, {
+    id: food._id.toString(),
+    foodId: food.foodId,
+    foodName: food.foodName,
+    previousStatus,
+    status,
+  })
+}
+
 // =============================================================================
 // Service
 // =============================================================================
@@ -79,9 +110,29 @@ export const problematicFoodsService = {
       existing.totalIncidents = existing.incidents.length
       existing.lastIncident = today
       // Status: confirmed after 3+ incidents
+      const previousStatus = existing.status
+      const wasConfirmed = previousStatus === 'confirmed'
       existing.status = existing.totalIncidents >= 3 ? 'confirmed' : 'suspected'
       await existing.save()
 
+      emitStatusChange(userId, existing, previousStatus, existing.status)
+
+      // Alert the user once, when the food becomes a confirmed trigger
+      if (!wasConfirmed && existing.status === 'confirmed') {
+        const vars = {
+          foodName: existing.foodName,
+          incidents: existing.totalIncidents,
+        }
+
+        notificationsService
+          .notify(userId, 'problematic_food_confirmed', vars)
+          .catch((err) => console.error('[Notifications] Failed to send trigger alert:', err))
+
+        notificationsService
+          .publishTemplate(userId, 'problematic_food_confirmed', vars, { foodId: existing.foodId })
+          .catch((err) => console.error('[Notifications] Failed to publish trigger alert:', err))
+      }
+
       // Update user stats
       await this.updateUserStats(userId)
 
@@ -106,6 +157,8 @@ export const problematicFoodsService = {
       status: 'suspected',
     })
 
+    emitStatusChange(userId, problematicFood, null, 'suspected')
+
     // Update user stats
     await this.updateUserStats(userId)
 
@@ -149,6 +202,8 @@ export const problematicFoodsService = {
       throw new NotFoundError('Alimento problemático')
     }
 
+    emitStatusChange(userId, result, result.status, null)
+
     // Update user stats
     await this.updateUserStats(userId)
   },
@@ -184,8 +239,11 @@ export const problematicFoodsService = {
     problematicFood.totalIncidents = problematicFood.incidents.length
 
     // If no more incidents, delete the entire record
+    const previousStatus = problematicFood.status
+
     if (problematicFood.incidents.length === 0) {
       await ProblematicFood.findByIdAndDelete(id)
+      emitStatusChange(userId, problematicFood, previousStatus, null)
       await this.updateUserStats(userId)
       // Return the object before deletion for response
       return problematicFood.toObject()
@@ -201,6 +259,7 @@ export const problematicFoodsService = {
     problematicFood.status = problematicFood.totalIncidents >= 3 ? 'confirmed' : 'suspected'
 
     await problematicFood.save()
+    emitStatusChange(userId, problematicFood, previousStatus, problematicFood.status)
     await this.updateUserStats(userId)
 
     return problematicFood.toObject()
@@ -0,0 +1,7 @@
+/**
+ * Reintroduction Module - Public Exports
+ */
+
+export { reintroductionController } from './reintroduction.controller'
+export * from './reintroduction-challenge.model'
+export * as reintroductionService from './reintroduction.service'
@@ -0,0 +1,138 @@
+/**
+ * Reintroduction Challenge Model - Mongoose Schema
+ *
+ * One FODMAP group challenge (Monash-style):
+ * 3 dose days with increasing portions followed by washout days.
+ * Diary entries are linked to each dose day by date.
+ */
+
+import {
+  FODMAP_GROUPS,
+  type FodmapGroup,
+  type ReintroductionDose,
+  type ToleranceVerdict,
+} from '@/shared/types'
+import mongoose, { Schema, type Document, type Model } from 'mongoose'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export type ChallengeStatus = 'planned' | 'in_progress' | 'washout' | 'completed' | 'cancelled'
+export type ChallengeDayStatus = 'pending' | 'logged' | 'reaction' | 'skipped'
+
+export interface IChallengeDay {
+  dayNumber: number // 1-3
+  date: string // YYYY-MM-DD
+  dose: ReintroductionDose
+  portion: string
+  amount_g: number
+  status: ChallengeDayStatus
+  mealEntryIds: mongoose.Types.ObjectId[]
+  symptomEntryIds: mongoose.Types.ObjectId[]
+  maxSymptomIntensity: number
+}
+
+export interface IReintroductionChallenge extends Document {
+  _id: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  group: FodmapGroup
+  foodId?: number
+  foodName: string
+  status: ChallengeStatus
+  startDate: string // YYYY-MM-DD (first dose day)
+  washoutDays: number
+  washoutEndDate: string // YYYY-MM-DD (last washout day)
+  days: IChallengeDay[]
+  verdict?: ToleranceVerdict
+  maxToleratedDose?: ReintroductionDose | null
+  notes?: string
+  completedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const challengeDaySchema = new Schema<IChallengeDay>(
+  {
+    dayNumber: { type: Number, min: 1, max: 3, required: true },
+    date: { type: String, required: true },
+    dose: {
+      type: String,
+      enum: ['low', 'medium', 'high'],
+      required: true,
+    },
+    portion: { type: String, required: true },
+    amount_g: { type: Number, required: true },
+    status: {
+      type: String,
+      enum: ['pending', 'logged', 'reaction', 'skipped'],
+      default: 'pending',
+    },
+    mealEntryIds: [{ type: Schema.Types.ObjectId, ref: 'DiaryEntry' }],
+    symptomEntryIds: [{ type: Schema.Types.ObjectId, ref: 'DiaryEntry' }],
+    maxSymptomIntensity: { type: Number, default: 0 },
+  },
+  { _id: false },
+)
+
+const reintroductionChallengeSchema = new Schema<IReintroductionChallenge>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    group: {
+      type: String,
+      enum: FODMAP_GROUPS,
+      required: true,
+    },
+    foodId: Number,
+    foodName: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ['planned', 'in_progress', 'washout', 'completed', 'cancelled'],
+      default: 'planned',
+    },
+    startDate: { type: String, required: true },
+    washoutDays: { type: Number, min: 1, max: 7, default: 3 },
+    washoutEndDate: { type: String, required: true },
+    days: {
+      type: [challengeDaySchema],
+      default: [],
+    },
+    verdict: {
+      type: String,
+      enum: ['tolerated', 'partially_tolerated', 'not_tolerated'],
+    },
+    maxToleratedDose: {
+      type: String,
+      enum: ['low', 'medium', 'high', null],
+    },
+    notes: String,
+    completedAt: Date,
+  },
+  {
+    timestamps: true,
+    collection: 'reintroduction_challenges',
+  },
+)
+
+// =============================================================================
+// Indexes
+// =============================================================================
+
+reintroductionChallengeSchema.index({ userId: 1, status: 1 })
+reintroductionChallengeSchema.index({ userId: 1, group: 1, createdAt: -1 })
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const ReintroductionChallenge: Model<IReintroductionChallenge> =
+  mongoose.model<IReintroductionChallenge>('ReintroductionChallenge', reintroductionChallengeSchema)
@@ -0,0 +1,247 @@
+/**
+ * Reintroduction Controller - REST Endpoints
+ *
+ * Endpoints:
+ * - GET /reintroduction/groups - FODMAP groups with suggested doses
+ * - GET /reintroduction/tolerances - Tolerance verdict per group
+ * - GET /reintroduction - List challenges
+ * - GET /reintroduction/:id - Get challenge with linked diary entries
+ * - POST /reintroduction - Schedule a challenge
+ * - POST /reintroduction/:id/complete - Compute verdict and finish
+ * - POST /reintroduction/:id/cancel - Cancel challenge
+ */
+
+import { requireAuth } from '@/shared/middlewares'
+import { Elysia } from 'elysia'
+import {
+  challengeIdParamSchema,
+  completeChallengeBodySchema,
+  createChallengeBodySchema,
+} from './reintroduction.schemas'
+import * as reintroductionService from './reintroduction.service'
+
+// =============================================================================
+// Controller
+// =============================================================================
+
+export const reintroductionController = new Elysia({ prefix: '/reintroduction' })
+  // Apply auth middleware to all routes
+  .use(requireAuth)
+
+  // ==========================================================================
+  // GET /reintroduction/groups - FODMAP groups
+  // ==========================================================================
+  .get(
+    '/groups',
+    () => ({
+      success: true,
+      data: reintroductionService.getGroups(),
+    }),
+    {
+      detail: {
+        tags: ['Reintroduction'],
+        summary: 'Grupos FODMAP',
+        description: `
+          Lista os grupos FODMAP que podem ser testados, com alimento sugerido
+          e as três doses crescentes (low, medium, high).
+        `,
+        security: [{ bearerAuth: [] }],
+      },
+    },
+  )
+
+  // ==========================================================================
+  // GET /reintroduction/tolerances - Tolerance per group
+  // ==========================================================================
+  .get(
+    '/tolerances',
+    async ({ auth }) => {
+      const tolerances = await reintroductionService.getTolerances(auth.userId)
+
+      return {
+        success: true,
+        data: tolerances,
+      }
+    },
+    {
+      detail: {
+        tags: ['Reintroduction'],
+        summary: 'Tolerância por grupo',
+        description: `
+          Retorna o resultado da reintrodução para cada grupo FODMAP.
+
+          **Veredictos:**
+          - \`tolerated\` - Tolerou todas as doses
+          - \`partially_tolerated\` - Tolerou até \`maxToleratedDose\`
+          - \`not_tolerated\` - Reagiu já na primeira dose
+          - \`null\` - Grupo ainda não testado
+        `,
+        security: [{ bearerAuth: [] }],
+      },
+    },
+  )
+
+  // ==========================================================================
+  // GET /reintroduction - List challenges
+  // ==========================================================================
+  .get(
+    '/',
+    async ({ auth }) => {
+      const challenges = await reintroductionService.getChallenges(auth.userId)
+
+      return {
+        success: true,
+        data: challenges,
+      }
+    },
+    {
+      detail: {
+        tags: ['Reintroduction'],
+        summary: 'Listar desafios',
+        description: 'Lista os desafios de reintrodução do usuário (mais recentes primeiro)',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+  )
+
+  // ==========================================================================
+  // GET /reintroduction/:id - Get challenge
+  // ==========================================================================
+  .get(
+    '/:id',
+    async ({ params, auth }) => {
+      const challenge = await reintroductionService.getChallengeById(auth.userId, params.id)
+
+      return {
+        success: true,
+        data: challenge,
+      }
+    },
+    {
+      params: challengeIdParamSchema,
+      detail: {
+        tags: ['Reintroduction'],
+        summary: 'Buscar desafio',
+        description: `
+          Retorna o desafio com as entradas do diário vinculadas a cada dia de dose.
+
+          Refeições com o alimento teste e sintomas registrados na data de cada dose
+          são vinculados automaticamente. Sintomas de intensidade 3 ou mais marcam o
+          dia como \`reaction\` e as doses seguintes como \`skipped\`.
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Dados do desafio' },
+          401: { description: 'Não autenticado' },
+          404: { description: 'Desafio não encontrado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // POST /reintroduction - Schedule challenge
+  // ==========================================================================
+  .post(
+    '/',
+    async ({ body, auth }) => {
+      const challenge = await reintroductionService.createChallenge(auth.userId, body)
+
+      return {
+        success: true,
+        data: challenge,
+        message: 'Desafio de reintrodução agendado!',
+      }
+    },
+    {
+      body: createChallengeBodySchema,
+      detail: {
+        tags: ['Reintroduction'],
+        summary: 'Agendar desafio',
+        description: `
+          Agenda um desafio de reintrodução para um grupo FODMAP:
+          3 dias consecutivos de doses crescentes seguidos de dias de pausa (washout).
+
+          Apenas um desafio pode estar ativo por vez. Iniciar um desafio muda a fase
+          FODMAP do usuário de \`elimination\` para \`reintroduction\`.
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Desafio agendado' },
+          400: { description: 'Dados inválidos' },
+          401: { description: 'Não autenticado' },
+          409: { description: 'Já existe um desafio ativo' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // POST /reintroduction/:id/complete - Finish challenge
+  // ==========================================================================
+  .post(
+    '/:id/complete',
+    async ({ params, body, auth }) => {
+      const challenge = await reintroductionService.completeChallenge(
+        auth.userId,
+        params.id,
+        body.notes,
+      )
+
+      return {
+        success: true,
+        data: challenge,
+        message: 'Desafio concluído!',
+      }
+    },
+    {
+      params: challengeIdParamSchema,
+      body: completeChallengeBodySchema,
+      detail: {
+        tags: ['Reintroduction'],
+        summary: 'Concluir desafio',
+        description: `
+          Calcula o veredicto de tolerância a partir dos dias de dose e salva
+          o resultado no perfil do usuário (\`fodmapTolerances\`).
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Desafio concluído' },
+          400: { description: 'Desafio encerrado ou sem refeições registradas' },
+          401: { description: 'Não autenticado' },
+          404: { description: 'Desafio não encontrado' },
+        },
+      },
+    },
+  )
+
+  // ==========================================================================
+  // POST /reintroduction/:id/cancel - Cancel challenge
+  // ==========================================================================
+  .post(
+    '/:id/cancel',
+    async ({ params, auth }) => {
+      const challenge = await reintroductionService.cancelChallenge(auth.userId, params.id)
+
+      return {
+        success: true,
+        data: challenge,
+        message: 'Desafio cancelado',
+      }
+    },
+    {
+      params: challengeIdParamSchema,
+      detail: {
+        tags: ['Reintroduction'],
+        summary: 'Cancelar desafio',
+        description: 'Cancela um desafio ativo sem gerar veredicto',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Desafio cancelado' },
+          400: { description: 'Desafio já encerrado' },
+          401: { description: 'Não autenticado' },
+          404: { description: 'Desafio não encontrado' },
+        },
+      },
+    },
+  )
@@ -0,0 +1,59 @@
+/**
+ * Reintroduction Schemas - TypeBox Validation
+ */
+
+import { FODMAP_GROUPS } from '@/shared/types'
+import { t } from 'elysia'
+
+// =============================================================================
+// Body Schemas
+// =============================================================================
+
+/**
+ * Schema for scheduling a challenge
+ * POST /reintroduction
+ */
+export const createChallengeBodySchema = t.Object({
+  group: t.Union(
+    FODMAP_GROUPS.map((group) => t.Literal(group)),
+    {
+      description: 'Grupo FODMAP a ser testado',
+    },
+  ),
+  startDate: t.String({
+    pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+    description: 'Primeiro dia de dose (YYYY-MM-DD)',
+  }),
+  foodId: t.Optional(t.Number({ minimum: 1, description: 'ID do alimento teste no catálogo' })),
+  foodName: t.Optional(
+    t.String({ minLength: 1, maxLength: 100, description: 'Nome do alimento teste' }),
+  ),
+  washoutDays: t.Optional(
+    t.Number({ minimum: 1, maximum: 7, description: 'Dias de pausa após as doses (padrão: 3)' }),
+  ),
+})
+
+/**
+ * Schema for completing a challenge
+ * POST /reintroduction/:id/complete
+ */
+export const completeChallengeBodySchema = t.Object({
+  notes: t.Optional(t.String({ maxLength: 500 })),
+})
+
+// =============================================================================
+// Param Schemas
+// =============================================================================
+
+export const challengeIdParamSchema = t.Object({
+  id: t.String({
+    pattern: '^[a-fA-F0-9]{24}$',
+    description: 'ID do desafio',
+  }),
+})
+
+// =============================================================================
+// Types Export
+// =============================================================================
+
+export type CreateChallengeBody = typeof createChallengeBodySchema.static
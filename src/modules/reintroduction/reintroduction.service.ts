@@ -0,0 +1,492 @@
+/**
+ * Reintroduction Service - Business Logic
+ *
+ * Features:
+ * - FODMAP group definitions with suggested test foods and doses
+ * - Challenge scheduling (3 increasing-dose days + washout)
+ * - Automatic linking of diary meals/symptoms to challenge days
+ * - Tolerance verdict per group, saved to the user's profile
+ */
+
+import { DiaryEntry } from '@/modules/diary/diary.model'
+import { Food } from '@/modules/foods/food.model'
+import { User } from '@/modules/users/user.model'
+import { ConflictError, NotFoundError, ValidationError } from '@/shared/errors'
+import {
+  FODMAP_GROUPS,
+  type FodmapGroup,
+  type FodmapTolerance,
+  type ReintroductionDose,
+  type ToleranceVerdict,
+} from '@/shared/types'
+import mongoose from 'mongoose'
+import {
+  type ChallengeStatus,
+  type IChallengeDay,
+  type IReintroductionChallenge,
+  ReintroductionChallenge,
+} from './reintroduction-challenge.model'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DoseDefinition {
+  dose: ReintroductionDose
+  portion: string
+  amount_g: number
+}
+
+export interface FodmapGroupDefinition {
+  id: FodmapGroup
+  name: string
+  description: string
+  testFood: string
+  alternativeFoods: string[]
+  doses: [DoseDefinition, DoseDefinition, DoseDefinition]
+}
+
+export interface CreateChallengeData {
+  group: FodmapGroup
+  startDate: string
+  foodId?: number
+  foodName?: string
+  washoutDays?: number
+}
+
+// =============================================================================
+// FODMAP Groups
+// =============================================================================
+
+export const FODMAP_GROUP_DEFINITIONS: Record<FodmapGroup, FodmapGroupDefinition> = {
+  fructans: {
+    id: 'fructans',
+    name: 'Frutanos',
+    description: 'Presentes no trigo, centeio, alho e cebola',
+    testFood: 'Pão de trigo',
+    alternativeFoods: ['Alho', 'Cebola'],
+    doses: [
+      { dose: 'low', portion: '1/2 fatia', amount_g: 13 },
+      { dose: 'medium', portion: '1 fatia', amount_g: 26 },
+      { dose: 'high', portion: '2 fatias', amount_g: 52 },
+    ],
+  },
+  gos: {
+    id: 'gos',
+    name: 'GOS (galacto-oligossacarídeos)',
+    description: 'Presentes em leguminosas como grão-de-bico, lentilha e feijão',
+    testFood: 'Grão-de-bico cozido',
+    alternativeFoods: ['Lentilha cozida', 'Feijão cozido'],
+    doses: [
+      { dose: 'low', portion: '1/4 xícara', amount_g: 40 },
+      { dose: 'medium', portion: '1/2 xícara', amount_g: 80 },
+      { dose: 'high', portion: '1 xícara', amount_g: 160 },
+    ],
+  },
+  lactose: {
+    id: 'lactose',
+    name: 'Lactose',
+    description: 'Presente no leite e derivados frescos',
+    testFood: 'Leite de vaca',
+    alternativeFoods: ['Iogurte natural'],
+    doses: [
+      { dose: 'low', portion: '1/4 xícara', amount_g: 60 },
+      { dose: 'medium', portion: '1/2 xícara', amount_g: 125 },
+      { dose: 'high', portion: '1 xícara', amount_g: 250 },
+    ],
+  },
+  fructose: {
+    id: 'fructose',
+    name: 'Frutose (em excesso)',
+    description: 'Presente no mel, manga e xarope de milho',
+    testFood: 'Mel',
+    alternativeFoods: ['Manga'],
+    doses: [
+      { dose: 'low', portion: '1 colher de chá', amount_g: 7 },
+      { dose: 'medium', portion: '1 e 1/2 colher de chá', amount_g: 10 },
+      { dose: 'high', portion: '2 colheres de chá', amount_g: 14 },
+    ],
+  },
+  sorbitol: {
+    id: 'sorbitol',
+    name: 'Sorbitol',
+    description: 'Presente no abacate, amora e adoçantes',
+    testFood: 'Abacate',
+    alternativeFoods: ['Amora'],
+    doses: [
+      { dose: 'low', portion: '1/8 de abacate', amount_g: 30 },
+      { dose: 'medium', portion: '1/4 de abacate', amount_g: 60 },
+      { dose: 'high', portion: '1/2 abacate', amount_g: 120 },
+    ],
+  },
+  mannitol: {
+    id: 'mannitol',
+    name: 'Manitol',
+    description: 'Presente em cogumelos, couve-flor e batata-doce',
+    testFood: 'Cogumelo',
+    alternativeFoods: ['Couve-flor'],
+    doses: [
+      { dose: 'low', portion: '1/4 xícara', amount_g: 20 },
+      { dose: 'medium', portion: '1/2 xícara', amount_g: 40 },
+      { dose: 'high', portion: '1 xícara', amount_g: 75 },
+    ],
+  },
+}
+
+// Symptoms at or above this intensity on a dose day count as a reaction
+const REACTION_INTENSITY = 3
+const DEFAULT_WASHOUT_DAYS = 3
+const ACTIVE_STATUSES: ChallengeStatus[] = ['planned', 'in_progress', 'washout']
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function addDays(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T00:00:00.000Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().split('T')[0]
+}
+
+function getToday(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+function formatChallenge(challenge: IReintroductionChallenge) {
+  return {
+    id: challenge._id.toString(),
+    group: challenge.group,
+    groupName: FODMAP_GROUP_DEFINITIONS[challenge.group].name,
+    foodId: challenge.foodId,
+    foodName: challenge.foodName,
+    status: challenge.status,
+    startDate: challenge.startDate,
+    washoutDays: challenge.washoutDays,
+    washoutEndDate: challenge.washoutEndDate,
+    days: challenge.days.map((day) => ({
+      dayNumber: day.dayNumber,
+      date: day.date,
+      dose: day.dose,
+      portion: day.portion,
+      amount_g: day.amount_g,
+      status: day.status,
+      mealEntryIds: day.mealEntryIds.map((id) => id.toString()),
+      symptomEntryIds: day.symptomEntryIds.map((id) => id.toString()),
+      maxSymptomIntensity: day.maxSymptomIntensity,
+    })),
+    verdict: challenge.verdict,
+    maxToleratedDose: challenge.maxToleratedDose,
+    notes: challenge.notes,
+    completedAt: challenge.completedAt?.toISOString(),
+    createdAt: challenge.createdAt.toISOString(),
+  }
+}
+
+async function findUserChallenge(userId: string, challengeId: string) {
+  if (!mongoose.Types.ObjectId.isValid(challengeId)) {
+    throw new NotFoundError('Desafio de reintrodução')
+  }
+
+  const challenge = await ReintroductionChallenge.findOne({
+    _id: new mongoose.Types.ObjectId(challengeId),
+    userId: new mongoose.Types.ObjectId(userId),
+  })
+
+  if (!challenge) {
+    throw new NotFoundError('Desafio de reintrodução')
+  }
+
+  return challenge
+}
+
+/**
+ * Link diary entries to each dose day and update day/challenge status
+ * Meals are linked when they contain the test food (or any meal when the
+ * challenge has no catalog food), symptoms by date.
+ */
+async function refreshChallenge(challenge: IReintroductionChallenge): Promise<void> {
+  if (!ACTIVE_STATUSES.includes(challenge.status)) return
+
+  const firstDay = challenge.days[0].date
+  const lastDay = challenge.days[challenge.days.length - 1].date
+
+  const entries = await DiaryEntry.find({
+    userId: challenge.userId,
+    date: {
+      $gte: new Date(`${firstDay}T00:00:00.000Z`),
+      $lte: new Date(`${lastDay}T23:59:59.999Z`),
+    },
+  })
+    .select('type date meal.foods symptom.intensity')
+    .lean()
+    .exec()
+
+  let reactionDate: string | null = null
+
+  for (const day of challenge.days) {
+    const dayEntries = entries.filter((e) => e.date.toISOString().split('T')[0] === day.date)
+
+    const meals = dayEntries.filter(
+      (e) =>
+        e.type === 'meal' &&
+        (challenge.foodId == null || e.meal?.foods.some((f) => f.foodId === challenge.foodId)),
+    )
+    const symptoms = dayEntries.filter((e) => e.type === 'symptom')
+
+    day.mealEntryIds = meals.map((e) => e._id)
+    day.symptomEntryIds = symptoms.map((e) => e._id)
+    day.maxSymptomIntensity = symptoms.reduce(
+      (max, e) => Math.max(max, e.symptom?.intensity || 0),
+      0,
+    )
+
+    // Escalation stops after a reaction: remaining doses are skipped
+    if (reactionDate) {
+      day.status = 'skipped'
+    } else if (meals.length > 0 && day.maxSymptomIntensity >= REACTION_INTENSITY) {
+      day.status = 'reaction'
+      reactionDate = day.date
+    } else {
+      day.status = meals.length > 0 ? 'logged' : 'pending'
+    }
+  }
+
+  // Washout starts after the last dose (or right after a reaction)
+  const lastDoseDate = reactionDate || lastDay
+  challenge.washoutEndDate = addDays(lastDoseDate, challenge.washoutDays)
+
+  const today = getToday()
+  if (today < challenge.startDate) {
+    challenge.status = 'planned'
+  } else if (today <= lastDoseDate && !reactionDate) {
+    challenge.status = 'in_progress'
+  } else {
+    challenge.status = 'washout'
+  }
+
+  if (challenge.isModified()) {
+    await challenge.save()
+  }
+}
+
+/**
+ * Compute the tolerance verdict from the dose days
+ */
+function computeVerdict(days: IChallengeDay[]): {
+  verdict: ToleranceVerdict
+  maxToleratedDose: ReintroductionDose | null
+} {
+  const dosed = days.filter((d) => d.status === 'logged' || d.status === 'reaction')
+  if (dosed.length === 0) {
+    throw new ValidationError(
+      'Nenhuma refeição com o alimento teste foi registrada nos dias do desafio',
+    )
+  }
+
+  const reactionDay = days.find((d) => d.status === 'reaction')
+
+  if (!reactionDay) {
+    const highest = dosed[dosed.length - 1]
+    return {
+      verdict: highest.dose === 'high' ? 'tolerated' : 'partially_tolerated',
+      maxToleratedDose: highest.dose,
+    }
+  }
+
+  // Only doses actually eaten without a reaction count as tolerated
+  // (a skipped day before the reaction proves nothing)
+  const lastTolerated = dosed
+    .filter((d) => d.status === 'logged' && d.dayNumber < reactionDay.dayNumber)
+    .pop()
+  if (!lastTolerated) {
+    return { verdict: 'not_tolerated', maxToleratedDose: null }
+  }
+
+  return {
+    verdict: 'partially_tolerated',
+    maxToleratedDose: lastTolerated.dose,
+  }
+}
+
+// =============================================================================
+// Service Functions
+// =============================================================================
+
+/**
+ * List FODMAP groups with suggested foods and doses
+ */
+export function getGroups(): FodmapGroupDefinition[] {
+  return FODMAP_GROUPS.map((group) => FODMAP_GROUP_DEFINITIONS[group])
+}
+
+/**
+ * List the user's challenges (most recent first)
+ */
+export async function getChallenges(userId: string) {
+  const challenges = await ReintroductionChallenge.find({
+    userId: new mongoose.Types.ObjectId(userId),
+  }).sort({ createdAt: -1 })
+
+  for (const challenge of challenges) {
+    await refreshChallenge(challenge)
+  }
+
+  return challenges.map(formatChallenge)
+}
+
+/**
+ * Get a challenge with its linked diary entries
+ */
+export async function getChallengeById(userId: string, challengeId: string) {
+  const challenge = await findUserChallenge(userId, challengeId)
+  await refreshChallenge(challenge)
+  return formatChallenge(challenge)
+}
+
+/**
+ * Schedule a new challenge (only one active at a time)
+ */
+export async function createChallenge(userId: string, data: CreateChallengeData) {
+  const userObjectId = new mongoose.Types.ObjectId(userId)
+
+  const user = await User.findById(userObjectId)
+  if (!user) {
+    throw new NotFoundError('Usuário')
+  }
+
+  const active = await ReintroductionChallenge.exists({
+    userId: userObjectId,
+    status: { $in: ACTIVE_STATUSES },
+  })
+  if (active) {
+    throw new ConflictError(
+      'Já existe um desafio de reintrodução em andamento. Conclua ou cancele antes de iniciar outro.',
+    )
+  }
+
+  if (data.startDate < getToday()) {
+    throw new ValidationError('A data de início não pode estar no passado')
+  }
+
+  const definition = FODMAP_GROUP_DEFINITIONS[data.group]
+
+  // Test food: catalog food when provided, otherwise the suggested one
+  let foodName = data.foodName || definition.testFood
+  if (data.foodId !== undefined) {
+    const food = await Food.findOne({ id: data.foodId }).select('name').lean()
+    if (!food) {
+      throw new NotFoundError('Alimento')
+    }
+    foodName = data.foodName || food.name
+  }
+
+  const washoutDays = data.washoutDays ?? DEFAULT_WASHOUT_DAYS
+  const days = definition.doses.map((dose, index) => ({
+    dayNumber: index + 1,
+    date: addDays(data.startDate, index),
+    ...dose,
+    status: 'pending' as const,
+    mealEntryIds: [],
+    symptomEntryIds: [],
+    maxSymptomIntensity: 0,
+  }))
+
+  const challenge = await ReintroductionChallenge.create({
+    userId: userObjectId,
+    group: data.group,
+    foodId: data.foodId,
+    foodName,
+    status: data.startDate === getToday() ? 'in_progress' : 'planned',
+    startDate: data.startDate,
+    washoutDays,
+    washoutEndDate: addDays(days[days.length - 1].date, washoutDays),
+    days,
+  })
+
+  // Starting a challenge moves the user to the reintroduction phase
+  if (user.preferences?.fodmapPhase === 'elimination') {
+    user.preferences.fodmapPhase = 'reintroduction'
+    await user.save()
+  }
+
+  return formatChallenge(challenge)
+}
+
+/**
+ * Finish a challenge: compute the verdict and save it to the user's profile
+ */
+export async function completeChallenge(userId: string, challengeId: string, notes?: string) {
+  const challenge = await findUserChallenge(userId, challengeId)
+
+  if (!ACTIVE_STATUSES.includes(challenge.status)) {
+    throw new ValidationError('Este desafio já foi encerrado')
+  }
+
+  await refreshChallenge(challenge)
+
+  const { verdict, maxToleratedDose } = computeVerdict(challenge.days)
+
+  challenge.verdict = verdict
+  challenge.maxToleratedDose = maxToleratedDose
+  challenge.status = 'completed'
+  challenge.completedAt = new Date()
+  if (notes !== undefined) challenge.notes = notes
+  await challenge.save()
+
+  // Replace the previous result for this group in the user's profile
+  const tolerance: FodmapTolerance = {
+    group: challenge.group,
+    verdict,
+    maxToleratedDose,
+    challengeId: challenge._id.toString(),
+    testedAt: challenge.completedAt,
+  }
+
+  await User.updateOne(
+    { _id: challenge.userId },
+    { $pull: { fodmapTolerances: { group: challenge.group } } },
+  )
+  await User.updateOne({ _id: challenge.userId }, { $push: { fodmapTolerances: tolerance } })
+
+  return formatChallenge(challenge)
+}
+
+/**
+ * Cancel an active challenge
+ */
+export async function cancelChallenge(userId: string, challengeId: string) {
+  const challenge = await findUserChallenge(userId, challengeId)
+
+  if (!ACTIVE_STATUSES.includes(challenge.status)) {
+    throw new ValidationError('Este desafio já foi encerrado')
+  }
+
+  challenge.status = 'cancelled'
+  await challenge.save()
+
+  return formatChallenge(challenge)
+}
+
+/**
+ * Get tolerance results for every FODMAP group (untested groups have no verdict)
+ */
+export async function getTolerances(userId: string) {
+  const user = await User.findById(userId).select('fodmapTolerances').lean()
+  if (!user) {
+    throw new NotFoundError('Usuário')
+  }
+
+  const byGroup = new Map((user.fodmapTolerances || []).map((t) => [t.group, t]))
+
+  return getGroups().map((group) => {
+    const tolerance = byGroup.get(group.id)
+    return {
+      group: group.id,
+      groupName: group.name,
+      verdict: tolerance?.verdict ?? null,
+      maxToleratedDose: tolerance?.maxToleratedDose ?? null,
+      challengeId: tolerance?.challengeId ?? null,
+      testedAt: tolerance?.testedAt ? new Date(tolerance.testedAt).toISOString() : null,
+    }
+  })
+}
@@ -0,0 +1,318 @@
+/**
+ * Clinical Report - HTML Renderer
+ *
+ * Self-contained printable page (inline CSS, SVG charts, no scripts),
+ * meant to be opened in the browser and printed / saved as PDF.
+ */
+
+import { type ReportStrings, formatReportDate, getReportStrings } from './report-i18n'
+import type { ClinicalReportData } from './reports.service'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '').replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+}
+
+function formatNumber(value: number, language: string): string {
+  return value.toLocaleString(language, { maximumFractionDigits: 1 })
+}
+
+interface BarItem {
+  label: string
+  value: number
+  display: string
+}
+
+/**
+ * Horizontal bar chart (one row per item)
+ */
+function horizontalBars(items: BarItem[], max: number, color: string): string {
+  const rowHeight = 22
+  const labelWidth = 140
+  const barWidth = 380
+  const height = items.length * rowHeight + 4
+
+  const rows = items
+    .map((item, i) => {
+      const y = i * rowHeight + 2
+      const width = max > 0 ? Math.max((item.value / max) * barWidth, item.value > 0 ? 2 : 0) : 0
+      return [
+        `<text x="${labelWidth - 8}" y="${y + 15}" text-anchor="end">${escapeHtml(item.label)}</text>`,
+        `<rect x="${labelWidth}" y="${y + 3}" width="${width.toFixed(1)}" height="${rowHeight - 6}" rx="3" fill="${color}"/>`,
+        `<text x="${labelWidth + width + 6}" y="${y + 15}">${escapeHtml(item.display)}</text>`,
+      ].join('')
+    })
+    .join('')
+
+  return `<svg class="chart" viewBox="0 0 ${labelWidth + barWidth + 60} ${height}" role="img">${rows}</svg>`
+}
+
+/**
+ * Vertical bar chart of symptoms per day
+ */
+function dailyBars(data: ClinicalReportData): string {
+  const { trends } = data.symptoms
+  const width = 580
+  const height = 120
+  const max = Math.max(...trends.map((t) => t.count), 1)
+  const slot = width / trends.length
+  const barWidth = Math.max(slot - 2, 1)
+
+  const bars = trends
+    .map((trend, i) => {
+      const barHeight = (trend.count / max) * (height - 20)
+      const title = `${formatReportDate(trend.date, data.language)}: ${trend.count}`
+      return `<rect x="${(i * slot + 1).toFixed(1)}" y="${(height - 14 - barHeight).toFixed(1)}" width="${barWidth.toFixed(1)}" height="${barHeight.toFixed(1)}" fill="#e07a5f"><title>${escapeHtml(title)}</title></rect>`
+    })
+    .join('')
+
+  const first = trends[0]
+  const last = trends[trends.length - 1]
+  const axis = [
+    `<line x1="0" y1="${height - 14}" x2="${width}" y2="${height - 14}" stroke="#999"/>`,
+    `<text x="0" y="${height - 2}">${escapeHtml(formatReportDate(first.date, data.language))}</text>`,
+    `<text x="${width}" y="${height - 2}" text-anchor="end">${escapeHtml(formatReportDate(last.date, data.language))}</text>`,
+    `<text x="0" y="10">max ${max}</text>`,
+  ].join('')
+
+  return `<svg class="chart" viewBox="0 0 ${width} ${height}" role="img">${bars}${axis}</svg>`
+}
+
+// =============================================================================
+// Sections
+// =============================================================================
+
+function renderHeader(data: ClinicalReportData, s: ReportStrings): string {
+  const { period, language } = data
+  return `
+<header>
+  <h1>${escapeHtml(s.title)}</h1>
+  <p class="subtitle">${escapeHtml(s.subtitle)}</p>
+  <dl>
+    <dt>${escapeHtml(s.patient)}</dt><dd>${escapeHtml(data.patient.name)} &lt;${escapeHtml(data.patient.email)}&gt;</dd>
+    <dt>${escapeHtml(s.period)}</dt><dd>${escapeHtml(formatReportDate(period.from, language))} – ${escapeHtml(formatReportDate(period.to, language))}</dd>
+    <dt>${escapeHtml(s.generatedAt)}</dt><dd>${escapeHtml(data.generatedAt.toLocaleString(language))}</dd>
+    <dt>${escapeHtml(s.fodmapPhase)}</dt><dd>${escapeHtml(s.phases[data.fodmapPhase])}</dd>
+  </dl>
+</header>`
+}
+
+function renderTolerances(data: ClinicalReportData, s: ReportStrings): string {
+  if (data.tolerances.length === 0) return ''
+
+  const items = data.tolerances
+    .map((t) => {
+      const dose = t.maxToleratedDose ? ` (${s.maxDose}: ${s.doses[t.maxToleratedDose]})` : ''
+      return `<li><strong>${escapeHtml(s.groups[t.group])}</strong>: ${escapeHtml(s.verdicts[t.verdict] + dose)}</li>`
+    })
+    .join('')
+
+  return `<h3>${escapeHtml(s.tolerances)}</h3><ul>${items}</ul>`
+}
+
+function renderSymptoms(data: ClinicalReportData, s: ReportStrings): string {
+  const { symptoms, language } = data
+
+  let charts = `<p class="empty">${escapeHtml(s.none)}</p>`
+  if (symptoms.totalSymptoms > 0) {
+    const frequency = horizontalBars(
+      symptoms.mostFrequent.map((item) => ({
+        label: s.symptoms[item.type],
+        value: item.count,
+        display: `${item.count} ${s.occurrences}`,
+      })),
+      Math.max(...symptoms.mostFrequent.map((item) => item.count)),
+      '#3d5a80',
+    )
+    const intensity = horizontalBars(
+      symptoms.mostFrequent.map((item) => ({
+        label: s.symptoms[item.type],
+        value: item.avgIntensity,
+        display: formatNumber(item.avgIntensity, language),
+      })),
+      5,
+      '#e07a5f',
+    )
+
+    charts = `
+  <h3>${escapeHtml(s.frequencyChart)}</h3>${frequency}
+  <h3>${escapeHtml(s.intensityChart)}</h3>${intensity}
+  <h3>${escapeHtml(s.dailyChart)}</h3>${dailyBars(data)}`
+  }
+
+  return `
+<section>
+  <h2>${escapeHtml(s.symptomsSection)}</h2>
+  <div class="stats">
+    <div><span>${symptoms.totalSymptoms}</span>${escapeHtml(s.totalSymptoms)}</div>
+    <div><span>${escapeHtml(formatNumber(symptoms.avgIntensity, language))}</span>${escapeHtml(s.avgIntensity)}</div>
+  </div>
+  ${charts}
+</section>`
+}
+
+function renderProblematicFoods(data: ClinicalReportData, s: ReportStrings): string {
+  if (data.problematicFoods.length === 0) {
+    return `<section><h2>${escapeHtml(s.problematicSection)}</h2><p class="empty">${escapeHtml(s.none)}</p></section>`
+  }
+
+  const rows = data.problematicFoods
+    .map((food) => {
+      const incidents = food.incidents
+        .map(
+          (incident) =>
+            `<li>${escapeHtml(formatReportDate(incident.date, data.language))} – ${escapeHtml(incident.symptomTypes.map((type) => s.symptoms[type]).join(', '))} (${escapeHtml(s.intensity.toLowerCase())} ${incident.intensity}/5)${incident.notes ? ` – ${escapeHtml(incident.notes)}` : ''}</li>`,
+        )
+        .join('')
+
+      return `
+    <tr>
+      <td><strong>${escapeHtml(food.foodName)}</strong>${incidents ? `<ul class="incidents">${incidents}</ul>` : ''}</td>
+      <td><span class="badge ${food.status}">${escapeHtml(s.statuses[food.status])}</span></td>
+      <td class="num">${food.totalIncidents}</td>
+      <td>${escapeHtml(food.lastIncident ? formatReportDate(food.lastIncident, data.language) : '-')}</td>
+    </tr>`
+    })
+    .join('')
+
+  return `
+<section>
+  <h2>${escapeHtml(s.problematicSection)}</h2>
+  <table>
+    <thead><tr><th>${escapeHtml(s.food)}</th><th>${escapeHtml(s.status)}</th><th>${escapeHtml(s.incidents)}</th><th>${escapeHtml(s.lastIncident)}</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</section>`
+}
+
+function renderDiscoveries(data: ClinicalReportData, s: ReportStrings): string {
+  const items = data.discoveries
+    .map(
+      (d) =>
+        `<li><strong>${escapeHtml(d.title)}</strong> <em>(${escapeHtml(s.confidence[d.confidence])})</em><br>${escapeHtml(d.description)}</li>`,
+    )
+    .join('')
+
+  return `
+<section>
+  <h2>${escapeHtml(s.discoveriesSection)}</h2>
+  ${items ? `<ul>${items}</ul>` : `<p class="empty">${escapeHtml(s.none)}</p>`}
+  ${renderTolerances(data, s)}
+</section>`
+}
+
+function renderMeals(data: ClinicalReportData, s: ReportStrings): string {
+  if (data.meals.length === 0) {
+    return `<section class="break"><h2>${escapeHtml(s.mealsSection)}</h2><p class="empty">${escapeHtml(s.none)}</p></section>`
+  }
+
+  const rows = data.meals
+    .map((meal) => {
+      const foods = meal.foods
+        .map((food) => {
+          const portion = food.portion ? ` (${escapeHtml(food.portion)})` : ''
+          const bad = food.markedAsBad
+            ? ` <span class="bad" title="${escapeHtml(s.markedAsBad)}">⚠</span>`
+            : ''
+          return `${escapeHtml(food.foodName)}${portion}${bad}`
+        })
+        .join(', ')
+
+      return `
+    <tr>
+      <td>${escapeHtml(formatReportDate(meal.date, data.language))}</td>
+      <td>${escapeHtml(meal.time)}</td>
+      <td>${escapeHtml(s.mealTypes[meal.type])}</td>
+      <td>${foods}</td>
+      <td>${escapeHtml(meal.notes || '')}</td>
+    </tr>`
+    })
+    .join('')
+
+  return `
+<section class="break">
+  <h2>${escapeHtml(s.mealsSection)}</h2>
+  <table>
+    <thead><tr><th>${escapeHtml(s.date)}</th><th>${escapeHtml(s.time)}</th><th>${escapeHtml(s.meal)}</th><th>${escapeHtml(s.foods)}</th><th>${escapeHtml(s.notes)}</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+  <p class="legend">⚠ ${escapeHtml(s.markedAsBad)}</p>
+</section>`
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, "Segoe UI", Roboto, Arial, sans-serif; color: #222; max-width: 900px; margin: 24px auto; padding: 0 16px; font-size: 13px; }
+  h1 { margin: 0; color: #3d5a80; }
+  h2 { border-bottom: 2px solid #3d5a80; padding-bottom: 4px; margin-top: 28px; color: #3d5a80; }
+  h3 { font-size: 14px; margin: 18px 0 6px; }
+  .subtitle { margin: 2px 0 12px; color: #666; }
+  dl { display: grid; grid-template-columns: max-content auto; gap: 4px 12px; margin: 0; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  .stats { display: flex; gap: 16px; }
+  .stats div { border: 1px solid #ddd; border-radius: 6px; padding: 8px 14px; }
+  .stats span { display: block; font-size: 22px; font-weight: 700; color: #3d5a80; }
+  .chart { width: 100%; max-width: 640px; font-size: 11px; fill: #333; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #e2e2e2; padding: 5px 6px; text-align: left; vertical-align: top; }
+  th { background: #f3f5f8; }
+  td.num { text-align: right; }
+  ul.incidents { margin: 4px 0 0; padding-left: 18px; color: #555; font-size: 12px; }
+  .badge { padding: 1px 8px; border-radius: 10px; font-size: 11px; }
+  .badge.confirmed { background: #fbe3dc; color: #a23b1f; }
+  .badge.suspected { background: #fdf1d6; color: #8a6100; }
+  .bad { color: #c0392b; }
+  .empty, .legend { color: #777; font-style: italic; }
+  footer { margin-top: 32px; font-size: 11px; color: #777; border-top: 1px solid #ddd; padding-top: 8px; }
+  tr { page-break-inside: avoid; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    .break { page-break-before: always; }
+  }
+`
+
+// =============================================================================
+// Render
+// =============================================================================
+
+/**
+ * Render the clinical report as a standalone HTML document
+ */
+export function renderClinicalReportHtml(data: ClinicalReportData): string {
+  const s = getReportStrings(data.language)
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(data.language)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(s.title)} - ${escapeHtml(data.patient.name)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${renderHeader(data, s)}
+${renderSymptoms(data, s)}
+${renderProblematicFoods(data, s)}
+${renderDiscoveries(data, s)}
+${renderMeals(data, s)}
+<footer>${escapeHtml(s.disclaimer)}</footer>
+</body>
+</html>
+`
+}
@@ -0,0 +1,439 @@
+/**
+ * Clinical Report - PDF Renderer
+ *
+ * Same sections as the HTML version, drawn with PDFKit
+ * (standard Helvetica fonts, bar charts as rectangles).
+ */
+
+import PDFDocument from 'pdfkit'
+import { type ReportStrings, formatReportDate, getReportStrings } from './report-i18n'
+import type { ClinicalReportData } from './reports.service'
+
+type Doc = PDFKit.PDFDocument
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+const MARGIN = 48
+const PAGE_WIDTH = 595.28 // A4
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+const COLORS = {
+  primary: '#3d5a80',
+  accent: '#e07a5f',
+  text: '#222222',
+  muted: '#777777',
+  line: '#dddddd',
+}
+
+interface Column {
+  header: string
+  width: number
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function formatNumber(value: number, language: string): string {
+  return value.toLocaleString(language, { maximumFractionDigits: 1 })
+}
+
+/**
+ * Start a new page when less than `height` points are left
+ */
+function ensureSpace(doc: Doc, height: number): void {
+  if (doc.y + height > doc.page.height - MARGIN) {
+    doc.addPage()
+  }
+}
+
+function sectionTitle(doc: Doc, title: string): void {
+  ensureSpace(doc, 60)
+  doc.moveDown(1)
+  doc.font('Helvetica-Bold').fontSize(14).fillColor(COLORS.primary).text(title, MARGIN)
+  const y = doc.y + 2
+  doc
+    .moveTo(MARGIN, y)
+    .lineTo(MARGIN + CONTENT_WIDTH, y)
+    .lineWidth(1.5)
+    .stroke(COLORS.primary)
+  doc.moveDown(0.6)
+  doc.font('Helvetica').fontSize(10).fillColor(COLORS.text)
+}
+
+function subTitle(doc: Doc, title: string): void {
+  ensureSpace(doc, 40)
+  doc.moveDown(0.5)
+  doc.font('Helvetica-Bold').fontSize(11).fillColor(COLORS.text).text(title, MARGIN)
+  doc.moveDown(0.3)
+  doc.font('Helvetica').fontSize(10)
+}
+
+function emptyNote(doc: Doc, s: ReportStrings): void {
+  doc.font('Helvetica-Oblique').fontSize(10).fillColor(COLORS.muted).text(s.none, MARGIN)
+  doc.font('Helvetica').fillColor(COLORS.text)
+}
+
+/**
+ * Horizontal bar chart (one row per item)
+ */
+function horizontalBars(
+  doc: Doc,
+  items: { label: string; value: number; display: string }[],
+  max: number,
+  color: string,
+): void {
+  const rowHeight = 16
+  const labelWidth = 120
+  const barWidth = CONTENT_WIDTH - labelWidth - 90
+
+  doc.fontSize(9)
+  for (const item of items) {
+    ensureSpace(doc, rowHeight)
+    const y = doc.y
+    const width = max > 0 ? Math.max((item.value / max) * barWidth, item.value > 0 ? 2 : 0) : 0
+
+    doc.fillColor(COLORS.text).text(item.label, MARGIN, y + 3, {
+      width: labelWidth - 8,
+      align: 'right',
+      lineBreak: false,
+    })
+    doc.rect(MARGIN + labelWidth, y + 2, width, rowHeight - 5).fill(color)
+    doc.fillColor(COLORS.text).text(item.display, MARGIN + labelWidth + width + 6, y + 3, {
+      lineBreak: false,
+    })
+    doc.x = MARGIN
+    doc.y = y + rowHeight
+  }
+  doc.fontSize(10)
+}
+
+/**
+ * Vertical bar chart of symptoms per day
+ */
+function dailyBars(doc: Doc, data: ClinicalReportData): void {
+  const { trends } = data.symptoms
+  const height = 90
+  ensureSpace(doc, height + 20)
+
+  const top = doc.y
+  const max = Math.max(...trends.map((t) => t.count), 1)
+  const slot = CONTENT_WIDTH / trends.length
+  const barWidth = Math.max(slot - 1, 0.5)
+
+  trends.forEach((trend, i) => {
+    const barHeight = (trend.count / max) * (height - 12)
+    if (barHeight > 0) {
+      doc.rect(MARGIN + i * slot, top + height - barHeight, barWidth, barHeight).fill(COLORS.accent)
+    }
+  })
+
+  doc
+    .moveTo(MARGIN, top + height)
+    .lineTo(MARGIN + CONTENT_WIDTH, top + height)
+    .lineWidth(0.5)
+    .stroke(COLORS.muted)
+
+  doc.fontSize(8).fillColor(COLORS.muted)
+  doc.text(`max ${max}`, MARGIN, top, { lineBreak: false })
+  doc.text(formatReportDate(trends[0].date, data.language), MARGIN, top + height + 3, {
+    lineBreak: false,
+  })
+  doc.text(
+    formatReportDate(trends[trends.length - 1].date, data.language),
+    MARGIN,
+    top + height + 3,
+    {
+      width: CONTENT_WIDTH,
+      align: 'right',
+    },
+  )
+  doc.x = MARGIN
+  doc.fontSize(10).fillColor(COLORS.text)
+}
+
+/**
+ * Simple table; rows wrap and the header is repeated after page breaks
+ */
+function table(doc: Doc, columns: Column[], rows: string[][]): void {
+  const padding = 4
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9)
+    const height =
+      Math.max(
+        ...cells.map((cell, i) =>
+          doc.heightOfString(cell, { width: columns[i].width - padding * 2 }),
+        ),
+      ) +
+      padding * 2
+
+    const y = doc.y
+    let x = MARGIN
+    if (bold) {
+      doc.rect(MARGIN, y, CONTENT_WIDTH, height).fill('#f3f5f8')
+    }
+    cells.forEach((cell, i) => {
+      doc.fillColor(COLORS.text).text(cell, x + padding, y + padding, {
+        width: columns[i].width - padding * 2,
+      })
+      x += columns[i].width
+    })
+    doc
+      .moveTo(MARGIN, y + height)
+      .lineTo(MARGIN + CONTENT_WIDTH, y + height)
+      .lineWidth(0.5)
+      .stroke(COLORS.line)
+    doc.x = MARGIN
+    doc.y = y + height
+    return height
+  }
+
+  const headers = columns.map((c) => c.header)
+  ensureSpace(doc, 40)
+  drawRow(headers, true)
+
+  for (const row of rows) {
+    doc.font('Helvetica').fontSize(9)
+    const estimate =
+      Math.max(...row.map((cell, i) => doc.heightOfString(cell, { width: columns[i].width - 8 }))) +
+      8
+    if (doc.y + estimate > doc.page.height - MARGIN) {
+      doc.addPage()
+      drawRow(headers, true)
+    }
+    drawRow(row, false)
+  }
+
+  doc.font('Helvetica').fontSize(10)
+}
+
+// =============================================================================
+// Sections
+// =============================================================================
+
+function renderHeader(doc: Doc, data: ClinicalReportData, s: ReportStrings): void {
+  const { period, language } = data
+
+  doc.font('Helvetica-Bold').fontSize(20).fillColor(COLORS.primary).text(s.title)
+  doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted).text(s.subtitle)
+  doc.moveDown(0.8)
+
+  const lines: [string, string][] = [
+    [s.patient, `${data.patient.name} <${data.patient.email}>`],
+    [
+      s.period,
+      `${formatReportDate(period.from, language)} – ${formatReportDate(period.to, language)}`,
+    ],
+    [s.generatedAt, data.generatedAt.toLocaleString(language)],
+    [s.fodmapPhase, s.phases[data.fodmapPhase]],
+  ]
+  for (const [label, value] of lines) {
+    doc.font('Helvetica-Bold').fillColor(COLORS.text).text(`${label}: `, { continued: true })
+    doc.font('Helvetica').text(value)
+  }
+}
+
+function renderSymptoms(doc: Doc, data: ClinicalReportData, s: ReportStrings): void {
+  const { symptoms, language } = data
+
+  sectionTitle(doc, s.symptomsSection)
+  doc.text(`${s.totalSymptoms}: ${symptoms.totalSymptoms}`)
+  doc.text(`${s.avgIntensity}: ${formatNumber(symptoms.avgIntensity, language)}`)
+
+  if (symptoms.totalSymptoms === 0) {
+    doc.moveDown(0.5)
+    emptyNote(doc, s)
+    return
+  }
+
+  subTitle(doc, s.frequencyChart)
+  horizontalBars(
+    doc,
+    symptoms.mostFrequent.map((item) => ({
+      label: s.symptoms[item.type],
+      value: item.count,
+      display: `${item.count} ${s.occurrences}`,
+    })),
+    Math.max(...symptoms.mostFrequent.map((item) => item.count)),
+    COLORS.primary,
+  )
+
+  subTitle(doc, s.intensityChart)
+  horizontalBars(
+    doc,
+    symptoms.mostFrequent.map((item) => ({
+      label: s.symptoms[item.type],
+      value: item.avgIntensity,
+      display: formatNumber(item.avgIntensity, language),
+    })),
+    5,
+    COLORS.accent,
+  )
+
+  subTitle(doc, s.dailyChart)
+  dailyBars(doc, data)
+}
+
+function renderProblematicFoods(doc: Doc, data: ClinicalReportData, s: ReportStrings): void {
+  sectionTitle(doc, s.problematicSection)
+
+  if (data.problematicFoods.length === 0) {
+    emptyNote(doc, s)
+    return
+  }
+
+  const rows = data.problematicFoods.map((food) => {
+    const incidents = food.incidents.map((incident) => {
+      const types = incident.symptomTypes.map((type) => s.symptoms[type]).join(', ')
+      const notes = incident.notes ? ` – ${incident.notes}` : ''
+      return `• ${formatReportDate(incident.date, data.language)} – ${types} (${s.intensity.toLowerCase()} ${incident.intensity}/5)${notes}`
+    })
+
+    return [
+      [food.foodName, ...incidents].join('\n'),
+      s.statuses[food.status],
+      String(food.totalIncidents),
+      food.lastIncident ? formatReportDate(food.lastIncident, data.language) : '-',
+    ]
+  })
+
+  table(
+    doc,
+    [
+      { header: s.food, width: CONTENT_WIDTH - 250 },
+      { header: s.status, width: 80 },
+      { header: s.incidents, width: 70 },
+      { header: s.lastIncident, width: 100 },
+    ],
+    rows,
+  )
+}
+
+function renderDiscoveries(doc: Doc, data: ClinicalReportData, s: ReportStrings): void {
+  sectionTitle(doc, s.discoveriesSection)
+
+  if (data.discoveries.length === 0) {
+    emptyNote(doc, s)
+  }
+
+  for (const discovery of data.discoveries) {
+    ensureSpace(doc, 40)
+    doc.font('Helvetica-Bold').text(discovery.title, { continued: true })
+    doc
+      .font('Helvetica-Oblique')
+      .fillColor(COLORS.muted)
+      .text(` (${s.confidence[discovery.confidence]})`)
+    doc.font('Helvetica').fillColor(COLORS.text).text(discovery.description)
+    doc.moveDown(0.4)
+  }
+
+  if (data.tolerances.length > 0) {
+    subTitle(doc, s.tolerances)
+    for (const tolerance of data.tolerances) {
+      const dose = tolerance.maxToleratedDose
+        ? ` (${s.maxDose}: ${s.doses[tolerance.maxToleratedDose]})`
+        : ''
+      doc.font('Helvetica-Bold').text(`${s.groups[tolerance.group]}: `, { continued: true })
+      doc.font('Helvetica').text(`${s.verdicts[tolerance.verdict]}${dose}`)
+    }
+  }
+}
+
+function renderMeals(doc: Doc, data: ClinicalReportData, s: ReportStrings): void {
+  doc.addPage()
+  sectionTitle(doc, s.mealsSection)
+
+  if (data.meals.length === 0) {
+    emptyNote(doc, s)
+    return
+  }
+
+  const rows = data.meals.map((meal) => [
+    formatReportDate(meal.date, data.language),
+    meal.time,
+    s.mealTypes[meal.type],
+    meal.foods
+      .map(
+        (food) =>
+          `${food.foodName}${food.portion ? ` (${food.portion})` : ''}${food.markedAsBad ? ' *' : ''}`,
+      )
+      .join(', '),
+    meal.notes || '',
+  ])
+
+  table(
+    doc,
+    [
+      { header: s.date, width: 62 },
+      { header: s.time, width: 40 },
+      { header: s.meal, width: 75 },
+      { header: s.foods, width: CONTENT_WIDTH - 297 },
+      { header: s.notes, width: 120 },
+    ],
+    rows,
+  )
+
+  doc.moveDown(0.5)
+  doc.font('Helvetica-Oblique').fontSize(9).fillColor(COLORS.muted).text(`* ${s.markedAsBad}`)
+}
+
+// =============================================================================
+// Render
+// =============================================================================
+
+/**
+ * Render the clinical report as an A4 PDF
+ */
+export function renderClinicalReportPdf(data: ClinicalReportData): Promise<Buffer> {
+  const s = getReportStrings(data.language)
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    info: {
+      Title: `${s.title} - ${data.patient.name}`,
+      Author: 'Ceboelha',
+    },
+  })
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+
+    renderHeader(doc, data, s)
+    renderSymptoms(doc, data, s)
+    renderProblematicFoods(doc, data, s)
+    renderDiscoveries(doc, data, s)
+    renderMeals(doc, data, s)
+
+    // Footer with disclaimer and page numbers on every page
+    const range = doc.bufferedPageRange()
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i)
+      const bottom = doc.page.margins.bottom
+      doc.page.margins.bottom = 0
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .fillColor(COLORS.muted)
+        .text(s.disclaimer, MARGIN, doc.page.height - 36, {
+          width: CONTENT_WIDTH - 40,
+          lineBreak: false,
+        })
+        .text(`${i + 1}/${range.count}`, MARGIN, doc.page.height - 36, {
+          width: CONTENT_WIDTH,
+          align: 'right',
+          lineBreak: false,
+        })
+      doc.page.margins.bottom = bottom
+    }
+
+    doc.end()
+  })
+}
@@ -0,0 +1,7 @@
+/**
+ * Reports Module - Public Exports
+ */
+
+export { reportsController } from './reports.controller'
+export * from './reports.service'
+export * from './reports.schemas'
@@ -0,0 +1,356 @@
+/**
+ * Report Translations - pt-BR / en
+ *
+ * Labels used by the clinical report renderers (HTML and PDF),
+ * picked from UserPreferences.language.
+ */
+
+import type { DetectedDiscovery, DiscoveryType } from '@/modules/insights/insights.service'
+import type {
+  FodmapGroup,
+  FodmapPhase,
+  Language,
+  MealType,
+  ProblematicFoodStatus,
+  ReintroductionDose,
+  SymptomType,
+  ToleranceVerdict,
+} from '@/shared/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ReportStrings {
+  title: string
+  subtitle: string
+  patient: string
+  period: string
+  generatedAt: string
+  fodmapPhase: string
+  phases: Record<FodmapPhase, string>
+  tolerances: string
+  groups: Record<FodmapGroup, string>
+  verdicts: Record<ToleranceVerdict, string>
+  maxDose: string
+  doses: Record<ReintroductionDose, string>
+  symptomsSection: string
+  totalSymptoms: string
+  avgIntensity: string
+  frequencyChart: string
+  intensityChart: string
+  dailyChart: string
+  occurrences: string
+  symptoms: Record<SymptomType, string>
+  problematicSection: string
+  statuses: Record<ProblematicFoodStatus, string>
+  food: string
+  status: string
+  incidents: string
+  lastIncident: string
+  date: string
+  intensity: string
+  notes: string
+  discoveriesSection: string
+  confidence: Record<'high' | 'medium' | 'low', string>
+  mealsSection: string
+  time: string
+  meal: string
+  foods: string
+  mealTypes: Record<MealType, string>
+  markedAsBad: string
+  none: string
+  disclaimer: string
+}
+
+export interface ReportDiscoveryText {
+  title: string
+  description: string
+}
+
+interface DiscoveryVars {
+  foods: string[]
+  occurrences: number
+  exposures: number // Meals with the food(s)
+  risk: string // Relative risk, formatted for the language
+  timeRange: string
+}
+
+// Triggers without statistics come from the user's own problematic-food marks
+type DiscoveryKind = DiscoveryType | 'marked_trigger'
+
+type DiscoveryTemplate = (vars: DiscoveryVars) => ReportDiscoveryText
+
+// =============================================================================
+// Strings
+// =============================================================================
+
+const STRINGS: Record<Language, ReportStrings> = {
+  'pt-BR': {
+    title: 'Relatório Clínico',
+    subtitle: 'Diário alimentar e de sintomas - dieta low FODMAP',
+    patient: 'Paciente',
+    period: 'Período',
+    generatedAt: 'Gerado em',
+    fodmapPhase: 'Fase da dieta FODMAP',
+    phases: {
+      elimination: 'Eliminação',
+      reintroduction: 'Reintrodução',
+      personalization: 'Personalização',
+    },
+    tolerances: 'Resultados da reintrodução',
+    groups: {
+      fructans: 'Frutanos',
+      gos: 'GOS',
+      lactose: 'Lactose',
+      fructose: 'Frutose',
+      sorbitol: 'Sorbitol',
+      mannitol: 'Manitol',
+    },
+    verdicts: {
+      tolerated: 'Tolerado',
+      partially_tolerated: 'Parcialmente tolerado',
+      not_tolerated: 'Não tolerado',
+    },
+    maxDose: 'dose máxima tolerada',
+    doses: {
+      low: 'baixa',
+      medium: 'média',
+      high: 'alta',
+    },
+    symptomsSection: 'Sintomas',
+    totalSymptoms: 'Total de sintomas',
+    avgIntensity: 'Intensidade média (1-5)',
+    frequencyChart: 'Frequência por sintoma',
+    intensityChart: 'Intensidade média por sintoma',
+    dailyChart: 'Sintomas por dia',
+    occurrences: 'ocorrências',
+    symptoms: {
+      bloating: 'Inchaço',
+      gas: 'Gases',
+      cramps: 'Cólicas',
+      nausea: 'Náusea',
+      diarrhea: 'Diarreia',
+      constipation: 'Constipação',
+      reflux: 'Refluxo',
+      fatigue: 'Fadiga',
+      headache: 'Dor de cabeça',
+      brain_fog: 'Névoa mental',
+      other: 'Outro',
+    },
+    problematicSection: 'Alimentos problemáticos',
+    statuses: {
+      confirmed: 'Confirmado',
+      suspected: 'Suspeito',
+    },
+    food: 'Alimento',
+    status: 'Status',
+    incidents: 'Incidentes',
+    lastIncident: 'Último incidente',
+    date: 'Data',
+    intensity: 'Intensidade',
+    notes: 'Observações',
+    discoveriesSection: 'Padrões identificados',
+    confidence: {
+      high: 'Confiança alta',
+      medium: 'Confiança média',
+      low: 'Confiança baixa',
+    },
+    mealsSection: 'Registro de refeições',
+    time: 'Hora',
+    meal: 'Refeição',
+    foods: 'Alimentos',
+    mealTypes: {
+      breakfast: 'Café da manhã',
+      lunch: 'Almoço',
+      dinner: 'Jantar',
+      snack: 'Lanche',
+    },
+    markedAsBad: 'marcado como problemático',
+    none: 'Nenhum registro no período.',
+    disclaimer:
+      'Dados registrados pelo próprio paciente no aplicativo Ceboelha. Este relatório não substitui avaliação médica.',
+  },
+  en: {
+    title: 'Clinical Report',
+    subtitle: 'Food and symptom diary - low FODMAP diet',
+    patient: 'Patient',
+    period: 'Period',
+    generatedAt: 'Generated on',
+    fodmapPhase: 'FODMAP diet phase',
+    phases: {
+      elimination: 'Elimination',
+      reintroduction: 'Reintroduction',
+      personalization: 'Personalization',
+    },
+    tolerances: 'Reintroduction results',
+    groups: {
+      fructans: 'Fructans',
+      gos: 'GOS',
+      lactose: 'Lactose',
+      fructose: 'Fructose',
+      sorbitol: 'Sorbitol',
+      mannitol: 'Mannitol',
+    },
+    verdicts: {
+      tolerated: 'Tolerated',
+      partially_tolerated: 'Partially tolerated',
+      not_tolerated: 'Not tolerated',
+    },
+    maxDose: 'max tolerated dose',
+    doses: {
+      low: 'low',
+      medium: 'medium',
+      high: 'high',
+    },
+    symptomsSection: 'Symptoms',
+    totalSymptoms: 'Total symptoms',
+    avgIntensity: 'Average intensity (1-5)',
+    frequencyChart: 'Frequency by symptom',
+    intensityChart: 'Average intensity by symptom',
+    dailyChart: 'Symptoms per day',
+    occurrences: 'occurrences',
+    symptoms: {
+      bloating: 'Bloating',
+      gas: 'Gas',
+      cramps: 'Cramps',
+      nausea: 'Nausea',
+      diarrhea: 'Diarrhea',
+      constipation: 'Constipation',
+      reflux: 'Reflux',
+      fatigue: 'Fatigue',
+      headache: 'Headache',
+      brain_fog: 'Brain fog',
+      other: 'Other',
+    },
+    problematicSection: 'Problematic foods',
+    statuses: {
+      confirmed: 'Confirmed',
+      suspected: 'Suspected',
+    },
+    food: 'Food',
+    status: 'Status',
+    incidents: 'Incidents',
+    lastIncident: 'Last incident',
+    date: 'Date',
+    intensity: 'Intensity',
+    notes: 'Notes',
+    discoveriesSection: 'Identified patterns',
+    confidence: {
+      high: 'High confidence',
+      medium: 'Medium confidence',
+      low: 'Low confidence',
+    },
+    mealsSection: 'Meal log',
+    time: 'Time',
+    meal: 'Meal',
+    foods: 'Foods',
+    mealTypes: {
+      breakfast: 'Breakfast',
+      lunch: 'Lunch',
+      dinner: 'Dinner',
+      snack: 'Snack',
+    },
+    markedAsBad: 'marked as problematic',
+    none: 'No records in this period.',
+    disclaimer:
+      'Data self-reported by the patient in the Ceboelha app. This report does not replace medical evaluation.',
+  },
+}
+
+const DISCOVERY_TEMPLATES: Record<Language, Record<DiscoveryKind, DiscoveryTemplate>> = {
+  'pt-BR': {
+    trigger: (vars) => ({
+      title: `Possível gatilho: ${vars.foods[0]}`,
+      description: `Sintomas após ${vars.occurrences} de ${vars.exposures} refeições com o alimento (janela de ${vars.timeRange}), ${vars.risk}x o risco das refeições sem ele.`,
+    }),
+    marked_trigger: (vars) => ({
+      title: `Marcado como problemático: ${vars.foods[0]}`,
+      description: `Registrado pelo paciente ${vars.occurrences} vezes.`,
+    }),
+    combination: (vars) => ({
+      title: `Combinação: ${vars.foods.join(' + ')}`,
+      description: `Sintomas após ${vars.occurrences} de ${vars.exposures} refeições com os alimentos juntos, ${vars.risk}x o risco de cada um separado.`,
+    }),
+    time_pattern: (vars) => ({
+      title: `Horário dos sintomas: ${vars.timeRange}`,
+      description: `${vars.occurrences} registros de sintomas nessa faixa de horário.`,
+    }),
+    safe_food: (vars) => ({
+      title: `Bem tolerado: ${vars.foods[0]}`,
+      description: `Consumido ${vars.occurrences} vezes sem reações registradas.`,
+    }),
+  },
+  en: {
+    trigger: (vars) => ({
+      title: `Possible trigger: ${vars.foods[0]}`,
+      description: `Symptoms after ${vars.occurrences} of ${vars.exposures} meals with this food (${vars.timeRange} window), ${vars.risk}x the risk of meals without it.`,
+    }),
+    marked_trigger: (vars) => ({
+      title: `Marked as problematic: ${vars.foods[0]}`,
+      description: `Reported by the patient ${vars.occurrences} times.`,
+    }),
+    combination: (vars) => ({
+      title: `Combination: ${vars.foods.join(' + ')}`,
+      description: `Symptoms after ${vars.occurrences} of ${vars.exposures} meals with these foods together, ${vars.risk}x the risk of each one alone.`,
+    }),
+    time_pattern: (vars) => ({
+      title: `Symptom timing: ${vars.timeRange}`,
+      description: `${vars.occurrences} symptom entries in this time range.`,
+    }),
+    safe_food: (vars) => ({
+      title: `Well tolerated: ${vars.foods[0]}`,
+      description: `Eaten ${vars.occurrences} times with no reactions logged.`,
+    }),
+  },
+}
+
+// =============================================================================
+// Lookup
+// =============================================================================
+
+/**
+ * Report labels for a language (falls back to pt-BR)
+ */
+export function getReportStrings(language: Language): ReportStrings {
+  return STRINGS[language] || STRINGS['pt-BR']
+}
+
+/**
+ * Format a YYYY-MM-DD date for display (dd/mm/yyyy or yyyy-mm-dd)
+ */
+export function formatReportDate(date: string, language: Language): string {
+  if (language === 'en') return date
+  const [year, month, day] = date.split('-')
+  return `${day}/${month}/${year}`
+}
+
+/**
+ * Report text for a discovery, built from its data
+ * (the text stored by insights is informal and always pt-BR)
+ */
+export function describeDiscovery(
+  discovery: DetectedDiscovery,
+  language: Language,
+): ReportDiscoveryText {
+  const s = getReportStrings(language)
+  const { data } = discovery
+  const kind: DiscoveryKind =
+    discovery.type === 'trigger' && !data.stats ? 'marked_trigger' : discovery.type
+  const templates = DISCOVERY_TEMPLATES[language] || DISCOVERY_TEMPLATES['pt-BR']
+
+  const text = templates[kind]({
+    foods: data.foods || [],
+    occurrences: data.occurrences,
+    exposures: data.stats?.exposures ?? data.occurrences,
+    risk: (data.stats?.relativeRisk ?? 0).toLocaleString(language),
+    timeRange: data.timeRange || '',
+  })
+  if (!data.symptoms?.length) return text
+
+  const symptoms = data.symptoms.map((symptom) => s.symptoms[symptom as SymptomType] || symptom)
+  return {
+    ...text,
+    description: `${text.description} ${s.symptomsSection}: ${symptoms.join(', ').toLowerCase()}.`,
+  }
+}
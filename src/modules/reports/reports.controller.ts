@@ -0,0 +1,81 @@
+/**
+ * Reports Controller - REST Endpoints
+ *
+ * Endpoints:
+ * - GET /reports/clinical - Printable clinical report (HTML or PDF)
+ */
+
+import { requireAuth, requireFeature } from '@/shared/middlewares'
+import { Elysia } from 'elysia'
+import { renderClinicalReportHtml } from './clinical-report-html'
+import { renderClinicalReportPdf } from './clinical-report-pdf'
+import { clinicalReportQuerySchema } from './reports.schemas'
+import * as reportsService from './reports.service'
+
+// =============================================================================
+// Controller
+// =============================================================================
+
+export const reportsController = new Elysia({ prefix: '/reports' })
+  // Apply auth middleware to all routes
+  .use(requireAuth)
+  .use(requireFeature('diary_enabled'))
+
+  // ==========================================================================
+  // GET /reports/clinical - Clinical report
+  // ==========================================================================
+  .get(
+    '/clinical',
+    async ({ auth, query, set }) => {
+      const period = reportsService.resolvePeriod(query.from, query.to)
+      const data = await reportsService.getClinicalReportData(auth.userId, period)
+
+      if (query.format === 'pdf') {
+        const pdf = await renderClinicalReportPdf(data)
+        return new Response(pdf, {
+          headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `inline; filename="relatorio-clinico-${period.from}-${period.to}.pdf"`,
+            'Cache-Control': 'private, no-store',
+          },
+        })
+      }
+
+      // Inline styles and SVG only; nothing else may load
+      // (set here so the global security headers keep it)
+      set.headers['Content-Security-Policy'] = "default-src 'none'; style-src 'unsafe-inline'"
+
+      return new Response(renderClinicalReportHtml(data), {
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Cache-Control': 'private, no-store',
+        },
+      })
+    },
+    {
+      query: clinicalReportQuerySchema,
+      detail: {
+        tags: ['Reports'],
+        summary: 'Relatório clínico',
+        description: `
+          Gera um relatório para levar ao médico ou nutricionista, no idioma do usuário.
+          
+          **Conteúdo:**
+          - Fase da dieta FODMAP e resultados da reintrodução
+          - Frequência e intensidade dos sintomas (gráficos)
+          - Alimentos problemáticos confirmados e suspeitos, com incidentes do período
+          - Padrões identificados (descobertas)
+          - Registro de refeições
+          
+          **Formatos:** \`html\` (pronto para imprimir) ou \`pdf\`.
+          Período padrão: últimos 30 dias; máximo de 366 dias.
+        `,
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: 'Relatório (text/html ou application/pdf)' },
+          400: { description: 'Período inválido' },
+          401: { description: 'Não autenticado' },
+        },
+      },
+    },
+  )
@@ -0,0 +1,29 @@
+/**
+ * Reports Schemas - Elysia/TypeBox Validation
+ */
+
+import { t } from 'elysia'
+
+// =============================================================================
+// Request Schemas
+// =============================================================================
+
+export const clinicalReportQuerySchema = t.Object({
+  from: t.Optional(
+    t.String({
+      pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      description: 'Data inicial (AAAA-MM-DD, padrão: 30 dias antes de `to`)',
+    }),
+  ),
+  to: t.Optional(
+    t.String({
+      pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      description: 'Data final (AAAA-MM-DD, padrão: hoje)',
+    }),
+  ),
+  format: t.Optional(
+    t.Union([t.Literal('html'), t.Literal('pdf')], {
+      description: 'Formato do relatório (padrão: html)',
+    }),
+  ),
+})
@@ -0,0 +1,211 @@
+/**
+ * Reports Service - Clinical Report
+ *
+ * Gathers everything a health professional needs for a period:
+ * - Symptom frequency/intensity (diary getSymptomsOverview)
+ * - Meal log
+ * - Confirmed and suspected problematic foods with their incidents
+ * - FODMAP phase, reintroduction results and discoveries
+ *
+ * Rendering (HTML / PDF) lives in clinical-report-html.ts and clinical-report-pdf.ts.
+ */
+
+import * as diaryService from '@/modules/diary/diary.service'
+import type { SymptomsOverview } from '@/modules/diary/diary.service'
+import * as insightsService from '@/modules/insights/insights.service'
+import type { ConfidenceLevel, DiscoveryType } from '@/modules/insights/insights.service'
+import { ProblematicFood } from '@/modules/problematic-foods/problematic-food.model'
+import { User } from '@/modules/users/user.model'
+import { NotFoundError, ValidationError } from '@/shared/errors'
+import { getCachedSettings } from '@/shared/middlewares/system-settings.middleware'
+import type {
+  DiaryFood,
+  FodmapPhase,
+  FodmapTolerance,
+  Language,
+  MealType,
+  ProblematicFoodIncident,
+  ProblematicFoodStatus,
+} from '@/shared/types'
+import { describeDiscovery } from './report-i18n'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ClinicalReportPeriod {
+  from: string
+  to: string
+  days: number
+}
+
+export interface ClinicalReportMeal {
+  date: string
+  time: string
+  type: MealType
+  foods: DiaryFood[]
+  notes?: string
+}
+
+export interface ClinicalReportProblematicFood {
+  foodId: number
+  foodName: string
+  status: ProblematicFoodStatus
+  totalIncidents: number
+  lastIncident: string
+  // Only incidents inside the report period
+  incidents: ProblematicFoodIncident[]
+}
+
+export interface ClinicalReportDiscovery {
+  type: DiscoveryType
+  confidence: ConfidenceLevel
+  title: string
+  description: string
+}
+
+export interface ClinicalReportData {
+  language: Language
+  patient: { name: string; email: string }
+  period: ClinicalReportPeriod
+  generatedAt: Date
+  fodmapPhase: FodmapPhase
+  tolerances: FodmapTolerance[]
+  symptoms: SymptomsOverview
+  meals: ClinicalReportMeal[]
+  problematicFoods: ClinicalReportProblematicFood[]
+  discoveries: ClinicalReportDiscovery[]
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_REPORT_DAYS = 30
+const MAX_REPORT_DAYS = 366
+const DAY_MS = 24 * 60 * 60 * 1000
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toDateStr(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function parseDateParam(value: string, field: string): Date {
+  const date = new Date(`${value}T00:00:00.000Z`)
+  if (!DATE_REGEX.test(value) || Number.isNaN(date.getTime()) || toDateStr(date) !== value) {
+    throw new ValidationError(`Data inválida em "${field}" (use AAAA-MM-DD)`)
+  }
+  return date
+}
+
+/**
+ * Resolve the report period (default: the last 30 days up to today)
+ */
+export function resolvePeriod(from?: string, to?: string): ClinicalReportPeriod {
+  const toDate = to ? parseDateParam(to, 'to') : parseDateParam(toDateStr(new Date()), 'to')
+  const fromDate = from
+    ? parseDateParam(from, 'from')
+    : new Date(toDate.getTime() - (DEFAULT_REPORT_DAYS - 1) * DAY_MS)
+
+  if (fromDate > toDate) {
+    throw new ValidationError('A data inicial deve ser anterior ou igual à data final')
+  }
+
+  const days = Math.round((toDate.getTime() - fromDate.getTime()) / DAY_MS) + 1
+  if (days > MAX_REPORT_DAYS) {
+    throw new ValidationError(`O período do relatório é limitado a ${MAX_REPORT_DAYS} dias`)
+  }
+
+  return { from: toDateStr(fromDate), to: toDateStr(toDate), days }
+}
+
+const STATUS_ORDER: Record<ProblematicFoodStatus, number> = {
+  confirmed: 0,
+  suspected: 1,
+}
+
+// =============================================================================
+// Service Functions
+// =============================================================================
+
+/**
+ * Collect the clinical report data for a period
+ */
+export async function getClinicalReportData(
+  userId: string,
+  period: ClinicalReportPeriod,
+): Promise<ClinicalReportData> {
+  const user = await User.findById(userId).select('name email preferences fodmapTolerances').lean()
+  if (!user) {
+    throw new NotFoundError('Usuário')
+  }
+
+  const settings = await getCachedSettings()
+  const language = user.preferences?.language || 'pt-BR'
+
+  const [symptoms, mealEntries, problematicFoods, discoveries] = await Promise.all([
+    // `days` before the end date, so the overview starts exactly at `from`
+    diaryService.getSymptomsOverview(userId, period.days - 1, {
+      endDate: new Date(`${period.to}T12:00:00.000Z`),
+      maxTrendDays: period.days,
+    }),
+    diaryService.getEntries(userId, {
+      startDate: period.from,
+      endDate: period.to,
+      type: 'meal',
+    }),
+    ProblematicFood.find({ userId: user._id }).lean(),
+    // Analyzed on the report period only; nothing is stored or notified
+    settings.features.insights_enabled
+      ? insightsService.analyzeDiscoveries(userId, {
+          period: {
+            start: new Date(`${period.from}T00:00:00.000Z`),
+            end: new Date(`${period.to}T23:59:59.999Z`),
+          },
+        })
+      : Promise.resolve([]),
+  ])
+
+  const meals: ClinicalReportMeal[] = mealEntries
+    .flatMap(({ date, meal }) =>
+      meal
+        ? [{ date, time: meal.time, type: meal.type, foods: meal.foods, notes: meal.notes }]
+        : [],
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time))
+
+  return {
+    language,
+    patient: { name: user.name, email: user.email },
+    period,
+    generatedAt: new Date(),
+    fodmapPhase: user.preferences?.fodmapPhase || 'elimination',
+    tolerances: user.fodmapTolerances || [],
+    symptoms,
+    meals,
+    problematicFoods: problematicFoods
+      .map((food) => ({
+        foodId: food.foodId,
+        foodName: food.foodName,
+        status: food.status,
+        totalIncidents: food.totalIncidents,
+        lastIncident: food.lastIncident,
+        incidents: food.incidents
+          .filter((incident) => incident.date >= period.from && incident.date <= period.to)
+          .sort((a, b) => a.date.localeCompare(b.date)),
+      }))
+      .sort(
+        (a, b) =>
+          STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || b.totalIncidents - a.totalIncidents,
+      ),
+    discoveries: discoveries.map((discovery) => ({
+      type: discovery.type,
+      confidence: discovery.confidence,
+      ...describeDiscovery(discovery, language),
+    })),
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Data Export Model - Personal Data Archives
+ *
+ * One document per export requested through GET /profile/export.
+ * The archive itself is written to DATA_EXPORT_DIR; this document tracks
+ * its generation status and when the download link stops working.
+ */
+
+import mongoose, { Schema, type Document, type Model } from 'mongoose'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export type DataExportStatus = 'pending' | 'ready' | 'failed'
+
+export interface IDataExport extends Document {
+  _id: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  status: DataExportStatus
+  fileName?: string
+  sizeBytes?: number
+  error?: string
+  completedAt?: Date
+  expiresAt?: Date // Download link expiration (set when ready)
+  createdAt: Date
+  updatedAt: Date
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const dataExportSchema = new Schema<IDataExport>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'ready', 'failed'],
+      default: 'pending',
+    },
+    fileName: String,
+    sizeBytes: Number,
+    error: String,
+    completedAt: Date,
+    expiresAt: Date,
+  },
+  {
+    timestamps: true,
+    collection: 'data_exports',
+  },
+)
+
+// =============================================================================
+// Indexes
+// =============================================================================
+
+dataExportSchema.index({ userId: 1, createdAt: -1 })
+dataExportSchema.index({ expiresAt: 1 })
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const DataExport: Model<IDataExport> = mongoose.model<IDataExport>(
+  'DataExport',
+  dataExportSchema,
+)
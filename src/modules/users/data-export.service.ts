@@ -0,0 +1,420 @@
+/**
+ * Data Export Service - Personal Data Archive
+ *
+ * Features:
+ * - Zip archive with the user's profile, diet settings, diary, problematic
+ *   foods (with incidents), achievements and sessions, in JSON and CSV
+ * - Generated in background; the client polls GET /profile/export
+ *   (and gets a `data_export_completed` SSE event when it finishes)
+ * - Signed download links that expire with the archive (DATA_EXPORT_EXPIRES)
+ */
+
+import crypto from 'node:crypto'
+import { mkdir, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { env } from '@/config'
+import { Achievement } from '@/modules/achievements/achievement.model'
+import { UserAchievement } from '@/modules/achievements/user-achievement.model'
+import { RefreshToken } from '@/modules/auth/refresh-token.model'
+import { CustomFood } from '@/modules/custom-foods/custom-food.model'
+import { DiaryEntry, type IDiaryEntry } from '@/modules/diary/diary.model'
+import { ProblematicFood } from '@/modules/problematic-foods/problematic-food.model'
+import { ForbiddenError, NotFoundError } from '@/shared/errors'
+import { emitEvent } from '@/shared/events'
+import { toCsv } from '@/shared/utils'
+import { strToU8, zipSync } from 'fflate'
+import mongoose from 'mongoose'
+import { DataExport, type DataExportStatus, type IDataExport } from './data-export.model'
+import { User } from './user.model'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DataExportDTO {
+  id: string
+  status: DataExportStatus
+  requestedAt: Date
+  completedAt?: Date
+  expiresAt?: Date
+  sizeBytes?: number
+  fileName?: string
+  downloadUrl?: string
+  error?: string
+}
+
+export interface DataExportDownload {
+  filePath: string
+  fileName: string
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// A pending export older than this was lost (e.g. server restart)
+const STALE_PENDING_MS = 30 * 60 * 1000
+
+// A failed export is reported for this long before a new attempt starts
+const FAILED_RETRY_MS = 60 * 1000
+
+const DOWNLOAD_PATH = '/api/profile/export/download'
+
+const README = `Ceboelha - Exportação dos seus dados
+
+Arquivos:
+- profile.json ............ Perfil, preferências, configurações de dieta, estatísticas e tolerâncias FODMAP
+- diary.json .............. Todas as entradas do diário (refeições e sintomas)
+- diary_meals.csv ......... Uma linha por alimento registrado em refeições
+- diary_symptoms.csv ...... Uma linha por sintoma registrado
+- custom_foods.json ....... Alimentos e receitas criados por você (food_id negativo no diário)
+- problematic_foods.json .. Alimentos problemáticos com todos os incidentes
+- problematic_food_incidents.csv
+- achievements.json ....... Progresso e conquistas desbloqueadas
+- achievements.csv
+- sessions.json ........... Sessões de login (dispositivo, IP, datas)
+- sessions.csv
+
+Datas em UTC (ISO 8601). Os CSVs usam vírgula como separador e UTF-8.
+`
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function getDateStr(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function getFilePath(exportId: string): string {
+  return path.join(env.DATA_EXPORT_DIR, `${exportId}.zip`)
+}
+
+function sign(exportId: string, expiresAtMs: number): string {
+  return crypto
+    .createHmac('sha256', env.JWT_ACCESS_SECRET)
+    .update(`data-export:${exportId}:${expiresAtMs}`)
+    .digest('base64url')
+}
+
+/**
+ * Download token: "<exportId>.<expiresAtMs>.<signature>"
+ * Stateless, so the same link can be returned on every poll
+ */
+function createDownloadToken(exportId: string, expiresAt: Date): string {
+  const expiresAtMs = expiresAt.getTime()
+  return `${exportId}.${expiresAtMs}.${sign(exportId, expiresAtMs)}`
+}
+
+function toDTO(record: IDataExport): DataExportDTO {
+  const id = record._id.toString()
+  const downloadable =
+    record.status === 'ready' && record.expiresAt && record.expiresAt > new Date()
+
+  return {
+    id,
+    status: record.status,
+    requestedAt: record.createdAt,
+    completedAt: record.completedAt,
+    expiresAt: record.expiresAt,
+    sizeBytes: record.sizeBytes,
+    fileName: record.fileName,
+    downloadUrl:
+      downloadable && record.expiresAt
+        ? `${DOWNLOAD_PATH}?token=${createDownloadToken(id, record.expiresAt)}`
+        : undefined,
+    error: record.error,
+  }
+}
+
+function isReusable(record: IDataExport): boolean {
+  const now = Date.now()
+  if (record.status === 'pending') {
+    return now - record.createdAt.getTime() < STALE_PENDING_MS
+  }
+  if (record.status === 'ready') {
+    return !!record.expiresAt && record.expiresAt.getTime() > now
+  }
+  return !!record.completedAt && now - record.completedAt.getTime() < FAILED_RETRY_MS
+}
+
+// =============================================================================
+// Archive Builders
+// =============================================================================
+
+function buildMealRows(entries: IDiaryEntry[]) {
+  return entries
+    .filter((e) => e.type === 'meal' && e.meal)
+    .flatMap((e) => (e.meal?.foods ?? []).map((food) => ({ date: e.date, meal: e.meal, food })))
+}
+
+function buildSymptomRows(entries: IDiaryEntry[]) {
+  return entries.filter((e) => e.type === 'symptom' && e.symptom)
+}
+
+async function buildArchive(userId: string): Promise<Uint8Array> {
+  const userObjectId = new mongoose.Types.ObjectId(userId)
+
+  const [user, diary, customFoods, problematicFoods, userAchievements, sessions] =
+    await Promise.all([
+      User.findById(userObjectId),
+      DiaryEntry.find({ userId: userObjectId }).sort({ date: 1 }).lean(),
+      CustomFood.find({ userId: userObjectId }).sort({ name: 1 }).lean(),
+      ProblematicFood.find({ userId: userObjectId }).sort({ foodName: 1 }).lean(),
+      UserAchievement.find({ userId: userObjectId }).lean(),
+      RefreshToken.find({ userId: userObjectId })
+        .select('deviceInfo isRevoked revokedAt revokedReason expiresAt createdAt')
+        .sort({ createdAt: -1 })
+        .lean(),
+    ])
+
+  if (!user) {
+    throw new NotFoundError('Usuário')
+  }
+
+  const achievementDefs = await Achievement.find({
+    id: { $in: userAchievements.map((ua) => ua.achievementId) },
+  })
+    .select('id title description requirement.target')
+    .lean()
+  const defsById = new Map(achievementDefs.map((a) => [a.id, a]))
+
+  const achievements = userAchievements.map((ua) => {
+    const def = defsById.get(ua.achievementId)
+    return {
+      achievementId: ua.achievementId,
+      title: def?.title ?? ua.achievementId,
+      description: def?.description,
+      unlocked: ua.unlocked,
+      progress: ua.progress,
+      target: def?.requirement?.target,
+      startedAt: ua.startedAt,
+      unlockedAt: ua.unlockedAt,
+    }
+  })
+
+  const sessionRows = sessions.map((s) => ({
+    id: s._id.toString(),
+    userAgent: s.deviceInfo?.userAgent,
+    ip: s.deviceInfo?.ip,
+    deviceName: s.deviceInfo?.deviceName,
+    createdAt: s.createdAt,
+    expiresAt: s.expiresAt,
+    revoked: s.isRevoked,
+    revokedAt: s.revokedAt,
+    revokedReason: s.revokedReason,
+  }))
+
+  const incidentRows = problematicFoods.flatMap((pf) =>
+    pf.incidents.map((incident) => ({ food: pf, incident })),
+  )
+
+  const json = (data: unknown) => strToU8(JSON.stringify(data, null, 2))
+
+  return zipSync({
+    'README.txt': strToU8(README),
+    'profile.json': json(user.toJSON()),
+    'diary.json': json(diary),
+    'diary_meals.csv': strToU8(
+      toCsv(buildMealRows(diary as IDiaryEntry[]), [
+        { header: 'date', value: (r) => getDateStr(r.date) },
+        { header: 'time', value: (r) => r.meal?.time },
+        { header: 'meal_type', value: (r) => r.meal?.type },
+        { header: 'food_id', value: (r) => r.food.foodId },
+        { header: 'food_name', value: (r) => r.food.foodName },
+        { header: 'portion', value: (r) => r.food.portion },
+        { header: 'quantity_g', value: (r) => r.food.quantity_g },
+        { header: 'calories', value: (r) => r.food.calculatedNutrition?.calories },
+        { header: 'carbs_g', value: (r) => r.food.calculatedNutrition?.carbs },
+        { header: 'protein_g', value: (r) => r.food.calculatedNutrition?.protein },
+        { header: 'fat_g', value: (r) => r.food.calculatedNutrition?.fat },
+        { header: 'fiber_g', value: (r) => r.food.calculatedNutrition?.fiber },
+        { header: 'marked_as_bad', value: (r) => r.food.markedAsBad ?? false },
+        { header: 'notes', value: (r) => r.meal?.notes },
+      ]),
+    ),
+    'diary_symptoms.csv': strToU8(
+      toCsv(buildSymptomRows(diary as IDiaryEntry[]), [
+        { header: 'date', value: (e) => getDateStr(e.date) },
+        { header: 'time', value: (e) => e.symptom?.time },
+        { header: 'type', value: (e) => e.symptom?.type },
+        { header: 'intensity', value: (e) => e.symptom?.intensity },
+        { header: 'duration_min', value: (e) => e.symptom?.duration },
+        { header: 'notes', value: (e) => e.symptom?.notes },
+      ]),
+    ),
+    'custom_foods.json': json(customFoods),
+    'problematic_foods.json': json(problematicFoods),
+    'problematic_food_incidents.csv': strToU8(
+      toCsv(incidentRows, [
+        { header: 'food_id', value: (r) => r.food.foodId },
+        { header: 'food_name', value: (r) => r.food.foodName },
+        { header: 'status', value: (r) => r.food.status },
+        { header: 'date', value: (r) => r.incident.date },
+        { header: 'symptoms', value: (r) => r.incident.symptomTypes },
+        { header: 'intensity', value: (r) => r.incident.intensity },
+        { header: 'notes', value: (r) => r.incident.notes },
+      ]),
+    ),
+    'achievements.json': json(achievements),
+    'achievements.csv': strToU8(
+      toCsv(achievements, [
+        { header: 'achievement_id', value: (a) => a.achievementId },
+        { header: 'title', value: (a) => a.title },
+        { header: 'unlocked', value: (a) => a.unlocked },
+        { header: 'progress', value: (a) => a.progress },
+        { header: 'target', value: (a) => a.target },
+        { header: 'unlocked_at', value: (a) => a.unlockedAt },
+      ]),
+    ),
+    'sessions.json': json(sessionRows),
+    'sessions.csv': strToU8(
+      toCsv(sessionRows, [
+        { header: 'created_at', value: (s) => s.createdAt },
+        { header: 'expires_at', value: (s) => s.expiresAt },
+        { header: 'user_agent', value: (s) => s.userAgent },
+        { header: 'ip', value: (s) => s.ip },
+        { header: 'revoked', value: (s) => s.revoked },
+        { header: 'revoked_at', value: (s) => s.revokedAt },
+        { header: 'revoked_reason', value: (s) => s.revokedReason },
+      ]),
+    ),
+  })
+}
+
+// =============================================================================
+// Service
+// =============================================================================
+
+export const dataExportService = {
+  /**
+   * Return the current export, starting a new one when there is none
+   * in progress or still downloadable
+   */
+  async requestExport(userId: string): Promise<DataExportDTO> {
+    const latest = await DataExport.findOne({
+      userId: new mongoose.Types.ObjectId(userId),
+    }).sort({ createdAt: -1 })
+
+    if (latest && isReusable(latest)) {
+      return toDTO(latest)
+    }
+
+    const record = await DataExport.create({
+      userId: new mongoose.Types.ObjectId(userId),
+    })
+
+    // Generate in background - large histories can take a while
+    this.generate(record._id.toString()).catch((err) =>
+      console.error('[DataExport] Failed to generate export:', err),
+    )
+
+    return toDTO(record)
+  },
+
+  /**
+   * Build the archive, write it to disk and mark the export as ready
+   */
+  async generate(exportId: string): Promise<void> {
+    const record = await DataExport.findById(exportId)
+    if (!record) return
+
+    const userId = record.userId.toString()
+
+    try {
+      const archive = await buildArchive(userId)
+
+      await mkdir(env.DATA_EXPORT_DIR, { recursive: true })
+      await writeFile(getFilePath(exportId), archive)
+
+      const completedAt = new Date()
+      record.status = 'ready'
+      record.fileName = `ceboelha-export-${getDateStr(completedAt)}.zip`
+      record.sizeBytes = archive.byteLength
+      record.completedAt = completedAt
+      record.expiresAt = new Date(completedAt.getTime() + env.DATA_EXPORT_EXPIRES)
+    } catch (error) {
+      record.status = 'failed'
+      record.error = 'Não foi possível gerar a exportação. Tente novamente.'
+      record.completedAt = new Date()
+      console.error(`[DataExport] Export ${exportId} failed:`, error)
+    }
+
+    await record.save()
+
+    emitEvent('data_export_completed', userId, {
+      id: exportId,
+      status: record.status,
+    })
+  },
+
+  /**
+   * Resolve a signed download token to the archive on disk
+   */
+  async getDownload(token: string): Promise<DataExportDownload> {
+    const [exportId, expiresAtRaw, signature] = token.split('.')
+    const expiresAtMs = Number(expiresAtRaw)
+
+    if (
+      !exportId ||
+      !signature ||
+      !mongoose.Types.ObjectId.isValid(exportId) ||
+      !Number.isFinite(expiresAtMs)
+    ) {
+      throw new NotFoundError('Exportação')
+    }
+
+    const expected = Buffer.from(sign(exportId, expiresAtMs))
+    const received = Buffer.from(signature)
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      throw new NotFoundError('Exportação')
+    }
+
+    if (expiresAtMs <= Date.now()) {
+      throw new ForbiddenError('Link de download expirado. Solicite uma nova exportação.')
+    }
+
+    const record = await DataExport.findById(exportId)
+    if (!record || record.status !== 'ready' || !record.fileName) {
+      throw new NotFoundError('Exportação')
+    }
+
+    return {
+      filePath: getFilePath(exportId),
+      fileName: record.fileName,
+    }
+  },
+
+  /**
+   * Delete expired archives and old failed/lost exports
+   * Returns the number of exports removed
+   */
+  async cleanupExpired(): Promise<number> {
+    const now = new Date()
+    const staleBefore = new Date(now.getTime() - env.DATA_EXPORT_EXPIRES)
+
+    const expired = await DataExport.find({
+      $or: [
+        { status: 'ready', expiresAt: { $lte: now } },
+        { status: { $in: ['pending', 'failed'] }, createdAt: { $lte: staleBefore } },
+      ],
+    }).select('_id')
+
+    await Promise.all(expired.map((e) => rm(getFilePath(e._id.toString()), { force: true })))
+    await DataExport.deleteMany({ _id: { $in: expired.map((e) => e._id) } })
+
+    return expired.length
+  },
+
+  /**
+   * Delete every export of a user (account deletion)
+   */
+  async deleteAllForUser(userId: string): Promise<void> {
+    const exports = await DataExport.find({
+      userId: new mongoose.Types.ObjectId(userId),
+    }).select('_id')
+
+    await Promise.all(exports.map((e) => rm(getFilePath(e._id.toString()), { force: true })))
+    await DataExport.deleteMany({ userId: new mongoose.Types.ObjectId(userId) })
+  },
+}
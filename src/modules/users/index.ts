@@ -1,3 +1,5 @@
 export { usersController } from './users.controller'
 export { usersService } from './users.service'
+export { dataExportService } from './data-export.service'
+export { DataExport, type IDataExport } from './data-export.model'
 export { User, type IUser } from './user.model'
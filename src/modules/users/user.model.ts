@@ -12,13 +12,15 @@ import mongoose, { Schema, type Document, type Model } from 'mongoose'
 import bcrypt from 'bcrypt'
 import crypto from 'crypto'
 import { env } from '@/config'
-import type {
-  UserRole,
-  UserStatus,
-  UserPreferences,
-  UserStats,
-  SpecialMessage,
-  DietSettings,
+import {
+  FODMAP_GROUPS,
+  type UserRole,
+  type UserStatus,
+  type UserPreferences,
+  type UserStats,
+  type SpecialMessage,
+  type DietSettings,
+  type FodmapTolerance,
 } from '@/shared/types'
 
 // =============================================================================
@@ -28,6 +30,9 @@ import type {
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId
   email: string
+  emailVerified: boolean
+  emailVerifiedAt?: Date
+  pendingEmail?: string // New address waiting for confirmation
   password: string
   name: string
   avatar?: string
@@ -35,7 +40,15 @@ export interface IUser extends Document {
   status: UserStatus
   preferences: UserPreferences
   dietSettings: DietSettings
+  fodmapTolerances: FodmapTolerance[] // Reintroduction results per FODMAP group
   stats: UserStats
+  // Two-factor authentication (TOTP)
+  twoFactorEnabled: boolean
+  twoFactorEnabledAt?: Date
+  twoFactorSecret?: string // Base32, only after enrollment is confirmed
+  twoFactorPendingSecret?: string // Base32, during enrollment
+  twoFactorRecoveryCodes: string[] // SHA-256 hashes, removed when used
+  twoFactorLastStep?: number // Last accepted TOTP step (blocks code reuse)
   // Easter egg 💕
   isSpecial?: boolean
   specialMessage?: SpecialMessage
@@ -93,6 +106,20 @@ const dailyLimitsSchema = new Schema(
   { _id: false }
 )
 
+const bodyMetricsSchema = new Schema(
+  {
+    weight_kg: { type: Number, min: 20, max: 400 },
+    height_cm: { type: Number, min: 50, max: 250 },
+    age: { type: Number, min: 10, max: 120 },
+    sex: { type: String, enum: ['male', 'female'] },
+    activityLevel: {
+      type: String,
+      enum: ['sedentary', 'light', 'moderate', 'active', 'very_active'],
+    },
+  },
+  { _id: false }
+)
+
 const dietSettingsSchema = new Schema<DietSettings>(
   {
     enabled: { type: Boolean, default: false },
@@ -110,6 +137,30 @@ const dietSettingsSchema = new Schema<DietSettings>(
       enum: ['quick', 'detailed'],
       default: 'quick',
     },
+    bodyMetrics: { type: bodyMetricsSchema, default: undefined },
+  },
+  { _id: false }
+)
+
+const fodmapToleranceSchema = new Schema<FodmapTolerance>(
+  {
+    group: {
+      type: String,
+      enum: FODMAP_GROUPS,
+      required: true,
+    },
+    verdict: {
+      type: String,
+      enum: ['tolerated', 'partially_tolerated', 'not_tolerated'],
+      required: true,
+    },
+    maxToleratedDose: {
+      type: String,
+      enum: ['low', 'medium', 'high', null],
+      default: null,
+    },
+    challengeId: { type: String, required: true },
+    testedAt: { type: Date, required: true },
   },
   { _id: false }
 )
@@ -136,6 +187,16 @@ const userSchema = new Schema<IUser>(
       trim: true,
       index: true,
     },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    emailVerifiedAt: Date,
+    pendingEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
     password: {
       type: String,
       required: [true, 'Senha é obrigatória'],
@@ -170,10 +231,37 @@ const userSchema = new Schema<IUser>(
       type: dietSettingsSchema,
       default: () => ({}),
     },
+    fodmapTolerances: {
+      type: [fodmapToleranceSchema],
+      default: [],
+    },
     stats: {
       type: statsSchema,
       default: () => ({}),
     },
+    // Two-factor authentication (secrets never returned by default)
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorEnabledAt: Date,
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    twoFactorLastStep: {
+      type: Number,
+      select: false,
+    },
     // Easter egg 💕
     isSpecial: {
       type: Boolean,
@@ -190,12 +278,18 @@ const userSchema = new Schema<IUser>(
       virtuals: true,
       // biome-ignore lint/suspicious/noExplicitAny: Mongoose toJSON transform
       transform: (_, ret: any) => {
-        // Transform _id to id for frontend compatibility
-        ret.id = ret._id?.toString()
-        delete ret._id
-        delete ret.password
-        delete ret.__v
-        return ret
+        // Leave out secrets; transform _id to id for frontend compatibility
+        const {
+          _id,
+          password,
+          twoFactorSecret,
+          twoFactorPendingSecret,
+          twoFactorRecoveryCodes,
+          twoFactorLastStep,
+          __v,
+          ...user
+        } = ret
+        return { ...user, id: _id?.toString() }
       },
     },
     toObject: {
@@ -8,14 +8,56 @@
  * - POST /profile/password - Change password
  * - POST /profile/avatar - Upload avatar
  * - POST /profile/delete - Delete account
+ * - GET /profile/export - Request/poll a personal data export (zip)
+ * - GET /profile/export/download - Download the archive (signed link, no auth header)
+ * - GET /profile/diet-settings - Get diet settings
+ * - PATCH /profile/diet-settings - Update diet settings
+ * - GET /profile/diet-presets - List diet presets with computed limits
  */
 
 import { Elysia, t } from 'elysia'
 import { usersService } from './users.service'
+import { dataExportService } from './data-export.service'
 import { requireAuth } from '@/shared/middlewares'
 
 export const usersController = new Elysia({ prefix: '/profile' })
-  // All routes in this controller require authentication
+  // ==========================================================================
+  // GET /profile/export/download - Download data export
+  // Registered before requireAuth: the signed token is the credential, so
+  // the link works from a plain <a href> or another device
+  // ==========================================================================
+  .get(
+    '/export/download',
+    async ({ query }) => {
+      const download = await dataExportService.getDownload(query.token)
+
+      return new Response(Bun.file(download.filePath), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${download.fileName}"`,
+          'Cache-Control': 'private, no-store',
+        },
+      })
+    },
+    {
+      query: t.Object({
+        token: t.String({ minLength: 1, maxLength: 200 }),
+      }),
+      detail: {
+        tags: ['Profile'],
+        summary: 'Baixar exportação de dados',
+        description: 'Baixa o arquivo .zip usando o link assinado retornado por `GET /profile/export`',
+        security: [],
+        responses: {
+          200: { description: 'Arquivo zip' },
+          403: { description: 'Link expirado' },
+          404: { description: 'Link inválido' },
+        },
+      },
+    }
+  )
+
+  // All other routes in this controller require authentication
   .use(requireAuth)
 
   // ==========================================================================
@@ -95,7 +137,7 @@ export const usersController = new Elysia({ prefix: '/profile' })
       return {
         success: true,
         data: user,
-        message: 'E-mail alterado com sucesso!',
+        message: 'Enviamos um link de confirmação para o novo e-mail',
       }
     },
     {
@@ -106,7 +148,12 @@ export const usersController = new Elysia({ prefix: '/profile' })
       detail: {
         tags: ['Profile'],
         summary: 'Alterar e-mail',
-        description: 'Altera o e-mail do usuário (requer senha para confirmação)',
+        description: `
+          Solicita a troca de e-mail (requer senha para confirmação).
+
+          O novo endereço fica em \`pendingEmail\` e só substitui o atual depois
+          de confirmado pelo link enviado a ele (\`POST /auth/verify-email\`).
+        `,
         security: [{ bearerAuth: [] }],
       },
     }
@@ -216,6 +263,44 @@ export const usersController = new Elysia({ prefix: '/profile' })
     }
   )
 
+  // ==========================================================================
+  // GET /profile/export - Export personal data
+  // ==========================================================================
+  .get(
+    '/export',
+    async ({ auth, set }) => {
+      const dataExport = await dataExportService.requestExport(auth.userId)
+
+      if (dataExport.status === 'pending') {
+        set.status = 202
+      }
+
+      return {
+        success: true,
+        data: dataExport,
+      }
+    },
+    {
+      detail: {
+        tags: ['Profile'],
+        summary: 'Exportar meus dados',
+        description: `
+          Gera um arquivo .zip com perfil, configurações de dieta, diário, alimentos
+          problemáticos (com incidentes), conquistas e sessões, em JSON e CSV.
+
+          A geração é assíncrona:
+          - \`202\` + \`status: pending\` - Exportação em andamento; consulte de novo
+            (ou aguarde o evento SSE \`data_export_completed\`)
+          - \`200\` + \`status: ready\` - \`downloadUrl\` disponível até \`expiresAt\`
+          - \`200\` + \`status: failed\` - Falhou; após 1 minuto a próxima chamada tenta de novo
+
+          Depois que o link expira, a próxima chamada gera uma exportação nova.
+        `,
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  )
+
   // ==========================================================================
   // DELETE /profile - Delete account (alternative)
   // ==========================================================================
@@ -304,11 +389,55 @@ export const usersController = new Elysia({ prefix: '/profile' })
         showProgressBars: t.Optional(t.Boolean()),
         warningThreshold: t.Optional(t.Number({ minimum: 0, maximum: 100 })),
         diaryMode: t.Optional(t.Union([t.Literal('quick'), t.Literal('detailed')])),
+        bodyMetrics: t.Optional(
+          t.Object({
+            weight_kg: t.Number({ minimum: 20, maximum: 400 }),
+            height_cm: t.Number({ minimum: 50, maximum: 250 }),
+            age: t.Number({ minimum: 10, maximum: 120 }),
+            sex: t.Union([t.Literal('male'), t.Literal('female')]),
+            activityLevel: t.Union([
+              t.Literal('sedentary'),
+              t.Literal('light'),
+              t.Literal('moderate'),
+              t.Literal('active'),
+              t.Literal('very_active'),
+            ]),
+          })
+        ),
       }),
       detail: {
         tags: ['Profile'],
         summary: 'Atualizar configurações de dieta',
-        description: 'Atualiza as configurações de dieta do usuário (limites de macros, preset, modo do diário)',
+        description: `
+          Atualiza as configurações de dieta do usuário (limites de macros, preset, modo do diário).
+          
+          - Ao escolher um preset (exceto \`custom\`), os limites são calculados automaticamente,
+            usando o TDEE quando \`bodyMetrics\` estiver preenchido
+          - Enviar \`limits\` sem \`preset\` muda o preset para \`custom\`
+        `,
+        security: [{ bearerAuth: [] }],
+      },
+    }
+  )
+
+  // ==========================================================================
+  // GET /profile/diet-presets - List diet presets
+  // ==========================================================================
+  .get(
+    '/diet-presets',
+    async ({ auth }) => {
+      const presets = await usersService.getDietPresets(auth.userId)
+
+      return {
+        success: true,
+        data: presets,
+      }
+    },
+    {
+      detail: {
+        tags: ['Profile'],
+        summary: 'Listar presets de dieta',
+        description: 'Retorna os presets de dieta com os limites calculados a partir das medidas corporais do usuário',
         security: [{ bearerAuth: [] }],
       },
     }
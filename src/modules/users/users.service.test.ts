@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import { ActivityLog } from '@/modules/admin/activity-log.model'
+import { ValidationError } from '@/shared/errors'
+import type { BodyMetrics } from '@/shared/types'
+import { User } from './user.model'
+import { calculatePresetLimits, usersService } from './users.service'
+
+const metrics: BodyMetrics = {
+  weight_kg: 100,
+  height_cm: 190,
+  age: 30,
+  sex: 'male',
+  activityLevel: 'active',
+}
+
+/**
+ * Stub the lookup with a real (unsaved) document, so dietSettings is a
+ * Mongoose subdocument as in production
+ */
+function stubUser(dietSettings: Record<string, unknown>) {
+  const user = new User({
+    name: 'Teste',
+    email: 'teste@example.com',
+    password: 'Senha-forte-123',
+    dietSettings,
+  })
+  spyOn(user, 'save').mockResolvedValue(user)
+  spyOn(User, 'findById').mockResolvedValue(user as never)
+  spyOn(ActivityLog, 'create').mockResolvedValue([] as never)
+  return user
+}
+
+afterEach(() => {
+  mock.restore()
+})
+
+describe('usersService.updateDietSettings', () => {
+  it('recomputes limits from the stored preset when only body metrics change', async () => {
+    stubUser({ enabled: true, preset: 'cutting' })
+
+    const settings = await usersService.updateDietSettings('u1', { bodyMetrics: metrics })
+
+    expect(settings.preset).toBe('cutting')
+    expect(settings.limits.calories).toBe(calculatePresetLimits('cutting', metrics).calories)
+  })
+
+  it('uses the stored body metrics when only the preset changes', async () => {
+    stubUser({ enabled: true, preset: 'balanced', bodyMetrics: metrics })
+
+    const settings = await usersService.updateDietSettings('u1', { preset: 'bulking' })
+
+    const expected = calculatePresetLimits('bulking', metrics)
+    expect(settings.preset).toBe('bulking')
+    expect(settings.limits.calories).toBe(expected.calories)
+    expect(settings.limits.calories).toBeGreaterThan(calculatePresetLimits('bulking').calories)
+  })
+
+  it('keeps the other stored settings', async () => {
+    stubUser({ enabled: true, preset: 'balanced', warningThreshold: 90, diaryMode: 'detailed' })
+
+    const settings = await usersService.updateDietSettings('u1', { showRemaining: false })
+
+    expect(settings.enabled).toBe(true)
+    expect(settings.warningThreshold).toBe(90)
+    expect(settings.diaryMode).toBe('detailed')
+    expect(settings.showRemaining).toBe(false)
+  })
+
+  it('rejects limits sent with a non-custom preset', async () => {
+    const user = stubUser({ enabled: true, preset: 'balanced' })
+
+    await expect(
+      usersService.updateDietSettings('u1', { preset: 'cutting', limits: { calories: 1500 } }),
+    ).rejects.toThrow(ValidationError)
+    expect(user.save).not.toHaveBeenCalled()
+  })
+
+  it('applies limits sent with the custom preset', async () => {
+    stubUser({ enabled: true, preset: 'balanced', bodyMetrics: metrics })
+
+    const settings = await usersService.updateDietSettings('u1', {
+      preset: 'custom',
+      limits: { calories: 1500 },
+    })
+
+    expect(settings.preset).toBe('custom')
+    expect(settings.limits.calories).toBe(1500)
+  })
+})
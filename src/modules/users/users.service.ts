@@ -3,18 +3,28 @@
  *
  * Handles user profile operations:
  * - Get/Update profile
- * - Change email (requires password)
+ * - Change email (requires password, applied after the new address is confirmed)
  * - Change password (requires current password)
  * - Upload avatar
  * - Delete account
+ * - Diet settings with preset-derived daily limits (TDEE)
  */
 
 import { User, type IUser } from './user.model'
 import { ActivityLog } from '@/modules/admin/activity-log.model'
 import { RefreshToken } from '@/modules/auth/refresh-token.model'
+import { dataExportService } from './data-export.service'
+import { authService } from '@/modules/auth/auth.service'
 import { NotFoundError, ConflictError, UnauthorizedError, ValidationError } from '@/shared/errors'
 import { validatePasswordStrength } from '@/modules/auth/auth.schemas'
-import type { UserPreferences, DietSettings, DailyLimits } from '@/shared/types'
+import type {
+  UserPreferences,
+  DietSettings,
+  DietPreset,
+  DailyLimits,
+  BodyMetrics,
+  ActivityLevel,
+} from '@/shared/types'
 
 // =============================================================================
 // Types
@@ -44,6 +54,123 @@ export interface UpdateDietSettingsInput {
   showProgressBars?: boolean
   warningThreshold?: number
   diaryMode?: DietSettings['diaryMode']
+  bodyMetrics?: BodyMetrics
+}
+
+export interface DietPresetDefinition {
+  id: Exclude<DietPreset, 'custom'>
+  name: string
+  description: string
+  calorieAdjustment: number // Fraction of TDEE (-0.2 = 20% deficit)
+  macroSplit: {
+    carbs: number   // % of calories
+    protein: number // % of calories
+    fat: number     // % of calories
+  }
+}
+
+// =============================================================================
+// Diet Presets
+// =============================================================================
+
+export const DIET_PRESETS: Record<Exclude<DietPreset, 'custom'>, DietPresetDefinition> = {
+  maintenance: {
+    id: 'maintenance',
+    name: 'Manutenção',
+    description: 'Mantém o peso atual com distribuição equilibrada de macros',
+    calorieAdjustment: 0,
+    macroSplit: { carbs: 45, protein: 25, fat: 30 },
+  },
+  cutting: {
+    id: 'cutting',
+    name: 'Definição',
+    description: 'Déficit de 20% nas calorias com mais proteína para preservar massa magra',
+    calorieAdjustment: -0.2,
+    macroSplit: { carbs: 40, protein: 30, fat: 30 },
+  },
+  bulking: {
+    id: 'bulking',
+    name: 'Ganho de massa',
+    description: 'Superávit de 15% nas calorias para ganho de massa',
+    calorieAdjustment: 0.15,
+    macroSplit: { carbs: 50, protein: 25, fat: 25 },
+  },
+  lowcarb: {
+    id: 'lowcarb',
+    name: 'Low carb',
+    description: 'Calorias de manutenção com redução de carboidratos',
+    calorieAdjustment: 0,
+    macroSplit: { carbs: 20, protein: 30, fat: 50 },
+  },
+  balanced: {
+    id: 'balanced',
+    name: 'Equilibrada',
+    description: 'Distribuição padrão recomendada para adultos',
+    calorieAdjustment: 0,
+    macroSplit: { carbs: 50, protein: 20, fat: 30 },
+  },
+}
+
+// Calorie target used when the user has not provided body metrics
+const DEFAULT_TDEE = 2000
+
+const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9,
+}
+
+const KCAL_PER_GRAM = { carbs: 4, protein: 4, fat: 9 }
+const SUGAR_CALORIE_SHARE = 0.1 // WHO: free sugars below 10% of energy
+const FIBER_G_PER_1000_KCAL = 14
+const SODIUM_LIMIT_MG = 2300
+
+/**
+ * Calculate Total Daily Energy Expenditure
+ * Mifflin-St Jeor BMR multiplied by the activity factor
+ */
+export function calculateTdee(metrics: BodyMetrics): number {
+  const sexOffset = metrics.sex === 'male' ? 5 : -161
+  const bmr = 10 * metrics.weight_kg + 6.25 * metrics.height_cm - 5 * metrics.age + sexOffset
+
+  return Math.round(bmr * ACTIVITY_MULTIPLIERS[metrics.activityLevel])
+}
+
+/**
+ * Derive daily limits from a preset, using TDEE when body metrics are available
+ */
+export function calculatePresetLimits(
+  preset: Exclude<DietPreset, 'custom'>,
+  metrics?: BodyMetrics
+): DailyLimits {
+  const definition = DIET_PRESETS[preset]
+  const tdee = metrics ? calculateTdee(metrics) : DEFAULT_TDEE
+  const calories = Math.round(tdee * (1 + definition.calorieAdjustment))
+
+  const gramsOf = (macro: keyof typeof KCAL_PER_GRAM) =>
+    Math.round((calories * definition.macroSplit[macro]) / 100 / KCAL_PER_GRAM[macro])
+
+  return {
+    calories,
+    carbs: gramsOf('carbs'),
+    protein: gramsOf('protein'),
+    fat: gramsOf('fat'),
+    sugar: Math.round((calories * SUGAR_CALORIE_SHARE) / KCAL_PER_GRAM.carbs),
+    fiber: Math.round((calories / 1000) * FIBER_G_PER_1000_KCAL),
+    sodium: SODIUM_LIMIT_MG,
+  }
+}
+
+/**
+ * Plain copy of the stored diet settings (spreading the Mongoose subdocument
+ * would copy its internals, not the fields)
+ */
+function toPlainDietSettings(settings?: DietSettings): Partial<DietSettings> {
+  if (!settings) return {}
+  const subdocument = settings as DietSettings & { toObject?: () => DietSettings }
+  return subdocument.toObject ? subdocument.toObject() : { ...settings }
 }
 
 // =============================================================================
@@ -202,6 +329,9 @@ export const usersService = {
     // Revoke all refresh tokens
     await RefreshToken.deleteMany({ userId: user._id })
 
+    // Remove data export archives
+    await dataExportService.deleteAllForUser(userId)
+
     // Log before deleting
     await ActivityLog.create({
       type: 'account_deleted',
@@ -216,7 +346,9 @@ export const usersService = {
   },
 
   /**
-   * Change user email (requires password verification)
+   * Request an e-mail change (requires password verification)
+   * The new address is stored as pendingEmail and only replaces the current
+   * one after it is confirmed through the verification link
    */
   async changeEmail(userId: string, input: ChangeEmailInput): Promise<IUser> {
     const { newEmail, password } = input
@@ -233,30 +365,21 @@ export const usersService = {
       throw new UnauthorizedError('Senha incorreta')
     }
 
-    // Check if new email is already in use
     const normalizedEmail = newEmail.toLowerCase().trim()
+    if (normalizedEmail === user.email) {
+      throw new ValidationError('O novo e-mail é igual ao atual')
+    }
+
+    // Check if new email is already in use
     const existingUser = await User.findOne({ email: normalizedEmail })
-    if (existingUser && existingUser._id.toString() !== userId) {
+    if (existingUser) {
       throw new ConflictError('Este e-mail já está em uso')
     }
 
-    // Update email
-    user.email = normalizedEmail
+    user.pendingEmail = normalizedEmail
     await user.save()
 
-    // Log activity with old and new email
-    const oldEmail = user.email !== normalizedEmail ? user.email : undefined
-    await ActivityLog.create({
-      type: 'profile_updated',
-      userId: user._id,
-      userName: user.name,
-      userEmail: normalizedEmail,
-      action: 'E-mail alterado',
-      details: JSON.stringify({ 
-        email: { from: oldEmail, to: normalizedEmail } 
-      }),
-      timestamp: new Date(),
-    })
+    await authService.sendEmailVerification(user, normalizedEmail)
 
     return user
   },
@@ -354,20 +477,42 @@ export const usersService = {
     }
 
     // Build update object
-    const currentSettings = user.dietSettings || {}
+    const currentSettings = toPlainDietSettings(user.dietSettings)
     const updatedSettings = { ...currentSettings }
 
     if (input.enabled !== undefined) {
       updatedSettings.enabled = input.enabled
     }
+    if (input.bodyMetrics) {
+      updatedSettings.bodyMetrics = input.bodyMetrics
+    }
+
+    // Preset limits are derived, so they cannot be sent alongside one
+    if (input.preset !== undefined && input.preset !== 'custom' && input.limits) {
+      throw new ValidationError('Limites só podem ser definidos com o preset personalizado')
+    }
+
+    // Sending limits without a preset means the user is customizing them
     if (input.preset !== undefined) {
       updatedSettings.preset = input.preset
+    } else if (input.limits) {
+      updatedSettings.preset = 'custom'
     }
-    if (input.limits) {
-      updatedSettings.limits = {
-        ...((currentSettings.limits as DailyLimits) || {}),
-        ...input.limits,
-      } as DailyLimits
+
+    if (updatedSettings.preset === 'custom') {
+      // Custom keeps user-provided values
+      if (input.limits) {
+        updatedSettings.limits = {
+          ...((currentSettings.limits as DailyLimits) || {}),
+          ...input.limits,
+        } as DailyLimits
+      }
+    } else if (input.preset !== undefined || input.bodyMetrics) {
+      // Preset chosen or body metrics changed: recompute limits
+      updatedSettings.limits = calculatePresetLimits(
+        updatedSettings.preset ?? 'balanced',
+        updatedSettings.bodyMetrics
+      )
     }
     if (input.showRemaining !== undefined) {
       updatedSettings.showRemaining = input.showRemaining
@@ -399,4 +544,24 @@ export const usersService = {
 
     return user.dietSettings
   },
+
+  /**
+   * List diet presets with limits computed for the user's body metrics
+   */
+  async getDietPresets(userId: string) {
+    const user = await User.findById(userId)
+    if (!user) {
+      throw new NotFoundError('Usuário')
+    }
+
+    const metrics = user.dietSettings?.bodyMetrics
+
+    return {
+      tdee: metrics ? calculateTdee(metrics) : null,
+      presets: Object.values(DIET_PRESETS).map((preset) => ({
+        ...preset,
+        limits: calculatePresetLimits(preset.id, metrics),
+      })),
+    }
+  },
 }
@@ -8,7 +8,7 @@
  */
 
 import { Elysia } from 'elysia'
-import { AppError } from './index'
+import { AppError, MaintenanceError } from './index'
 import { env } from '@/config'
 
 // =============================================================================
@@ -20,6 +20,7 @@ export interface ErrorResponse {
   error: string
   code?: string
   message: string
+  estimated_end?: string | null
   stack?: string
 }
 
@@ -45,6 +46,11 @@ export const errorHandler = new Elysia({ name: 'error-handler' })
         message: error.message,
       }
 
+      // Maintenance responses tell the client when to try again
+      if (error instanceof MaintenanceError) {
+        response.estimated_end = error.estimatedEnd?.toISOString() ?? null
+      }
+
       if (env.IS_DEV && error.stack) {
         response.stack = error.stack
       }
@@ -56,5 +56,22 @@ export class RateLimitError extends AppError {
   }
 }
 
+export class FeatureDisabledError extends AppError {
+  constructor(message = 'Este recurso está temporariamente desativado') {
+    super(message, 403, 'FEATURE_DISABLED')
+    this.name = 'FeatureDisabledError'
+  }
+}
+
+export class MaintenanceError extends AppError {
+  constructor(
+    message = 'Sistema em manutenção. Voltamos em breve!',
+    public estimatedEnd?: Date
+  ) {
+    super(message, 503, 'MAINTENANCE')
+    this.name = 'MaintenanceError'
+  }
+}
+
 // Re-export error handler
 export { errorHandler } from './error-handler'
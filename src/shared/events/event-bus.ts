@@ -0,0 +1,116 @@
+/**
+ * Event Bus - In-process Application Events
+ *
+ * Services emit domain events here; consumers (the SSE endpoint) subscribe
+ * and forward them to connected clients.
+ *
+ * Events are targeted at one user (userId) or broadcast to everyone
+ * (userId = null). The bus lives in memory: with several API instances,
+ * a client only receives events emitted by the instance it is connected to.
+ */
+
+import { EventEmitter } from 'node:events'
+import type { InboxNotificationType, ProblematicFoodStatus } from '@/shared/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AppEventMap {
+  achievement_unlocked: {
+    id: string
+    name: string
+    description: string
+    emoji: string
+    xpReward: number
+  }
+  discovery_created: {
+    id: string
+    type: string
+    confidence: string
+    title: string
+    description: string
+  }
+  problematic_food_status_changed: {
+    id: string
+    foodId: number
+    foodName: string
+    previousStatus: ProblematicFoodStatus | null // null = newly created
+    status: ProblematicFoodStatus | null // null = removed
+  }
+  notification_created: {
+    id: string
+    type: InboxNotificationType
+    title: string
+    body: string
+    url?: string
+  }
+  data_export_completed: {
+    id: string
+    status: 'ready' | 'failed' | 'pending'
+  }
+  settings_updated: {
+    maintenance: {
+      enabled: boolean
+      message: string
+      estimated_end?: Date
+    }
+    features: Record<string, boolean>
+  }
+}
+
+export type AppEventType = keyof AppEventMap
+
+export interface AppEvent<K extends AppEventType = AppEventType> {
+  id: number
+  type: K
+  userId: string | null
+  data: AppEventMap[K]
+  emittedAt: Date
+}
+
+export type AppEventListener = (event: AppEvent) => void
+
+// =============================================================================
+// Bus
+// =============================================================================
+
+const emitter = new EventEmitter()
+// One listener per open SSE connection
+emitter.setMaxListeners(0)
+
+let lastEventId = 0
+
+/**
+ * Emit an event to one user, or to everyone when userId is null
+ * Listener errors are logged, never thrown back to the emitter
+ */
+export function emitEvent<K extends AppEventType>(
+  type: K,
+  userId: string | null,
+  data: AppEventMap[K],
+): void {
+  const event: AppEvent<K> = {
+    id: ++lastEventId,
+    type,
+    userId,
+    data,
+    emittedAt: new Date(),
+  }
+
+  try {
+    emitter.emit('event', event)
+  } catch (error) {
+    console.error(`[EventBus] Listener failed for ${type}:`, error)
+  }
+}
+
+/**
+ * Listen to every event; returns the unsubscribe function
+ */
+export function subscribeEvents(listener: AppEventListener): () => void {
+  emitter.on('event', listener)
+  return () => {
+    emitter.off('event', listener)
+  }
+}
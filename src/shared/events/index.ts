@@ -0,0 +1,9 @@
+// Event Bus Exports
+export {
+  emitEvent,
+  subscribeEvents,
+  type AppEvent,
+  type AppEventMap,
+  type AppEventType,
+  type AppEventListener,
+} from './event-bus'
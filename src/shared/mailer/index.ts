@@ -0,0 +1,11 @@
+// Mailer Exports
+export {
+  sendMail,
+  setMailTransport,
+  getMailTransport,
+  consoleTransport,
+  fileTransport,
+  smtpTransport,
+  type MailMessage,
+  type MailTransport,
+} from './mailer'
@@ -0,0 +1,112 @@
+/**
+ * Mailer - Pluggable Mail Transport
+ *
+ * Transports:
+ * - console: prints the message (default in development)
+ * - file: writes each message as JSON to MAIL_OUTBOX_DIR
+ * - smtp: sends through SMTP_HOST (nodemailer)
+ *
+ * Other transports (providers) can be plugged with setMailTransport().
+ */
+
+import { mkdir } from 'node:fs/promises'
+import path from 'node:path'
+import { env } from '@/config'
+import nodemailer, { type Transporter } from 'nodemailer'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+// =============================================================================
+// Local Transports
+// =============================================================================
+
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(
+      `📧 [Mailer] ${message.from} → ${message.to}\n` +
+        `   Assunto: ${message.subject}\n\n${message.text}\n`,
+    )
+  },
+}
+
+export const fileTransport: MailTransport = {
+  name: 'file',
+  async send(message) {
+    await mkdir(env.MAIL_OUTBOX_DIR, { recursive: true })
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}.json`
+    await Bun.write(
+      path.join(env.MAIL_OUTBOX_DIR, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+    )
+  },
+}
+
+// =============================================================================
+// SMTP Transport
+// =============================================================================
+
+let smtpTransporter: Transporter | null = null
+
+function getSmtpTransporter(): Transporter {
+  if (!smtpTransporter) {
+    smtpTransporter = nodemailer.createTransport({
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_SECURE,
+      auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined,
+    })
+  }
+  return smtpTransporter
+}
+
+export const smtpTransport: MailTransport = {
+  name: 'smtp',
+  async send(message) {
+    await getSmtpTransporter().sendMail(message)
+  },
+}
+
+// =============================================================================
+// Mailer
+// =============================================================================
+
+const TRANSPORTS: Record<typeof env.MAIL_TRANSPORT, MailTransport> = {
+  console: consoleTransport,
+  file: fileTransport,
+  smtp: smtpTransport,
+}
+
+let transport: MailTransport = TRANSPORTS[env.MAIL_TRANSPORT] || consoleTransport
+
+/**
+ * Replace the active transport (e.g. SMTP in production)
+ */
+export function setMailTransport(next: MailTransport): void {
+  transport = next
+}
+
+export function getMailTransport(): MailTransport {
+  return transport
+}
+
+/**
+ * Send an e-mail through the active transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send({ ...message, from: env.MAIL_FROM })
+}
@@ -8,6 +8,7 @@
  * - Request audit logging
  * - Protection against privilege escalation
  * - Rate limiting integration
+ * - Mandatory 2FA for admins (when enabled in SystemSettings)
  */
 
 import { Elysia } from 'elysia'
@@ -15,6 +16,7 @@ import { User } from '@/modules/users/user.model'
 import { authService } from '@/modules/auth/auth.service'
 import { UnauthorizedError, ForbiddenError } from '@/shared/errors'
 import { ActivityLog } from '@/modules/admin/activity-log.model'
+import { getCachedSettings } from './system-settings.middleware'
 import {
   getTokenFromCookies,
   ACCESS_TOKEN_COOKIE,
@@ -65,7 +67,8 @@ function getClientInfo(request: Request) {
  * 1. Validates JWT token
  * 2. Re-fetches user from database (no stale cache)
  * 3. Verifies user is active AND admin
- * 4. Logs access attempt
+ * 4. Verifies 2FA is on when SystemSettings requires it for admins
+ * 5. Logs access attempt
  */
 async function verifyAdminAccess(request: Request): Promise<AdminAuthContext> {
   const clientInfo = getClientInfo(request)
@@ -108,6 +111,13 @@ async function verifyAdminAccess(request: Request): Promise<AdminAuthContext> {
       throw new ForbiddenError('Acesso restrito a administradores')
     }
 
+    // Admins without 2FA can still log in, but only to enroll (/auth/2fa)
+    const settings = await getCachedSettings()
+    if (settings.security?.require_admin_2fa && !user.twoFactorEnabled) {
+      await logAdminAttempt('forbidden', 'Admin sem autenticação em dois fatores', clientInfo, user._id.toString(), user.email)
+      throw new ForbiddenError('Ative a autenticação em dois fatores para acessar o painel admin')
+    }
+
     return {
       userId: user._id.toString(),
       userEmail: user.email,
@@ -45,7 +45,7 @@ function extractBearerTokenFromHeader(authHeader: string | null): string | null
 // Helper: Get Auth Context from Request
 // =============================================================================
 
-async function getAuthFromRequest(request: Request): Promise<AuthContext | null> {
+export async function getAuthFromRequest(request: Request): Promise<AuthContext | null> {
   // Try to get token from:
   // 1. Authorization header (Bearer token)
   // 2. httpOnly cookie (more secure)
@@ -2,6 +2,7 @@
 export {
   authMiddleware,
   requireAuth,
+  getAuthFromRequest,
   requireAdmin,
   getDeviceInfo,
   extractBearerToken,
@@ -24,3 +25,11 @@ export {
   adminGuard,
   type AdminAuthContext,
 } from './admin-security.middleware'
+
+export {
+  maintenanceGuard,
+  requireFeature,
+  getCachedSettings,
+  invalidateSettingsCache,
+  type FeatureFlag,
+} from './system-settings.middleware'
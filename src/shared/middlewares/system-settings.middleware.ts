@@ -0,0 +1,120 @@
+/**
+ * System Settings Middleware - Maintenance Mode & Feature Flags
+ *
+ * Features:
+ * - Global maintenance guard (503 for non-admins)
+ * - Per-module feature flags (403 when disabled)
+ * - Short-lived in-memory cache of the SystemSettings singleton
+ */
+
+import { type ISystemSettings, SystemSettings } from '@/modules/admin/system-settings.model'
+import { FeatureDisabledError, MaintenanceError } from '@/shared/errors'
+import { Elysia } from 'elysia'
+import { getAuthFromRequest } from './auth.middleware'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type FeatureFlag = keyof ISystemSettings['features']
+
+// =============================================================================
+// Settings Cache
+// =============================================================================
+
+const SETTINGS_CACHE_TTL = 15000 // 15 seconds
+
+let cachedSettings: ISystemSettings | null = null
+let cachedAt = 0
+
+/**
+ * Get system settings, re-reading the singleton at most once per TTL
+ */
+export async function getCachedSettings(): Promise<ISystemSettings> {
+  if (cachedSettings && Date.now() - cachedAt < SETTINGS_CACHE_TTL) {
+    return cachedSettings
+  }
+
+  cachedSettings = await SystemSettings.getSettings()
+  cachedAt = Date.now()
+  return cachedSettings
+}
+
+/**
+ * Drop the cached settings (call after updating them)
+ */
+export function invalidateSettingsCache(): void {
+  cachedSettings = null
+  cachedAt = 0
+}
+
+// =============================================================================
+// Maintenance Guard
+// =============================================================================
+
+/**
+ * Routes that keep working during maintenance so admins can still
+ * log in and turn maintenance off
+ */
+const MAINTENANCE_ALLOWED_PATHS = [
+  '/api/auth/login',
+  '/api/auth/refresh',
+  '/api/auth/logout',
+  '/api/auth/me',
+  '/api/auth/2fa',
+  '/api/admin',
+]
+
+function isAllowedDuringMaintenance(pathname: string): boolean {
+  return MAINTENANCE_ALLOWED_PATHS.some(
+    (path) => pathname === path || pathname.startsWith(`${path}/`),
+  )
+}
+
+/**
+ * Global maintenance guard
+ * Returns 503 with message and estimated_end for non-admin API requests
+ */
+export const maintenanceGuard = new Elysia({ name: 'maintenance-guard' }).onRequest(
+  async ({ request }) => {
+    const { pathname } = new URL(request.url)
+
+    // Only API routes are affected (health check, docs and static files stay up)
+    if (!pathname.startsWith('/api/')) return
+    if (isAllowedDuringMaintenance(pathname)) return
+
+    const settings = await getCachedSettings()
+    if (!settings.maintenance?.enabled) return
+
+    // Admins keep full access to test the system during maintenance
+    const auth = await getAuthFromRequest(request)
+    if (auth?.isAdmin) return
+
+    throw new MaintenanceError(
+      settings.maintenance.message || undefined,
+      settings.maintenance.estimated_end,
+    )
+  },
+)
+
+// =============================================================================
+// Feature Flags
+// =============================================================================
+
+/**
+ * Require a feature flag to be enabled for every route of the parent controller
+ *
+ * Usage: .use(requireFeature('insights_enabled'))
+ */
+export function requireFeature(feature: FeatureFlag) {
+  return new Elysia({ name: `require-feature-${feature}` }).onBeforeHandle(
+    { as: 'scoped' },
+    async () => {
+      const settings = await getCachedSettings()
+
+      if (settings.features?.[feature] === false) {
+        throw new FeatureDisabledError()
+      }
+    },
+  )
+}
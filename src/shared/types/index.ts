@@ -46,6 +46,16 @@ export interface UserPreferences {
 
 export type DietPreset = 'custom' | 'maintenance' | 'cutting' | 'bulking' | 'lowcarb' | 'balanced'
 export type DiaryMode = 'quick' | 'detailed'
+export type BiologicalSex = 'male' | 'female'
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active'
+
+export interface BodyMetrics {
+  weight_kg: number
+  height_cm: number
+  age: number
+  sex: BiologicalSex
+  activityLevel: ActivityLevel
+}
 
 export interface DailyLimits {
   calories: number     // kcal
@@ -65,6 +75,7 @@ export interface DietSettings {
   showProgressBars: boolean
   warningThreshold: number    // % para alertar (ex: 80%)
   diaryMode: DiaryMode        // quick = só alimentos, detailed = com macros
+  bodyMetrics?: BodyMetrics   // Usado para calcular o TDEE dos presets
 }
 
 export interface UserStats {
@@ -93,7 +104,7 @@ export interface SpecialMessage {
 // =============================================================================
 
 export type FodmapLevel = 'free' | 'low' | 'medium' | 'high'
-export type FoodSource = 'nutritional_table' | 'user_contributed' | 'ai_generated'
+export type FoodSource = 'nutritional_table' | 'user_contributed' | 'ai_generated' | 'open_food_facts'
 
 export interface FodmapSearchInfo {
   match_type: 'single_ingredient' | 'multiple_ingredients'
@@ -102,11 +113,51 @@ export interface FodmapSearchInfo {
   detected_keyword: string
 }
 
+// Monash FODMAP subgroups (fructose = excess fructose, GOS = galacto-oligosaccharides)
+export const FODMAP_GROUPS = ['fructans', 'gos', 'lactose', 'fructose', 'sorbitol', 'mannitol'] as const
+export type FodmapGroup = (typeof FODMAP_GROUPS)[number]
+
+export interface FodmapSubgroupInfo {
+  level: FodmapLevel
+  serving_threshold_g: number | null // Maior porção (g) que ainda é low
+}
+
 export interface FodmapInfo {
   level: FodmapLevel
   portion_note: string | null
   additional_notes: string | null
   search_information: FodmapSearchInfo
+  subgroups?: Partial<Record<FodmapGroup, FodmapSubgroupInfo>>
+}
+
+export type PersonalRiskLevel = 'safe' | 'caution' | 'avoid'
+export type PersonalRiskFactor = 'fodmap_level' | 'problematic_food' | 'tolerance' | 'history'
+
+export interface PersonalRiskReason {
+  factor: PersonalRiskFactor
+  effect: 'raises' | 'lowers' | 'neutral'
+  message: string
+}
+
+export interface PersonalRisk {
+  level: PersonalRiskLevel
+  score: number
+  reasons: PersonalRiskReason[]
+}
+
+// =============================================================================
+// Reintroduction Types
+// =============================================================================
+
+export type ReintroductionDose = 'low' | 'medium' | 'high'
+export type ToleranceVerdict = 'tolerated' | 'partially_tolerated' | 'not_tolerated'
+
+export interface FodmapTolerance {
+  group: FodmapGroup
+  verdict: ToleranceVerdict
+  maxToleratedDose: ReintroductionDose | null
+  challengeId: string
+  testedAt: Date
 }
 
 // =============================================================================
@@ -194,6 +245,26 @@ export type AchievementCategory = 'diary' | 'streak' | 'exploration' | 'social'
 export type AchievementRarity = 'common' | 'rare' | 'epic' | 'legendary'
 export type RequirementType = 'count' | 'streak' | 'unique' | 'custom'
 
+// =============================================================================
+// Notification Types
+// =============================================================================
+
+export type NotificationType =
+  | 'daily_reminder'
+  | 'achievement_unlocked'
+  | 'problematic_food_confirmed'
+  | 'news_published'
+export type NotificationChannelName = 'email' | 'push' | 'outbox'
+export type NotificationDeliveryStatus = 'sent' | 'skipped' | 'failed'
+
+// In-app inbox (GET /notifications)
+export type InboxNotificationType =
+  | 'achievement_unlocked'
+  | 'problematic_food_confirmed'
+  | 'new_discovery'
+  | 'food_submission_reviewed'
+  | 'announcement'
+
 // =============================================================================
 // Activity Log Types
 // =============================================================================
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'bun:test'
+import { gtinCheckDigit, isValidGtin, normalizeGtin } from './barcode'
+
+describe('gtinCheckDigit', () => {
+  it('computes the GS1 mod 10 check digit', () => {
+    expect(gtinCheckDigit('400638133393')).toBe(1) // EAN-13
+    expect(gtinCheckDigit('03600029145')).toBe(2) // UPC-A
+    expect(gtinCheckDigit('9638507')).toBe(4) // EAN-8
+    expect(gtinCheckDigit('789100010010')).toBe(3)
+  })
+
+  it('returns 0 when the weighted sum is a multiple of 10', () => {
+    expect(gtinCheckDigit('0000000')).toBe(0)
+  })
+})
+
+describe('isValidGtin', () => {
+  it('accepts every GTIN length with a correct check digit', () => {
+    expect(isValidGtin('96385074')).toBe(true)
+    expect(isValidGtin('036000291452')).toBe(true)
+    expect(isValidGtin('4006381333931')).toBe(true)
+    expect(isValidGtin('00036000291452')).toBe(true)
+  })
+
+  it('ignores spaces and dashes', () => {
+    expect(isValidGtin('4 006381 333931')).toBe(true)
+    expect(isValidGtin('0-36000-29145-2')).toBe(true)
+  })
+
+  it('rejects wrong check digits, lengths and characters', () => {
+    expect(isValidGtin('4006381333932')).toBe(false)
+    expect(isValidGtin('400638133393')).toBe(false)
+    expect(isValidGtin('40063813339311')).toBe(false)
+    expect(isValidGtin('400638133393A')).toBe(false)
+    expect(isValidGtin('')).toBe(false)
+  })
+})
+
+describe('normalizeGtin', () => {
+  it('stores UPC-A and zero-padded GTIN-14 as EAN-13', () => {
+    expect(normalizeGtin('036000291452')).toBe('0036000291452')
+    expect(normalizeGtin('00036000291452')).toBe('0036000291452')
+    expect(normalizeGtin('4006381333931')).toBe('4006381333931')
+  })
+
+  it('keeps EAN-8 and GTIN-14 with a packaging indicator', () => {
+    expect(normalizeGtin('96385074')).toBe('96385074')
+    expect(normalizeGtin('10036000291459')).toBe('10036000291459')
+  })
+
+  it('returns null for invalid codes', () => {
+    expect(normalizeGtin('4006381333932')).toBeNull()
+    expect(normalizeGtin('abc')).toBeNull()
+  })
+})
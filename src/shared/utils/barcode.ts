@@ -0,0 +1,52 @@
+/**
+ * Barcode Utilities (GTIN: EAN-8, UPC-A, EAN-13, GTIN-14)
+ *
+ * - Check digit validation (GS1 mod 10)
+ * - Normalization so the same product scanned as UPC-A or EAN-13 matches
+ */
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const GTIN_LENGTHS = [8, 12, 13, 14]
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * GS1 check digit for the digits before it
+ * Weights alternate 3 and 1 starting from the rightmost digit.
+ */
+export function gtinCheckDigit(body: string): number {
+  let sum = 0
+  for (let i = 0; i < body.length; i++) {
+    const digit = body.charCodeAt(body.length - 1 - i) - 48
+    sum += i % 2 === 0 ? digit * 3 : digit
+  }
+  return (10 - (sum % 10)) % 10
+}
+
+/**
+ * Check length and check digit of a GTIN (spaces and dashes are ignored)
+ */
+export function isValidGtin(code: string): boolean {
+  const digits = code.replace(/[\s-]/g, '')
+  if (!/^\d+$/.test(digits) || !GTIN_LENGTHS.includes(digits.length)) return false
+
+  return gtinCheckDigit(digits.slice(0, -1)) === Number(digits.slice(-1))
+}
+
+/**
+ * Canonical form used for storage and lookup, or null if invalid
+ * UPC-A (12) and GTIN-14 with a leading zero become EAN-13; EAN-8 is kept.
+ */
+export function normalizeGtin(code: string): string | null {
+  if (!isValidGtin(code)) return null
+
+  const digits = code.replace(/[\s-]/g, '')
+  if (digits.length === 12) return `0${digits}`
+  if (digits.length === 14 && digits.startsWith('0')) return digits.slice(1)
+  return digits
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'bun:test'
+import { parseCsv, toCsv } from './csv'
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('date,food\n2024-03-10,arroz\n2024-03-11,feijão')).toEqual([
+      ['date', 'food'],
+      ['2024-03-10', 'arroz'],
+      ['2024-03-11', 'feijão'],
+    ])
+  })
+
+  it('handles quoted cells with delimiters, escaped quotes and line breaks', () => {
+    expect(parseCsv('a,b\n"arroz, feijão","diz ""oi""\nem duas linhas"')).toEqual([
+      ['a', 'b'],
+      ['arroz, feijão', 'diz "oi"\nem duas linhas'],
+    ])
+  })
+
+  it('accepts CRLF line endings and a UTF-8 BOM', () => {
+    expect(parseCsv('\ufeffa,b\r\n1,2\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ])
+  })
+
+  it('drops blank lines but keeps empty cells', () => {
+    expect(parseCsv('a,b,c\n\n1,,3\n,,\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '', '3'],
+    ])
+  })
+
+  it('keeps a last line without a trailing newline', () => {
+    expect(parseCsv('a\n1')).toEqual([['a'], ['1']])
+  })
+
+  it('detects ";" and tab delimiters from the header line', () => {
+    expect(parseCsv('data;alimento;quantidade\n10/03/2024;pão;1,5')).toEqual([
+      ['data', 'alimento', 'quantidade'],
+      ['10/03/2024', 'pão', '1,5'],
+    ])
+    expect(parseCsv('a\tb\n1\t2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ])
+  })
+
+  it('ignores delimiters inside quoted headers when detecting', () => {
+    expect(parseCsv('"a;b",c\n1,2')).toEqual([
+      ['a;b', 'c'],
+      ['1', '2'],
+    ])
+  })
+
+  it('uses an explicit delimiter when given', () => {
+    expect(parseCsv('a;b,c\n1;2,3', ',')).toEqual([
+      ['a;b', 'c'],
+      ['1;2', '3'],
+    ])
+  })
+})
+
+describe('toCsv', () => {
+  const columns = [
+    { header: 'name', value: (row: { name: unknown; value: unknown }) => row.name },
+    { header: 'value', value: (row: { name: unknown; value: unknown }) => row.value },
+  ]
+
+  it('writes a BOM, a header line and CRLF line endings', () => {
+    expect(toCsv([{ name: 'arroz', value: 100 }], columns)).toBe(
+      '\ufeffname,value\r\narroz,100\r\n',
+    )
+  })
+
+  it('quotes cells with delimiters, quotes or line breaks', () => {
+    const csv = toCsv([{ name: 'arroz, "branco"', value: 'linha 1\nlinha 2' }], columns)
+
+    expect(csv).toContain('"arroz, ""branco""","linha 1\nlinha 2"')
+  })
+
+  it('formats dates, arrays, objects and empty values', () => {
+    const csv = toCsv(
+      [
+        { name: new Date('2024-03-10T12:00:00Z'), value: ['a', 'b'] },
+        { name: null, value: { a: 1 } },
+      ],
+      columns,
+    )
+
+    expect(csv).toContain('2024-03-10T12:00:00.000Z,a; b\r\n')
+    expect(csv).toContain(',"{""a"":1}"\r\n')
+  })
+
+  it('neutralizes formulas but keeps negative numbers', () => {
+    const csv = toCsv(
+      [
+        { name: '=HYPERLINK("x")', value: -5 },
+        { name: '@SUM(A1)', value: '-5' },
+      ],
+      columns,
+    )
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")",-5\r\n`)
+    expect(csv).toContain(`'@SUM(A1),'-5\r\n`)
+  })
+
+  it('round-trips through parseCsv', () => {
+    const rows = [{ name: 'pão; "integral"', value: 'a,b\nc' }]
+
+    expect(parseCsv(toCsv(rows, columns))).toEqual([
+      ['name', 'value'],
+      ['pão; "integral"', 'a,b\nc'],
+    ])
+  })
+})
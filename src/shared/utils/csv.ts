@@ -0,0 +1,135 @@
+/**
+ * CSV Utilities (RFC 4180)
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CsvColumn<T> {
+  header: string
+  value: (row: T) => unknown
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Cells starting with these are treated as formulas by spreadsheet apps
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r']
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+
+  let text: string
+  if (value instanceof Date) {
+    text = value.toISOString()
+  } else if (Array.isArray(value)) {
+    text = value.join('; ')
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value)
+  } else {
+    text = String(value)
+  }
+
+  // Neutralize formula injection, keeping plain negative numbers intact
+  if (typeof value === 'string' && FORMULA_PREFIXES.some((p) => text.startsWith(p))) {
+    text = `'${text}`
+  }
+
+  if (/[",\n\r]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Serialize rows to CSV with a header line
+ * Starts with a UTF-8 BOM so Excel opens accents correctly
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [columns.map((c) => formatCell(c.header)).join(',')]
+
+  for (const row of rows) {
+    lines.push(columns.map((c) => formatCell(c.value(row))).join(','))
+  }
+
+  return `\ufeff${lines.join('\r\n')}\r\n`
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const DELIMITERS = [',', ';', '\t'] as const
+
+/**
+ * Guess the delimiter from the header line (spreadsheets in pt-BR export ";")
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '')
+  let best: string = DELIMITERS[0]
+  let bestCount = 0
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  }
+  return best
+}
+
+/**
+ * Parse CSV into rows of cells (quoted fields, escaped quotes and
+ * line breaks inside quotes are supported). Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const input = text.startsWith('\ufeff') ? text.slice(1) : text
+  const sep = delimiter || detectDelimiter(input)
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.some((c) => c.trim() !== '')) rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true
+    } else if (char === sep) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow()
+
+  return rows
+}
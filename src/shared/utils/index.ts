@@ -54,6 +54,26 @@ export function slugify(text: string): string {
     .replace(/(^-|-$)/g, '')
 }
 
+/**
+ * Lowercase, strip accents and punctuation, collapse spaces
+ * ("Pão de Queijo!" -> "pao de queijo")
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Escape special regex characters in a string
+ */
+export function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
 export function truncate(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text
   return `${text.slice(0, maxLength - 3)}...`
@@ -135,3 +155,12 @@ export function getJuliaSpecialMessage() {
 
 // Re-export cookie utilities
 export * from './cookies'
+
+// Re-export TOTP utilities
+export * from './totp'
+
+// Re-export CSV utilities
+export * from './csv'
+
+// Re-export barcode utilities
+export * from './barcode'
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from './totp'
+
+// RFC 6238 Appendix B: the SHA1 seed "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('base32', () => {
+  it('encodes per RFC 4648 (without padding)', () => {
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI')
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+  })
+
+  it('decodes what it encodes, ignoring case, spaces and padding', () => {
+    expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar')
+    expect(base32Decode(base32Encode(Buffer.from([0, 255, 16]))).toJSON().data).toEqual([
+      0, 255, 16,
+    ])
+  })
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character: 1')
+  })
+})
+
+describe('generateTotp', () => {
+  // Last 6 digits of the RFC 6238 SHA1 test vectors
+  const vectors: Array<[number, string]> = [
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130'],
+  ]
+
+  for (const [seconds, code] of vectors) {
+    it(`matches the RFC 6238 vector at T=${seconds}`, () => {
+      expect(generateTotp(RFC_SECRET, seconds * 1000)).toBe(code)
+    })
+  }
+})
+
+describe('verifyTotp', () => {
+  const now = 1111111111 * 1000
+
+  it('returns the matched step for a valid code', () => {
+    expect(verifyTotp(RFC_SECRET, '050471', 1, now)).toBe(getTotpStep(now))
+  })
+
+  it('accepts codes within the drift window only', () => {
+    const previous = generateTotp(RFC_SECRET, now - 30_000)
+    const tooOld = generateTotp(RFC_SECRET, now - 60_000)
+
+    expect(verifyTotp(RFC_SECRET, previous, 1, now)).toBe(getTotpStep(now) - 1)
+    expect(verifyTotp(RFC_SECRET, tooOld, 1, now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, previous, 0, now)).toBeNull()
+  })
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '05047', 1, now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, '05047a', 1, now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, '0504711', 1, now)).toBeNull()
+  })
+})
+
+describe('generateTotpSecret', () => {
+  it('returns 160 random bits as base32', () => {
+    const secret = generateTotpSecret()
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+    expect(base32Decode(secret)).toHaveLength(20)
+    expect(generateTotpSecret()).not.toBe(secret)
+  })
+})
+
+describe('buildOtpauthUri', () => {
+  it('builds the URI authenticator apps read from the QR code', () => {
+    const uri = new URL(buildOtpauthUri(RFC_SECRET, 'ana@example.com', 'Ceboelha'))
+
+    expect(uri.protocol).toBe('otpauth:')
+    expect(uri.host).toBe('totp')
+    expect(decodeURIComponent(uri.pathname)).toBe('/Ceboelha:ana@example.com')
+    expect(uri.searchParams.get('secret')).toBe(RFC_SECRET)
+    expect(uri.searchParams.get('issuer')).toBe('Ceboelha')
+    expect(uri.searchParams.get('digits')).toBe('6')
+    expect(uri.searchParams.get('period')).toBe('30')
+  })
+})
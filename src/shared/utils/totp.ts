@@ -0,0 +1,146 @@
+/**
+ * TOTP Utilities (RFC 6238 / RFC 4226)
+ *
+ * - Base32 secrets compatible with authenticator apps
+ * - 6-digit codes, 30-second steps, HMAC-SHA1
+ * - otpauth:// URIs for QR codes
+ */
+
+import crypto from 'node:crypto'
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const TOTP_DIGITS = 6
+const TOTP_PERIOD_SECONDS = 30
+const SECRET_BYTES = 20 // 160 bits, as recommended by RFC 4226
+
+// =============================================================================
+// Base32
+// =============================================================================
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`)
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+// =============================================================================
+// TOTP
+// =============================================================================
+
+/**
+ * Generate a random base32 secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES))
+}
+
+/**
+ * Current time step (counter) for a timestamp
+ */
+export function getTotpStep(timestampMs: number = Date.now()): number {
+  return Math.floor(timestampMs / 1000 / TOTP_PERIOD_SECONDS)
+}
+
+/**
+ * HOTP code for a counter (RFC 4226 dynamic truncation)
+ */
+function generateHotp(secret: string, counter: number): string {
+  const buffer = Buffer.alloc(8)
+  buffer.writeBigUInt64BE(BigInt(counter))
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(buffer).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+export function generateTotp(secret: string, timestampMs: number = Date.now()): string {
+  return generateHotp(secret, getTotpStep(timestampMs))
+}
+
+/**
+ * Verify a TOTP code allowing ±window steps of clock drift
+ * Returns the matched step (to block reuse) or null if invalid
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  window = 1,
+  timestampMs: number = Date.now(),
+): number | null {
+  if (!/^\d{6}$/.test(code)) return null
+
+  const currentStep = getTotpStep(timestampMs)
+  const expected = Buffer.from(code)
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset
+    const candidate = Buffer.from(generateHotp(secret, step))
+    if (crypto.timingSafeEqual(candidate, expected)) {
+      return step
+    }
+  }
+
+  return null
+}
+
+/**
+ * Build the otpauth:// URI used by authenticator apps (QR code content)
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
@@ -0,0 +1,11 @@
+/**
+ * Test Setup - preloaded by `bun test` (see bunfig.toml)
+ *
+ * Unit tests never connect to MongoDB; these values only satisfy the
+ * environment validation in src/config/env.ts.
+ */
+
+process.env.NODE_ENV ??= 'test'
+process.env.MONGODB_URI ??= 'mongodb://localhost:27017/ceboelha-test'
+process.env.JWT_ACCESS_SECRET ??= 'test-access-secret-0123456789abcdef'
+process.env.JWT_REFRESH_SECRET ??= 'test-refresh-secret-0123456789abcdef'